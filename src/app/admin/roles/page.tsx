@@ -0,0 +1,370 @@
+'use client'
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import Container from "@/components/Container"
+import AccessDenied from "@/components/AccessDenied"
+import { UserButton, useUser } from "@clerk/nextjs"
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth"
+import { useUserRole, isAdminRole } from "@/hooks/useUserRole"
+import { USER_ROLES, USER_ROLE_LABELS, type UserRole } from "@/lib/roles"
+import {
+  listManagedUsers,
+  loadRoleHistory,
+  setUserRole,
+  type ManagedUser,
+  type RoleHistoryEntry,
+} from "@/lib/rolesApi"
+
+export default function AdminRolesPage() {
+  const { isLoaded, isSignedIn } = useUser()
+  const { isFirebaseAuthenticated, error: firebaseError } = useFirebaseAuth()
+  const { role, loading: roleLoading } = useUserRole()
+
+  const waitingForFirebaseAuth = isSignedIn && !isFirebaseAuthenticated && !firebaseError
+  if (!isLoaded || waitingForFirebaseAuth || roleLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="text-lg text-muted-foreground">Loading…</div>
+      </div>
+    )
+  }
+
+  if (!isSignedIn) {
+    return <AccessDenied feature="Roles & Staff" message="Sign in with an admin account to continue." />
+  }
+
+  if (!isAdminRole(role)) {
+    return <AccessDenied feature="Roles & Staff (admin only)" />
+  }
+
+  if (firebaseError) {
+    return <AccessDenied feature="Roles & Staff" message="Firebase not available. Please refresh and try again." />
+  }
+
+  return <RolesInterface />
+}
+
+const formatDateTime = (ms: number | null) => (ms ? new Date(ms).toLocaleString() : "—")
+
+function RolesInterface() {
+  const { user } = useUser()
+
+  // State
+  const [users, setUsers] = useState<ManagedUser[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [pageSize, setPageSize] = useState(50)
+  const [offset, setOffset] = useState(0)
+  const [searchInput, setSearchInput] = useState("")
+  const [search, setSearch] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [savingUid, setSavingUid] = useState<string | null>(null)
+  const [historyUid, setHistoryUid] = useState<string | null>(null)
+  const [history, setHistory] = useState<RoleHistoryEntry[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+
+  const loadUsers = useCallback(async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const result = await listManagedUsers(search, offset)
+      setUsers(result.users)
+      setTotalCount(result.totalCount)
+      setPageSize(result.pageSize)
+    } catch (err) {
+      console.error("Error loading users:", err)
+      setError(err instanceof Error ? err.message : "Failed to load users")
+    } finally {
+      setLoading(false)
+    }
+  }, [search, offset])
+
+  useEffect(() => {
+    loadUsers()
+  }, [loadUsers])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setOffset(0)
+    setSearch(searchInput)
+  }
+
+  const handleRoleChange = async (target: ManagedUser, role: UserRole) => {
+    if (role === target.role) return
+    const label = target.email || target.name || target.uid
+    if (!confirm(`Change ${label} from ${USER_ROLE_LABELS[target.role]} to ${USER_ROLE_LABELS[role]}?`)) {
+      return
+    }
+
+    setSavingUid(target.uid)
+    setError("")
+    setNotice("")
+    try {
+      await setUserRole(target.uid, role)
+      setNotice(`${label} is now ${USER_ROLE_LABELS[role].toLowerCase()}. Their open sessions pick up the change automatically.`)
+      await loadUsers()
+      if (historyUid === target.uid) {
+        const result = await loadRoleHistory(target.uid)
+        setHistory(result.history)
+      }
+    } catch (err) {
+      console.error("Error updating role:", err)
+      setError(err instanceof Error ? err.message : "Failed to update role")
+    } finally {
+      setSavingUid(null)
+    }
+  }
+
+  const toggleHistory = async (uid: string) => {
+    if (historyUid === uid) {
+      setHistoryUid(null)
+      return
+    }
+    setHistoryUid(uid)
+    setHistory([])
+    setHistoryLoading(true)
+    try {
+      const result = await loadRoleHistory(uid)
+      setHistory(result.history)
+    } catch (err) {
+      console.error("Error loading role history:", err)
+      setError(err instanceof Error ? err.message : "Failed to load role history")
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
+  return (
+    <main className="py-6 min-h-screen bg-[#0b1220] text-gray-200">
+      <Container>
+        <div className="max-w-[1100px] mx-auto space-y-6">
+          {/* Header */}
+          <header className="flex flex-col gap-3">
+            <div className="flex items-center gap-3">
+              <Link href="/" className="inline-block">
+                <Image
+                  src="/logo_header.png"
+                  alt="GripRank"
+                  width={4001}
+                  height={1228}
+                  priority
+                  className="h-11 w-auto"
+                />
+              </Link>
+              <span className="text-gray-400">Roles &amp; Staff</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+              <span className="truncate max-w-[240px]">
+                {user?.emailAddresses[0]?.emailAddress || "Signed in"}
+              </span>
+              <UserButton afterSignOutUrl="/" />
+            </div>
+          </header>
+
+          <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5 space-y-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-100">Roles &amp; Staff</h1>
+              <p className="text-sm text-gray-400 mt-1">
+                Grant or revoke GripRank roles. Users without a role are viewers.
+              </p>
+            </div>
+
+            <form onSubmit={handleSearch} className="flex flex-wrap gap-3">
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search by name or email"
+                className="flex-1 min-w-[220px] px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+              />
+              <button
+                type="submit"
+                className="px-6 py-2.5 bg-[#27a9e1] text-[#031726] rounded-lg font-semibold hover:opacity-90 transition-opacity"
+              >
+                Search
+              </button>
+            </form>
+
+            {error && (
+              <div className="rounded-lg bg-red-500/10 border border-red-500/30 px-4 py-3 text-sm text-red-300">
+                {error}
+              </div>
+            )}
+            {notice && (
+              <div className="rounded-lg bg-green-500/10 border border-green-500/30 px-4 py-3 text-sm text-green-300">
+                {notice}
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="bg-[#101a34]">
+                    <th className="border border-[#19bcd6] px-3 py-2 text-left">User</th>
+                    <th className="border border-[#19bcd6] px-3 py-2 text-left">Last sign-in</th>
+                    <th className="border border-[#19bcd6] px-3 py-2 text-left">Role</th>
+                    <th className="border border-[#19bcd6] px-3 py-2 text-left">Last change</th>
+                    <th className="border border-[#19bcd6] px-3 py-2 text-left w-24"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {loading ? (
+                    <tr>
+                      <td colSpan={5} className="border border-[#19bcd6] px-3 py-6 text-center text-gray-400">
+                        Loading users…
+                      </td>
+                    </tr>
+                  ) : users.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="border border-[#19bcd6] px-3 py-6 text-center text-gray-400">
+                        No users found
+                      </td>
+                    </tr>
+                  ) : (
+                    users.map((managed) => (
+                      <UserRows
+                        key={managed.uid}
+                        managed={managed}
+                        isSelf={managed.uid === user?.id}
+                        saving={savingUid === managed.uid}
+                        historyOpen={historyUid === managed.uid}
+                        history={history}
+                        historyLoading={historyLoading}
+                        onRoleChange={(role) => handleRoleChange(managed, role)}
+                        onToggleHistory={() => toggleHistory(managed.uid)}
+                      />
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {totalCount > pageSize && (
+              <div className="flex items-center justify-between text-sm text-gray-400">
+                <span>
+                  {offset + 1}–{Math.min(offset + pageSize, totalCount)} of {totalCount}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setOffset(Math.max(0, offset - pageSize))}
+                    disabled={loading || offset === 0}
+                    className="px-3 py-1.5 border border-[#19bcd6] rounded-lg hover:border-[#27a9e1] disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Previous
+                  </button>
+                  <button
+                    onClick={() => setOffset(offset + pageSize)}
+                    disabled={loading || offset + pageSize >= totalCount}
+                    className="px-3 py-1.5 border border-[#19bcd6] rounded-lg hover:border-[#27a9e1] disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+
+          {/* Back Link */}
+          <div className="text-center">
+            <Link
+              href="/boulder/admin"
+              className="text-sm text-[#27a9e1] hover:text-[#19bcd6] hover:underline"
+            >
+              ← Back to Admin Dashboard
+            </Link>
+          </div>
+        </div>
+      </Container>
+    </main>
+  )
+}
+
+function UserRows({
+  managed,
+  isSelf,
+  saving,
+  historyOpen,
+  history,
+  historyLoading,
+  onRoleChange,
+  onToggleHistory,
+}: {
+  managed: ManagedUser
+  isSelf: boolean
+  saving: boolean
+  historyOpen: boolean
+  history: RoleHistoryEntry[]
+  historyLoading: boolean
+  onRoleChange: (role: UserRole) => void
+  onToggleHistory: () => void
+}) {
+  return (
+    <>
+      <tr>
+        <td className="border border-[#19bcd6] px-3 py-2">
+          <div className="font-semibold text-gray-100">
+            {managed.name || managed.email || managed.uid}
+            {isSelf && <span className="ml-2 text-xs text-gray-400">(you)</span>}
+          </div>
+          {managed.name && managed.email && <div className="text-xs text-gray-400">{managed.email}</div>}
+        </td>
+        <td className="border border-[#19bcd6] px-3 py-2 text-gray-300">{formatDateTime(managed.lastSignInAt)}</td>
+        <td className="border border-[#19bcd6] px-3 py-2">
+          <select
+            value={managed.role}
+            onChange={(e) => onRoleChange(e.target.value as UserRole)}
+            disabled={saving || isSelf}
+            title={isSelf ? "You cannot change your own role" : undefined}
+            className="px-3 py-1.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1] disabled:opacity-60"
+          >
+            {USER_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {USER_ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+          {saving && <span className="ml-2 text-xs text-gray-400">Saving…</span>}
+        </td>
+        <td className="border border-[#19bcd6] px-3 py-2 text-xs text-gray-400">
+          {managed.updatedAtMs ? (
+            <>
+              {formatDateTime(managed.updatedAtMs)}
+              <br />
+              by {managed.updatedByEmail || managed.updatedBy || "unknown"}
+            </>
+          ) : (
+            "—"
+          )}
+        </td>
+        <td className="border border-[#19bcd6] px-3 py-2">
+          <button onClick={onToggleHistory} className="text-xs text-[#27a9e1] hover:underline">
+            {historyOpen ? "Hide history" : "History"}
+          </button>
+        </td>
+      </tr>
+      {historyOpen && (
+        <tr>
+          <td colSpan={5} className="border border-[#19bcd6] px-3 py-2 bg-[#101a34]/60 text-xs text-gray-300">
+            {historyLoading ? (
+              "Loading history…"
+            ) : history.length === 0 ? (
+              "No role changes recorded"
+            ) : (
+              <ul className="space-y-1">
+                {history.map((entry) => (
+                  <li key={entry.id}>
+                    {formatDateTime(entry.changedAtMs)}: {USER_ROLE_LABELS[entry.fromRole]} →{" "}
+                    {USER_ROLE_LABELS[entry.toRole]} by {entry.changedByEmail || entry.changedBy || "unknown"}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  )
+}
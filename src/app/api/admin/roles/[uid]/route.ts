@@ -0,0 +1,46 @@
+import type { Timestamp } from "firebase-admin/firestore"
+import { NextResponse } from "next/server"
+import { getAdminDb } from "@/lib/firebase/admin"
+import { requireAdmin } from "@/lib/firebase/requireAdmin"
+import { parseUserRole } from "@/lib/roles"
+
+const HISTORY_LIMIT = 25
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error }, { status })
+
+// Most recent role changes for one user.
+export async function GET(req: Request, { params }: { params: Promise<{ uid: string }> }) {
+  try {
+    const caller = await requireAdmin(req)
+    if ("error" in caller) {
+      return errorResponse(caller.error, caller.status)
+    }
+
+    const { uid } = await params
+    const snapshot = await getAdminDb()
+      .collection("roles")
+      .doc(uid)
+      .collection("history")
+      .orderBy("changedAt", "desc")
+      .limit(HISTORY_LIMIT)
+      .get()
+
+    const history = snapshot.docs.map((doc) => {
+      const data = doc.data()
+      return {
+        id: doc.id,
+        fromRole: parseUserRole(data.fromRole),
+        toRole: parseUserRole(data.toRole),
+        changedAtMs: (data.changedAt as Timestamp | undefined)?.toMillis?.() ?? null,
+        changedBy: typeof data.changedBy === "string" ? data.changedBy : null,
+        changedByEmail: typeof data.changedByEmail === "string" ? data.changedByEmail : null,
+      }
+    })
+
+    return NextResponse.json({ uid, history })
+  } catch (error) {
+    console.error("[Admin Roles] Failed to load role history:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
@@ -0,0 +1,145 @@
+import { clerkClient } from "@clerk/nextjs/server"
+import { FieldValue, type Timestamp } from "firebase-admin/firestore"
+import { NextResponse } from "next/server"
+import { getAdminAuth, getAdminDb } from "@/lib/firebase/admin"
+import { requireAdmin } from "@/lib/firebase/requireAdmin"
+import { isUserRole, parseUserRole } from "@/lib/roles"
+
+type RoleBody = {
+  uid?: string
+  role?: string
+}
+
+const PAGE_SIZE = 50
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error }, { status })
+
+const timestampMs = (value: unknown) =>
+  value && typeof (value as Timestamp).toMillis === "function" ? (value as Timestamp).toMillis() : null
+
+const primaryEmail = (user: { primaryEmailAddressId: string | null; emailAddresses: { id: string; emailAddress: string }[] }) =>
+  user.emailAddresses.find((email) => email.id === user.primaryEmailAddressId)?.emailAddress ||
+  user.emailAddresses[0]?.emailAddress ||
+  null
+
+// Lists Clerk users, newest first, with their GripRank role and who last changed it.
+export async function GET(req: Request) {
+  try {
+    const caller = await requireAdmin(req)
+    if ("error" in caller) {
+      return errorResponse(caller.error, caller.status)
+    }
+
+    const url = new URL(req.url)
+    const search = url.searchParams.get("query")?.trim() || undefined
+    const offset = Math.max(0, parseInt(url.searchParams.get("offset") || "0", 10) || 0)
+
+    const clerk = await clerkClient()
+    const { data: clerkUsers, totalCount } = await clerk.users.getUserList({
+      limit: PAGE_SIZE,
+      offset,
+      orderBy: "-created_at",
+      query: search,
+    })
+
+    const adminDb = getAdminDb()
+    const roleSnaps = clerkUsers.length
+      ? await adminDb.getAll(...clerkUsers.map((user) => adminDb.collection("roles").doc(user.id)))
+      : []
+    const roleData = new Map(roleSnaps.map((snap) => [snap.id, snap.exists ? snap.data() || {} : null]))
+
+    const users = clerkUsers.map((user) => {
+      const data = roleData.get(user.id)
+      return {
+        uid: user.id,
+        name: [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username || null,
+        email: primaryEmail(user),
+        lastSignInAt: user.lastSignInAt,
+        role: parseUserRole(data?.role),
+        updatedAtMs: timestampMs(data?.updatedAt),
+        updatedBy: typeof data?.updatedBy === "string" ? data.updatedBy : null,
+        updatedByEmail: typeof data?.updatedByEmail === "string" ? data.updatedByEmail : null,
+      }
+    })
+
+    return NextResponse.json({ users, totalCount, offset, pageSize: PAGE_SIZE })
+  } catch (error) {
+    console.error("[Admin Roles] Failed to list users:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
+
+// Grants or revokes a role. The change is logged to roles/{uid}/history and
+// the user's refresh tokens are revoked; signed-in clients watch their roles
+// doc and fetch a token with the new claims.
+export async function POST(req: Request) {
+  try {
+    const caller = await requireAdmin(req)
+    if ("error" in caller) {
+      return errorResponse(caller.error, caller.status)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as RoleBody
+    const { uid, role } = body
+    if (!uid || !isUserRole(role)) {
+      return errorResponse("uid and a valid role are required", 400)
+    }
+    if (uid === caller.uid && role !== "admin") {
+      return errorResponse("You cannot remove your own admin role", 400)
+    }
+
+    const clerk = await clerkClient()
+    let callerEmail: string | null = null
+    try {
+      const [, callerUser] = await Promise.all([clerk.users.getUser(uid), clerk.users.getUser(caller.uid)])
+      callerEmail = primaryEmail(callerUser)
+    } catch (error) {
+      console.warn("[Admin Roles] Clerk user lookup failed:", error)
+      return errorResponse("User not found", 404)
+    }
+
+    const adminDb = getAdminDb()
+    const roleRef = adminDb.collection("roles").doc(uid)
+    const result = await adminDb.runTransaction(async (tx) => {
+      const roleSnap = await tx.get(roleRef)
+      const previousRole = parseUserRole(roleSnap.data()?.role)
+      if (previousRole === role) return { changed: false, previousRole }
+
+      tx.set(
+        roleRef,
+        {
+          role,
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedBy: caller.uid,
+          updatedByEmail: callerEmail,
+        },
+        { merge: true }
+      )
+      tx.create(roleRef.collection("history").doc(), {
+        fromRole: previousRole,
+        toRole: role,
+        changedAt: FieldValue.serverTimestamp(),
+        changedBy: caller.uid,
+        changedByEmail: callerEmail,
+      })
+      return { changed: true, previousRole }
+    })
+
+    if (result.changed) {
+      try {
+        await getAdminAuth().revokeRefreshTokens(uid)
+      } catch (error) {
+        // Users who never opened a Firebase session have no tokens to revoke
+        if ((error as { code?: string }).code !== "auth/user-not-found") {
+          console.error("[Admin Roles] Failed to revoke refresh tokens:", error)
+        }
+      }
+    }
+
+    return NextResponse.json({ uid, role, previousRole: result.previousRole, changed: result.changed })
+  } catch (error) {
+    console.error("[Admin Roles] Failed to update role:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
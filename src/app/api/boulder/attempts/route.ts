@@ -0,0 +1,218 @@
+import { FieldValue } from "firebase-admin/firestore"
+import { NextResponse } from "next/server"
+import { getAdminAuth, getAdminDb } from "@/lib/firebase/admin"
+import { isTwoZoneComp } from "@/lib/boulder/scoring"
+import { createAuditId } from "@/lib/boulder/attemptAudit"
+import { getRoundStatus } from "@/lib/roundStatus"
+import { canChiefJudgeComp } from "@/lib/compMembers"
+import { parseUserRole } from "@/lib/roles"
+import { judgeScopeAllows, parseJudgeScope } from "@/lib/boulder/judgeAccess"
+import {
+  BOULDER_ROUND_IDS,
+  getCategoryRounds,
+  isBoulderRound,
+  routeCollectionForRound,
+  startlistPathForRound,
+} from "@/lib/boulder/rounds"
+
+type AttemptBody = {
+  compId?: string
+  categoryId?: string
+  athleteId?: string
+  routeId?: string
+  round?: string
+  detailIndex?: string | number
+  symbol?: string
+  stationId?: string
+  clientAtMs?: number
+  offline?: boolean
+  idempotencyKey?: string
+}
+
+const ALLOWED_ROLES = ["judge", "staff", "admin"]
+const SYMBOLS = ["1", "Z", "H", "T"]
+const CLOSED_STATUSES = ["locked", "archived", "deleted"]
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/
+
+// gRPC ALREADY_EXISTS, raised by `create()` when the doc id is taken; the
+// attempt and its audit entry are created together, so either both exist or neither
+const ALREADY_EXISTS = 6
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error }, { status })
+
+export async function POST(req: Request) {
+  try {
+    const authHeader = req.headers.get("authorization") || ""
+    const idToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7).trim() : ""
+    if (!idToken) {
+      return errorResponse("Unauthorized", 401)
+    }
+
+    let claims: Record<string, unknown>
+    let uid: string
+    try {
+      const decoded = await getAdminAuth().verifyIdToken(idToken)
+      claims = decoded as unknown as Record<string, unknown>
+      uid = decoded.uid
+    } catch (error) {
+      console.warn("[Boulder Attempts] Invalid ID token:", error)
+      return errorResponse("Unauthorized", 401)
+    }
+
+    const role = typeof claims.role === "string" ? claims.role : "viewer"
+    if (!ALLOWED_ROLES.includes(role)) {
+      return errorResponse("Forbidden", 403)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as AttemptBody
+    const { compId, categoryId, athleteId, routeId, symbol } = body
+    const round = body.round || "qualification"
+    const idempotencyKey = req.headers.get("idempotency-key") || body.idempotencyKey
+
+    if (!compId || !categoryId || !athleteId || !routeId || !symbol) {
+      return errorResponse("compId, categoryId, athleteId, routeId and symbol are required", 400)
+    }
+    if (!isBoulderRound(round)) {
+      return errorResponse(`round must be one of ${BOULDER_ROUND_IDS.join(", ")}`, 400)
+    }
+    if (!SYMBOLS.includes(symbol)) {
+      return errorResponse("Invalid symbol", 400)
+    }
+    if (idempotencyKey && !IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+      return errorResponse("Invalid idempotency key", 400)
+    }
+
+    const adminDb = getAdminDb()
+    const compRef = adminDb.collection("boulderComps").doc(compId)
+    const categoryRef = compRef.collection("categories").doc(categoryId)
+    const routeCollection = routeCollectionForRound(round)
+
+    const [compSnap, categorySnap, routeSnap, athleteSnap] = await Promise.all([
+      compRef.get(),
+      categoryRef.get(),
+      categoryRef.collection(routeCollection).doc(routeId).get(),
+      compRef.collection("athletes").doc(athleteId).get(),
+    ])
+
+    if (!compSnap.exists) {
+      return errorResponse("Competition not found", 404)
+    }
+    const compData = compSnap.data() || {}
+
+    // Passcode judges are scoped to one competition, passcode version, station
+    // scope and unrevoked session, the same checks the Firestore rules apply to
+    // direct writes
+    if (claims.authType === "judge-passcode") {
+      const expiresAt = typeof claims.sessionExpiresAt === "number" ? claims.sessionExpiresAt : 0
+      if (
+        claims.compId !== compId ||
+        !compData.judgePasscodeVersion ||
+        claims.passcodeVersion !== compData.judgePasscodeVersion ||
+        Date.now() > expiresAt
+      ) {
+        return errorResponse("Session expired or passcode changed", 403)
+      }
+      const sessionSnap = await compRef.collection("judgeSessions").doc(uid).get()
+      if (typeof sessionSnap.data()?.revokedAtMs === "number") {
+        return errorResponse("Session revoked", 403)
+      }
+      if (!judgeScopeAllows(parseJudgeScope(claims.scopeRound, claims.scopeRouteIds), round, routeId)) {
+        return errorResponse("This judge code does not cover this round or route", 403)
+      }
+    } else if (!canChiefJudgeComp(compData, uid, parseUserRole(role))) {
+      // Signed-in judges and staff only score competitions they are members of
+      return errorResponse("Forbidden", 403)
+    }
+
+    if (CLOSED_STATUSES.includes(String(compData.status || "").toLowerCase())) {
+      return errorResponse("Competition is locked", 409)
+    }
+    if (!categorySnap.exists) {
+      return errorResponse("Category not found", 404)
+    }
+    if (!getCategoryRounds(categorySnap.data()).some((r) => r.id === round)) {
+      return errorResponse("This category has no such round", 400)
+    }
+    // Passcode judges may only write while the round is open; staff and chief
+    // judges can still correct provisional results. Official results are frozen until reopened.
+    const roundStatus = getRoundStatus(categorySnap.data(), round)
+    if (roundStatus === "official" || (roundStatus === "provisional" && claims.authType === "judge-passcode")) {
+      return errorResponse(`Round results are ${roundStatus}`, 409)
+    }
+    if (!routeSnap.exists) {
+      return errorResponse("Route not found", 404)
+    }
+    if (routeSnap.data()?.locked === true) {
+      return errorResponse("Route is locked", 409)
+    }
+    if (!athleteSnap.exists || athleteSnap.data()?.categoryId !== categoryId) {
+      return errorResponse("Athlete not found in this category", 404)
+    }
+    if (symbol === "H" && !isTwoZoneComp(compData.zoneCount)) {
+      return errorResponse("High zone is not enabled for this competition", 400)
+    }
+
+    const startlistPath = startlistPathForRound(round)
+    if (startlistPath) {
+      const startlistSnap = await adminDb.doc(`${categoryRef.path}/${startlistPath}`).get()
+      const entries = (startlistSnap.data()?.entries || []) as { athleteId?: string }[]
+      if (!entries.some((entry) => entry?.athleteId === athleteId)) {
+        return errorResponse(`Athlete is not in the ${round} startlist`, 404)
+      }
+    }
+
+    const attemptsRef = compRef.collection("attempts")
+    const attemptRef = idempotencyKey ? attemptsRef.doc(idempotencyKey) : attemptsRef.doc()
+    const detailIndex = round === "qualification" ? body.detailIndex ?? routeSnap.data()?.detailIndex : undefined
+
+    try {
+      const batch = adminDb.batch()
+      batch.create(attemptRef, {
+        compId,
+        categoryId,
+        athleteId,
+        routeId,
+        problemId: routeId, // alias for routeId
+        round,
+        ...(detailIndex != null ? { detailIndex } : {}),
+        symbol,
+        stationId: body.stationId || `station_${routeId}`,
+        enteredBy: uid,
+        clientAt: FieldValue.serverTimestamp(),
+        clientAtMs: typeof body.clientAtMs === "number" ? body.clientAtMs : Date.now(),
+        offline: body.offline === true,
+        source: "api",
+      })
+      batch.create(compRef.collection("attemptAudit").doc(createAuditId(attemptRef.id)), {
+        compId,
+        attemptId: attemptRef.id,
+        action: "create",
+        athleteId,
+        categoryId,
+        routeId,
+        round,
+        detailIndex: detailIndex ?? null,
+        beforeSymbol: null,
+        afterSymbol: symbol,
+        actorUid: uid,
+        actorRole: role,
+        reason: "Attempts API",
+        createdAt: FieldValue.serverTimestamp(),
+        createdAtMs: Date.now(),
+      })
+      await batch.commit()
+    } catch (error) {
+      // A replay of an attempt that already landed is a success, not a duplicate
+      if ((error as { code?: number } | null)?.code === ALREADY_EXISTS) {
+        return NextResponse.json({ attemptId: attemptRef.id, duplicate: true })
+      }
+      throw error
+    }
+
+    return NextResponse.json({ attemptId: attemptRef.id, duplicate: false }, { status: 201 })
+  } catch (error) {
+    console.error("[Boulder Attempts] POST error:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
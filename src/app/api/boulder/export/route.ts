@@ -1,85 +1,135 @@
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@clerk/nextjs/server"
 import { getAdminDb } from "@/lib/firebase/admin"
-import { buildLeaderboardRows, type AttemptDoc, type AthleteInfo, type DetailMeta } from "@/lib/boulder/scoring"
-
-// Helper to check if user is staff/admin
-async function isStaffOrAdmin() {
+import {
+  buildLeaderboardRows,
+  getScoringFormat,
+  isTwoZoneComp,
+  rankRows,
+  type AttemptDoc,
+  type AthleteInfo,
+  type DetailMeta,
+  type RankTieBreak,
+  type ScoringFormat,
+} from "@/lib/boulder/scoring"
+import { ROUND_STATUS_LABELS, getRoundStatus, type RoundStatus } from "@/lib/roundStatus"
+import {
+  BOULDER_ROUND_LABELS,
+  getCategoryRounds,
+  isBoulderRound,
+  previousRanksFromStartlist,
+  previousRoundOf,
+  routeCollectionForRound,
+  startlistPathForRound,
+} from "@/lib/boulder/rounds"
+import {
+  athleteGroup,
+  getQualificationRanking,
+  isGroupRankedRow,
+  rankRowsByGroup,
+} from "@/lib/boulder/groupRanking"
+import { canManageComp } from "@/lib/compMembers"
+import { parseUserRole } from "@/lib/roles"
+
+// Helper to check if the user manages this competition (admin, or a staff member of it)
+async function canExportComp(compId: string) {
   const { userId } = await auth()
   if (!userId) return false
 
   try {
     const adminDb = getAdminDb()
-    const roleDoc = await adminDb.collection("roles").doc(userId).get()
-    const role = roleDoc.data()?.role
-    return role === "staff" || role === "admin"
+    const [roleDoc, compDoc] = await Promise.all([
+      adminDb.collection("roles").doc(userId).get(),
+      adminDb.doc(`boulderComps/${compId}`).get(),
+    ])
+    return canManageComp(compDoc.data(), userId, parseUserRole(roleDoc.data()?.role))
   } catch (error) {
     console.error("Error checking role:", error)
     return false
   }
 }
 
-// Generate CSV from leaderboard rows
+const TIE_BREAK_LABELS: Record<RankTieBreak, string> = {
+  countback: "Countback",
+  attempts: "Fewest attempts",
+  reverseRoutes: "Reverse route order",
+}
+
+// Generate CSV from leaderboard rows. `groups` ranks the category with the
+// combined group ranking; `groupColumns` adds the group columns, which every
+// category in the export shares once any of them is ranked by group.
 function generateQualificationCSV(
   rows: ReturnType<typeof buildLeaderboardRows>,
   categoryName: string,
-  routes: { id: string; label: string }[]
+  roundStatus: RoundStatus,
+  routes: { id: string; label: string }[],
+  scoringFormat: ScoringFormat,
+  twoZones: boolean,
+  groups: Map<string, string> | null,
+  groupColumns: boolean
 ) {
   // CSV Header
   const headers = [
     "Rank",
+    "Tie Break",
     "Category",
+    "Status",
     "Bib",
     "Name",
     "Team",
-    "Total Points",
+    ...(groupColumns ? ["Group", "Group Rank"] : []),
+    scoringFormat.usesPoints ? "Total Points" : scoringFormat.totalLabel,
     "Tops",
+    ...(twoZones ? ["High Zones"] : []),
     "Zones",
-    ...routes.map((r) => `${r.label} (Points)`),
+    "Top Attempts",
+    ...(twoZones ? ["High Zone Attempts"] : []),
+    "Zone Attempts",
+    ...(scoringFormat.usesPoints ? routes.map((r) => `${r.label} (Points)`) : []),
     ...routes.map((r) => `${r.label} (Attempts)`),
   ]
 
-  // Build rank lookup with ties
-  const rankedRows = rows.map((row, index, arr) => {
-    // Find rank considering ties
-    let rank = 1
-    for (let i = 0; i < index; i++) {
-      const prev = arr[i]
-      if (
-        prev.points !== row.points ||
-        prev.tops !== row.tops ||
-        prev.zones !== row.zones
-      ) {
-        rank = i + 2
-      }
-    }
-    return { ...row, rank }
-  })
+  const rankedRows = groups
+    ? rankRowsByGroup(rows, { format: scoringFormat, groupByAthlete: groups })
+    : rankRows(rows, { format: scoringFormat })
 
   // CSV Rows
-  const csvRows = rankedRows.map((row) => {
-    const routePoints = routes.map((r) => {
-      const route = row.routes.find((rt) => rt.routeId === r.id)
-      return route ? route.pointValue.toFixed(1) : "0.0"
-    })
+  const csvRows = rankedRows.map((entry) => {
+    const { row, rank, tieBreak } = entry
+    const routePoints = scoringFormat.usesPoints
+      ? routes.map((r) => {
+          const route = row.routes.find((rt) => rt.routeId === r.id)
+          return route ? route.pointValue.toFixed(1) : "0.0"
+        })
+      : []
 
     const routeAttempts = routes.map((r) => {
       const route = row.routes.find((rt) => rt.routeId === r.id)
       if (!route) return "-"
       if (route.topAttempt) return `T${route.topAttempt}`
+      if (twoZones && route.highZoneAttempt) return `H${route.highZoneAttempt}`
       if (route.zoneAttempt) return `Z${route.zoneAttempt}`
       return "-"
     })
 
+    const groupValues = isGroupRankedRow(entry) ? [entry.group, entry.groupRank] : ["", ""]
+
     return [
-      row.rank,
+      rank,
+      tieBreak ? TIE_BREAK_LABELS[tieBreak] : "",
       categoryName,
+      ROUND_STATUS_LABELS[roundStatus],
       row.bib || "",
       row.name,
       row.team || "",
-      row.points.toFixed(1),
+      ...(groupColumns ? groupValues : []),
+      scoringFormat.formatTotal(row),
       row.tops,
+      ...(twoZones ? [row.highZones] : []),
       row.zones,
+      row.topAttempts,
+      ...(twoZones ? [row.highZoneAttempts] : []),
+      row.zoneAttempts,
       ...routePoints,
       ...routeAttempts,
     ].map((val) => `"${String(val).replace(/"/g, '""')}"`)
@@ -90,72 +140,77 @@ function generateQualificationCSV(
   )
 }
 
-// Generate Finals CSV
-function generateFinalsCSV(
+// Generate CSV for a round after qualification (semifinal or final)
+function generateStartlistRoundCSV(
   rows: ReturnType<typeof buildLeaderboardRows>,
   categoryName: string,
+  roundStatus: RoundStatus,
   routes: { id: string; label: string }[],
-  finalistData: Map<string, { qualifierRank: number }>
+  previousRanks: Map<string, number>,
+  previousRoundLabel: string,
+  scoringFormat: ScoringFormat,
+  twoZones: boolean
 ) {
   // CSV Header
   const headers = [
     "Rank",
+    "Tie Break",
     "Category",
+    "Status",
     "Bib",
     "Name",
     "Team",
-    "Qualifier Rank",
-    "Total Points",
+    `${previousRoundLabel} Rank`,
+    scoringFormat.usesPoints ? "Total Points" : scoringFormat.totalLabel,
     "Tops",
+    ...(twoZones ? ["High Zones"] : []),
     "Zones",
-    ...routes.map((r) => `${r.label} (Points)`),
+    "Top Attempts",
+    ...(twoZones ? ["High Zone Attempts"] : []),
+    "Zone Attempts",
+    ...(scoringFormat.usesPoints ? routes.map((r) => `${r.label} (Points)`) : []),
     ...routes.map((r) => `${r.label} (Attempts)`),
   ]
 
-  // Build rank lookup with ties
-  const rankedRows = rows.map((row, index, arr) => {
-    let rank = 1
-    for (let i = 0; i < index; i++) {
-      const prev = arr[i]
-      if (
-        prev.points !== row.points ||
-        prev.tops !== row.tops ||
-        prev.zones !== row.zones
-      ) {
-        rank = i + 2
-      }
-    }
-    return { ...row, rank }
-  })
+  // Ties count back to the previous round's rank
+  const rankedRows = rankRows(rows, { format: scoringFormat, previousRanks })
 
   // CSV Rows
-  const csvRows = rankedRows.map((row) => {
-    const routePoints = routes.map((r) => {
-      const route = row.routes.find((rt) => rt.routeId === r.id)
-      return route ? route.pointValue.toFixed(1) : "0.0"
-    })
+  const csvRows = rankedRows.map(({ row, rank, tieBreak }) => {
+    const routePoints = scoringFormat.usesPoints
+      ? routes.map((r) => {
+          const route = row.routes.find((rt) => rt.routeId === r.id)
+          return route ? route.pointValue.toFixed(1) : "0.0"
+        })
+      : []
 
     const routeAttempts = routes.map((r) => {
       const route = row.routes.find((rt) => rt.routeId === r.id)
       if (!route) return "-"
       if (route.topAttempt) return `T${route.topAttempt}`
+      if (twoZones && route.highZoneAttempt) return `H${route.highZoneAttempt}`
       if (route.zoneAttempt) return `Z${route.zoneAttempt}`
       return "-"
     })
 
-    const finalistInfo = finalistData.get(row.athleteId)
-    const qualifierRank = finalistInfo?.qualifierRank || "-"
+    const previousRank = previousRanks.get(row.athleteId) || "-"
 
     return [
-      row.rank,
+      rank,
+      tieBreak ? TIE_BREAK_LABELS[tieBreak] : "",
       categoryName,
+      ROUND_STATUS_LABELS[roundStatus],
       row.bib || "",
       row.name,
       row.team || "",
-      qualifierRank,
-      row.points.toFixed(1),
+      previousRank,
+      scoringFormat.formatTotal(row),
       row.tops,
+      ...(twoZones ? [row.highZones] : []),
       row.zones,
+      row.topAttempts,
+      ...(twoZones ? [row.highZoneAttempts] : []),
+      row.zoneAttempts,
       ...routePoints,
       ...routeAttempts,
     ].map((val) => `"${String(val).replace(/"/g, '""')}"`)
@@ -168,12 +223,6 @@ function generateFinalsCSV(
 
 export async function GET(request: NextRequest) {
   try {
-    // Check auth
-    const authorized = await isStaffOrAdmin()
-    if (!authorized) {
-      return new NextResponse("Unauthorized", { status: 401 })
-    }
-
     // Get query params
     const searchParams = request.nextUrl.searchParams
     const compId = searchParams.get("compId")
@@ -184,12 +233,22 @@ export async function GET(request: NextRequest) {
       return new NextResponse("Missing compId parameter", { status: 400 })
     }
 
-    if (round !== "qualification" && round !== "final") {
+    // Check auth
+    const authorized = await canExportComp(compId)
+    if (!authorized) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    if (!isBoulderRound(round)) {
       return new NextResponse("Invalid round parameter", { status: 400 })
     }
 
     const db = getAdminDb()
 
+    const compDoc = await db.doc(`boulderComps/${compId}`).get()
+    const scoringFormat = getScoringFormat(compDoc.data()?.scoringFormat)
+    const twoZones = isTwoZoneComp(compDoc.data()?.zoneCount)
+
     // Load categories
     const categoriesSnapshot = await db
       .collection(`boulderComps/${compId}/categories`)
@@ -200,6 +259,9 @@ export async function GET(request: NextRequest) {
       id: doc.id,
       name: doc.data().name as string | undefined,
       order: doc.data().order as number | undefined,
+      roundStatus: getRoundStatus(doc.data(), round),
+      rounds: getCategoryRounds(doc.data()),
+      qualificationRanking: getQualificationRanking(doc.data()),
     }))
 
     // Filter categories if specific category requested
@@ -211,15 +273,21 @@ export async function GET(request: NextRequest) {
       return new NextResponse("No categories found", { status: 404 })
     }
 
+    const groupColumns =
+      round === "qualification" && targetCategories.some((c) => c.qualificationRanking === "combined")
+
     let allCSVRows: string[] = []
 
     // Process each category
     for (const category of targetCategories) {
       const catId = category.id
       const catName = category.name || catId
+      if (!category.rounds.some((r) => r.id === round)) {
+        continue // Skip categories that do not run this round
+      }
 
       // Load routes
-      const routeCollection = round === "final" ? "finalRoutes" : "routes"
+      const routeCollection = routeCollectionForRound(round)
       const routesSnapshot = await db
         .collection(`boulderComps/${compId}/categories/${catId}/${routeCollection}`)
         .orderBy("order", "asc")
@@ -253,12 +321,14 @@ export async function GET(request: NextRequest) {
         .get()
 
       const athletesById = new Map<string, AthleteInfo>()
+      const groups = new Map<string, string>()
       athletesSnapshot.docs.forEach((doc) => {
         athletesById.set(doc.id, {
           bib: doc.data().bib,
           name: doc.data().name,
           team: doc.data().team,
         })
+        groups.set(doc.id, athleteGroup(doc.data()))
       })
 
       // Build details meta for scoring
@@ -276,31 +346,39 @@ export async function GET(request: NextRequest) {
         attemptDocs: attempts,
         athletesById,
         detailsMeta,
+        format: scoringFormat,
       })
 
       // Generate CSV for this category
       let csv: string
-      if (round === "final") {
-        // Load finalist data
+      const startlistPath = startlistPathForRound(round)
+      if (startlistPath) {
         const startlistDoc = await db
-          .doc(`boulderComps/${compId}/categories/${catId}/finals/startlist`)
+          .doc(`boulderComps/${compId}/categories/${catId}/${startlistPath}`)
           .get()
-
-        const finalistData = new Map<string, { qualifierRank: number }>()
-        if (startlistDoc.exists) {
-          const entries = startlistDoc.data()?.entries || []
-          entries.forEach(
-            (entry: { athleteId: string; qualifierRank: number }) => {
-              finalistData.set(entry.athleteId, {
-                qualifierRank: entry.qualifierRank,
-              })
-            }
-          )
-        }
-
-        csv = generateFinalsCSV(rows, catName, routes, finalistData)
+        const previousRound = previousRoundOf(category.rounds, round)
+
+        csv = generateStartlistRoundCSV(
+          rows,
+          catName,
+          category.roundStatus,
+          routes,
+          previousRanksFromStartlist(startlistDoc.data()),
+          BOULDER_ROUND_LABELS[previousRound?.id ?? "qualification"],
+          scoringFormat,
+          twoZones
+        )
       } else {
-        csv = generateQualificationCSV(rows, catName, routes)
+        csv = generateQualificationCSV(
+          rows,
+          catName,
+          category.roundStatus,
+          routes,
+          scoringFormat,
+          twoZones,
+          category.qualificationRanking === "combined" ? groups : null,
+          groupColumns
+        )
       }
 
       // Add category rows to all rows
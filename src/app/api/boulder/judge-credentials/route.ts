@@ -0,0 +1,157 @@
+import crypto from "crypto"
+import { FieldValue } from "firebase-admin/firestore"
+import { NextResponse } from "next/server"
+import { getAdminAuth, getAdminDb } from "@/lib/firebase/admin"
+import { revokeJudgeSessions } from "@/lib/firebase/judgeSessions"
+import { parseJudgeScope } from "@/lib/boulder/judgeAccess"
+import { canManageComp } from "@/lib/compMembers"
+import { judgePasscodeError } from "@/lib/judgePasscode"
+import { hashPasscode, passcodeLookupKey, verifyPasscode } from "@/lib/passcodeHash"
+import { parseUserRole } from "@/lib/roles"
+
+type CredentialBody = {
+  compId?: string
+  credentialId?: string
+  label?: string
+  passcode?: string
+  round?: unknown
+  routeIds?: unknown
+}
+
+const LABEL_MAX_LENGTH = 60
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error }, { status })
+
+async function authorize(req: Request) {
+  const authHeader = req.headers.get("authorization") || ""
+  const idToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7).trim() : ""
+  if (!idToken) return null
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(idToken)
+    if (decoded.authType === "judge-passcode") return null
+    return { uid: decoded.uid, role: parseUserRole(decoded.role) }
+  } catch (error) {
+    console.warn("[Judge Credentials] Invalid ID token:", error)
+    return null
+  }
+}
+
+// Adds a station passcode. Sign-in tries the shared passcode first, so a
+// station passcode must differ from it and from every other station passcode.
+export async function POST(req: Request) {
+  try {
+    const caller = await authorize(req)
+    if (!caller) {
+      return errorResponse("Unauthorized", 401)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as CredentialBody
+    const { compId, passcode } = body
+    const label = typeof body.label === "string" ? body.label.trim().slice(0, LABEL_MAX_LENGTH) : ""
+    if (!compId || !label || !passcode) {
+      return errorResponse("compId, label and passcode are required", 400)
+    }
+    const passcodeError = judgePasscodeError(passcode)
+    if (passcodeError) {
+      return errorResponse(passcodeError, 400)
+    }
+
+    const adminDb = getAdminDb()
+    const compRef = adminDb.collection("boulderComps").doc(compId)
+    const [compSnap, sharedSnap, credentialsSnap] = await Promise.all([
+      compRef.get(),
+      compRef.collection("private").doc("judgePasscode").get(),
+      compRef.collection("judgeCredentials").get(),
+    ])
+    if (!compSnap.exists) {
+      return errorResponse("Competition not found", 404)
+    }
+    const compData = compSnap.data() || {}
+    if (!canManageComp(compData, caller.uid, caller.role)) {
+      return errorResponse("You cannot manage this competition", 403)
+    }
+
+    // Keyed credentials are compared by lookup key; only the shared passcode
+    // and credentials saved without a key need a scrypt check
+    const lookupKey = passcodeLookupKey(compId, passcode)
+    if (lookupKey && credentialsSnap.docs.some((d) => d.data().passcodeLookupKey === lookupKey)) {
+      return errorResponse("That passcode is already in use for this competition", 409)
+    }
+    const existingHashes = [
+      sharedSnap.data()?.judgePasscodeHash,
+      ...credentialsSnap.docs
+        .filter((d) => !lookupKey || typeof d.data().passcodeLookupKey !== "string")
+        .map((d) => d.data().passcodeHash),
+    ].filter((hash): hash is string => typeof hash === "string")
+    for (const hash of existingHashes) {
+      if ((await verifyPasscode(passcode, hash)).valid) {
+        return errorResponse("That passcode is already in use for this competition", 409)
+      }
+    }
+
+    const scope = parseJudgeScope(body.round, body.routeIds)
+    const credentialRef = compRef.collection("judgeCredentials").doc()
+    await credentialRef.set({
+      label,
+      passcodeHash: await hashPasscode(passcode),
+      ...(lookupKey ? { passcodeLookupKey: lookupKey } : {}),
+      round: scope.round,
+      routeIds: scope.routeIds,
+      createdAt: FieldValue.serverTimestamp(),
+      createdAtMs: Date.now(),
+      createdBy: caller.uid,
+    })
+    // Judge tokens carry the competition's passcode version, so a competition
+    // with station passcodes only still needs one
+    if (typeof compData.judgePasscodeVersion !== "string") {
+      await compRef.set(
+        { judgePasscodeVersion: crypto.randomUUID(), judgePasscodeUpdatedAt: FieldValue.serverTimestamp() },
+        { merge: true }
+      )
+    }
+
+    return NextResponse.json({ credentialId: credentialRef.id, label, round: scope.round, routeIds: scope.routeIds })
+  } catch (error) {
+    console.error("[Judge Credentials] Failed to add credential:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
+
+// Deletes a station passcode and revokes the sessions signed in with it.
+export async function DELETE(req: Request) {
+  try {
+    const caller = await authorize(req)
+    if (!caller) {
+      return errorResponse("Unauthorized", 401)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as CredentialBody
+    const { compId, credentialId } = body
+    if (!compId || !credentialId) {
+      return errorResponse("compId and credentialId are required", 400)
+    }
+
+    const compRef = getAdminDb().collection("boulderComps").doc(compId)
+    const compSnap = await compRef.get()
+    if (!compSnap.exists) {
+      return errorResponse("Competition not found", 404)
+    }
+    if (!canManageComp(compSnap.data(), caller.uid, caller.role)) {
+      return errorResponse("You cannot manage this competition", 403)
+    }
+
+    const sessionsSnap = await compRef.collection("judgeSessions").where("credentialId", "==", credentialId).get()
+    const openSessions = sessionsSnap.docs
+      .filter((d) => typeof d.data().revokedAtMs !== "number" && (d.data().expiresAtMs || 0) > Date.now())
+      .map((d) => d.id)
+
+    await compRef.collection("judgeCredentials").doc(credentialId).delete()
+    await revokeJudgeSessions(compId, openSessions, caller.uid)
+
+    return NextResponse.json({ credentialId, revokedSessions: openSessions.length })
+  } catch (error) {
+    console.error("[Judge Credentials] Failed to delete credential:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server"
+import { getAdminAuth, getAdminDb } from "@/lib/firebase/admin"
+import { revokeJudgeSessions } from "@/lib/firebase/judgeSessions"
+import { canManageComp } from "@/lib/compMembers"
+import { parseUserRole } from "@/lib/roles"
+
+type SessionBody = {
+  compId?: string
+  uid?: string
+}
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error }, { status })
+
+async function authorize(req: Request) {
+  const authHeader = req.headers.get("authorization") || ""
+  const idToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7).trim() : ""
+  if (!idToken) return null
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(idToken)
+    if (decoded.authType === "judge-passcode") return null
+    return { uid: decoded.uid, role: parseUserRole(decoded.role) }
+  } catch (error) {
+    console.warn("[Judge Sessions] Invalid ID token:", error)
+    return null
+  }
+}
+
+// Revokes one passcode judge session. Other judges keep working, as the shared
+// passcode and its version stay the same.
+export async function DELETE(req: Request) {
+  try {
+    const caller = await authorize(req)
+    if (!caller) {
+      return errorResponse("Unauthorized", 401)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as SessionBody
+    const { compId, uid } = body
+    if (!compId || !uid) {
+      return errorResponse("compId and uid are required", 400)
+    }
+
+    const compRef = getAdminDb().collection("boulderComps").doc(compId)
+    const [compSnap, sessionSnap] = await Promise.all([
+      compRef.get(),
+      compRef.collection("judgeSessions").doc(uid).get(),
+    ])
+    if (!compSnap.exists) {
+      return errorResponse("Competition not found", 404)
+    }
+    if (!canManageComp(compSnap.data(), caller.uid, caller.role)) {
+      return errorResponse("You cannot manage this competition", 403)
+    }
+    if (!sessionSnap.exists) {
+      return errorResponse("Judge session not found", 404)
+    }
+    if (typeof sessionSnap.data()?.revokedAtMs === "number") {
+      return NextResponse.json({ uid, revoked: true })
+    }
+
+    await revokeJudgeSessions(compId, [uid], caller.uid)
+    return NextResponse.json({ uid, revoked: true })
+  } catch (error) {
+    console.error("[Judge Sessions] Failed to revoke session:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
@@ -0,0 +1,172 @@
+import { clerkClient } from "@clerk/nextjs/server"
+import { FieldValue } from "firebase-admin/firestore"
+import { NextResponse } from "next/server"
+import { getAdminAuth, getAdminDb } from "@/lib/firebase/admin"
+import {
+  MEMBER_COMP_COLLECTIONS,
+  canEditCompMembers,
+  emptyCompMembers,
+  isCompMemberRole,
+  isMemberCompType,
+  memberListKey,
+  parseCompMembers,
+  type CompMembers,
+} from "@/lib/compMembers"
+import { parseUserRole } from "@/lib/roles"
+
+type MemberBody = {
+  compId?: string
+  // "boulder" (default) or "speed"
+  compType?: string
+  email?: string
+  uid?: string
+  memberRole?: string
+}
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error }, { status })
+
+// Membership is edited by admins and the competition's owners, with a Clerk
+// session token; passcode judges never qualify.
+async function authorize(req: Request) {
+  const authHeader = req.headers.get("authorization") || ""
+  const idToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7).trim() : ""
+  if (!idToken) return null
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(idToken)
+    if (decoded.authType === "judge-passcode") return null
+    return { uid: decoded.uid, role: parseUserRole(decoded.role) }
+  } catch (error) {
+    console.warn("[Boulder Members] Invalid ID token:", error)
+    return null
+  }
+}
+
+const compCollection = (compType: string | undefined) =>
+  compType === undefined ? MEMBER_COMP_COLLECTIONS.boulder : isMemberCompType(compType) ? MEMBER_COMP_COLLECTIONS[compType] : null
+
+const withoutUid = (members: CompMembers, uid: string): CompMembers => ({
+  owners: members.owners.filter((id) => id !== uid),
+  staff: members.staff.filter((id) => id !== uid),
+  chiefJudges: members.chiefJudges.filter((id) => id !== uid),
+})
+
+// Adds a Clerk user, looked up by email, to the competition as owner, staff
+// or chief judge. A user holds one membership role per competition, so this
+// also moves existing members between roles.
+export async function POST(req: Request) {
+  try {
+    const caller = await authorize(req)
+    if (!caller) {
+      return errorResponse("Unauthorized", 401)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as MemberBody
+    const compId = body.compId
+    const email = body.email?.trim().toLowerCase()
+    const collection = compCollection(body.compType)
+    if (!compId || !email || !collection || !isCompMemberRole(body.memberRole)) {
+      return errorResponse("compId, email and a valid memberRole are required", 400)
+    }
+    const memberRole = body.memberRole
+    if (body.compType === "speed" && memberRole === "chiefJudge") {
+      return errorResponse("Speed competitions have no chief judges", 400)
+    }
+
+    const clerk = await clerkClient()
+    const { data: matches } = await clerk.users.getUserList({ emailAddress: [email], limit: 1 })
+    const member = matches[0]
+    if (!member) {
+      return errorResponse("No GripRank account uses that email. Ask them to sign up first.", 404)
+    }
+
+    const adminDb = getAdminDb()
+    const compRef = adminDb.collection(collection).doc(compId)
+    const result = await adminDb.runTransaction(async (tx) => {
+      const compSnap = await tx.get(compRef)
+      if (!compSnap.exists) return { error: "Competition not found", status: 404 }
+      const compData = compSnap.data() || {}
+      if (!canEditCompMembers(compData, caller.uid, caller.role)) {
+        return { error: "Only the competition's owners or an admin can change its team", status: 403 }
+      }
+
+      // Only admins reach a competition without a team; its owner comes first
+      if (!parseCompMembers(compData) && memberRole !== "owner") {
+        return { error: "Add the competition's owner first", status: 400 }
+      }
+      const current = parseCompMembers(compData) || emptyCompMembers()
+      if (member.id === caller.uid && current.owners.includes(caller.uid) && memberRole !== "owner") {
+        return { error: "You cannot remove your own ownership", status: 400 }
+      }
+      const members = withoutUid(current, member.id)
+      members[memberListKey(memberRole)].push(member.id)
+
+      tx.update(compRef, {
+        members,
+        [`memberEmails.${member.id}`]: email,
+        membersUpdatedAt: FieldValue.serverTimestamp(),
+        membersUpdatedBy: caller.uid,
+      })
+      return { members }
+    })
+
+    if ("error" in result) {
+      return errorResponse(result.error as string, result.status as number)
+    }
+    return NextResponse.json({ uid: member.id, email, memberRole, members: result.members })
+  } catch (error) {
+    console.error("[Boulder Members] Failed to add member:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
+
+// Removes a user from every membership list of the competition.
+export async function DELETE(req: Request) {
+  try {
+    const caller = await authorize(req)
+    if (!caller) {
+      return errorResponse("Unauthorized", 401)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as MemberBody
+    const { compId, uid } = body
+    const collection = compCollection(body.compType)
+    if (!compId || !uid || !collection) {
+      return errorResponse("compId and uid are required", 400)
+    }
+
+    const adminDb = getAdminDb()
+    const compRef = adminDb.collection(collection).doc(compId)
+    const result = await adminDb.runTransaction(async (tx) => {
+      const compSnap = await tx.get(compRef)
+      if (!compSnap.exists) return { error: "Competition not found", status: 404 }
+      const compData = compSnap.data() || {}
+      if (!canEditCompMembers(compData, caller.uid, caller.role)) {
+        return { error: "Only the competition's owners or an admin can change its team", status: 403 }
+      }
+
+      const current = parseCompMembers(compData)
+      if (!current) return { members: null }
+      const members = withoutUid(current, uid)
+      if (current.owners.includes(uid) && members.owners.length === 0 && caller.role !== "admin") {
+        return { error: "A competition needs at least one owner", status: 400 }
+      }
+
+      tx.update(compRef, {
+        members,
+        [`memberEmails.${uid}`]: FieldValue.delete(),
+        membersUpdatedAt: FieldValue.serverTimestamp(),
+        membersUpdatedBy: caller.uid,
+      })
+      return { members }
+    })
+
+    if ("error" in result) {
+      return errorResponse(result.error as string, result.status as number)
+    }
+    return NextResponse.json({ uid, members: result.members })
+  } catch (error) {
+    console.error("[Boulder Members] Failed to remove member:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
@@ -1,8 +1,20 @@
 import crypto from "crypto"
 import { auth as clerkAuth } from "@clerk/nextjs/server"
-import { FieldValue } from "firebase-admin/firestore"
+import { FieldValue, type DocumentReference, type QueryDocumentSnapshot } from "firebase-admin/firestore"
 import { NextResponse } from "next/server"
 import { getAdminAuth, getAdminDb } from "@/lib/firebase/admin"
+import {
+  clearPasscodeFailures,
+  compThrottleKey,
+  ipThrottleKey,
+  reservePasscodeAttempt,
+  settlePasscodeSuccess,
+} from "@/lib/firebase/passcodeThrottle"
+import { JUDGE_NAME_MAX_LENGTH, isRestrictedScope, parseJudgeScope, type JudgeScope } from "@/lib/boulder/judgeAccess"
+import { canManageComp } from "@/lib/compMembers"
+import { judgePasscodeError } from "@/lib/judgePasscode"
+import { hashPasscode, passcodeLookupKey, verifyPasscode } from "@/lib/passcodeHash"
+import { parseUserRole } from "@/lib/roles"
 
 const SESSION_DURATION_MS = 6 * 60 * 60 * 1000
 
@@ -11,10 +23,40 @@ type JudgePasscodeDoc = {
   judgePasscodeVersion?: string
 }
 
+type MatchedCredential = {
+  id: string
+  label: string
+  scope: JudgeScope
+}
+
 const ROLE_STAFF_OR_ADMIN = ["staff", "admin"]
 
-const hashPasscode = (passcode: string) =>
-  crypto.createHash("sha256").update(passcode).digest("hex")
+const COLLECTION_BY_DISCIPLINE: Record<string, string> = {
+  boulder: "boulderComps",
+  speed: "speedCompetitions",
+  lead: "leadComps",
+}
+
+const resolveDiscipline = (discipline?: string) =>
+  discipline && COLLECTION_BY_DISCIPLINE[discipline] ? discipline : "boulder"
+
+// The client controls the start of x-forwarded-for; only the hop our platform
+// appends (or its own header on Vercel) identifies the caller
+const clientIp = (req: Request) =>
+  req.headers.get("x-vercel-forwarded-for")?.split(",")[0]?.trim() ||
+  req.headers.get("x-forwarded-for")?.split(",").pop()?.trim() ||
+  "unknown"
+
+const lockedResponse = (lockedUntilMs: number) => {
+  const retryAfterSeconds = Math.max(1, Math.ceil((lockedUntilMs - Date.now()) / 1000))
+  return NextResponse.json(
+    {
+      error: `Too many incorrect codes. Try again in ${Math.ceil(retryAfterSeconds / 60)} min.`,
+      lockedUntilMs,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  )
+}
 
 const buildJudgeUid = (compId: string) => {
   const sessionId = crypto.randomBytes(8).toString("hex")
@@ -22,10 +64,55 @@ const buildJudgeUid = (compId: string) => {
   return base.length > 120 ? base.slice(0, 120) : base
 }
 
+// Station passcodes of a boulder competition (see src/lib/boulder/judgeAccess.ts).
+// Only the credential with a matching lookup key is scrypt-verified; credentials
+// saved without a key are verified one by one and get their key on a match.
+const matchCredential = async (
+  compRef: DocumentReference,
+  passcode: string
+): Promise<MatchedCredential | null> => {
+  const credentials = compRef.collection("judgeCredentials")
+  const lookupKey = passcodeLookupKey(compRef.id, passcode)
+  const toMatch = (credentialDoc: QueryDocumentSnapshot): MatchedCredential => {
+    const data = credentialDoc.data()
+    return {
+      id: credentialDoc.id,
+      label: typeof data.label === "string" ? data.label : credentialDoc.id,
+      scope: parseJudgeScope(data.round, data.routeIds),
+    }
+  }
+
+  if (lookupKey) {
+    const keyed = await credentials.where("passcodeLookupKey", "==", lookupKey).limit(1).get()
+    const credentialDoc = keyed.docs[0]
+    if (credentialDoc) {
+      const passcodeHash = credentialDoc.data().passcodeHash
+      if (typeof passcodeHash === "string" && (await verifyPasscode(passcode, passcodeHash)).valid) {
+        return toMatch(credentialDoc)
+      }
+    }
+  }
+
+  const snapshot = await credentials.get()
+  for (const credentialDoc of snapshot.docs) {
+    const data = credentialDoc.data()
+    if (typeof data.passcodeHash !== "string") continue
+    if (lookupKey && typeof data.passcodeLookupKey === "string") continue
+    const { valid } = await verifyPasscode(passcode, data.passcodeHash)
+    if (valid) {
+      if (lookupKey) await credentialDoc.ref.update({ passcodeLookupKey: lookupKey })
+      return toMatch(credentialDoc)
+    }
+  }
+  return null
+}
+
 export async function POST(req: Request) {
   try {
     const body = await req.json().catch(() => ({}))
     const { compId, passcode, discipline } = body as { compId?: string; passcode?: string; discipline?: string }
+    const judgeName =
+      typeof body.judgeName === "string" ? body.judgeName.trim().slice(0, JUDGE_NAME_MAX_LENGTH) : ""
 
     if (!compId || !passcode) {
       return NextResponse.json(
@@ -35,19 +122,43 @@ export async function POST(req: Request) {
     }
 
     const adminDb = getAdminDb()
-    const collectionName = discipline === "speed" ? "speedCompetitions" : "boulderComps"
-    const compRef = adminDb.collection(collectionName).doc(compId)
+    const resolvedDiscipline = resolveDiscipline(discipline)
+    const collection = COLLECTION_BY_DISCIPLINE[resolvedDiscipline]
+    const compRef = adminDb.collection(collection).doc(compId)
+    const ip = clientIp(req)
+    const ipKey = ipThrottleKey(ip)
+    const compKey = compThrottleKey(collection, compId)
 
-    const [compSnap, passcodeSnap] = await Promise.all([
-      compRef.get(),
-      compRef.collection("private").doc("judgePasscode").get(),
-    ])
+    // Reserved before the slow verify, so parallel guesses count immediately
+    const reservation = await reservePasscodeAttempt(ipKey, compKey)
+    if (!reservation.allowed) {
+      return lockedResponse(reservation.lockedUntilMs)
+    }
+
+    const passcodeRef = compRef.collection("private").doc("judgePasscode")
+    const [compSnap, passcodeSnap] = await Promise.all([compRef.get(), passcodeRef.get()])
 
-    const genericError = () =>
-      NextResponse.json({ error: "Invalid competition or passcode." }, { status: 401 })
+    // The reserved attempt already counts towards the lockout; failures
+    // against an existing competition are also logged for its staff.
+    const rejectAttempt = async () => {
+      const lockedUntil = reservation.lockedUntilMs
+      if (compSnap.exists) {
+        await compRef.collection("passcodeFailures").add({
+          at: FieldValue.serverTimestamp(),
+          atMs: Date.now(),
+          ip,
+          userAgent: (req.headers.get("user-agent") || "").slice(0, 300),
+          lockedUntilMs: lockedUntil || null,
+        })
+      }
+      if (lockedUntil) {
+        return lockedResponse(lockedUntil)
+      }
+      return NextResponse.json({ error: "Invalid competition or passcode." }, { status: 401 })
+    }
 
     if (!compSnap.exists) {
-      return genericError()
+      return rejectAttempt()
     }
 
     const compData = compSnap.data() || {}
@@ -55,31 +166,68 @@ export async function POST(req: Request) {
     const storedHash = passcodeData.judgePasscodeHash
     const passcodeVersion = compData.judgePasscodeVersion || passcodeData.judgePasscodeVersion
 
-    if (!storedHash || !passcodeVersion) {
-      return genericError()
+    if (!passcodeVersion) {
+      return rejectAttempt()
     }
 
-    const incomingHash = hashPasscode(passcode)
-    if (incomingHash !== storedHash) {
-      return genericError()
+    const { valid, needsRehash } = storedHash
+      ? await verifyPasscode(passcode, storedHash)
+      : { valid: false, needsRehash: false }
+    // Boulder competitions may also have station passcodes with a narrower scope
+    const credential = !valid && resolvedDiscipline === "boulder" ? await matchCredential(compRef, passcode) : null
+    if (!valid && !credential) {
+      return rejectAttempt()
     }
 
-    const expiresAt = Date.now() + SESSION_DURATION_MS
-    const customToken = await getAdminAuth().createCustomToken(buildJudgeUid(compId), {
+    await settlePasscodeSuccess(ipKey, compKey)
+    // Move hashes from before scrypt (or older scrypt parameters) over on the
+    // next good sign-in; the version stays, so open sessions are unaffected.
+    if (needsRehash) {
+      await passcodeRef.set(
+        { judgePasscodeHash: await hashPasscode(passcode), rehashedAt: FieldValue.serverTimestamp() },
+        { merge: true }
+      )
+    }
+
+    const now = Date.now()
+    const expiresAt = now + SESSION_DURATION_MS
+    const judgeUid = buildJudgeUid(compId)
+    const scope = credential?.scope
+    const customToken = await getAdminAuth().createCustomToken(judgeUid, {
       role: "judge",
       authType: "judge-passcode",
       compId,
       passcodeVersion,
       sessionExpiresAt: expiresAt,
+      ...(credential ? { credentialId: credential.id } : {}),
+      ...(scope && isRestrictedScope(scope) ? { scopeRound: scope.round, scopeRouteIds: scope.routeIds } : {}),
     })
 
+    // Boulder sessions are listed to staff, who can revoke them one at a time
+    if (resolvedDiscipline === "boulder") {
+      await compRef.collection("judgeSessions").doc(judgeUid).set({
+        judgeName,
+        credentialId: credential?.id || null,
+        credentialLabel: credential?.label || "Shared passcode",
+        scopeRound: scope?.round || null,
+        scopeRouteIds: scope?.routeIds || [],
+        createdAt: FieldValue.serverTimestamp(),
+        createdAtMs: now,
+        expiresAtMs: expiresAt,
+        ip,
+        station: null,
+        lastWriteAtMs: null,
+        revokedAtMs: null,
+      })
+    }
+
     return NextResponse.json({
       token: customToken,
       compId,
       passcodeVersion,
       sessionExpiresAt: expiresAt,
       sessionDurationMs: SESSION_DURATION_MS,
-      discipline: collectionName === "speedCompetitions" ? "speed" : "boulder",
+      discipline: resolvedDiscipline,
     })
   } catch (error) {
     console.error("[Judge Passcode] POST error:", error)
@@ -104,11 +252,9 @@ export async function PUT(req: Request) {
       )
     }
 
-    if (passcode.length < 4) {
-      return NextResponse.json(
-        { error: "Passcode must be at least 4 characters" },
-        { status: 400 }
-      )
+    const passcodeError = judgePasscodeError(passcode)
+    if (passcodeError) {
+      return NextResponse.json({ error: passcodeError }, { status: 400 })
     }
 
     const adminDb = getAdminDb()
@@ -120,15 +266,28 @@ export async function PUT(req: Request) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 })
     }
 
-    const collectionName = discipline === "speed" ? "speedCompetitions" : "boulderComps"
-    const compRef = adminDb.collection(collectionName).doc(compId)
+    const resolvedDiscipline = resolveDiscipline(discipline)
+    const compRef = adminDb.collection(COLLECTION_BY_DISCIPLINE[resolvedDiscipline]).doc(compId)
     const compSnap = await compRef.get()
     if (!compSnap.exists) {
       return NextResponse.json({ error: "Competition not found" }, { status: 404 })
     }
+    // Boulder and speed competitions are managed by their own staff only
+    if (resolvedDiscipline !== "lead" && !canManageComp(compSnap.data(), userId, parseUserRole(role))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    // Sign-in tries the shared passcode first, so matching a station passcode
+    // would hand that station's judges an unscoped token
+    if (resolvedDiscipline === "boulder" && (await matchCredential(compRef, passcode))) {
+      return NextResponse.json(
+        { error: "That passcode is already in use as a station passcode" },
+        { status: 409 }
+      )
+    }
 
     const passcodeVersion = crypto.randomUUID()
-    const passcodeHash = hashPasscode(passcode)
+    const passcodeHash = await hashPasscode(passcode)
 
     await Promise.all([
       compRef.set(
@@ -147,13 +306,15 @@ export async function PUT(req: Request) {
         },
         { merge: true }
       ),
+      // A new code lifts a competition-wide slowdown
+      clearPasscodeFailures(compThrottleKey(COLLECTION_BY_DISCIPLINE[resolvedDiscipline], compId)),
     ])
 
     return NextResponse.json({
       compId,
       passcodeVersion,
       sessionDurationMs: SESSION_DURATION_MS,
-      discipline: collectionName === "speedCompetitions" ? "speed" : "boulder",
+      discipline: resolvedDiscipline,
     })
   } catch (error) {
     console.error("[Judge Passcode] PUT error:", error)
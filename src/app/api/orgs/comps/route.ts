@@ -0,0 +1,140 @@
+import { FieldValue } from "firebase-admin/firestore"
+import { NextResponse } from "next/server"
+import { getAdminAuth, getAdminDb } from "@/lib/firebase/admin"
+import { canManageComp } from "@/lib/compMembers"
+import {
+  ORG_COMP_COLLECTIONS,
+  canManageOrg,
+  isOrgCompType,
+  orgStaffUids,
+  parseOrgMembers,
+} from "@/lib/organisations"
+import { parseUserRole } from "@/lib/roles"
+
+type OrgCompBody = {
+  orgId?: string
+  compType?: string
+  compId?: string
+}
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error }, { status })
+
+async function authorize(req: Request) {
+  const authHeader = req.headers.get("authorization") || ""
+  const idToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7).trim() : ""
+  if (!idToken) return null
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(idToken)
+    if (decoded.authType === "judge-passcode") return null
+    return { uid: decoded.uid, role: parseUserRole(decoded.role) }
+  } catch (error) {
+    console.warn("[Org Comps] Invalid ID token:", error)
+    return null
+  }
+}
+
+// Moves a competition into an organisation. The caller must manage both the
+// competition and the organisation; a competition that already belongs to
+// another organisation has to be removed from it first.
+export async function POST(req: Request) {
+  try {
+    const caller = await authorize(req)
+    if (!caller) {
+      return errorResponse("Unauthorized", 401)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as OrgCompBody
+    const { orgId, compId } = body
+    if (!orgId || !compId || !isOrgCompType(body.compType)) {
+      return errorResponse("orgId, compId and a valid compType are required", 400)
+    }
+    const compType = body.compType
+
+    const adminDb = getAdminDb()
+    const orgRef = adminDb.collection("organisations").doc(orgId)
+    const compRef = adminDb.collection(ORG_COMP_COLLECTIONS[compType]).doc(compId)
+    const result = await adminDb.runTransaction(async (tx) => {
+      const [orgSnap, compSnap] = await Promise.all([tx.get(orgRef), tx.get(compRef)])
+      if (!orgSnap.exists) return { error: "Organisation not found", status: 404 }
+      if (!compSnap.exists) return { error: "Competition not found", status: 404 }
+      const orgData = orgSnap.data() || {}
+      const compData = compSnap.data() || {}
+      if (!canManageOrg(orgData, caller.uid, caller.role)) {
+        return { error: "You are not staff of this organisation", status: 403 }
+      }
+      if (!canManageComp(compData, caller.uid, caller.role)) {
+        return { error: "You cannot manage this competition", status: 403 }
+      }
+      if (compData.orgId && compData.orgId !== orgId) {
+        return { error: "This competition belongs to another organisation", status: 409 }
+      }
+
+      tx.update(compRef, {
+        orgId,
+        orgStaff: orgStaffUids(parseOrgMembers(orgData)),
+        updatedAt: FieldValue.serverTimestamp(),
+      })
+      return { orgId }
+    })
+
+    if ("error" in result) {
+      return errorResponse(result.error as string, result.status as number)
+    }
+    return NextResponse.json({ compType, compId, orgId: result.orgId })
+  } catch (error) {
+    console.error("[Org Comps] Failed to add competition:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
+
+// Removes a competition from its organisation.
+export async function DELETE(req: Request) {
+  try {
+    const caller = await authorize(req)
+    if (!caller) {
+      return errorResponse("Unauthorized", 401)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as OrgCompBody
+    const { compId } = body
+    if (!compId || !isOrgCompType(body.compType)) {
+      return errorResponse("compId and a valid compType are required", 400)
+    }
+    const compType = body.compType
+
+    const adminDb = getAdminDb()
+    const compRef = adminDb.collection(ORG_COMP_COLLECTIONS[compType]).doc(compId)
+    const result = await adminDb.runTransaction(async (tx) => {
+      const compSnap = await tx.get(compRef)
+      if (!compSnap.exists) return { error: "Competition not found", status: 404 }
+      const compData = compSnap.data() || {}
+      const orgId = typeof compData.orgId === "string" ? compData.orgId : ""
+      if (!orgId) return { orgId: null }
+
+      const orgSnap = await tx.get(adminDb.collection("organisations").doc(orgId))
+      // Removing from a deleted organisation only needs the competition itself
+      if (orgSnap.exists && !canManageOrg(orgSnap.data(), caller.uid, caller.role)) {
+        return { error: "You are not staff of this organisation", status: 403 }
+      }
+      if (!canManageComp(compData, caller.uid, caller.role)) {
+        return { error: "You cannot manage this competition", status: 403 }
+      }
+
+      tx.update(compRef, {
+        orgId: FieldValue.delete(),
+        orgStaff: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+      })
+      return { orgId: null }
+    })
+
+    if ("error" in result) {
+      return errorResponse(result.error as string, result.status as number)
+    }
+    return NextResponse.json({ compType, compId, orgId: null })
+  } catch (error) {
+    console.error("[Org Comps] Failed to remove competition:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
@@ -0,0 +1,162 @@
+import { clerkClient } from "@clerk/nextjs/server"
+import { FieldValue, type DocumentData } from "firebase-admin/firestore"
+import { NextResponse } from "next/server"
+import { getAdminAuth, getAdminDb } from "@/lib/firebase/admin"
+import {
+  ORG_COMP_COLLECTIONS,
+  canEditOrgMembers,
+  isOrgMemberRole,
+  orgStaffUids,
+  parseOrgMembers,
+  type OrgMembers,
+} from "@/lib/organisations"
+import { parseUserRole } from "@/lib/roles"
+
+type MemberBody = {
+  orgId?: string
+  email?: string
+  uid?: string
+  memberRole?: string
+}
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error }, { status })
+
+// Org membership is edited by admins and the organisation's owners, with a
+// Clerk session token; passcode judges never qualify.
+async function authorize(req: Request) {
+  const authHeader = req.headers.get("authorization") || ""
+  const idToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7).trim() : ""
+  if (!idToken) return null
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(idToken)
+    if (decoded.authType === "judge-passcode") return null
+    return { uid: decoded.uid, role: parseUserRole(decoded.role) }
+  } catch (error) {
+    console.warn("[Org Members] Invalid ID token:", error)
+    return null
+  }
+}
+
+const withoutUid = (members: OrgMembers, uid: string): OrgMembers => ({
+  owners: members.owners.filter((id) => id !== uid),
+  staff: members.staff.filter((id) => id !== uid),
+})
+
+type MemberChange = { members: OrgMembers; emailUpdate: Record<string, unknown> }
+
+// Writes the new membership and refreshes `orgStaff` on every competition of
+// the organisation in the same transaction.
+async function saveMembers(
+  orgId: string,
+  callerUid: string,
+  change: (orgData: DocumentData) => MemberChange | { error: string; status: number }
+) {
+  const adminDb = getAdminDb()
+  const orgRef = adminDb.collection("organisations").doc(orgId)
+  const compsQueries = Object.values(ORG_COMP_COLLECTIONS).map((collection) =>
+    adminDb.collection(collection).where("orgId", "==", orgId)
+  )
+  return adminDb.runTransaction(async (tx) => {
+    const orgSnap = await tx.get(orgRef)
+    if (!orgSnap.exists) return { error: "Organisation not found", status: 404 }
+    const compsSnaps = await Promise.all(compsQueries.map((query) => tx.get(query)))
+
+    const result = change(orgSnap.data() || {})
+    if ("error" in result) return result
+
+    tx.update(orgRef, {
+      members: result.members,
+      ...result.emailUpdate,
+      membersUpdatedAt: FieldValue.serverTimestamp(),
+      membersUpdatedBy: callerUid,
+    })
+    const orgStaff = orgStaffUids(result.members)
+    compsSnaps.forEach((compsSnap) => compsSnap.docs.forEach((compDoc) => tx.update(compDoc.ref, { orgStaff })))
+    return { members: result.members }
+  })
+}
+
+// Adds a Clerk user, looked up by email, to the organisation as owner or
+// staff. A user holds one role per organisation, so this also moves existing
+// members between roles.
+export async function POST(req: Request) {
+  try {
+    const caller = await authorize(req)
+    if (!caller) {
+      return errorResponse("Unauthorized", 401)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as MemberBody
+    const orgId = body.orgId
+    const email = body.email?.trim().toLowerCase()
+    if (!orgId || !email || !isOrgMemberRole(body.memberRole)) {
+      return errorResponse("orgId, email and a valid memberRole are required", 400)
+    }
+    const memberRole = body.memberRole
+
+    const clerk = await clerkClient()
+    const { data: matches } = await clerk.users.getUserList({ emailAddress: [email], limit: 1 })
+    const member = matches[0]
+    if (!member) {
+      return errorResponse("No GripRank account uses that email. Ask them to sign up first.", 404)
+    }
+
+    const result = await saveMembers(orgId, caller.uid, (orgData) => {
+      if (!canEditOrgMembers(orgData, caller.uid, caller.role)) {
+        return { error: "Only the organisation's owners or an admin can change its staff", status: 403 }
+      }
+      const current = parseOrgMembers(orgData)
+      if (member.id === caller.uid && current.owners.includes(caller.uid) && memberRole !== "owner") {
+        return { error: "You cannot remove your own ownership", status: 400 }
+      }
+      const members = withoutUid(current, member.id)
+      members[memberRole === "owner" ? "owners" : "staff"].push(member.id)
+      return { members, emailUpdate: { [`memberEmails.${member.id}`]: email } }
+    })
+
+    if ("error" in result) {
+      return errorResponse(result.error as string, result.status as number)
+    }
+    return NextResponse.json({ uid: member.id, email, memberRole, members: result.members })
+  } catch (error) {
+    console.error("[Org Members] Failed to add member:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
+
+// Removes a user from the organisation.
+export async function DELETE(req: Request) {
+  try {
+    const caller = await authorize(req)
+    if (!caller) {
+      return errorResponse("Unauthorized", 401)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as MemberBody
+    const { orgId, uid } = body
+    if (!orgId || !uid) {
+      return errorResponse("orgId and uid are required", 400)
+    }
+
+    const result = await saveMembers(orgId, caller.uid, (orgData) => {
+      if (!canEditOrgMembers(orgData, caller.uid, caller.role)) {
+        return { error: "Only the organisation's owners or an admin can change its staff", status: 403 }
+      }
+      const current = parseOrgMembers(orgData)
+      const members = withoutUid(current, uid)
+      if (current.owners.includes(uid) && members.owners.length === 0 && caller.role !== "admin") {
+        return { error: "An organisation needs at least one owner", status: 400 }
+      }
+      return { members, emailUpdate: { [`memberEmails.${uid}`]: FieldValue.delete() } }
+    })
+
+    if ("error" in result) {
+      return errorResponse(result.error as string, result.status as number)
+    }
+    return NextResponse.json({ uid, members: result.members })
+  } catch (error) {
+    console.error("[Org Members] Failed to remove member:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
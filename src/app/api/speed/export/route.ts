@@ -6,21 +6,28 @@ import {
   buildQualifierStandings,
   bracketOrder,
   formatMs,
+  formatReactionMs,
   laneResultLabel,
   type FinalsRounds,
   type SpeedQualifierResult,
   type SpeedTimingPrecision,
 } from "@/lib/speed/scoring"
+import { ROUND_STATUS_LABELS, getRoundStatus } from "@/lib/roundStatus"
+import { canManageComp } from "@/lib/compMembers"
+import { parseUserRole } from "@/lib/roles"
 
-async function isStaffOrAdmin() {
+// Helper to check if the user manages this competition (admin, or a staff member of it)
+async function canExportComp(compId: string) {
   const { userId } = await auth()
   if (!userId) return false
 
   try {
     const adminDb = getAdminDb()
-    const roleDoc = await adminDb.collection("roles").doc(userId).get()
-    const role = roleDoc.data()?.role
-    return role === "staff" || role === "admin"
+    const [roleDoc, compDoc] = await Promise.all([
+      adminDb.collection("roles").doc(userId).get(),
+      adminDb.doc(`speedCompetitions/${compId}`).get(),
+    ])
+    return canManageComp(compDoc.data(), userId, parseUserRole(roleDoc.data()?.role))
   } catch (error) {
     console.error("Error checking role:", error)
     return false
@@ -41,12 +48,12 @@ function requireParam(params: URLSearchParams, key: string) {
 
 export async function GET(req: NextRequest) {
   try {
-    if (!(await isStaffOrAdmin())) {
+    const params = req.nextUrl.searchParams
+    const compId = requireParam(params, "compId")
+    if (!(await canExportComp(compId))) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const params = req.nextUrl.searchParams
-    const compId = requireParam(params, "compId")
     const categoryId = requireParam(params, "categoryId")
     const type = (params.get("type") || "qualifiers") as "startlist" | "qualifiers" | "finals" | "overall"
 
@@ -109,20 +116,27 @@ export async function GET(req: NextRequest) {
         results: resultsMap,
         precision,
       })
-      const csvRows = qualRows.map((row) =>
-        [
+      const qualStatus = ROUND_STATUS_LABELS[getRoundStatus(catData, "qualification")]
+      const csvRows = qualRows.map((row) => {
+        const result = resultsMap.get(row.athleteId)
+        return [
           row.rank,
           catData.name || categoryId,
+          qualStatus,
           row.name,
           row.team || "",
           row.bestLabel,
           row.secondLabel,
+          formatReactionMs(result?.runA?.reactionMs),
+          formatReactionMs(result?.runB?.reactionMs),
         ]
           .map(csvValue)
           .join(",")
-      )
+      })
       const csv = [
-        ["Rank", "Category", "Athlete", "Team", "Best", "Second"].map(csvValue).join(","),
+        ["Rank", "Category", "Status", "Athlete", "Team", "Best", "Second", "Run A RT", "Run B RT"]
+          .map(csvValue)
+          .join(","),
         ...csvRows,
       ].join("\n")
       return new NextResponse(csv, {
@@ -153,6 +167,7 @@ export async function GET(req: NextRequest) {
         .sort((a, b) => (a.matchIndex || 0) - (b.matchIndex || 0))
     }
 
+    const finalsStatus = ROUND_STATUS_LABELS[getRoundStatus(catData, "finals")]
     if (type === "finals") {
       const order = bracketOrder(finalsMeta.size as number | undefined)
       const rows: string[] = []
@@ -178,12 +193,15 @@ export async function GET(req: NextRequest) {
           rows.push(
             [
               rid,
+              finalsStatus,
               m.matchIndex || "",
               nameOf(m.athleteA),
               showA,
+              formatReactionMs(m.laneA?.reactionMs),
               m.winner === "A" ? "Yes" : "",
               nameOf(m.athleteB),
               showB,
+              formatReactionMs(m.laneB?.reactionMs),
               m.winner === "B" ? "Yes" : "",
             ]
               .map(csvValue)
@@ -192,7 +210,19 @@ export async function GET(req: NextRequest) {
         })
       })
       const csv = [
-        ["Round", "Match", "Athlete A", "A Time/Status", "A Win", "Athlete B", "B Time/Status", "B Win"]
+        [
+          "Round",
+          "Status",
+          "Match",
+          "Athlete A",
+          "A Time/Status",
+          "A Reaction",
+          "A Win",
+          "Athlete B",
+          "B Time/Status",
+          "B Reaction",
+          "B Win",
+        ]
           .map(csvValue)
           .join(","),
         ...rows,
@@ -215,6 +245,7 @@ export async function GET(req: NextRequest) {
     const csvRows = overall.map((row) =>
       [
         row.rank,
+        finalsStatus,
         row.name,
         row.team || "",
         row.stage,
@@ -224,7 +255,7 @@ export async function GET(req: NextRequest) {
         .join(",")
     )
     const csv = [
-      ["Rank", "Athlete", "Team", "Stage", "Fastest Time"].map(csvValue).join(","),
+      ["Rank", "Finals Status", "Athlete", "Team", "Stage", "Fastest Time"].map(csvValue).join(","),
       ...csvRows,
     ].join("\n")
     return new NextResponse(csv, {
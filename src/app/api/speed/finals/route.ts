@@ -0,0 +1,358 @@
+import { FieldValue } from "firebase-admin/firestore"
+import { NextResponse } from "next/server"
+import { getAdminAuth, getAdminDb } from "@/lib/firebase/admin"
+import { canManageComp } from "@/lib/compMembers"
+import { parseUserRole } from "@/lib/roles"
+import { FINALS_ROUND_IDS, generateBracket, isFinalsSize, nextRoundId } from "@/lib/speed/bracket"
+import {
+  buildNextRound,
+  decideWinner,
+  hasLaneResults,
+  isFalseStartRerun,
+  winnerAthleteOf,
+} from "@/lib/speed/finals"
+import {
+  parseFalseStartRule,
+  parseFalseStartThresholdMs,
+  withReactionFalseStart,
+  type FinalsMatch,
+  type SpeedRunResult,
+} from "@/lib/speed/scoring"
+import {
+  QUALIFIER_STANDINGS_DOC,
+  seedOrderFromStandings,
+  type QualifierStandingsSnapshot,
+} from "@/lib/speed/standings"
+import { getRoundStatus } from "@/lib/roundStatus"
+
+type MatchBody = {
+  compId?: string
+  categoryId?: string
+  roundId?: string
+  matchId?: string
+  athleteA?: string | null
+  athleteB?: string | null
+  laneA?: SpeedRunResult | null
+  laneB?: SpeedRunResult | null
+  allowWinnerRun?: boolean
+}
+
+type BracketBody = {
+  compId?: string
+  categoryId?: string
+  seedVersion?: number
+  size?: number | null
+}
+
+const ALLOWED_ROLES = ["judge", "staff", "admin"]
+const RUN_STATUSES = ["TIME", "FS", "DNS", "DNF"]
+const CLOSED_STATUSES = ["locked", "archived", "deleted"]
+const DEFAULT_FINALS_ID = "default"
+const MATCH_ID_PATTERN = /^m\d{1,2}$/
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error }, { status })
+
+// Null when the lane is malformed; a missing lane is an empty result
+function parseLane(value: unknown): SpeedRunResult | null {
+  if (value == null) return { status: null, ms: null, reactionMs: null }
+  if (typeof value !== "object") return null
+  const { status, ms, reactionMs: rawReaction, falseStart } = value as SpeedRunResult
+  if (status != null && !RUN_STATUSES.includes(status)) return null
+  if (rawReaction != null && (typeof rawReaction !== "number" || !Number.isFinite(rawReaction))) return null
+  const reactionMs = rawReaction != null ? Math.round(rawReaction) : null
+  if (status === "TIME") {
+    if (typeof ms !== "number" || !Number.isFinite(ms) || ms <= 0) return null
+    // A timer-flagged false start that kept its time (TOLERANT)
+    return { status, ms: Math.round(ms), reactionMs, ...(falseStart === true ? { falseStart: true } : {}) }
+  }
+  return { status: status ?? null, ms: null, reactionMs }
+}
+
+type Caller = { claims: Record<string, unknown>; uid: string; role: string }
+
+async function authorize(req: Request): Promise<Caller | { error: string; status: number }> {
+  const authHeader = req.headers.get("authorization") || ""
+  const idToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7).trim() : ""
+  if (!idToken) return { error: "Unauthorized", status: 401 }
+
+  let claims: Record<string, unknown>
+  let uid: string
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(idToken)
+    claims = decoded as unknown as Record<string, unknown>
+    uid = decoded.uid
+  } catch (error) {
+    console.warn("[Speed Finals] Invalid ID token:", error)
+    return { error: "Unauthorized", status: 401 }
+  }
+
+  const role = typeof claims.role === "string" ? claims.role : "viewer"
+  if (!ALLOWED_ROLES.includes(role)) return { error: "Forbidden", status: 403 }
+  return { claims, uid, role }
+}
+
+// Records a finals heat and advances the bracket in one transaction, so two
+// people saving heats of the same round cannot write diverging next rounds
+export async function POST(req: Request) {
+  try {
+    const caller = await authorize(req)
+    if ("error" in caller) {
+      return errorResponse(caller.error, caller.status)
+    }
+    const { claims, uid, role } = caller
+
+    const body = (await req.json().catch(() => ({}))) as MatchBody
+    const { compId, categoryId, roundId, matchId } = body
+    if (!compId || !categoryId || !roundId || !matchId) {
+      return errorResponse("compId, categoryId, roundId and matchId are required", 400)
+    }
+    if (!FINALS_ROUND_IDS.includes(roundId as (typeof FINALS_ROUND_IDS)[number])) {
+      return errorResponse("Invalid round", 400)
+    }
+    if (!MATCH_ID_PATTERN.test(matchId)) {
+      return errorResponse("Invalid match", 400)
+    }
+    const parsedA = parseLane(body.laneA)
+    const parsedB = parseLane(body.laneB)
+    if (!parsedA || !parsedB) {
+      return errorResponse("Invalid lane result", 400)
+    }
+    // Judges only enter lane results; changing who races is a staff edit
+    const changesAthletes = body.athleteA !== undefined || body.athleteB !== undefined
+    if (changesAthletes && role === "judge") {
+      return errorResponse("Judges cannot change match athletes", 403)
+    }
+
+    const adminDb = getAdminDb()
+    const compRef = adminDb.collection("speedCompetitions").doc(compId)
+    const categoryRef = compRef.collection("categories").doc(categoryId)
+    const finalsRef = categoryRef.collection("finals").doc(DEFAULT_FINALS_ID)
+    const roundRef = finalsRef.collection("rounds").doc(roundId)
+    const matchRef = roundRef.collection("matches").doc(matchId)
+    const next = nextRoundId(roundId)
+    const nextRoundRef = next ? finalsRef.collection("rounds").doc(next) : null
+
+    const result = await adminDb.runTransaction(async (tx) => {
+      const [compSnap, categorySnap, matchSnap, roundMatchesSnap, nextMatchesSnap] = await Promise.all([
+        tx.get(compRef),
+        tx.get(categoryRef),
+        tx.get(matchRef),
+        tx.get(roundRef.collection("matches")),
+        nextRoundRef ? tx.get(nextRoundRef.collection("matches")) : Promise.resolve(null),
+      ])
+
+      if (!compSnap.exists) return { error: "Competition not found", status: 404 }
+      const compData = compSnap.data() || {}
+
+      // Passcode judges are scoped to one competition and passcode version,
+      // the same checks the Firestore rules apply to qualifier results
+      if (claims.authType === "judge-passcode") {
+        const expiresAt = typeof claims.sessionExpiresAt === "number" ? claims.sessionExpiresAt : 0
+        if (
+          claims.compId !== compId ||
+          !compData.judgePasscodeVersion ||
+          claims.passcodeVersion !== compData.judgePasscodeVersion ||
+          Date.now() > expiresAt
+        ) {
+          return { error: "Session expired or passcode changed", status: 403 }
+        }
+      } else if (!canManageComp(compData, uid, parseUserRole(role))) {
+        // Staff only edit the competitions they are members of
+        return { error: "You cannot manage this competition", status: 403 }
+      }
+
+      if (CLOSED_STATUSES.includes(String(compData.status || "").toLowerCase())) {
+        return { error: "Competition is locked", status: 409 }
+      }
+      if (!categorySnap.exists) return { error: "Category not found", status: 404 }
+      const roundStatus = getRoundStatus(categorySnap.data(), "finals")
+      if (roundStatus === "official" || (roundStatus === "provisional" && role === "judge")) {
+        return { error: `Finals results are ${roundStatus}`, status: 409 }
+      }
+      if (!matchSnap.exists) return { error: "Match not found", status: 404 }
+      if (nextMatchesSnap?.docs.some((d) => hasLaneResults(d.data() as FinalsMatch))) {
+        return { error: "The next round already has results", status: 409 }
+      }
+
+      const current = matchSnap.data() as FinalsMatch
+      const athleteA = body.athleteA !== undefined ? body.athleteA || null : current.athleteA ?? null
+      const athleteB = body.athleteB !== undefined ? body.athleteB || null : current.athleteB ?? null
+      if ((parsedA.status && !athleteA) || (parsedB.status && !athleteB)) {
+        return { error: "Lane result entered for an empty lane", status: 400 }
+      }
+
+      // Reactions under the competition's threshold are false starts
+      const thresholdMs = parseFalseStartThresholdMs(compData.falseStartThresholdMs)
+      const falseStartRule = parseFalseStartRule(compData.falseStartRule)
+      const laneA = withReactionFalseStart(parsedA, thresholdMs, falseStartRule)
+      const laneB = withReactionFalseStart(parsedB, thresholdMs, falseStartRule)
+      const reruns = current.falseStartReruns || 0
+      const rerun = isFalseStartRerun(laneA, laneB, falseStartRule, reruns)
+
+      // A re-run keeps the voided lanes in the history and clears the heat
+      const winner = rerun ? null : decideWinner(laneA, laneB, falseStartRule)
+      const updated: FinalsMatch = rerun
+        ? { ...current, athleteA, athleteB, laneA: null, laneB: null, winner: null }
+        : { ...current, athleteA, athleteB, laneA, laneB, winner }
+
+      tx.set(
+        matchRef,
+        {
+          athleteA,
+          athleteB,
+          laneA: updated.laneA,
+          laneB: updated.laneB,
+          winner,
+          winnerAthlete: winnerAthleteOf(updated),
+          allowWinnerRun: body.allowWinnerRun ?? current.allowWinnerRun ?? false,
+          ...(rerun
+            ? {
+                falseStartReruns: reruns + 1,
+                rerunHistory: FieldValue.arrayUnion({ laneA, laneB, atMs: Date.now() }),
+              }
+            : {}),
+          updatedAt: FieldValue.serverTimestamp(),
+          updatedBy: uid,
+        },
+        { merge: true }
+      )
+
+      // Rebuild the next round from scratch each time; until every heat is
+      // decided any stale heats from an earlier winner are removed
+      const roundMatches = roundMatchesSnap.docs.map((d) =>
+        d.id === matchId ? updated : (d.data() as FinalsMatch)
+      )
+      const nextRound = buildNextRound(roundId, roundMatches)
+      nextMatchesSnap?.docs.forEach((d) => {
+        if (!nextRound || !nextRound.matches.some((m) => `m${m.matchIndex}` === d.id)) tx.delete(d.ref)
+      })
+      if (nextRound && nextRoundRef) {
+        tx.set(nextRoundRef, { createdAt: FieldValue.serverTimestamp() }, { merge: true })
+        nextRound.matches.forEach((m) => {
+          tx.set(nextRoundRef.collection("matches").doc(`m${m.matchIndex}`), {
+            ...m,
+            laneA: null,
+            laneB: null,
+            winnerAthlete: winnerAthleteOf(m),
+            allowWinnerRun: false,
+            createdAt: FieldValue.serverTimestamp(),
+          })
+        })
+      }
+
+      return { winner, rerun, advancedTo: nextRound?.roundId ?? null }
+    })
+
+    if ("error" in result) {
+      return errorResponse(result.error as string, result.status as number)
+    }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("[Speed Finals] POST error:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
+
+// Draws the finals bracket from a frozen qualifier standings version, replacing
+// any earlier bracket of the category in the same transaction. Staff only.
+export async function PUT(req: Request) {
+  try {
+    const caller = await authorize(req)
+    if ("error" in caller) {
+      return errorResponse(caller.error, caller.status)
+    }
+    const { claims, uid, role } = caller
+    if (claims.authType === "judge-passcode" || role === "judge") {
+      return errorResponse("Forbidden", 403)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as BracketBody
+    const { compId, categoryId, seedVersion } = body
+    if (!compId || !categoryId || typeof seedVersion !== "number") {
+      return errorResponse("compId, categoryId and seedVersion are required", 400)
+    }
+    if (body.size != null && !isFinalsSize(body.size)) {
+      return errorResponse("Invalid finals size", 400)
+    }
+    const size = body.size ?? undefined
+
+    const adminDb = getAdminDb()
+    const compRef = adminDb.collection("speedCompetitions").doc(compId)
+    const categoryRef = compRef.collection("categories").doc(categoryId)
+    const finalsRef = categoryRef.collection("finals").doc(DEFAULT_FINALS_ID)
+    const versionRef = categoryRef
+      .collection("computed")
+      .doc(QUALIFIER_STANDINGS_DOC)
+      .collection("versions")
+      .doc(String(seedVersion))
+
+    const result = await adminDb.runTransaction(async (tx) => {
+      const [compSnap, categorySnap, versionSnap, roundsSnap] = await Promise.all([
+        tx.get(compRef),
+        tx.get(categoryRef),
+        tx.get(versionRef),
+        tx.get(finalsRef.collection("rounds")),
+      ])
+      const oldMatchesSnaps = await Promise.all(roundsSnap.docs.map((d) => tx.get(d.ref.collection("matches"))))
+
+      if (!compSnap.exists) return { error: "Competition not found", status: 404 }
+      const compData = compSnap.data() || {}
+      if (!canManageComp(compData, uid, parseUserRole(role))) {
+        return { error: "You cannot manage this competition", status: 403 }
+      }
+      if (CLOSED_STATUSES.includes(String(compData.status || "").toLowerCase())) {
+        return { error: "Competition is locked", status: 409 }
+      }
+      if (!categorySnap.exists) return { error: "Category not found", status: 404 }
+      if (getRoundStatus(categorySnap.data(), "finals") === "official") {
+        return { error: "Finals results are official", status: 409 }
+      }
+      if (!versionSnap.exists) {
+        return { error: `Qualifier standings v${seedVersion} not found.`, status: 404 }
+      }
+      const ranked = seedOrderFromStandings((versionSnap.data() as QualifierStandingsSnapshot).items || [])
+      if (ranked.length < 2) {
+        return { error: "Not enough valid qualifier times to seed finals.", status: 409 }
+      }
+
+      // A fixed size larger than the field gives the top seeds byes
+      const bracket = generateBracket(ranked, size)
+
+      oldMatchesSnaps.forEach((matchesSnap) => matchesSnap.docs.forEach((d) => tx.delete(d.ref)))
+      roundsSnap.docs.forEach((d) => tx.delete(d.ref))
+      tx.set(finalsRef, {
+        size: bracket.size,
+        seeds: bracket.seeds,
+        seedRule: "best-time-of-two",
+        seedVersion,
+        generator: "admin",
+        createdAt: FieldValue.serverTimestamp(),
+        createdBy: uid,
+      })
+
+      const roundRef = finalsRef.collection("rounds").doc(bracket.firstRoundId)
+      tx.set(roundRef, { createdAt: FieldValue.serverTimestamp(), seeded: true })
+      bracket.matches.forEach((match) => {
+        tx.set(roundRef.collection("matches").doc(`m${match.matchIndex}`), {
+          ...match,
+          laneA: null,
+          laneB: null,
+          winnerAthlete: match.winner === "A" ? match.athleteA : match.winner === "B" ? match.athleteB : null,
+          allowWinnerRun: false,
+          createdAt: FieldValue.serverTimestamp(),
+        })
+      })
+
+      return { size: bracket.size, firstRoundId: bracket.firstRoundId }
+    })
+
+    if ("error" in result) {
+      return errorResponse(result.error as string, result.status as number)
+    }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("[Speed Finals] PUT error:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
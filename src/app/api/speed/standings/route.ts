@@ -0,0 +1,128 @@
+import { FieldValue } from "firebase-admin/firestore"
+import { NextResponse } from "next/server"
+import { getAdminAuth, getAdminDb } from "@/lib/firebase/admin"
+import { canManageComp } from "@/lib/compMembers"
+import { parseUserRole } from "@/lib/roles"
+import {
+  buildQualifierStandings,
+  type SpeedAthlete,
+  type SpeedQualifierResult,
+  type SpeedTimingPrecision,
+} from "@/lib/speed/scoring"
+import {
+  QUALIFIER_STANDINGS_DOC,
+  sameStandings,
+  standingsItemsFromRows,
+  type QualifierStandingsSnapshot,
+} from "@/lib/speed/standings"
+
+type StandingsBody = {
+  compId?: string
+  categoryId?: string
+}
+
+const ALLOWED_ROLES = ["judge", "staff", "admin"]
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ error }, { status })
+
+// Recomputes computed/qualifierStandings from the athletes and qualifier
+// results. The read and the version bump share a transaction, so saves from
+// two lanes at once still produce consecutive versions.
+export async function POST(req: Request) {
+  try {
+    const authHeader = req.headers.get("authorization") || ""
+    const idToken = authHeader.startsWith("Bearer ") ? authHeader.slice(7).trim() : ""
+    if (!idToken) {
+      return errorResponse("Unauthorized", 401)
+    }
+
+    let claims: Record<string, unknown>
+    let uid: string
+    try {
+      const decoded = await getAdminAuth().verifyIdToken(idToken)
+      claims = decoded as unknown as Record<string, unknown>
+      uid = decoded.uid
+    } catch (error) {
+      console.warn("[Speed Standings] Invalid ID token:", error)
+      return errorResponse("Unauthorized", 401)
+    }
+
+    const role = typeof claims.role === "string" ? claims.role : "viewer"
+    if (!ALLOWED_ROLES.includes(role)) {
+      return errorResponse("Forbidden", 403)
+    }
+
+    const body = (await req.json().catch(() => ({}))) as StandingsBody
+    const { compId, categoryId } = body
+    if (!compId || !categoryId) {
+      return errorResponse("compId and categoryId are required", 400)
+    }
+
+    const adminDb = getAdminDb()
+    const compRef = adminDb.collection("speedCompetitions").doc(compId)
+    const categoryRef = compRef.collection("categories").doc(categoryId)
+    const standingsRef = categoryRef.collection("computed").doc(QUALIFIER_STANDINGS_DOC)
+
+    const result = await adminDb.runTransaction(async (tx) => {
+      const [compSnap, categorySnap, athletesSnap, resultsSnap, standingsSnap] = await Promise.all([
+        tx.get(compRef),
+        tx.get(categoryRef),
+        tx.get(categoryRef.collection("athletes")),
+        tx.get(categoryRef.collection("qualifierResults")),
+        tx.get(standingsRef),
+      ])
+
+      if (!compSnap.exists) return { error: "Competition not found", status: 404 }
+      const compData = compSnap.data() || {}
+
+      // Passcode judges only refresh the competition their session is for
+      if (claims.authType === "judge-passcode") {
+        const expiresAt = typeof claims.sessionExpiresAt === "number" ? claims.sessionExpiresAt : 0
+        if (
+          claims.compId !== compId ||
+          !compData.judgePasscodeVersion ||
+          claims.passcodeVersion !== compData.judgePasscodeVersion ||
+          Date.now() > expiresAt
+        ) {
+          return { error: "Session expired or passcode changed", status: 403 }
+        }
+      } else if (!canManageComp(compData, uid, parseUserRole(role))) {
+        // Staff only edit the competitions they are members of
+        return { error: "You cannot manage this competition", status: 403 }
+      }
+      if (!categorySnap.exists) return { error: "Category not found", status: 404 }
+
+      const athletes: SpeedAthlete[] = athletesSnap.docs.map((d) => ({
+        id: d.id,
+        ...(d.data() as Partial<SpeedAthlete>),
+      }))
+      const results = new Map<string, SpeedQualifierResult>()
+      resultsSnap.docs.forEach((d) => results.set(d.id, d.data() as SpeedQualifierResult))
+      const precision: SpeedTimingPrecision = compData.timingPrecision === "ms2" ? "ms2" : "ms3"
+      const items = standingsItemsFromRows(buildQualifierStandings({ athletes, results, precision }))
+
+      const current = standingsSnap.exists ? (standingsSnap.data() as QualifierStandingsSnapshot) : null
+      const currentVersion = typeof current?.version === "number" ? current.version : 0
+      if (current && currentVersion && sameStandings(current.items || [], items)) {
+        return { version: currentVersion, changed: false }
+      }
+
+      // Frozen copies are never rewritten, so a seedVersion always resolves
+      // to the standings the bracket was drawn from
+      const version = currentVersion + 1
+      const snapshot = { items, version, updatedAt: FieldValue.serverTimestamp(), updatedBy: uid }
+      tx.set(standingsRef, snapshot)
+      tx.set(standingsRef.collection("versions").doc(String(version)), snapshot)
+      return { version, changed: true }
+    })
+
+    if ("error" in result) {
+      return errorResponse(result.error as string, result.status as number)
+    }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("[Speed Standings] POST error:", error)
+    return errorResponse("Internal error", 500)
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+// Server time for clients that share the round clock; they estimate their
+// clock offset from the request's round trip.
+export async function GET() {
+  return NextResponse.json({ nowMs: Date.now() }, { headers: { "Cache-Control": "no-store" } })
+}
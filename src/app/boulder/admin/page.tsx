@@ -6,20 +6,20 @@ import Container from "@/components/Container"
 import AccessDenied from "@/components/AccessDenied"
 import { UserButton, useUser } from "@clerk/nextjs"
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth"
-import { useUserRole, isStaffRole } from "@/hooks/useUserRole"
+import { useUserRole, isStaffRole, isAdminRole, type UserRole } from "@/hooks/useUserRole"
 import { useEffect, useMemo, useState } from "react"
 import { collection, doc, getDoc, getDocs, query, orderBy, onSnapshot } from "firebase/firestore"
 import type { Timestamp } from "firebase/firestore"
 import { firestore } from "@/lib/firebase/client"
 import type { JudgeStationView } from "@/lib/boulder/judgeStations"
-
-type SetupItem = {
-  id: string
-  label: string
-  ok: boolean
-  actionLabel: string
-  href: string
-}
+import { BOULDER_ROUND_LABELS, type BoulderRoundId } from "@/lib/boulder/rounds"
+import {
+  EMPTY_SETUP_COUNTS,
+  boulderSetupChecklist,
+  loadBoulderSetupCounts,
+  type BoulderSetupCounts,
+} from "@/lib/boulder/setupStatus"
+import { canManageComp } from "@/lib/compMembers"
 
 type AlertItem = {
   id: string
@@ -49,7 +49,7 @@ interface DetailDoc {
 
 interface JudgeStationDoc {
   compId: string
-  round: "qualification" | "final"
+  round: BoulderRoundId
   categoryId: string
   detailIndex: number | null
   routeId: string
@@ -91,25 +91,23 @@ export default function BoulderAdminPage() {
     return <AccessDenied feature="Boulder Admin" message="Firebase not available. Please refresh and try again." />
   }
 
-  return <AdminInterface />
+  return <AdminInterface role={role} />
 }
 
-function AdminInterface() {
+function AdminInterface({ role }: { role: UserRole | null }) {
   const { user } = useUser()
 
   const [comps, setComps] = useState<{ id: string; name?: string; status?: string; updatedAt?: { seconds?: number } }[]>([])
   const [selectedComp, setSelectedComp] = useState<string>("")
   const [statusLabel, setStatusLabel] = useState("Setup")
-  const [categoriesCount, setCategoriesCount] = useState(0)
-  const [routesCount, setRoutesCount] = useState(0)
-  const [routesMissingCategories, setRoutesMissingCategories] = useState(0)
-  const [athletesCount, setAthletesCount] = useState(0)
+  const [setupCounts, setSetupCounts] = useState<BoulderSetupCounts>(EMPTY_SETUP_COUNTS)
   const [loadingChecks, setLoadingChecks] = useState(false)
   const [loadError, setLoadError] = useState<string | null>(null)
 
   // Category/route lookup maps for judge stations label resolution
   const [categories, setCategories] = useState<Map<string, Category>>(new Map())
   const [routes, setRoutes] = useState<Map<string, RouteDoc>>(new Map())
+  const [semifinalRoutes, setSemifinalRoutes] = useState<Map<string, RouteDoc>>(new Map())
   const [finalRoutes, setFinalRoutes] = useState<Map<string, RouteDoc>>(new Map())
   const [details, setDetails] = useState<Map<string, DetailDoc>>(new Map())
 
@@ -125,6 +123,7 @@ function AdminInterface() {
         if (!db) return
         const snap = await getDocs(collection(db, "boulderComps"))
         const list = snap.docs
+          .filter((d) => canManageComp(d.data(), user?.id, role))
           .map((d) => ({ id: d.id, ...(d.data() as { name?: string; status?: string; updatedAt?: { seconds?: number } }) }))
           .sort((a, b) => (b.updatedAt?.seconds || 0) - (a.updatedAt?.seconds || 0))
         setComps(list)
@@ -137,7 +136,7 @@ function AdminInterface() {
       }
     }
     loadComps()
-  }, [selectedComp])
+  }, [selectedComp, user?.id, role])
 
   useEffect(() => {
     if (!selectedComp || !firestore) return
@@ -150,39 +149,11 @@ function AdminInterface() {
         const compSnap = await getDoc(doc(db, "boulderComps", selectedComp))
         const compData = compSnap.data() || {}
         setStatusLabel(normalizeStatusLabel((compData as { status?: string }).status))
-
-        // Categories
-        const catsSnap = await getDocs(collection(db, `boulderComps/${selectedComp}/categories`))
-        const categories = catsSnap.docs.map((d) => ({ id: d.id, ...(d.data() || {}) }))
-        setCategoriesCount(categories.length)
-
-        // Routes across categories (qualification + final)
-        let totalRoutes = 0
-        let missingRouteCats = 0
-        for (const cat of categories) {
-          let catRoutes = 0
-          const qualSnap = await getDocs(collection(db, `boulderComps/${selectedComp}/categories/${cat.id}/routes`))
-          catRoutes += qualSnap.size
-          const finalSnap = await getDocs(
-            collection(db, `boulderComps/${selectedComp}/categories/${cat.id}/finalRoutes`)
-          )
-          catRoutes += finalSnap.size
-          if (catRoutes === 0) missingRouteCats += 1
-          totalRoutes += catRoutes
-        }
-        setRoutesCount(totalRoutes)
-        setRoutesMissingCategories(missingRouteCats)
-
-        // Athletes
-        const athletesSnap = await getDocs(collection(db, `boulderComps/${selectedComp}/athletes`))
-        setAthletesCount(athletesSnap.size)
+        setSetupCounts(await loadBoulderSetupCounts(db, selectedComp))
       } catch (err) {
         console.error(err)
         setLoadError("Failed to load setup status.")
-        setCategoriesCount(0)
-        setRoutesCount(0)
-        setRoutesMissingCategories(0)
-        setAthletesCount(0)
+        setSetupCounts(EMPTY_SETUP_COUNTS)
       } finally {
         setLoadingChecks(false)
       }
@@ -195,6 +166,7 @@ function AdminInterface() {
     if (!firestore || !selectedComp) {
       setCategories(new Map())
       setRoutes(new Map())
+      setSemifinalRoutes(new Map())
       setFinalRoutes(new Map())
       setDetails(new Map())
       return
@@ -211,6 +183,7 @@ function AdminInterface() {
         const catsSnapshot = await getDocs(catsQuery)
         const catsMap = new Map<string, Category>()
         const routesMap = new Map<string, RouteDoc>()
+        const semifinalRoutesMap = new Map<string, RouteDoc>()
         const finalRoutesMap = new Map<string, RouteDoc>()
         const detailsMap = new Map<string, DetailDoc>()
 
@@ -228,6 +201,16 @@ function AdminInterface() {
             routesMap.set(routeDoc.id, { id: routeDoc.id, ...routeDoc.data() } as RouteDoc)
           })
 
+          // Load semifinal routes for this category
+          const semifinalRoutesQuery = query(
+            collection(db, `boulderComps/${selectedComp}/categories/${catDoc.id}/semifinalRoutes`),
+            orderBy("order", "asc")
+          )
+          const semifinalRoutesSnapshot = await getDocs(semifinalRoutesQuery)
+          semifinalRoutesSnapshot.docs.forEach((routeDoc) => {
+            semifinalRoutesMap.set(routeDoc.id, { id: routeDoc.id, ...routeDoc.data() } as RouteDoc)
+          })
+
           // Load final routes for this category
           const finalRoutesQuery = query(
             collection(db, `boulderComps/${selectedComp}/categories/${catDoc.id}/finalRoutes`),
@@ -251,6 +234,7 @@ function AdminInterface() {
 
         setCategories(catsMap)
         setRoutes(routesMap)
+        setSemifinalRoutes(semifinalRoutesMap)
         setFinalRoutes(finalRoutesMap)
         setDetails(detailsMap)
       } catch (error) {
@@ -303,14 +287,17 @@ function AdminInterface() {
             const category = categories.get(s.categoryId)
             const categoryName = category?.name || s.categoryId
 
-            // Resolve route label (check both routes and finalRoutes)
-            const route = s.round === "final"
-              ? finalRoutes.get(s.routeId) || routes.get(s.routeId)
-              : routes.get(s.routeId) || finalRoutes.get(s.routeId)
+            // Resolve route label (the station's round first, then the other rounds)
+            const roundRoutes = { qualification: routes, semifinal: semifinalRoutes, final: finalRoutes }
+            const route =
+              roundRoutes[s.round]?.get(s.routeId) ||
+              routes.get(s.routeId) ||
+              semifinalRoutes.get(s.routeId) ||
+              finalRoutes.get(s.routeId)
             const routeLabel = route?.label || s.routeId
 
             // Resolve detail label
-            let detailLabel = "Final"
+            let detailLabel = BOULDER_ROUND_LABELS[s.round] || "Final"
             if (s.round === "qualification" && s.detailIndex !== null) {
               // Try to find detail by detailIndex
               let foundDetail: DetailDoc | undefined
@@ -341,49 +328,11 @@ function AdminInterface() {
     )
 
     return () => unsubscribe()
-  }, [selectedComp, categories, routes, finalRoutes, details])
-
-  const checklist = useMemo(() => {
-    const hasCategories = categoriesCount > 0
-    const hasRoutes = routesCount > 0
-    const hasAthletes = athletesCount > 0
-    const scorecardsReady = hasRoutes && hasAthletes
-    const items: SetupItem[] = [
-      {
-        id: "categories",
-        label: hasCategories ? "Categories configured" : "No categories configured",
-        ok: hasCategories,
-        actionLabel: "View setup",
-        href: "/boulder/setup",
-      },
-      {
-        id: "routes",
-        label: hasRoutes
-          ? "Routes configured"
-          : routesMissingCategories > 0
-            ? `Routes missing in ${routesMissingCategories} categories`
-            : "No routes configured",
-        ok: hasRoutes,
-        actionLabel: "Go to setup",
-        href: "/boulder/setup",
-      },
-      {
-        id: "import",
-        label: hasAthletes ? "Athletes imported" : "No athletes imported",
-        ok: hasAthletes,
-        actionLabel: "Open import",
-        href: "/boulder/import",
-      },
-      {
-        id: "scorecards",
-        label: scorecardsReady ? "Scorecards ready" : "Scorecards not ready",
-        ok: scorecardsReady,
-        actionLabel: "Go to scorecards",
-        href: "/boulder/scorecards",
-      },
-    ]
-    return items
-  }, [categoriesCount, routesCount, routesMissingCategories, athletesCount])
+  }, [selectedComp, categories, routes, semifinalRoutes, finalRoutes, details])
+
+  const checklist = useMemo(() => boulderSetupChecklist(setupCounts), [setupCounts])
+
+  const { categoriesCount, routesCount, athletesCount } = setupCounts
 
   const alerts = useMemo(() => {
     const list: AlertItem[] = []
@@ -583,7 +532,7 @@ function AdminInterface() {
                           </span>
                           <span className="mx-2">·</span>
                           <span>
-                            <strong className="text-gray-200">Round:</strong> {station.round === "final" ? "Final" : "Qualification"}
+                            <strong className="text-gray-200">Round:</strong> {BOULDER_ROUND_LABELS[station.round] || station.round}
                           </span>
                         </div>
                       </div>
@@ -636,6 +585,11 @@ function AdminInterface() {
                 description="Live oversight and attempt corrections."
                 href="/boulder/chief"
               />
+              <ToolTile
+                title="Judge access"
+                description="Station passcodes and active judge sessions."
+                href="/boulder/judge-access"
+              />
               <ToolTile
                 title="Live Leaderboard"
                 description="Public results view for parents and athletes."
@@ -647,10 +601,27 @@ function AdminInterface() {
                 href="/boulder/export"
               />
               <ToolTile
-                title="Generate finals"
-                description="Select finalists from qualification with tie handling."
+                title="Advance round"
+                description="Build the next round's start list with tie handling."
                 href="/boulder/finals"
               />
+              <ToolTile
+                title="Running schedule"
+                description="Rotation times and isolation call-up for semifinals and finals."
+                href="/boulder/schedule"
+              />
+              <ToolTile
+                title="Organisations"
+                description="Organiser dashboard, staff, branding and public event pages."
+                href="/organisers"
+              />
+              {isAdminRole(role) && (
+                <ToolTile
+                  title="Roles & staff"
+                  description="Grant or revoke judge, staff and admin access."
+                  href="/admin/roles"
+                />
+              )}
               <ToolTile
                 title="Lock competition"
                 description="Coming soon."
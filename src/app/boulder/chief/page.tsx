@@ -7,8 +7,53 @@ import Link from 'next/link';
 import Container from '@/components/Container';
 import { firestore } from '@/lib/firebase/client';
 import { useFirebaseAuth } from '@/hooks/useFirebaseAuth';
-import { useUserRole, isStaffRole } from '@/hooks/useUserRole';
+import { useUserRole, isJudgeRole, type UserRole } from '@/hooks/useUserRole';
 import { useChiefJudgeAttempts } from '@/hooks/useChiefJudgeAttempts';
+import { useRoundClock } from '@/hooks/useRoundClock';
+import { canChiefJudgeComp } from '@/lib/compMembers';
+import { getScoringFormat, isTwoZoneComp, summarizeAttempts } from '@/lib/boulder/scoring';
+import {
+  appendAttemptAudit,
+  attemptAuditPath,
+  attemptSnapshot,
+  createAuditId,
+  undoAttemptAudit,
+  undoableAuditEntries,
+  type AttemptAuditEntry,
+} from '@/lib/boulder/attemptAudit';
+import {
+  ROUND_STATUSES,
+  ROUND_STATUS_LABELS,
+  getRoundOfficialAtMs,
+  getRoundStatus,
+  type RoundStatus,
+} from '@/lib/roundStatus';
+import {
+  APPEAL_STATUS_LABELS,
+  APPEAL_WINDOW_MINUTES,
+  appealDeadlineMs,
+  appealsPath,
+  canFileAppeal,
+  fileAppeal,
+  isAppealOpen,
+  updateAppealStatus,
+  type Appeal,
+} from '@/lib/appeals';
+import {
+  BOULDER_ROUND_LABELS,
+  getCategoryRounds,
+  isBoulderRound,
+  routeCollectionForRound,
+  type BoulderRoundId,
+} from '@/lib/boulder/rounds';
+import {
+  ROUND_CLOCK_STATUS_LABELS,
+  formatClockSeconds,
+  pauseRoundClock,
+  resetRoundClock,
+  startRoundClock,
+  type RoundClockDoc,
+} from '@/lib/boulder/roundClock';
 import {
   collection,
   getDocs,
@@ -17,11 +62,11 @@ import {
   doc,
   getDoc,
   setDoc,
-  updateDoc,
-  deleteDoc,
-  addDoc,
+  onSnapshot,
   serverTimestamp,
   where,
+  writeBatch,
+  Timestamp,
 } from 'firebase/firestore';
 
 /**
@@ -31,6 +76,8 @@ interface Competition {
   id: string;
   name?: string;
   status?: string;
+  scoringFormat?: string;
+  zoneCount?: number;
 }
 
 interface Category {
@@ -38,6 +85,10 @@ interface Category {
   name?: string;
   order?: number;
   leaderboardNote?: string;
+  roundStatus?: Record<string, RoundStatus>;
+  roundOfficialAt?: Record<string, Timestamp>;
+  roundOfficialAtMs?: Record<string, number>;
+  rounds?: unknown;
 }
 
 interface RouteDetail {
@@ -47,8 +98,6 @@ interface RouteDetail {
   detailIndex?: string;
 }
 
-type RoundType = 'qualification' | 'final';
-
 /**
  * Route Summary Data
  */
@@ -79,16 +128,7 @@ interface AttemptDocument {
   enteredBy?: string;
   updatedAt?: unknown;
   updatedBy?: string;
-}
-
-/**
- * Undo Action
- */
-interface UndoAction {
-  type: 'update' | 'delete';
-  attemptId: string;
-  before: Partial<AttemptDocument>;
-  description: string;
+  offline?: boolean;
 }
 
 /**
@@ -129,13 +169,14 @@ export default function ChiefJudgePage() {
     );
   }
 
-  if (!isStaffRole(role)) {
+  // Judges get in too; the competition list only shows the ones they chief judge
+  if (!isJudgeRole(role)) {
     return (
       <main className="py-12 min-h-screen bg-[#0b1220] text-gray-200">
         <Container>
           <div className="mb-8">
             <h1 className="text-2xl font-bold mb-4">Access Denied</h1>
-            <p className="text-gray-400">This page requires staff or admin privileges.</p>
+            <p className="text-gray-400">This page requires chief judge, staff or admin privileges.</p>
             <div className="mt-4">
               <Link href="/" className="text-[#27a9e1] hover:underline">
                 ← Back to Home
@@ -147,7 +188,7 @@ export default function ChiefJudgePage() {
     );
   }
 
-  return <ChiefJudgeInterface />;
+  return <ChiefJudgeInterface role={role} />;
 }
 
 /**
@@ -157,10 +198,11 @@ export default function ChiefJudgePage() {
  * - Leaderboard Note management
  * - Edit attempt symbols (click row to edit)
  * - Delete attempts
- * - Undo last change
+ * - Attempt audit log with multi-step undo
+ * - Appeals: file, review and decide athlete protests
  * - Round selector (qualification/final)
  */
-function ChiefJudgeInterface() {
+function ChiefJudgeInterface({ role }: { role: UserRole | null }) {
   const { user } = useUser();
 
   const [competitions, setCompetitions] = useState<Competition[]>([]);
@@ -171,7 +213,11 @@ function ChiefJudgeInterface() {
   const [categoriesLoading, setCategoriesLoading] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState('');
 
-  const [round, setRound] = useState<RoundType>('qualification');
+  const [round, setRound] = useState<BoulderRoundId>('qualification');
+  const categoryRounds = useMemo(
+    () => getCategoryRounds(categories.find((cat) => cat.id === selectedCategory)),
+    [categories, selectedCategory]
+  );
 
   const [routes, setRoutes] = useState<RouteDetail[]>([]);
   const [routesLoading, setRoutesLoading] = useState(false);
@@ -201,13 +247,31 @@ function ChiefJudgeInterface() {
   const [editingDetailIndex, setEditingDetailIndex] = useState<number | null>(null);
   const [editingDetailLabel, setEditingDetailLabel] = useState<string | null>(null);
 
-  // Undo state
-  const [lastAction, setLastAction] = useState<UndoAction | null>(null);
+  const [roundStatusSaving, setRoundStatusSaving] = useState(false);
+
+  // Audit log state (drives multi-step undo)
+  const [auditEntries, setAuditEntries] = useState<AttemptAuditEntry[]>([]);
+  const [auditLoading, setAuditLoading] = useState(false);
+  const [changeReason, setChangeReason] = useState('');
+  const [undoing, setUndoing] = useState(false);
+
+  // Appeals state; corrections made while an appeal is active are linked to it
+  const [appeals, setAppeals] = useState<Appeal[]>([]);
+  const [appealReason, setAppealReason] = useState('');
+  const [appealFeePaid, setAppealFeePaid] = useState(false);
+  const [filingAppeal, setFilingAppeal] = useState(false);
+  const [activeAppealId, setActiveAppealId] = useState<string | null>(null);
+  const [decisionNotes, setDecisionNotes] = useState<Record<string, string>>({});
 
   // Toast state
   const [toastMessage, setToastMessage] = useState('');
   const [toastVisible, setToastVisible] = useState(false);
 
+  // Round clock state
+  const roundClock = useRoundClock(selectedComp);
+  const [clockPeriodInput, setClockPeriodInput] = useState('');
+  const [clockSaving, setClockSaving] = useState(false);
+
   // Get detail index for filtering (normalize to number or null)
   const rawDetailIndex = selectedDetail
     ? details.find((d) => d.id === selectedDetail)?.detailIndex ?? null
@@ -241,31 +305,17 @@ function ChiefJudgeInterface() {
     round === 'qualification' ? detailIndexNumber : null
   );
 
+  const scoringFormat = useMemo(
+    () => getScoringFormat(competitions.find((c) => c.id === selectedComp)?.scoringFormat),
+    [competitions, selectedComp]
+  );
+  const twoZones = isTwoZoneComp(competitions.find((c) => c.id === selectedComp)?.zoneCount);
+
   // Calculate route summary
   const routeSummaries = useMemo(() => {
     const summaryMap = new Map<string, RouteSummary>();
 
-    athletes.forEach((athlete) => {
-      const symbols = athlete.sequence.split('');
-      let topAttempt: number | null = null;
-      let zoneAttempt: number | null = null;
-
-      symbols.forEach((symbol, idx) => {
-        if (symbol === 'T') {
-          if (topAttempt === null) topAttempt = idx + 1;
-        } else if (symbol === 'Z') {
-          if (zoneAttempt === null) zoneAttempt = idx + 1;
-        }
-      });
-
-      let points = 0;
-      if (topAttempt !== null) {
-        points += 25 - (topAttempt - 1) * 0.1;
-        points += 10 - (topAttempt - 1) * 0.1;
-      } else if (zoneAttempt !== null) {
-        points += 10 - (zoneAttempt - 1) * 0.1;
-      }
-
+    const perAthleteRoute = athletes.map((athlete) => {
       // For "All Boulders", extract routeId from athlete.id (format: athleteId_routeId)
       // For single route, use the selected route
       let routeId: string;
@@ -277,6 +327,25 @@ function ChiefJudgeInterface() {
         routeId = parts.length > 1 ? parts[1] : athlete.id;
       }
 
+      const symbols = athlete.sequence.split('');
+      const detail = summarizeAttempts(
+        symbols.map((symbol, idx) => ({ athleteId: athlete.id, routeId, symbol, createdAt: idx }))
+      )
+        .get(athlete.id)
+        ?.details.get(`route:${routeId}`);
+
+      return { routeId, symbols, detail };
+    });
+
+    // Toppers per route feed formats that share points among everyone who topped
+    const toppersByRoute = new Map<string, number>();
+    perAthleteRoute.forEach(({ routeId, detail }) => {
+      if (detail?.topAttempt != null) {
+        toppersByRoute.set(routeId, (toppersByRoute.get(routeId) || 0) + 1);
+      }
+    });
+
+    perAthleteRoute.forEach(({ routeId, symbols, detail }) => {
       const key = routeId;
       const route = routes.find((r) => r.id === routeId);
       const routeLabel = route?.label || `Route ${routeId}`;
@@ -292,20 +361,25 @@ function ChiefJudgeInterface() {
         points: 0,
       };
 
-      if (topAttempt !== null) {
+      if (detail?.topAttempt != null) {
         entry.tops += 1;
         entry.zones += 1;
-      } else if (zoneAttempt !== null) {
+      } else if (detail?.zoneAttempt != null) {
         entry.zones += 1;
       }
       entry.attempts += symbols.length;
-      entry.points += points;
+      if (detail) {
+        entry.points += scoringFormat.scoreRoute(detail, {
+          key: `route:${routeId}`,
+          toppers: toppersByRoute.get(routeId) || 0,
+        });
+      }
 
       summaryMap.set(key, entry);
     });
 
     return Array.from(summaryMap.values()).sort((a, b) => a.order - b.order);
-  }, [athletes, selectedRoute, routes]);
+  }, [athletes, selectedRoute, routes, scoringFormat]);
 
   // Toast helper
   const showToast = (message: string) => {
@@ -314,6 +388,30 @@ function ChiefJudgeInterface() {
     setTimeout(() => setToastVisible(false), 2400);
   };
 
+  // Follow appeals for the selected competition
+  useEffect(() => {
+    if (!firestore || !selectedComp) {
+      setAppeals([]);
+      setActiveAppealId(null);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      collection(firestore, appealsPath('boulder', selectedComp)),
+      (snapshot) => {
+        const list = snapshot.docs
+          .map((doc) => ({ id: doc.id, ...doc.data() }) as Appeal)
+          .sort((a, b) => b.submittedAtMs - a.submittedAtMs);
+        setAppeals(list);
+      },
+      (error) => {
+        console.error('Error loading appeals:', error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [selectedComp]);
+
   // Load competitions on mount
   useEffect(() => {
     if (!firestore) return;
@@ -324,8 +422,10 @@ function ChiefJudgeInterface() {
         const compsQuery = query(compsRef, orderBy('updatedAt', 'desc'));
         const snapshot = await getDocs(compsQuery);
 
+        // Only the competitions this user chief judges or manages
         const comps: Competition[] = [];
         snapshot.forEach((doc) => {
+          if (!canChiefJudgeComp(doc.data(), user?.id, role)) return;
           comps.push({
             id: doc.id,
             ...doc.data(),
@@ -345,7 +445,7 @@ function ChiefJudgeInterface() {
     }
 
     loadCompetitions();
-  }, [selectedComp]);
+  }, [selectedComp, user?.id, role]);
 
   // Load categories when competition changes
   useEffect(() => {
@@ -381,6 +481,13 @@ function ChiefJudgeInterface() {
     loadCategories();
   }, [selectedComp, selectedCategory]);
 
+  // Fall back to qualification when the selected category does not run the round
+  useEffect(() => {
+    if (!categoryRounds.some((r) => r.id === round)) {
+      setRound('qualification');
+    }
+  }, [categoryRounds, round]);
+
   // Load routes when category/round changes
   useEffect(() => {
     if (!selectedComp || !selectedCategory || !firestore) return;
@@ -388,7 +495,7 @@ function ChiefJudgeInterface() {
     async function loadRoutes() {
       setRoutesLoading(true);
       try {
-        const collectionName = round === 'final' ? 'finalRoutes' : 'routes';
+        const collectionName = routeCollectionForRound(round);
         const routesRef = collection(firestore!, `boulderComps/${selectedComp}/categories/${selectedCategory}/${collectionName}`);
         const routesQuery = query(routesRef, orderBy('order', 'asc'));
         const snapshot = await getDocs(routesQuery);
@@ -521,6 +628,81 @@ function ChiefJudgeInterface() {
     }
   };
 
+  useEffect(() => {
+    setClockPeriodInput(String(roundClock.clock.periodSeconds));
+  }, [roundClock.clock.periodSeconds]);
+
+  const saveRoundClock = async (next: RoundClockDoc, message: string) => {
+    if (!selectedComp) return;
+    setClockSaving(true);
+    try {
+      await roundClock.update(next, user?.id);
+      showToast(message);
+    } catch (error) {
+      console.error('Error updating round clock:', error);
+      showToast('Failed to update round clock.');
+    } finally {
+      setClockSaving(false);
+    }
+  };
+
+  const handleSetClockPeriod = () => {
+    const periodSeconds = parseInt(clockPeriodInput, 10);
+    if (!Number.isInteger(periodSeconds) || periodSeconds < 10) {
+      showToast('Period must be at least 10 seconds.');
+      return;
+    }
+    saveRoundClock({ ...roundClock.clock, periodSeconds }, `Rotation period set to ${formatClockSeconds(periodSeconds)}.`);
+  };
+
+  const roundStatus = getRoundStatus(
+    categories.find((cat) => cat.id === selectedCategory),
+    round
+  );
+
+  // Move the selected category's round between open, provisional and official
+  const saveRoundStatus = async (nextStatus: RoundStatus) => {
+    if (!selectedComp || !selectedCategory || !firestore || nextStatus === roundStatus) return;
+    if (
+      nextStatus === 'official' &&
+      !confirm('Mark these results official? Attempts can no longer be added or edited until the round is reopened.')
+    ) {
+      return;
+    }
+
+    setRoundStatusSaving(true);
+    try {
+      const categoryRef = doc(firestore, `boulderComps/${selectedComp}/categories/${selectedCategory}`);
+      // The rules only accept the server time as the official stamp
+      await setDoc(categoryRef, {
+        roundStatus: { [round]: nextStatus },
+        ...(nextStatus === 'official' ? { roundOfficialAt: { [round]: serverTimestamp() } } : {}),
+        roundStatusUpdatedAt: serverTimestamp(),
+        roundStatusUpdatedBy: user?.id || 'unknown',
+      }, { merge: true });
+
+      setCategories((prev) =>
+        prev.map((cat) =>
+          cat.id === selectedCategory
+            ? {
+                ...cat,
+                roundStatus: { ...cat.roundStatus, [round]: nextStatus },
+                ...(nextStatus === 'official'
+                  ? { roundOfficialAt: { ...cat.roundOfficialAt, [round]: Timestamp.now() } }
+                  : {}),
+              }
+            : cat
+        )
+      );
+      showToast(`Results marked ${ROUND_STATUS_LABELS[nextStatus].toLowerCase()}.`);
+    } catch (error) {
+      console.error('Error saving round status:', error);
+      showToast('Failed to update results status.');
+    } finally {
+      setRoundStatusSaving(false);
+    }
+  };
+
   // Open edit panel for an athlete
   const openEditPanel = async (rowId: string) => {
     if (!selectedComp || !firestore) return;
@@ -579,17 +761,30 @@ function ChiefJudgeInterface() {
     setEditingDetailIndex(detailIndexForEdit);
     setEditPanelVisible(true);
 
+    await Promise.all([
+      loadAttemptHistory(actualAthleteId, routeIdToEdit, detailIndexForEdit),
+      loadAuditLog(actualAthleteId, routeIdToEdit),
+    ]);
+  };
+
+  const loadAttemptHistory = async (
+    athleteId: string,
+    routeId: string,
+    detailIndex: number | null
+  ) => {
+    if (!selectedComp || !firestore) return;
+
     try {
       const attemptsRef = collection(firestore, `boulderComps/${selectedComp}/attempts`);
       const constraints = [
-        where('athleteId', '==', actualAthleteId),
+        where('athleteId', '==', athleteId),
         where('categoryId', '==', selectedCategory),
-        where('routeId', '==', routeIdToEdit),
+        where('routeId', '==', routeId),
         where('round', '==', round),
       ];
 
-      if (round === 'qualification' && detailIndexForEdit !== null) {
-        constraints.push(where('detailIndex', '==', detailIndexForEdit));
+      if (round === 'qualification' && detailIndex !== null) {
+        constraints.push(where('detailIndex', '==', detailIndex));
       }
 
       const attemptsQuery = query(attemptsRef, ...constraints, orderBy('clientAtMs', 'asc'));
@@ -612,6 +807,48 @@ function ChiefJudgeInterface() {
     }
   };
 
+  // Audit entries for one athlete on one boulder, newest first
+  const loadAuditLog = async (athleteId: string, routeId: string) => {
+    if (!selectedComp || !firestore) return;
+
+    setAuditLoading(true);
+    try {
+      const snapshot = await getDocs(
+        query(
+          collection(firestore, attemptAuditPath(selectedComp)),
+          where('athleteId', '==', athleteId),
+          where('routeId', '==', routeId)
+        )
+      );
+      const entries = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data() }) as AttemptAuditEntry)
+        .filter((entry) => entry.categoryId === selectedCategory && entry.round === round)
+        .sort((a, b) => b.createdAtMs - a.createdAtMs);
+      setAuditEntries(entries);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      showToast('Failed to load audit log.');
+    } finally {
+      setAuditLoading(false);
+    }
+  };
+
+  const auditActor = () => ({ uid: user?.id || 'chief-judge', role: role || 'staff' });
+
+  const editingAthleteId = () =>
+    selectedAthleteId && selectedAthleteId.includes('_')
+      ? selectedAthleteId.split('_')[0]
+      : selectedAthleteId;
+
+  const refreshEditPanel = async () => {
+    const athleteId = editingAthleteId();
+    if (!athleteId || !editingRouteId) return;
+    await Promise.all([
+      loadAttemptHistory(athleteId, editingRouteId, editingDetailIndex),
+      loadAuditLog(athleteId, editingRouteId),
+    ]);
+  };
+
   // Close edit panel
   const closeEditPanel = () => {
     setSelectedAthleteId(null);
@@ -621,6 +858,10 @@ function ChiefJudgeInterface() {
     setNewAttemptSymbol('1');
     setEditingDetailIndex(null);
     setEditingDetailLabel(null);
+    setAuditEntries([]);
+    setChangeReason('');
+    setAppealReason('');
+    setAppealFeePaid(false);
   };
 
   // Add new attempt
@@ -639,7 +880,9 @@ function ChiefJudgeInterface() {
     setAddingAttempt(true);
 
     try {
-      const attemptsRef = collection(firestore, `boulderComps/${selectedComp}/attempts`);
+      const db = firestore;
+      const attemptRef = doc(collection(db, `boulderComps/${selectedComp}/attempts`));
+      const actor = auditActor();
 
       // Prepare attempt data
       const attemptData: Record<string, unknown> = {
@@ -664,19 +907,36 @@ function ChiefJudgeInterface() {
         attemptData.detailIndex = editingDetailIndex;
       }
 
-      const docRef = await addDoc(attemptsRef, attemptData);
-
-      // Add to local state
-      const newAttempt = {
-        id: docRef.id,
-        ...attemptData,
-        createdAt: Date.now(),
-      } as AttemptDocument;
-      setAttemptHistory((prev) => [...prev, newAttempt]);
+      const batch = writeBatch(db);
+      batch.set(attemptRef, attemptData);
+      appendAttemptAudit(
+        batch,
+        db,
+        selectedComp,
+        {
+          attemptId: attemptRef.id,
+          action: 'create',
+          athleteId: actualAthleteId,
+          categoryId: selectedCategory,
+          routeId: editingRouteId,
+          round,
+          detailIndex: (attemptData.detailIndex as number | undefined) ?? null,
+          beforeSymbol: null,
+          afterSymbol: newAttemptSymbol,
+          actorUid: actor.uid,
+          actorRole: actor.role,
+          reason: changeReason.trim(),
+          appealId: activeAppealId || undefined,
+        },
+        createAuditId(attemptRef.id)
+      );
+      await batch.commit();
 
       // Reset and show success
       setNewAttemptSymbol('1');
+      setChangeReason('');
       showToast('Attempt added successfully.');
+      await refreshEditPanel();
     } catch (error) {
       console.error('Error adding attempt:', error);
       showToast('Failed to add attempt.');
@@ -692,30 +952,37 @@ function ChiefJudgeInterface() {
     const attempt = attemptHistory.find((a) => a.id === attemptId);
     if (!attempt || attempt.symbol === newSymbol) return;
 
-    const attemptRef = doc(firestore, `boulderComps/${selectedComp}/attempts/${attemptId}`);
-    const before = { ...attempt };
+    const db = firestore;
+    const attemptRef = doc(db, `boulderComps/${selectedComp}/attempts/${attemptId}`);
+    const actor = auditActor();
 
     try {
-      await updateDoc(attemptRef, {
+      const batch = writeBatch(db);
+      batch.update(attemptRef, {
         symbol: newSymbol,
         updatedAt: serverTimestamp(),
-        updatedBy: user?.id || 'chief',
+        updatedBy: actor.uid,
       });
-
-      // Update local state
-      setAttemptHistory((prev) =>
-        prev.map((a) => (a.id === attemptId ? { ...a, symbol: newSymbol } : a))
-      );
-
-      // Set undo action
-      setLastAction({
-        type: 'update',
+      appendAttemptAudit(batch, db, selectedComp, {
         attemptId,
-        before,
-        description: `Updated attempt for ${athletes.find((ath) => ath.id === attempt.athleteId)?.name || attempt.athleteId}`,
+        action: 'update',
+        athleteId: attempt.athleteId,
+        categoryId: attempt.categoryId,
+        routeId: attempt.routeId,
+        round: attempt.round,
+        detailIndex: attempt.detailIndex ?? null,
+        beforeSymbol: attempt.symbol,
+        afterSymbol: newSymbol,
+        actorUid: actor.uid,
+        actorRole: actor.role,
+        reason: changeReason.trim(),
+        appealId: activeAppealId || undefined,
       });
+      await batch.commit();
 
+      setChangeReason('');
       showToast('Attempt updated.');
+      await refreshEditPanel();
     } catch (error) {
       console.error('Error updating attempt:', error);
       showToast('Failed to update attempt.');
@@ -729,55 +996,205 @@ function ChiefJudgeInterface() {
     const attempt = attemptHistory.find((a) => a.id === attemptId);
     if (!attempt) return;
 
-    if (!confirm('Delete this attempt? This can be undone with the Undo button right after.')) {
+    if (!confirm('Delete this attempt? The deletion is logged and can be undone from the audit log.')) {
       return;
     }
 
-    const attemptRef = doc(firestore, `boulderComps/${selectedComp}/attempts/${attemptId}`);
+    const db = firestore;
+    const attemptRef = doc(db, `boulderComps/${selectedComp}/attempts/${attemptId}`);
+    const actor = auditActor();
 
     try {
-      await deleteDoc(attemptRef);
-
-      // Update local state
-      setAttemptHistory((prev) => prev.filter((a) => a.id !== attemptId));
-
-      // Set undo action
-      setLastAction({
-        type: 'delete',
+      const batch = writeBatch(db);
+      batch.delete(attemptRef);
+      appendAttemptAudit(batch, db, selectedComp, {
         attemptId,
-        before: attempt,
-        description: `Deleted attempt for ${athletes.find((ath) => ath.id === attempt.athleteId)?.name || attempt.athleteId}`,
+        action: 'delete',
+        athleteId: attempt.athleteId,
+        categoryId: attempt.categoryId,
+        routeId: attempt.routeId,
+        round: attempt.round,
+        detailIndex: attempt.detailIndex ?? null,
+        beforeSymbol: attempt.symbol,
+        afterSymbol: null,
+        before: attemptSnapshot({ ...attempt }),
+        actorUid: actor.uid,
+        actorRole: actor.role,
+        reason: changeReason.trim(),
+        appealId: activeAppealId || undefined,
       });
+      await batch.commit();
 
+      setChangeReason('');
       showToast('Attempt deleted.');
+      await refreshEditPanel();
     } catch (error) {
       console.error('Error deleting attempt:', error);
       showToast('Failed to delete attempt.');
     }
   };
 
-  // Undo last action
+  const undoableEntries = undoableAuditEntries(auditEntries);
+  const revertedAuditIds = new Set(
+    auditEntries.map((entry) => entry.revertsAuditId).filter(Boolean)
+  );
+
+  // Undo the newest change that has not been undone yet; repeat to step further back
   const undoLastAction = async () => {
-    if (!lastAction || !selectedComp || !firestore) return;
+    const entry = undoableEntries[0];
+    if (!entry || !selectedComp || !firestore) return;
 
-    const attemptRef = doc(firestore, `boulderComps/${selectedComp}/attempts/${lastAction.attemptId}`);
+    setUndoing(true);
+    try {
+      await undoAttemptAudit(
+        firestore,
+        selectedComp,
+        entry,
+        auditActor(),
+        changeReason.trim() || 'Undo'
+      );
+      setChangeReason('');
+      showToast(
+        entry.action === 'delete'
+          ? 'Restored deleted attempt.'
+          : entry.action === 'create'
+          ? 'Removed added attempt.'
+          : 'Reverted changes.'
+      );
+      await refreshEditPanel();
+    } catch (error) {
+      console.error('Error undoing action:', error);
+      showToast('Failed to undo change.');
+    } finally {
+      setUndoing(false);
+    }
+  };
 
+  const selectedCategoryDoc = categories.find((cat) => cat.id === selectedCategory);
+  const roundOfficialAtMs = getRoundOfficialAtMs(selectedCategoryDoc, round);
+  const appealDeadline = appealDeadlineMs(roundOfficialAtMs);
+  const openAppeals = appeals.filter((appeal) => isAppealOpen(appeal.status));
+  const decidedAppeals = appeals.filter(
+    (appeal) => !isAppealOpen(appeal.status) && appeal.categoryId === selectedCategory && appeal.round === round
+  );
+  const activeAppeal = appeals.find((appeal) => appeal.id === activeAppealId) || null;
+  const categoryLabel = (categoryId: string) =>
+    categories.find((cat) => cat.id === categoryId)?.name || categoryId;
+
+  // File an appeal for the athlete and boulder open in the edit panel
+  const fileAppealForSelection = async () => {
+    const athleteId = editingAthleteId();
+    if (!selectedComp || !firestore || !athleteId || !editingRouteId) return;
+    if (!appealReason.trim()) {
+      showToast('Enter the reason for the appeal.');
+      return;
+    }
+
+    setFilingAppeal(true);
     try {
-      if (lastAction.type === 'update') {
-        await setDoc(attemptRef, lastAction.before, { merge: true });
-        showToast('Reverted changes.');
-      } else if (lastAction.type === 'delete') {
-        await setDoc(attemptRef, lastAction.before, { merge: true });
-        showToast('Restored deleted attempt.');
+      const athlete = athletes.find((a) => a.id === selectedAthleteId);
+      await fileAppeal(
+        firestore,
+        'boulder',
+        selectedComp,
+        {
+          categoryId: selectedCategory,
+          round,
+          athleteId,
+          athleteLabel: athlete ? `#${athlete.bib} ${athlete.name}` : athleteId,
+          routeId: editingRouteId,
+          routeLabel: routes.find((r) => r.id === editingRouteId)?.label || editingRouteId,
+          attemptIds: attemptHistory.map((attempt) => attempt.id),
+          reason: appealReason.trim(),
+          feePaid: appealFeePaid,
+          submittedBy: user?.id || 'chief-judge',
+        },
+        roundOfficialAtMs
+      );
+      setAppealReason('');
+      setAppealFeePaid(false);
+      showToast('Appeal filed.');
+    } catch (error) {
+      console.error('Error filing appeal:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to file appeal.');
+    } finally {
+      setFilingAppeal(false);
+    }
+  };
+
+  // Start reviewing an appeal: corrections from now on are linked to it
+  const reviewAppeal = async (appeal: Appeal) => {
+    if (!selectedComp || !firestore) return;
+
+    try {
+      if (appeal.status === 'submitted') {
+        await updateAppealStatus(firestore, 'boulder', selectedComp, appeal.id, 'under_review', {
+          actorUid: auditActor().uid,
+        });
+      }
+      setActiveAppealId(appeal.id);
+
+      if (appeal.categoryId !== selectedCategory || appeal.round !== round) {
+        showToast(`Select ${categoryLabel(appeal.categoryId)} (${appeal.round}) to correct attempts.`);
+        return;
       }
+      if (appeal.routeId && (!selectedRoute || selectedRoute === appeal.routeId)) {
+        await openEditPanel(selectedRoute ? appeal.athleteId : `${appeal.athleteId}_${appeal.routeId}`);
+      }
+    } catch (error) {
+      console.error('Error starting appeal review:', error);
+      showToast('Failed to update appeal.');
+    }
+  };
+
+  const decideAppeal = async (appeal: Appeal, status: 'upheld' | 'rejected') => {
+    if (!selectedComp || !firestore) return;
+    if (appeal.status !== 'under_review') {
+      showToast('Start reviewing the appeal before deciding it.');
+      return;
+    }
+    const decisionNote = (decisionNotes[appeal.id] || '').trim();
+    if (!decisionNote) {
+      showToast('Add a decision note before deciding the appeal.');
+      return;
+    }
 
-      setLastAction(null);
+    try {
+      let correctionAuditIds: string[] = [];
+      if (status === 'upheld') {
+        const snapshot = await getDocs(
+          query(collection(firestore, attemptAuditPath(selectedComp)), where('appealId', '==', appeal.id))
+        );
+        correctionAuditIds = snapshot.docs.map((doc) => doc.id);
+      }
+      await updateAppealStatus(firestore, 'boulder', selectedComp, appeal.id, status, {
+        actorUid: auditActor().uid,
+        decisionNote,
+        correctionAuditIds,
+      });
+      if (activeAppealId === appeal.id) setActiveAppealId(null);
+      setDecisionNotes((prev) => {
+        const next = { ...prev };
+        delete next[appeal.id];
+        return next;
+      });
+      showToast(
+        status === 'upheld'
+          ? `Appeal upheld with ${correctionAuditIds.length} correction${correctionAuditIds.length === 1 ? '' : 's'}.`
+          : 'Appeal rejected.'
+      );
     } catch (error) {
-      console.error('Error undoing action:', error);
-      showToast('Failed to undo change.');
+      console.error('Error deciding appeal:', error);
+      showToast('Failed to update appeal.');
     }
   };
 
+  const describeAuditEntry = (entry: AttemptAuditEntry) => {
+    if (entry.action === 'create') return `Added ${entry.afterSymbol ?? '?'}`;
+    if (entry.action === 'delete') return `Deleted ${entry.beforeSymbol ?? '?'}`;
+    return `${entry.beforeSymbol ?? '?'} → ${entry.afterSymbol ?? '?'}`;
+  };
+
   // Format timestamp
   const formatTimestamp = (tsMillis?: number) => {
     if (!tsMillis) return '—';
@@ -896,12 +1313,15 @@ function ChiefJudgeInterface() {
                 <span className="text-sm text-gray-400">Round</span>
                 <select
                   value={round}
-                  onChange={(e) => setRound(e.target.value as RoundType)}
+                  onChange={(e) => setRound(e.target.value as BoulderRoundId)}
                   className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
                   disabled={!selectedCategory}
                 >
-                  <option value="qualification">Qualification</option>
-                  <option value="final">Final</option>
+                  {categoryRounds.map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {BOULDER_ROUND_LABELS[r.id]}
+                    </option>
+                  ))}
                 </select>
               </label>
 
@@ -967,7 +1387,8 @@ function ChiefJudgeInterface() {
                     <div className="text-sm font-semibold text-gray-400">{summary.label}</div>
                     <div className="text-2xl font-bold text-gray-100">{summary.tops} Tops</div>
                     <div className="text-xs text-gray-400">
-                      {summary.zones} Zones • {summary.attempts} Attempts • {summary.points.toFixed(1)} pts
+                      {summary.zones} Zones • {summary.attempts} Attempts
+                      {scoringFormat.usesPoints ? ` • ${summary.points.toFixed(1)} pts` : ''}
                     </div>
                   </div>
                 ))}
@@ -975,6 +1396,231 @@ function ChiefJudgeInterface() {
             )}
           </section>
 
+          {/* Round Clock Panel */}
+          {selectedComp && (
+            <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5">
+              <div className="flex justify-between items-center mb-4">
+                <strong className="text-gray-100 text-lg">Round Clock</strong>
+                <span className="text-sm text-gray-400">
+                  Shown on every judge pad and the{' '}
+                  <Link href={`/boulder/clock?compId=${selectedComp}`} className="text-[#27a9e1] hover:underline">
+                    public clock display
+                  </Link>
+                </span>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <div
+                  className={`text-4xl font-bold tabular-nums ${
+                    roundClock.reading.status === 'running' ? 'text-[#27a9e1]' : 'text-gray-400'
+                  }`}
+                >
+                  {formatClockSeconds(roundClock.reading.remainingSeconds)}
+                </div>
+                <span className="text-sm text-gray-400">
+                  {roundClock.reading.rotation > 0 ? `Rotation ${roundClock.reading.rotation} · ` : ''}
+                  {ROUND_CLOCK_STATUS_LABELS[roundClock.reading.status]}
+                </span>
+                <button
+                  onClick={() => saveRoundClock(startRoundClock(roundClock.clock, roundClock.serverNowMs()), 'Round clock started.')}
+                  disabled={clockSaving || roundClock.clock.status === 'running'}
+                  className="px-3 py-1.5 text-sm border border-[#19bcd6] text-gray-300 rounded-lg hover:border-[#27a9e1] hover:text-[#27a9e1] transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  {roundClock.clock.status === 'paused' ? 'Resume' : 'Start'}
+                </button>
+                <button
+                  onClick={() => saveRoundClock(pauseRoundClock(roundClock.clock, roundClock.serverNowMs()), 'Round clock paused.')}
+                  disabled={clockSaving || roundClock.clock.status !== 'running'}
+                  className="px-3 py-1.5 text-sm border border-[#19bcd6] text-gray-300 rounded-lg hover:border-[#27a9e1] hover:text-[#27a9e1] transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  Pause
+                </button>
+                <button
+                  onClick={() => {
+                    if (!confirm('Reset the round clock to the start of rotation 1?')) return;
+                    saveRoundClock(resetRoundClock(roundClock.clock), 'Round clock reset.');
+                  }}
+                  disabled={clockSaving || roundClock.clock.status === 'stopped'}
+                  className="px-3 py-1.5 text-sm border border-[#19bcd6] text-gray-300 rounded-lg hover:border-[#27a9e1] hover:text-[#27a9e1] transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  Reset
+                </button>
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  Period (seconds)
+                  <input
+                    type="number"
+                    min="10"
+                    value={clockPeriodInput}
+                    onChange={(e) => setClockPeriodInput(e.target.value)}
+                    disabled={clockSaving || roundClock.clock.status === 'running'}
+                    className="w-24 px-3 py-1.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1] disabled:opacity-60"
+                  />
+                </label>
+                <button
+                  onClick={handleSetClockPeriod}
+                  disabled={
+                    clockSaving ||
+                    roundClock.clock.status === 'running' ||
+                    clockPeriodInput === String(roundClock.clock.periodSeconds)
+                  }
+                  className="px-3 py-1.5 text-sm border border-[#19bcd6] text-gray-300 rounded-lg hover:border-[#27a9e1] hover:text-[#27a9e1] transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  Set period
+                </button>
+              </div>
+            </section>
+          )}
+
+          {/* Results Status Panel */}
+          {selectedComp && selectedCategory && (
+            <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5">
+              <div className="flex justify-between items-center mb-4">
+                <strong className="text-gray-100 text-lg">Results Status</strong>
+                <span className="text-sm text-gray-400">
+                  Judges can only enter attempts while the round is open
+                </span>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                {ROUND_STATUSES.map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => saveRoundStatus(status)}
+                    disabled={roundStatusSaving || status === roundStatus}
+                    className={`px-3 py-1.5 text-sm border rounded-lg transition-colors disabled:cursor-not-allowed ${
+                      status === roundStatus
+                        ? 'bg-[#27a9e1] border-[#27a9e1] text-[#031726]'
+                        : 'border-[#19bcd6] text-gray-300 hover:border-[#27a9e1] hover:text-[#27a9e1] disabled:opacity-60'
+                    }`}
+                  >
+                    {ROUND_STATUS_LABELS[status]}
+                  </button>
+                ))}
+                <span className="text-xs text-gray-400">
+                  {BOULDER_ROUND_LABELS[round]} results are{' '}
+                  {ROUND_STATUS_LABELS[roundStatus].toLowerCase()}.
+                </span>
+              </div>
+            </section>
+          )}
+
+          {/* Appeals Panel */}
+          {selectedComp && (
+            <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5">
+              <div className="flex justify-between items-center mb-4">
+                <strong className="text-gray-100 text-lg">Appeals</strong>
+                <span className="text-sm text-gray-400">
+                  {appealDeadline
+                    ? canFileAppeal(roundOfficialAtMs)
+                      ? `Filing closes at ${formatTimestamp(appealDeadline)}`
+                      : `Filing closed at ${formatTimestamp(appealDeadline)}`
+                    : `Filing closes ${APPEAL_WINDOW_MINUTES} min after results are official`}
+                </span>
+              </div>
+              {openAppeals.length === 0 ? (
+                <div className="text-gray-400 text-sm">No open appeals.</div>
+              ) : (
+                <div className="border border-[#19bcd6] rounded-xl overflow-hidden">
+                  <table className="w-full border-collapse">
+                    <thead>
+                      <tr className="bg-white/[0.04]">
+                        <th className="text-left py-3 px-3 font-semibold text-gray-200 border-b border-[#19bcd6]">Filed</th>
+                        <th className="text-left py-3 px-3 font-semibold text-gray-200 border-b border-[#19bcd6]">Athlete</th>
+                        <th className="text-left py-3 px-3 font-semibold text-gray-200 border-b border-[#19bcd6]">Boulder</th>
+                        <th className="text-left py-3 px-3 font-semibold text-gray-200 border-b border-[#19bcd6]">Reason</th>
+                        <th className="text-left py-3 px-3 font-semibold text-gray-200 border-b border-[#19bcd6]">Status</th>
+                        <th className="text-left py-3 px-3 font-semibold text-gray-200 border-b border-[#19bcd6]">Decision</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {openAppeals.map((appeal) => (
+                        <tr
+                          key={appeal.id}
+                          className={`border-b border-[#19bcd6]/50 align-top ${
+                            appeal.id === activeAppealId ? 'bg-[#27a9e1]/10' : ''
+                          }`}
+                        >
+                          <td className="py-2.5 px-3 text-sm text-gray-400">{formatTimestamp(appeal.submittedAtMs)}</td>
+                          <td className="py-2.5 px-3 text-sm text-gray-200">
+                            {appeal.athleteLabel || appeal.athleteId}
+                            <div className="text-xs text-gray-400">
+                              {categoryLabel(appeal.categoryId)} · {isBoulderRound(appeal.round) ? BOULDER_ROUND_LABELS[appeal.round] : appeal.round}
+                            </div>
+                          </td>
+                          <td className="py-2.5 px-3 text-sm text-gray-300">{appeal.routeLabel || appeal.routeId || '—'}</td>
+                          <td className="py-2.5 px-3 text-sm text-gray-300">
+                            {appeal.reason}
+                            <div className={`text-xs ${appeal.feePaid ? 'text-green-400' : 'text-yellow-300'}`}>
+                              {appeal.feePaid ? 'Fee paid' : 'Fee not paid'}
+                            </div>
+                          </td>
+                          <td className="py-2.5 px-3 text-sm text-gray-200">{APPEAL_STATUS_LABELS[appeal.status]}</td>
+                          <td className="py-2.5 px-3">
+                            <div className="flex flex-col gap-2 min-w-[200px]">
+                              <input
+                                value={decisionNotes[appeal.id] || ''}
+                                onChange={(e) =>
+                                  setDecisionNotes((prev) => ({ ...prev, [appeal.id]: e.target.value }))
+                                }
+                                placeholder="Decision note"
+                                className="px-2 py-1 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded text-sm focus:outline-none focus:border-[#27a9e1]"
+                              />
+                              <div className="flex flex-wrap gap-2">
+                                <button
+                                  onClick={() => reviewAppeal(appeal)}
+                                  className="px-2 py-1 text-xs border border-[#27a9e1] text-[#27a9e1] rounded hover:bg-[#27a9e1]/10 transition-colors"
+                                >
+                                  {appeal.status === 'submitted' ? 'Review' : 'Correct'}
+                                </button>
+                                {appeal.status === 'under_review' && (
+                                  <>
+                                    <button
+                                      onClick={() => decideAppeal(appeal, 'upheld')}
+                                      className="px-2 py-1 text-xs border border-green-500/60 text-green-400 rounded hover:bg-green-500/10 transition-colors"
+                                    >
+                                      Uphold
+                                    </button>
+                                    <button
+                                      onClick={() => decideAppeal(appeal, 'rejected')}
+                                      className="px-2 py-1 text-xs border border-[#a85555] bg-[#a85555]/10 text-[#fca5a5] rounded hover:bg-[#a85555]/20 transition-colors"
+                                    >
+                                      Reject
+                                    </button>
+                                  </>
+                                )}
+                              </div>
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {decidedAppeals.length > 0 && (
+                <div className="mt-4">
+                  <div className="text-sm font-semibold text-gray-200 mb-2">Decided in this round</div>
+                  <ul className="space-y-1 text-sm text-gray-300">
+                    {decidedAppeals.map((appeal) => (
+                      <li key={appeal.id}>
+                        <span className={appeal.status === 'upheld' ? 'text-green-400' : 'text-[#fca5a5]'}>
+                          {APPEAL_STATUS_LABELS[appeal.status]}
+                        </span>
+                        {' · '}
+                        {appeal.athleteLabel || appeal.athleteId} on {appeal.routeLabel || appeal.routeId || '—'}
+                        {appeal.decisionNote ? ` – ${appeal.decisionNote}` : ''}
+                        {appeal.status === 'upheld' && (
+                          <span className="ml-2 text-xs text-gray-400" title={(appeal.correctionAuditIds || []).join(', ')}>
+                            ({(appeal.correctionAuditIds || []).length} correction
+                            {(appeal.correctionAuditIds || []).length === 1 ? '' : 's'} in the audit log)
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </section>
+          )}
+
           {/* Leaderboard Note Panel */}
           {selectedComp && selectedCategory && (
             <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5">
@@ -1100,6 +1746,22 @@ function ChiefJudgeInterface() {
                 )}
               </div>
 
+              {activeAppeal && (
+                <div className="mb-4 flex flex-wrap items-center justify-between gap-3 rounded-lg border border-yellow-500/50 bg-yellow-500/10 px-4 py-3 text-sm text-yellow-200">
+                  <span>
+                    Changes are linked to the appeal for {activeAppeal.athleteLabel || activeAppeal.athleteId}
+                    {activeAppeal.routeLabel ? ` on ${activeAppeal.routeLabel}` : ''}.
+                    {roundStatus === 'official' && ' Reopen the round as provisional to apply corrections.'}
+                  </span>
+                  <button
+                    onClick={() => setActiveAppealId(null)}
+                    className="px-2 py-1 text-xs border border-yellow-500/60 rounded hover:bg-yellow-500/10 transition-colors"
+                  >
+                    Stop linking
+                  </button>
+                </div>
+              )}
+
               {/* Add New Attempt */}
               <div className="mb-4 p-4 bg-[#162246] border border-[#19bcd6] rounded-xl">
                 <div className="text-sm font-semibold text-gray-200 mb-3">Add New Attempt</div>
@@ -1112,10 +1774,20 @@ function ChiefJudgeInterface() {
                       className="px-3 py-2 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded text-sm focus:outline-none focus:border-[#27a9e1]"
                     >
                       <option value="1">1 (Attempt)</option>
-                      <option value="Z">Zone</option>
+                      <option value="Z">{twoZones ? 'Low Zone' : 'Zone'}</option>
+                      {twoZones && <option value="H">High Zone</option>}
                       <option value="T">Top</option>
                     </select>
                   </label>
+                  <label className="flex flex-col gap-2 flex-1 min-w-[180px]">
+                    <span className="text-xs text-gray-400">Reason (logged with the next change)</span>
+                    <input
+                      value={changeReason}
+                      onChange={(e) => setChangeReason(e.target.value)}
+                      placeholder="e.g. Appeal upheld, video review"
+                      className="px-3 py-2 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded text-sm focus:outline-none focus:border-[#27a9e1]"
+                    />
+                  </label>
                   <button
                     onClick={addNewAttempt}
                     disabled={addingAttempt}
@@ -1126,14 +1798,16 @@ function ChiefJudgeInterface() {
                   <button
                     type="button"
                     onClick={undoLastAction}
-                    disabled={!lastAction || !selectedAthleteId}
+                    disabled={!undoableEntries.length || !selectedAthleteId || undoing}
                     className="mt-5 px-4 py-2 text-sm border border-[#27a9e1] text-[#27a9e1] rounded-lg hover:bg-[#27a9e1]/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   >
-                    Undo last change
+                    {undoing ? 'Undoing...' : `Undo last change (${undoableEntries.length})`}
                   </button>
                   <span className="mt-5 text-xs text-gray-300">
                     {selectedAthlete && selectedRouteLabel
-                      ? `Undo last change for #${selectedAthlete.bib} ${selectedAthlete.name} on ${selectedRouteLabel}`
+                      ? undoableEntries[0]
+                        ? `Next undo for #${selectedAthlete.bib} ${selectedAthlete.name} on ${selectedRouteLabel}: ${describeAuditEntry(undoableEntries[0])}`
+                        : `Nothing to undo for #${selectedAthlete.bib} ${selectedAthlete.name} on ${selectedRouteLabel}`
                       : 'No climber selected'}
                   </span>
                 </div>
@@ -1165,12 +1839,21 @@ function ChiefJudgeInterface() {
                               className="px-2 py-1 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded text-sm focus:outline-none focus:border-[#27a9e1]"
                             >
                               <option value="1">1</option>
-                              <option value="Z">Zone</option>
+                              <option value="Z">{twoZones ? 'Low Zone' : 'Zone'}</option>
+                              {(twoZones || attempt.symbol === 'H') && <option value="H">High Zone</option>}
                               <option value="T">Top</option>
                             </select>
                           </td>
                           <td className="py-2.5 px-3 text-sm text-gray-400">
                             {formatTimestamp(attempt.createdAt)}
+                            {attempt.offline && (
+                              <span
+                                className="ml-2 px-1.5 py-0.5 text-[10px] uppercase rounded border border-yellow-500/60 text-yellow-300"
+                                title="Recorded while the judge pad was offline and synced later"
+                              >
+                                Offline
+                              </span>
+                            )}
                           </td>
                           <td className="py-2.5 px-3">
                             <button
@@ -1187,6 +1870,85 @@ function ChiefJudgeInterface() {
                 )}
               </div>
 
+              {/* Audit Log */}
+              <div className="text-sm font-semibold text-gray-200 mt-4 mb-2">Audit Log</div>
+              <div className="border border-[#19bcd6] rounded-xl overflow-hidden" style={{ maxHeight: '280px', overflowY: 'auto' }}>
+                {auditLoading ? (
+                  <div className="text-center py-8 text-gray-400">Loading audit log...</div>
+                ) : auditEntries.length === 0 ? (
+                  <div className="text-center py-8 text-gray-400">No changes recorded for this athlete on this boulder.</div>
+                ) : (
+                  <table className="w-full border-collapse">
+                    <thead>
+                      <tr className="bg-white/[0.04]">
+                        <th className="text-left py-3 px-3 font-semibold text-gray-200 border-b border-[#19bcd6]">When</th>
+                        <th className="text-left py-3 px-3 font-semibold text-gray-200 border-b border-[#19bcd6]">Change</th>
+                        <th className="text-left py-3 px-3 font-semibold text-gray-200 border-b border-[#19bcd6]">By</th>
+                        <th className="text-left py-3 px-3 font-semibold text-gray-200 border-b border-[#19bcd6]">Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {auditEntries.map((entry) => (
+                        <tr
+                          key={entry.id}
+                          className={`border-b border-[#19bcd6]/50 ${revertedAuditIds.has(entry.id) ? 'opacity-50' : ''}`}
+                        >
+                          <td className="py-2.5 px-3 text-sm text-gray-400">{formatTimestamp(entry.createdAtMs)}</td>
+                          <td className="py-2.5 px-3 text-sm text-gray-200">
+                            {describeAuditEntry(entry)}
+                            {entry.revertsAuditId && (
+                              <span className="ml-2 text-[10px] uppercase text-[#27a9e1]">Undo</span>
+                            )}
+                            {revertedAuditIds.has(entry.id) && (
+                              <span className="ml-2 text-[10px] uppercase text-gray-400">Undone</span>
+                            )}
+                            {entry.appealId && (
+                              <span className="ml-2 text-[10px] uppercase text-yellow-300">Appeal</span>
+                            )}
+                          </td>
+                          <td className="py-2.5 px-3 text-sm text-gray-300">
+                            <div className="font-mono text-xs break-all">{entry.actorUid || '—'}</div>
+                            <div className="text-xs text-gray-400">{entry.actorRole}</div>
+                          </td>
+                          <td className="py-2.5 px-3 text-sm text-gray-300">{entry.reason || '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+
+              {/* File Appeal */}
+              <div className="mt-4 p-4 bg-[#162246] border border-[#19bcd6] rounded-xl">
+                <div className="text-sm font-semibold text-gray-200 mb-3">File Appeal</div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <label className="flex flex-col gap-2 flex-1 min-w-[220px]">
+                    <span className="text-xs text-gray-400">Grounds for the appeal</span>
+                    <input
+                      value={appealReason}
+                      onChange={(e) => setAppealReason(e.target.value)}
+                      placeholder="e.g. Zone hold was controlled on attempt 3"
+                      className="px-3 py-2 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded text-sm focus:outline-none focus:border-[#27a9e1]"
+                    />
+                  </label>
+                  <label className="mt-5 flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={appealFeePaid}
+                      onChange={(e) => setAppealFeePaid(e.target.checked)}
+                    />
+                    Fee paid
+                  </label>
+                  <button
+                    onClick={fileAppealForSelection}
+                    disabled={filingAppeal || !appealReason.trim()}
+                    className="mt-5 px-4 py-2 text-sm border border-[#27a9e1] text-[#27a9e1] rounded-lg hover:bg-[#27a9e1]/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {filingAppeal ? 'Filing...' : 'File appeal'}
+                  </button>
+                </div>
+              </div>
+
               <div className="flex items-center gap-3 mt-3">
                 <button
                   onClick={closeEditPanel}
@@ -0,0 +1,92 @@
+'use client';
+
+import { Suspense, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Container from "@/components/Container";
+import { firestore } from "@/lib/firebase/client";
+import { collection, getDocs } from "firebase/firestore";
+import { useRoundClock } from "@/hooks/useRoundClock";
+import { ROUND_CLOCK_STATUS_LABELS, formatClockSeconds } from "@/lib/boulder/roundClock";
+
+interface BoulderCompetition {
+  id: string;
+  name?: string;
+  status?: string;
+}
+
+// Public rotation clock for a venue screen: /boulder/clock?compId=...
+export default function RoundClockDisplayPage() {
+  return (
+    <Suspense fallback={<main className="min-h-screen bg-background" />}>
+      <RoundClockDisplay />
+    </Suspense>
+  );
+}
+
+function RoundClockDisplay() {
+  const searchParams = useSearchParams();
+  const [competitions, setCompetitions] = useState<BoulderCompetition[]>([]);
+  const [selectedComp, setSelectedComp] = useState(searchParams?.get("compId") || "");
+  const { reading } = useRoundClock(selectedComp);
+
+  useEffect(() => {
+    if (!firestore) return;
+    const db = firestore;
+
+    const loadCompetitions = async () => {
+      try {
+        const snapshot = await getDocs(collection(db, "boulderComps"));
+        const comps = snapshot.docs
+          .map((doc) => ({
+            id: doc.id,
+            name: doc.data().name as string | undefined,
+            status: doc.data().status as string | undefined,
+          }))
+          .filter((comp) => !["archived", "deleted"].includes((comp.status || "").toLowerCase()));
+        setCompetitions(comps);
+        setSelectedComp((prev) => prev || comps[0]?.id || "");
+      } catch (error) {
+        console.error("Error loading competitions:", error);
+      }
+    };
+
+    loadCompetitions();
+  }, []);
+
+  const compName = competitions.find((comp) => comp.id === selectedComp)?.name || "";
+  const lastTenSeconds = reading.status === "running" && reading.remainingSeconds <= 10;
+
+  return (
+    <main className="min-h-screen bg-background text-foreground flex flex-col">
+      <Container className="flex-1 flex flex-col items-center justify-center gap-6 py-12">
+        <div className="text-2xl font-semibold text-muted-foreground text-center">
+          {compName || "Round clock"}
+        </div>
+        <div
+          className={`font-bold tabular-nums leading-none text-[28vw] md:text-[22vw] ${
+            lastTenSeconds ? "text-red-500" : reading.status === "running" ? "text-primary" : "text-muted-foreground"
+          }`}
+        >
+          {formatClockSeconds(reading.remainingSeconds)}
+        </div>
+        <div className="text-3xl text-muted-foreground">
+          {reading.rotation > 0 ? `Rotation ${reading.rotation} · ` : ""}
+          {ROUND_CLOCK_STATUS_LABELS[reading.status]}
+        </div>
+        {!searchParams?.get("compId") && competitions.length > 1 && (
+          <select
+            value={selectedComp}
+            onChange={(e) => setSelectedComp(e.target.value)}
+            className="px-4 py-2 rounded-lg border border-border bg-input text-foreground"
+          >
+            {competitions.map((comp) => (
+              <option key={comp.id} value={comp.id}>
+                {comp.name || comp.id}
+              </option>
+            ))}
+          </select>
+        )}
+      </Container>
+    </main>
+  );
+}
@@ -7,9 +7,16 @@ import Container from "@/components/Container"
 import AccessDenied from "@/components/AccessDenied"
 import { UserButton, useUser } from "@clerk/nextjs"
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth"
-import { useUserRole, isStaffRole } from "@/hooks/useUserRole"
+import { useUserRole, isStaffRole, type UserRole } from "@/hooks/useUserRole"
+import { canManageComp } from "@/lib/compMembers"
 import { firestore } from "@/lib/firebase/client"
 import { collection, getDocs, query, orderBy as firestoreOrderBy } from "firebase/firestore"
+import {
+  BOULDER_ROUND_IDS,
+  BOULDER_ROUND_LABELS,
+  parseBoulderRound,
+  type BoulderRoundId,
+} from "@/lib/boulder/rounds"
 
 interface Competition {
   id: string
@@ -49,10 +56,10 @@ export default function BoulderExportPage() {
     return <AccessDenied feature="Export Results" message="Firebase not available. Please refresh and try again." />
   }
 
-  return <ExportInterface />
+  return <ExportInterface role={role} />
 }
 
-function ExportInterface() {
+function ExportInterface({ role }: { role: UserRole | null }) {
   const { user } = useUser()
 
   // State
@@ -60,7 +67,7 @@ function ExportInterface() {
   const [categories, setCategories] = useState<Category[]>([])
   const [selectedComp, setSelectedComp] = useState("")
   const [selectedCategory, setSelectedCategory] = useState("all")
-  const [round, setRound] = useState<"qualification" | "final">("qualification")
+  const [round, setRound] = useState<BoulderRoundId>("qualification")
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState("")
 
@@ -73,6 +80,7 @@ function ExportInterface() {
       try {
         const snapshot = await getDocs(collection(firestore, "boulderComps"))
         const comps = snapshot.docs
+          .filter((doc) => canManageComp(doc.data(), user?.id, role))
           .map((doc) => ({
             id: doc.id,
             ...doc.data(),
@@ -93,7 +101,7 @@ function ExportInterface() {
     }
 
     loadCompetitions()
-  }, [selectedComp])
+  }, [selectedComp, user?.id, role])
 
   // Load categories when competition changes
   useEffect(() => {
@@ -162,7 +170,7 @@ function ExportInterface() {
         selectedCategory === "all"
           ? "all-categories"
           : categories.find((c) => c.id === selectedCategory)?.name || selectedCategory
-      const roundName = round === "final" ? "finals" : "qualification"
+      const roundName = round === "final" ? "finals" : round
       a.download = `${compName}-${categoryName}-${roundName}.csv`
 
       document.body.appendChild(a)
@@ -243,11 +251,14 @@ function ExportInterface() {
                 </span>
                 <select
                   value={round}
-                  onChange={(e) => setRound(e.target.value as "qualification" | "final")}
+                  onChange={(e) => setRound(parseBoulderRound(e.target.value))}
                   className="w-full px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
                 >
-                  <option value="qualification">Qualification</option>
-                  <option value="final">Final</option>
+                  {BOULDER_ROUND_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {BOULDER_ROUND_LABELS[id]}
+                    </option>
+                  ))}
                 </select>
               </label>
 
@@ -1,13 +1,14 @@
 'use client'
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import Link from "next/link"
 import Image from "next/image"
 import Container from "@/components/Container"
 import AccessDenied from "@/components/AccessDenied"
 import { UserButton, useUser } from "@clerk/nextjs"
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth"
-import { useUserRole, isStaffRole } from "@/hooks/useUserRole"
+import { useUserRole, isStaffRole, type UserRole } from "@/hooks/useUserRole"
+import { canManageComp } from "@/lib/compMembers"
 import { firestore } from "@/lib/firebase/client"
 import {
   collection,
@@ -16,23 +17,55 @@ import {
   where,
   orderBy as firestoreOrderBy,
   doc,
+  getDoc,
   setDoc,
   serverTimestamp
 } from "firebase/firestore"
-import { buildLeaderboardRows, type AttemptDoc, type AthleteInfo, type DetailMeta, type LeaderboardRow } from "@/lib/boulder/scoring"
+import {
+  buildLeaderboardRows,
+  getScoringFormat,
+  rankRows,
+  type AttemptDoc,
+  type AthleteInfo,
+  type DetailMeta,
+  type RankedRow,
+} from "@/lib/boulder/scoring"
+import {
+  BOULDER_ROUND_LABELS,
+  getCategoryRounds,
+  previousRanksFromStartlist,
+  previousRoundOf,
+  routeCollectionForRound,
+  startlistPathForRound,
+  type BoulderRoundConfig,
+  type BoulderRoundId,
+} from "@/lib/boulder/rounds"
+import {
+  athleteGroup,
+  getQualificationRanking,
+  isGroupRankedRow,
+  pickByGroupQuota,
+  rankRowsByGroup,
+  type QualificationRanking,
+} from "@/lib/boulder/groupRanking"
 
 interface Competition {
   id: string
   name?: string
   status?: string
+  scoringFormat?: string
 }
 
 interface Category {
   id: string
   name?: string
   order?: number
+  rounds: BoulderRoundConfig[]
+  qualificationRanking: QualificationRanking
 }
 
+const DEFAULT_ADVANCE_COUNT = 8
+
 export default function BoulderFinalsPage() {
   const { isLoaded, isSignedIn } = useUser()
   const { isFirebaseAuthenticated, error: firebaseError } = useFirebaseAuth()
@@ -48,21 +81,23 @@ export default function BoulderFinalsPage() {
   }
 
   if (!isSignedIn) {
-    return <AccessDenied feature="Generate Finals" message="Sign in with a staff/admin account to continue." />
+    return <AccessDenied feature="Advance Round" message="Sign in with a staff/admin account to continue." />
   }
 
   if (!isStaffRole(role)) {
-    return <AccessDenied feature="Generate Finals (staff/admin only)" />
+    return <AccessDenied feature="Advance Round (staff/admin only)" />
   }
 
   if (firebaseError) {
-    return <AccessDenied feature="Generate Finals" message="Firebase not available. Please refresh and try again." />
+    return <AccessDenied feature="Advance Round" message="Firebase not available. Please refresh and try again." />
   }
 
-  return <FinalsInterface />
+  return <AdvanceRoundInterface role={role} />
 }
 
-function FinalsInterface() {
+// Builds the start list of a category's next round from the previous round's
+// ranking. Everyone tied at the cut advances.
+function AdvanceRoundInterface({ role }: { role: UserRole | null }) {
   const { user } = useUser()
 
   // State
@@ -70,14 +105,15 @@ function FinalsInterface() {
   const [categories, setCategories] = useState<Category[]>([])
   const [selectedComp, setSelectedComp] = useState("")
   const [selectedCategory, setSelectedCategory] = useState("")
+  const [targetRound, setTargetRound] = useState<BoulderRoundId | "">("")
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState("")
 
   // Dialog states
   const [showCountDialog, setShowCountDialog] = useState(false)
-  const [finalistCount, setFinalistCount] = useState(8)
+  const [finalistCount, setFinalistCount] = useState(DEFAULT_ADVANCE_COUNT)
   const [showConfirmDialog, setShowConfirmDialog] = useState(false)
-  const [actualFinalists, setActualFinalists] = useState<LeaderboardRow[]>([])
+  const [actualFinalists, setActualFinalists] = useState<RankedRow[]>([])
   const [actualCount, setActualCount] = useState(0)
 
   // Load competitions
@@ -89,10 +125,12 @@ function FinalsInterface() {
       try {
         const snapshot = await getDocs(collection(firestore, "boulderComps"))
         const comps = snapshot.docs
+          .filter((doc) => canManageComp(doc.data(), user?.id, role))
           .map((doc) => ({
             id: doc.id,
             name: doc.data().name as string | undefined,
             status: doc.data().status as string | undefined,
+            scoringFormat: doc.data().scoringFormat as string | undefined,
           }))
           .filter(
             (comp: Competition) =>
@@ -110,7 +148,7 @@ function FinalsInterface() {
     }
 
     loadCompetitions()
-  }, [selectedComp])
+  }, [selectedComp, user?.id, role])
 
   // Load categories when competition changes
   useEffect(() => {
@@ -131,6 +169,8 @@ function FinalsInterface() {
           id: doc.id,
           name: doc.data().name as string | undefined,
           order: doc.data().order as number | undefined,
+          rounds: getCategoryRounds(doc.data()),
+          qualificationRanking: getQualificationRanking(doc.data()),
         }))
 
         setCategories(cats)
@@ -145,12 +185,35 @@ function FinalsInterface() {
     loadCategories()
   }, [selectedComp, selectedCategory])
 
+  const scoringFormat = getScoringFormat(
+    competitions.find((comp) => comp.id === selectedComp)?.scoringFormat
+  )
+
+  // Every round after qualification is built from the round before it
+  const selectedCategoryDoc = categories.find((cat) => cat.id === selectedCategory)
+  const categoryRounds = useMemo(
+    () => selectedCategoryDoc?.rounds || getCategoryRounds(null),
+    [selectedCategoryDoc]
+  )
+  const targetRounds = categoryRounds.slice(1)
+  const sourceRound = targetRound ? previousRoundOf(categoryRounds, targetRound) : null
+
+  useEffect(() => {
+    if (!targetRound || !targetRounds.some((round) => round.id === targetRound)) {
+      setTargetRound(targetRounds[0]?.id || "")
+    }
+  }, [targetRound, targetRounds])
+
+  const targetLabel = targetRound ? BOULDER_ROUND_LABELS[targetRound] : "next round"
+  const sourceLabel = sourceRound ? BOULDER_ROUND_LABELS[sourceRound.id] : "previous round"
+
   const handleGenerateClick = () => {
-    if (!selectedComp || !selectedCategory) {
-      setError("Please select a competition and category")
+    if (!selectedComp || !selectedCategory || !targetRound || !sourceRound) {
+      setError("Please select a competition, category and round")
       return
     }
     setError("")
+    setFinalistCount(sourceRound.quota ?? DEFAULT_ADVANCE_COUNT)
     setShowCountDialog(true)
   }
 
@@ -163,11 +226,15 @@ function FinalsInterface() {
       if (!firestore) {
         throw new Error("Firebase not initialized")
       }
+      if (!sourceRound) {
+        throw new Error("This category has no round before the selected one")
+      }
+      const categoryPath = `boulderComps/${selectedComp}/categories/${selectedCategory}`
 
-      // Load qualification data
+      // Load the previous round's routes
       const routesSnapshot = await getDocs(
         query(
-          collection(firestore, `boulderComps/${selectedComp}/categories/${selectedCategory}/routes`),
+          collection(firestore, `${categoryPath}/${routeCollectionForRound(sourceRound.id)}`),
           firestoreOrderBy("order", "asc")
         )
       )
@@ -178,7 +245,18 @@ function FinalsInterface() {
       }))
 
       if (routes.length === 0) {
-        throw new Error("No qualification routes found for this category")
+        throw new Error(`No ${sourceLabel.toLowerCase()} routes found for this category`)
+      }
+
+      // A previous round with its own start list breaks ties on the ranks it was built from
+      const sourceStartlistPath = startlistPathForRound(sourceRound.id)
+      let previousRanks: Map<string, number> | undefined
+      if (sourceStartlistPath) {
+        const sourceStartlist = await getDoc(doc(firestore, `${categoryPath}/${sourceStartlistPath}`))
+        if (!sourceStartlist.exists()) {
+          throw new Error(`Generate the ${sourceLabel.toLowerCase()} start list first`)
+        }
+        previousRanks = previousRanksFromStartlist(sourceStartlist.data())
       }
 
       // Load attempts
@@ -186,7 +264,7 @@ function FinalsInterface() {
         query(
           collection(firestore, `boulderComps/${selectedComp}/attempts`),
           where("categoryId", "==", selectedCategory),
-          where("round", "==", "qualification")
+          where("round", "==", sourceRound.id)
         )
       )
 
@@ -204,12 +282,14 @@ function FinalsInterface() {
       )
 
       const athletesById = new Map<string, AthleteInfo>()
+      const groups = new Map<string, string>()
       athletesSnapshot.docs.forEach((doc) => {
         athletesById.set(doc.id, {
           bib: doc.data().bib,
           name: doc.data().name,
           team: doc.data().team,
         })
+        groups.set(doc.id, athleteGroup(doc.data()))
       })
 
       // Build details meta
@@ -222,22 +302,31 @@ function FinalsInterface() {
         })
       })
 
-      // Build leaderboard
+      // Build leaderboard; only athletes on the previous round's start list take part
       const rows = buildLeaderboardRows({
         attemptDocs: attempts,
         athletesById,
         detailsMeta,
-      })
-
-      // Pick finalists with tie handling
-      const finalists = pickFinalists(rows, finalistCount)
+        format: scoringFormat,
+      }).filter((row) => !previousRanks || previousRanks.has(row.athleteId))
+
+      // Pick advancing athletes with tie handling; groups ranked separately
+      // in qualification split the places between them
+      const byGroup =
+        sourceRound.id === "qualification" && selectedCategoryDoc?.qualificationRanking === "combined"
+      const finalists = pickFinalists(
+        byGroup
+          ? rankRowsByGroup(rows, { format: scoringFormat, groupByAthlete: groups })
+          : rankRows(rows, { format: scoringFormat, previousRanks }),
+        finalistCount
+      )
 
       setActualFinalists(finalists)
       setActualCount(finalists.length)
       setShowConfirmDialog(true)
     } catch (err) {
-      console.error("Error generating finals:", err)
-      setError(err instanceof Error ? err.message : "Failed to generate finals")
+      console.error("Error ranking previous round:", err)
+      setError(err instanceof Error ? err.message : "Failed to rank the previous round")
     } finally {
       setLoading(false)
     }
@@ -252,37 +341,26 @@ function FinalsInterface() {
       if (!firestore) {
         throw new Error("Firebase not initialized")
       }
+      const startlistPath = targetRound ? startlistPathForRound(targetRound) : null
+      if (!startlistPath || !sourceRound) {
+        throw new Error("Select a round to advance to")
+      }
 
-      // Build startlist entries with qualifier ranks
-      const entries = actualFinalists.map((finalist, index) => {
-        // Calculate rank with tie handling
-        let rank = 1
-        for (let i = 0; i < index; i++) {
-          const prev = actualFinalists[i]
-          if (
-            prev.points !== finalist.points ||
-            prev.tops !== finalist.tops ||
-            prev.zones !== finalist.zones
-          ) {
-            rank = i + 2
-          }
-        }
-
-        return {
-          athleteId: finalist.athleteId,
-          qualifierRank: rank,
-        }
-      })
+      // Build startlist entries with previous-round ranks
+      const entries = actualFinalists.map(({ row, rank }) => ({
+        athleteId: row.athleteId,
+        previousRank: rank,
+      }))
 
       // Write to Firestore
       const startlistRef = doc(
         firestore,
-        `boulderComps/${selectedComp}/categories/${selectedCategory}/finals`,
-        "startlist"
+        `boulderComps/${selectedComp}/categories/${selectedCategory}/${startlistPath}`
       )
 
       await setDoc(startlistRef, {
         entries,
+        fromRound: sourceRound.id,
         generatedAt: serverTimestamp(),
         requestedCount: finalistCount,
         actualCount: actualFinalists.length,
@@ -293,12 +371,12 @@ function FinalsInterface() {
       setShowConfirmDialog(false)
       setActualFinalists([])
       setActualCount(0)
-      setFinalistCount(8)
+      setFinalistCount(DEFAULT_ADVANCE_COUNT)
 
-      alert(`Successfully generated finals with ${actualFinalists.length} finalists!`)
+      alert(`Successfully generated the ${targetLabel.toLowerCase()} start list with ${actualFinalists.length} athletes!`)
     } catch (err) {
-      console.error("Error saving finals:", err)
-      setError(err instanceof Error ? err.message : "Failed to save finals")
+      console.error("Error saving start list:", err)
+      setError(err instanceof Error ? err.message : "Failed to save start list")
     } finally {
       setLoading(false)
     }
@@ -306,7 +384,7 @@ function FinalsInterface() {
 
   const handleCancelCount = () => {
     setShowCountDialog(false)
-    setFinalistCount(8)
+    setFinalistCount(DEFAULT_ADVANCE_COUNT)
   }
 
   const handleCancelConfirm = () => {
@@ -332,7 +410,7 @@ function FinalsInterface() {
                   className="h-11 w-auto"
                 />
               </Link>
-              <span className="text-gray-400">Generate Finals</span>
+              <span className="text-gray-400">Advance Round</span>
             </div>
             <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
               <span className="truncate max-w-[240px]">
@@ -342,12 +420,12 @@ function FinalsInterface() {
             </div>
           </header>
 
-          {/* Generate Finals Form */}
+          {/* Advance Round Form */}
           <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-6">
             <div className="mb-6">
-              <h1 className="text-2xl font-bold text-gray-100">Generate Finals</h1>
+              <h1 className="text-2xl font-bold text-gray-100">Advance Round</h1>
               <p className="text-sm text-gray-400 mt-1">
-                Select qualifiers for finals with automatic tie handling
+                Build a round&apos;s start list from the previous round&apos;s ranking with automatic tie handling
               </p>
             </div>
 
@@ -397,6 +475,29 @@ function FinalsInterface() {
                 </select>
               </label>
 
+              {/* Round */}
+              <label className="block">
+                <span className="text-sm font-semibold text-gray-200 mb-2 block">
+                  Round
+                </span>
+                <select
+                  value={targetRound}
+                  onChange={(e) => setTargetRound(e.target.value as BoulderRoundId)}
+                  className="w-full px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                  disabled={!selectedCategory}
+                >
+                  {targetRounds.length === 0 ? (
+                    <option value="">No rounds after qualification</option>
+                  ) : (
+                    targetRounds.map((round) => (
+                      <option key={round.id} value={round.id}>
+                        {BOULDER_ROUND_LABELS[round.id]} (from {BOULDER_ROUND_LABELS[previousRoundOf(categoryRounds, round.id)?.id || "qualification"]})
+                      </option>
+                    ))
+                  )}
+                </select>
+              </label>
+
               {/* Error Message */}
               {error && (
                 <div className="rounded-lg bg-red-500/10 border border-red-500/30 px-4 py-3 text-sm text-red-300">
@@ -407,10 +508,10 @@ function FinalsInterface() {
               {/* Generate Button */}
               <button
                 onClick={handleGenerateClick}
-                disabled={loading || !selectedComp || !selectedCategory}
+                disabled={loading || !selectedComp || !selectedCategory || !targetRound}
                 className="w-full px-6 py-3 bg-[#27a9e1] text-[#031726] rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {loading ? "Generating..." : "Generate Finals"}
+                {loading ? "Generating..." : `Generate ${targetLabel} Start List`}
               </button>
             </div>
           </section>
@@ -427,22 +528,25 @@ function FinalsInterface() {
         </div>
       </Container>
 
-      {/* Finalist Count Dialog */}
+      {/* Advancing Count Dialog */}
       {showCountDialog && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
           <div className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-6 max-w-md w-full">
             <h2 className="text-xl font-bold text-gray-100 mb-4">
-              Number of Finalists
+              Athletes Advancing to {targetLabel}
             </h2>
             <p className="text-sm text-gray-400 mb-4">
-              Enter the desired number of finalists. If there are ties at the cut position, all tied athletes will be included.
+              Enter how many athletes advance from {sourceLabel.toLowerCase()}. If there are ties at the cut position, all tied athletes will be included.
+              {sourceRound?.id === "qualification" && selectedCategoryDoc?.qualificationRanking === "combined" && (
+                <> Places are split evenly across the qualification groups.</>
+              )}
             </p>
             <input
               type="number"
               min="1"
               max="50"
               value={finalistCount}
-              onChange={(e) => setFinalistCount(Math.max(1, parseInt(e.target.value) || 8))}
+              onChange={(e) => setFinalistCount(Math.max(1, parseInt(e.target.value) || DEFAULT_ADVANCE_COUNT))}
               className="w-full px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1] mb-6"
             />
             <div className="flex gap-3">
@@ -469,18 +573,18 @@ function FinalsInterface() {
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
           <div className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-6 max-w-md w-full">
             <h2 className="text-xl font-bold text-gray-100 mb-4">
-              Confirm Finals Generation
+              Confirm {targetLabel} Start List
             </h2>
             <p className="text-sm text-gray-400 mb-4">
-              You requested <strong className="text-gray-200">{finalistCount}</strong> finalists.
+              You requested <strong className="text-gray-200">{finalistCount}</strong> athletes.
               {actualCount > finalistCount && (
                 <>
-                  {" "}Due to ties at the cut position, <strong className="text-gray-200">{actualCount}</strong> athletes will advance to finals.
+                  {" "}Due to ties at the cut position, <strong className="text-gray-200">{actualCount}</strong> athletes will advance to the {targetLabel.toLowerCase()}.
                 </>
               )}
               {actualCount === finalistCount && (
                 <>
-                  {" "}<strong className="text-gray-200">{actualCount}</strong> athletes will advance to finals.
+                  {" "}<strong className="text-gray-200">{actualCount}</strong> athletes will advance to the {targetLabel.toLowerCase()}.
                 </>
               )}
             </p>
@@ -506,30 +610,10 @@ function FinalsInterface() {
   )
 }
 
-// Helper function to pick finalists with tie handling
-function pickFinalists(rows: LeaderboardRow[], targetCount: number): LeaderboardRow[] {
-  if (rows.length === 0) return []
-  if (rows.length <= targetCount) return rows
-
-  // Find the cut athlete (at position targetCount - 1, zero-indexed)
-  const cutAthlete = rows[targetCount - 1]
-
-  // Include all athletes better than cut athlete (first targetCount - 1)
-  const finalists = rows.slice(0, targetCount)
-
-  // Include all athletes tied with cut athlete
-  for (let i = targetCount; i < rows.length; i++) {
-    const athlete = rows[i]
-    if (
-      athlete.points === cutAthlete.points &&
-      athlete.tops === cutAthlete.tops &&
-      athlete.zones === cutAthlete.zones
-    ) {
-      finalists.push(athlete)
-    } else {
-      break
-    }
+// Helper function to pick advancing athletes, keeping everyone who shares the cut rank
+function pickFinalists(rankedRows: RankedRow[], targetCount: number): RankedRow[] {
+  if (rankedRows.length && rankedRows.every(isGroupRankedRow)) {
+    return pickByGroupQuota(rankedRows, targetCount)
   }
-
-  return finalists
+  return rankedRows.filter(({ rank }) => rank <= targetCount)
 }
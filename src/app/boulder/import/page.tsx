@@ -7,7 +7,8 @@ import Container from "@/components/Container"
 import AccessDenied from "@/components/AccessDenied"
 import { UserButton, useUser } from "@clerk/nextjs"
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth"
-import { useUserRole, isStaffRole } from "@/hooks/useUserRole"
+import { useUserRole, isStaffRole, type UserRole } from "@/hooks/useUserRole"
+import { canManageComp } from "@/lib/compMembers"
 import {
   collection,
   doc,
@@ -208,10 +209,10 @@ export default function ImportPage() {
     return <AccessDenied feature="Boulder Import" message="Firebase not available. Please refresh and try again." />
   }
 
-  return <ImportInterface />
+  return <ImportInterface role={role} />
 }
 
-function ImportInterface() {
+function ImportInterface({ role }: { role: UserRole | null }) {
   const { user } = useUser()
 
   const [comps, setComps] = useState<Competition[]>([])
@@ -260,6 +261,7 @@ function ImportInterface() {
       try {
         const snap = await getDocs(collection(db, "boulderComps"))
         const list = snap.docs
+          .filter((d) => canManageComp(d.data(), user?.id, role))
           .map((d) => {
             const { id: _id, ...rest } = d.data() as Competition
             void _id
@@ -275,7 +277,7 @@ function ImportInterface() {
       console.error(err)
       setMessage({ text: "Failed to load competitions.", tone: "warn" })
     })
-  }, [])
+  }, [user?.id, role])
 
   useEffect(() => {
     if (!selectedCompId || !firestore) {
@@ -0,0 +1,480 @@
+'use client'
+
+import { useState, useEffect, type FormEvent } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import Container from "@/components/Container"
+import AccessDenied from "@/components/AccessDenied"
+import { UserButton, useUser } from "@clerk/nextjs"
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth"
+import { useUserRole, isStaffRole, type UserRole } from "@/hooks/useUserRole"
+import { canManageComp } from "@/lib/compMembers"
+import { firestore } from "@/lib/firebase/client"
+import { collection, getDocs, limit, onSnapshot, orderBy, query } from "firebase/firestore"
+import {
+  BOULDER_ROUND_IDS,
+  BOULDER_ROUND_LABELS,
+  routeCollectionForRound,
+  type BoulderRoundId,
+} from "@/lib/boulder/rounds"
+import {
+  MAX_SCOPE_ROUTES,
+  describeJudgeScope,
+  isActiveJudgeSession,
+  parseJudgeCredential,
+  parseJudgeSession,
+  type JudgeCredential,
+  type JudgeSessionEntry,
+} from "@/lib/boulder/judgeAccess"
+import { addJudgeCredential, removeJudgeCredential, revokeJudgeSession } from "@/lib/boulder/judgeAccessApi"
+import { JUDGE_PASSCODE_MIN_LENGTH } from "@/lib/judgePasscode"
+
+interface Competition {
+  id: string
+  name?: string
+  status?: string
+}
+
+const SESSIONS_LIMIT = 100
+
+const formatTime = (ms: number | null) => (ms ? new Date(ms).toLocaleTimeString() : "—")
+
+export default function JudgeAccessPage() {
+  const { isLoaded, isSignedIn } = useUser()
+  const { isFirebaseAuthenticated, error: firebaseError } = useFirebaseAuth()
+  const { role, loading: roleLoading } = useUserRole()
+
+  const waitingForFirebaseAuth = isSignedIn && !isFirebaseAuthenticated && !firebaseError
+  if (!isLoaded || waitingForFirebaseAuth || roleLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="text-lg text-muted-foreground">Loading…</div>
+      </div>
+    )
+  }
+
+  if (!isSignedIn) {
+    return <AccessDenied feature="Judge Access" message="Sign in with a staff/admin account to continue." />
+  }
+
+  if (!isStaffRole(role)) {
+    return <AccessDenied feature="Judge Access (staff/admin only)" />
+  }
+
+  if (firebaseError) {
+    return <AccessDenied feature="Judge Access" message="Firebase not available. Please refresh and try again." />
+  }
+
+  return <JudgeAccessInterface role={role} />
+}
+
+function JudgeAccessInterface({ role }: { role: UserRole | null }) {
+  const { user } = useUser()
+
+  const [competitions, setCompetitions] = useState<Competition[]>([])
+  const [selectedComp, setSelectedComp] = useState("")
+  const [error, setError] = useState("")
+
+  const [credentials, setCredentials] = useState<JudgeCredential[]>([])
+  const [sessions, setSessions] = useState<JudgeSessionEntry[]>([])
+  const [sessionsLoading, setSessionsLoading] = useState(true)
+  const [busyId, setBusyId] = useState("")
+
+  const [label, setLabel] = useState("")
+  const [passcode, setPasscode] = useState("")
+  const [scopeRound, setScopeRound] = useState<BoulderRoundId | "">("")
+  const [routeOptions, setRouteOptions] = useState<string[]>([])
+  const [scopeRouteIds, setScopeRouteIds] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+  const [notice, setNotice] = useState("")
+
+  // Load competitions
+  useEffect(() => {
+    if (!firestore) return
+
+    const loadCompetitions = async () => {
+      if (!firestore) return
+      try {
+        const snapshot = await getDocs(collection(firestore, "boulderComps"))
+        const comps = snapshot.docs
+          .filter((doc) => canManageComp(doc.data(), user?.id, role))
+          .map((doc) => ({
+            id: doc.id,
+            ...doc.data(),
+          }))
+          .filter(
+            (comp: Competition) =>
+              !["archived", "deleted"].includes((comp.status || "").toLowerCase())
+          ) as Competition[]
+
+        setCompetitions(comps)
+        if (comps.length > 0 && !selectedComp) {
+          setSelectedComp(comps[0].id)
+        }
+      } catch (err) {
+        console.error("Error loading competitions:", err)
+        setError("Failed to load competitions")
+      }
+    }
+
+    loadCompetitions()
+  }, [selectedComp, user?.id, role])
+
+  // Station passcodes and sessions of the selected competition
+  useEffect(() => {
+    if (!firestore || !selectedComp) {
+      setCredentials([])
+      setSessions([])
+      return
+    }
+
+    setSessionsLoading(true)
+    const unsubscribeCredentials = onSnapshot(
+      query(collection(firestore, `boulderComps/${selectedComp}/judgeCredentials`), orderBy("createdAtMs", "desc")),
+      (snapshot) => setCredentials(snapshot.docs.map((d) => parseJudgeCredential(d.id, d.data()))),
+      (err) => {
+        console.error("Error loading station passcodes:", err)
+        setCredentials([])
+      }
+    )
+    const unsubscribeSessions = onSnapshot(
+      query(
+        collection(firestore, `boulderComps/${selectedComp}/judgeSessions`),
+        orderBy("createdAtMs", "desc"),
+        limit(SESSIONS_LIMIT)
+      ),
+      (snapshot) => {
+        setSessions(snapshot.docs.map((d) => parseJudgeSession(d.id, d.data())))
+        setSessionsLoading(false)
+      },
+      (err) => {
+        console.error("Error loading judge sessions:", err)
+        setSessions([])
+        setSessionsLoading(false)
+      }
+    )
+
+    return () => {
+      unsubscribeCredentials()
+      unsubscribeSessions()
+    }
+  }, [selectedComp])
+
+  // Route ids of the scoped round across all categories
+  useEffect(() => {
+    setScopeRouteIds([])
+    if (!firestore || !selectedComp || !scopeRound) {
+      setRouteOptions([])
+      return
+    }
+    const db = firestore
+    const round = scopeRound
+
+    const loadRouteOptions = async () => {
+      try {
+        const catsSnap = await getDocs(collection(db, `boulderComps/${selectedComp}/categories`))
+        const routeSnaps = await Promise.all(
+          catsSnap.docs.map((cat) =>
+            getDocs(collection(db, `boulderComps/${selectedComp}/categories/${cat.id}/${routeCollectionForRound(round)}`))
+          )
+        )
+        const ids = new Set(routeSnaps.flatMap((snap) => snap.docs.map((d) => d.id)))
+        setRouteOptions(Array.from(ids).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })))
+      } catch (err) {
+        console.error("Error loading routes:", err)
+        setRouteOptions([])
+      }
+    }
+
+    loadRouteOptions()
+  }, [selectedComp, scopeRound])
+
+  const toggleRoute = (routeId: string) => {
+    setScopeRouteIds((current) =>
+      current.includes(routeId) ? current.filter((id) => id !== routeId) : [...current, routeId]
+    )
+  }
+
+  const handleAddCredential = async (event: FormEvent) => {
+    event.preventDefault()
+    setError("")
+    setNotice("")
+    if (!label.trim() || passcode.trim().length < JUDGE_PASSCODE_MIN_LENGTH) {
+      setError(`Enter a label and a passcode of at least ${JUDGE_PASSCODE_MIN_LENGTH} characters`)
+      return
+    }
+    setSaving(true)
+    try {
+      const added = await addJudgeCredential(selectedComp, label.trim(), passcode.trim(), scopeRound || null, scopeRouteIds)
+      setNotice(`Station passcode "${added.label}" added. Share the code with the judges at that station.`)
+      setLabel("")
+      setPasscode("")
+      setScopeRouteIds([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add station passcode")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemoveCredential = async (credential: JudgeCredential) => {
+    if (!confirm(`Delete "${credential.label}"? Judges signed in with it are signed out.`)) return
+    setError("")
+    setNotice("")
+    setBusyId(credential.id)
+    try {
+      const { revokedSessions } = await removeJudgeCredential(selectedComp, credential.id)
+      setNotice(`Deleted "${credential.label}" and ended ${revokedSessions} session${revokedSessions === 1 ? "" : "s"}.`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete station passcode")
+    } finally {
+      setBusyId("")
+    }
+  }
+
+  const handleRevokeSession = async (session: JudgeSessionEntry) => {
+    if (!confirm(`End the session of ${session.judgeName || "this judge"}?`)) return
+    setError("")
+    setNotice("")
+    setBusyId(session.uid)
+    try {
+      await revokeJudgeSession(selectedComp, session.uid)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to end session")
+    } finally {
+      setBusyId("")
+    }
+  }
+
+  const now = Date.now()
+  const activeSessions = sessions.filter((session) => isActiveJudgeSession(session, now))
+
+  return (
+    <main className="py-6 min-h-screen bg-[#0b1220] text-gray-200">
+      <Container>
+        <div className="max-w-[900px] mx-auto space-y-6">
+          {/* Header */}
+          <header className="flex flex-col gap-3">
+            <div className="flex items-center gap-3">
+              <Link href="/" className="inline-block">
+                <Image
+                  src="/logo_header.png"
+                  alt="GripRank"
+                  width={4001}
+                  height={1228}
+                  priority
+                  className="h-11 w-auto"
+                />
+              </Link>
+              <span className="text-gray-400">Judge Access</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+              <span className="truncate max-w-[240px]">
+                {user?.emailAddresses[0]?.emailAddress || "Signed in"}
+              </span>
+              <UserButton afterSignOutUrl="/" />
+            </div>
+          </header>
+
+          <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-6 space-y-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-100">Judge Access</h1>
+              <p className="text-sm text-gray-400 mt-1">
+                Station passcodes sign judges in for specific rounds and routes. End a single session here without
+                changing the shared judge passcode in Boulder Setup.
+              </p>
+            </div>
+
+            <label className="block">
+              <span className="text-sm font-semibold text-gray-200 mb-2 block">
+                Competition
+              </span>
+              <select
+                value={selectedComp}
+                onChange={(e) => setSelectedComp(e.target.value)}
+                className="w-full px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+              >
+                {competitions.length === 0 ? (
+                  <option value="">No competitions found</option>
+                ) : (
+                  competitions.map((comp) => (
+                    <option key={comp.id} value={comp.id}>
+                      {comp.name || comp.id}
+                    </option>
+                  ))
+                )}
+              </select>
+            </label>
+
+            {error && (
+              <div className="rounded-lg bg-red-500/10 border border-red-500/30 px-4 py-3 text-sm text-red-300">
+                {error}
+              </div>
+            )}
+            {notice && (
+              <div className="rounded-lg bg-green-500/10 border border-green-500/30 px-4 py-3 text-sm text-green-300">
+                {notice}
+              </div>
+            )}
+          </section>
+
+          {/* Station passcodes */}
+          <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-100">Station passcodes</h2>
+
+            <form className="space-y-3" onSubmit={handleAddCredential}>
+              <div className="grid gap-3 md:grid-cols-3">
+                <input
+                  type="text"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  maxLength={60}
+                  placeholder="Label, e.g. Station 3 or a judge's name"
+                  className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                />
+                <input
+                  type="text"
+                  value={passcode}
+                  onChange={(e) => setPasscode(e.target.value)}
+                  placeholder={`Passcode (min ${JUDGE_PASSCODE_MIN_LENGTH} characters)`}
+                  className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                />
+                <select
+                  value={scopeRound}
+                  onChange={(e) => setScopeRound(e.target.value as BoulderRoundId | "")}
+                  className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                >
+                  <option value="">Any round</option>
+                  {BOULDER_ROUND_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {BOULDER_ROUND_LABELS[id]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {scopeRound && (
+                <div className="space-y-2">
+                  <p className="text-xs text-gray-400">
+                    Routes (none selected allows every {BOULDER_ROUND_LABELS[scopeRound].toLowerCase()} route, up to{" "}
+                    {MAX_SCOPE_ROUTES})
+                  </p>
+                  {routeOptions.length === 0 ? (
+                    <p className="text-xs text-gray-500">No routes set up for this round yet.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {routeOptions.map((routeId) => (
+                        <label
+                          key={routeId}
+                          className="flex items-center gap-1.5 rounded-lg border border-[#19bcd6]/50 bg-[#101a34] px-2.5 py-1 text-sm"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={scopeRouteIds.includes(routeId)}
+                            disabled={!scopeRouteIds.includes(routeId) && scopeRouteIds.length >= MAX_SCOPE_ROUTES}
+                            onChange={() => toggleRoute(routeId)}
+                          />
+                          {routeId}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={saving || !selectedComp}
+                className="px-6 py-2.5 bg-[#27a9e1] text-[#031726] rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? "Adding..." : "Add station passcode"}
+              </button>
+            </form>
+
+            {credentials.length === 0 ? (
+              <p className="text-sm text-gray-400">No station passcodes. Judges use the shared passcode.</p>
+            ) : (
+              <ul className="divide-y divide-[#19bcd6]/30">
+                {credentials.map((credential) => (
+                  <li key={credential.id} className="flex flex-wrap items-center justify-between gap-3 py-2.5">
+                    <div>
+                      <p className="font-semibold text-gray-100">{credential.label}</p>
+                      <p className="text-xs text-gray-400">{describeJudgeScope(credential.scope)}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveCredential(credential)}
+                      disabled={busyId === credential.id}
+                      className="px-3 py-1.5 text-sm rounded-lg border border-red-500/50 text-red-300 hover:bg-red-500/10 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Active sessions */}
+          <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-100">Active judge sessions</h2>
+            {sessionsLoading ? (
+              <p className="text-sm text-gray-400">Loading…</p>
+            ) : activeSessions.length === 0 ? (
+              <p className="text-sm text-gray-400">No judges are signed in with a passcode.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs uppercase tracking-wide text-gray-400">
+                      <th className="py-2 pr-3">Judge</th>
+                      <th className="py-2 pr-3">Passcode</th>
+                      <th className="py-2 pr-3">Station</th>
+                      <th className="py-2 pr-3">Signed in</th>
+                      <th className="py-2 pr-3">Last write</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[#19bcd6]/30">
+                    {activeSessions.map((session) => (
+                      <tr key={session.uid}>
+                        <td className="py-2 pr-3 text-gray-100">{session.judgeName || "—"}</td>
+                        <td className="py-2 pr-3">
+                          <p>{session.credentialLabel}</p>
+                          <p className="text-xs text-gray-400">{describeJudgeScope(session.scope)}</p>
+                        </td>
+                        <td className="py-2 pr-3">{session.station || "—"}</td>
+                        <td className="py-2 pr-3">{formatTime(session.createdAtMs)}</td>
+                        <td className="py-2 pr-3">{formatTime(session.lastWriteAtMs)}</td>
+                        <td className="py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => handleRevokeSession(session)}
+                            disabled={busyId === session.uid}
+                            className="px-3 py-1.5 text-sm rounded-lg border border-red-500/50 text-red-300 hover:bg-red-500/10 disabled:opacity-50"
+                          >
+                            {busyId === session.uid ? "Ending..." : "End session"}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          {/* Back Link */}
+          <div className="text-center">
+            <Link
+              href="/boulder/admin"
+              className="text-sm text-[#27a9e1] hover:text-[#19bcd6] hover:underline"
+            >
+              ← Back to Admin Dashboard
+            </Link>
+          </div>
+        </div>
+      </Container>
+    </main>
+  )
+}
@@ -7,14 +7,16 @@ import Script from "next/script";
 import Container from "@/components/Container";
 import { firestore } from "@/lib/firebase/client";
 import { useJudgePasscodeSession } from "@/hooks/useJudgePasscodeSession";
+import { useAttemptQueue, type AttemptTransport } from "@/hooks/useAttemptQueue";
+import { useRoundClock } from "@/hooks/useRoundClock";
 import {
   collection,
   getDocs,
   query,
   orderBy,
   where,
-  addDoc,
   setDoc,
+  updateDoc,
   doc,
   getDoc,
   serverTimestamp,
@@ -26,6 +28,31 @@ import {
   isStationConfigComplete,
   type StationConfig,
 } from "@/lib/boulder/judgeStations";
+import { UNRESTRICTED_SCOPE, describeJudgeScope, isRestrictedScope, judgeScopeAllows } from "@/lib/boulder/judgeAccess";
+import { isTwoZoneComp, type AttemptSymbol } from "@/lib/boulder/scoring";
+import { ROUND_STATUS_LABELS, getRoundStatus, isRoundOpen, type RoundStatus } from "@/lib/roundStatus";
+import {
+  BOULDER_ROUND_LABELS,
+  getCategoryRounds,
+  routeCollectionForRound,
+  startlistEntries,
+  startlistPathForRound,
+  usesStartlist,
+  type BoulderRoundId,
+} from "@/lib/boulder/rounds";
+import { parseAthleteQr } from "@/lib/boulder/athleteQr";
+import { ROUND_CLOCK_STATUS_LABELS, formatClockSeconds } from "@/lib/boulder/roundClock";
+import {
+  currentSlotForRoute,
+  parseRunningSchedule,
+  schedulePathForRound,
+  type RunningScheduleDoc,
+} from "@/lib/boulder/schedule";
+
+// Set NEXT_PUBLIC_BOULDER_ATTEMPTS_API=true to send attempts through the
+// validating /api/boulder/attempts route instead of writing them directly
+const ATTEMPT_TRANSPORT: AttemptTransport =
+  process.env.NEXT_PUBLIC_BOULDER_ATTEMPTS_API === "true" ? "api" : "firestore";
 
 // QR Scanner types
 interface BarcodeDetectorResult {
@@ -51,6 +78,7 @@ interface Competition {
   id: string;
   name?: string;
   status?: string;
+  zoneCount?: number;
   updatedAt?: unknown;
 }
 
@@ -59,6 +87,8 @@ interface Category {
   name?: string;
   order?: number;
   updatedAt?: unknown;
+  roundStatus?: Record<string, RoundStatus>;
+  rounds?: unknown;
 }
 
 interface RouteDetail {
@@ -88,8 +118,6 @@ interface AttemptRecord {
   enteredBy?: string;
 }
 
-type RoundType = "qualification" | "final";
-
 type JudgeAuthState = ReturnType<typeof useJudgePasscodeSession>;
 
 export default function JudgePage() {
@@ -118,14 +146,68 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
   const [competitionsLoading, setCompetitionsLoading] = useState(true);
   const [selectedComp, setSelectedComp] = useState("");
 
+  const attemptQueue = useAttemptQueue({
+    enabled: Boolean(session),
+    transport: ATTEMPT_TRANSPORT,
+    actorRole: session?.role || "judge",
+    onPermissionDenied: () => {
+      invalidateSession("Session expired or passcode changed. Please enter the new code.")
+    },
+    // Denied writes only end the session when it no longer holds up; a closed
+    // round or a route outside the judge code is refused attempt by attempt
+    checkSession: async () => {
+      if (!firestore || !session) return false
+      if (session.authType !== "judge-passcode" || !session.compId) return true
+      if (session.sessionExpiresAt && Date.now() > session.sessionExpiresAt) return false
+      const [compSnap, sessionSnap] = await Promise.all([
+        getDoc(doc(firestore, "boulderComps", session.compId)),
+        getDoc(doc(firestore, "boulderComps", session.compId, "judgeSessions", session.uid)),
+      ])
+      return (
+        compSnap.data()?.judgePasscodeVersion === session.passcodeVersion &&
+        typeof sessionSnap.data()?.revokedAtMs !== "number"
+      )
+    },
+  });
+
   const [passcodeInput, setPasscodeInput] = useState("")
+  const [judgeNameInput, setJudgeNameInput] = useState("")
   const [authNotice, setAuthNotice] = useState("")
 
+  // Station passcodes limit the judge to a round and/or routes
+  const judgeScope = useMemo(() => session?.scope || UNRESTRICTED_SCOPE, [session])
+  const isPasscodeSession = session?.authType === "judge-passcode"
+
+  // Staff can revoke a single passcode session from /boulder/judge-access
+  useEffect(() => {
+    if (!firestore || !isPasscodeSession || !session?.compId) return
+    const unsubscribe = onSnapshot(
+      doc(firestore, "boulderComps", session.compId, "judgeSessions", session.uid),
+      (snapshot) => {
+        if (typeof snapshot.data()?.revokedAtMs === "number") {
+          invalidateSession("This judge session was ended by staff. Enter a judge code to continue.")
+        }
+      },
+      (error) => console.warn("Unable to watch judge session:", error)
+    )
+    return () => unsubscribe()
+  }, [isPasscodeSession, session?.compId, session?.uid, invalidateSession])
+
+  // Station and last write shown to staff on the judge access page
+  const reportJudgeActivity = (station?: string) => {
+    if (!firestore || !isPasscodeSession || !session?.compId) return
+    const update = station ? { station, lastWriteAtMs: Date.now() } : { lastWriteAtMs: Date.now() }
+    updateDoc(doc(firestore, "boulderComps", session.compId, "judgeSessions", session.uid), update).catch((error) =>
+      console.warn("Unable to update judge session:", error)
+    )
+  }
+
   const [categories, setCategories] = useState<Category[]>([]);
   const [categoriesLoading, setCategoriesLoading] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState("");
+  const [categoryRoundStatus, setCategoryRoundStatus] = useState<Record<string, RoundStatus>>({});
 
-  const [round, setRound] = useState<RoundType>("qualification");
+  const [round, setRound] = useState<BoulderRoundId>("qualification");
 
   const [routes, setRoutes] = useState<RouteDetail[]>([]);
   const [routesLoading, setRoutesLoading] = useState(false);
@@ -138,15 +220,16 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
   const [athletes, setAthletes] = useState<Athlete[]>([]);
   const [athletesLoading, setAthletesLoading] = useState(false);
   const [selectedAthlete, setSelectedAthlete] = useState<Athlete | null>(null);
+  const [runningSchedule, setRunningSchedule] = useState<RunningScheduleDoc | null>(null);
+  const [scheduleNowMs, setScheduleNowMs] = useState(() => Date.now());
+  const scheduledSlotKeyRef = useRef("");
   const [lastAthlete, setLastAthlete] = useState<Athlete | null>(null);
 
-  const [selectedSymbol, setSelectedSymbol] = useState<"1" | "Z" | "T" | null>(null);
+  const [selectedSymbol, setSelectedSymbol] = useState<AttemptSymbol | null>(null);
   const [saving, setSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState("");
 
-  const [timerSeconds, setTimerSeconds] = useState(60);
-  const [timerRunning, setTimerRunning] = useState(false);
-  const [timerDisplay, setTimerDisplay] = useState("01:00");
+  const roundClock = useRoundClock(selectedComp);
 
   const [attempts, setAttempts] = useState<AttemptRecord[]>([]);
 
@@ -228,7 +311,7 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
         setSelectedCategory(value);
         break;
       case 'round':
-        setRound(value as RoundType);
+        setRound(value as BoulderRoundId);
         break;
       case 'route':
         setSelectedRoute(value);
@@ -290,6 +373,9 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
 
       setIsStationConfirmed(true);
       setConfirmedStationKey(stationKey);
+      reportJudgeActivity(
+        `${stationDisplayLabels.categoryName} · ${stationDisplayLabels.routeLabel} (${stationDisplayLabels.roundLabel})`
+      );
     } catch (error) {
       console.error("Error confirming station:", error);
       setStationConfirmError("Failed to confirm station. You can continue judging.");
@@ -311,7 +397,7 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
       return
     }
     try {
-      await signInWithPasscode(selectedComp, passcodeInput.trim())
+      await signInWithPasscode(selectedComp, passcodeInput.trim(), "boulder", judgeNameInput.trim() || undefined)
       setAuthNotice("Signed in. Loading station…")
       setPasscodeInput("")
     } catch (error) {
@@ -410,6 +496,50 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
     loadCategories();
   }, [selectedComp]);
 
+  // Follow the selected category's round status so the pad stops taking
+  // attempts as soon as the chief judge closes the round
+  useEffect(() => {
+    if (!firestore || !selectedComp || !selectedCategory) {
+      setCategoryRoundStatus({});
+      return;
+    }
+
+    const categoryRef = doc(firestore, `boulderComps/${selectedComp}/categories`, selectedCategory);
+    const unsubscribe = onSnapshot(
+      categoryRef,
+      (snapshot) => {
+        setCategoryRoundStatus((snapshot.data()?.roundStatus as Record<string, RoundStatus>) || {});
+      },
+      (error) => {
+        console.error("Error watching round status:", error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [selectedComp, selectedCategory]);
+
+  const categoryRounds = useMemo(
+    () =>
+      getCategoryRounds(categories.find((cat) => cat.id === selectedCategory)).filter(
+        (r) => judgeScope.round === null || r.id === judgeScope.round
+      ),
+    [categories, selectedCategory, judgeScope]
+  );
+
+  // Fall back to the first allowed round when the selected category does not run the round
+  useEffect(() => {
+    if (!categoryRounds.some((r) => r.id === round)) {
+      setRound(categoryRounds[0]?.id || "qualification");
+    }
+  }, [categoryRounds, round]);
+
+  const roundStatus = getRoundStatus({ roundStatus: categoryRoundStatus }, round);
+  const roundClosed = !isRoundOpen(roundStatus);
+  const roundClosedRef = useRef(roundClosed);
+  useEffect(() => {
+    roundClosedRef.current = roundClosed;
+  }, [roundClosed]);
+
   // Load routes when category or round changes
   useEffect(() => {
     if (!firestore || !selectedComp || !selectedCategory) {
@@ -422,17 +552,17 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
     const loadRoutes = async () => {
       setRoutesLoading(true);
       try {
-        const routeCollection = round === "final" ? "finalRoutes" : "routes";
+        const routeCollection = routeCollectionForRound(round);
         const routesPath = `boulderComps/${selectedComp}/categories/${selectedCategory}/${routeCollection}`;
         const q = query(
           collection(db, routesPath),
           orderBy("order", "asc")
         );
         const snapshot = await getDocs(q);
-        const rts = snapshot.docs.map((doc) => ({
+        const rts = (snapshot.docs.map((doc) => ({
           id: doc.id,
           ...doc.data(),
-        })) as RouteDetail[];
+        })) as RouteDetail[]).filter((route) => judgeScopeAllows(judgeScope, round, route.id));
         setRoutes(rts);
 
         // Auto-select first route if available
@@ -448,7 +578,7 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
     };
 
     loadRoutes();
-  }, [selectedComp, selectedCategory, round]);
+  }, [selectedComp, selectedCategory, round, judgeScope]);
 
   // Load details when route changes
   useEffect(() => {
@@ -512,18 +642,19 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
           ...doc.data(),
         })) as Athlete[];
 
-        // For final rounds, load finalists from startlist in reverse order
-        if (round === "final") {
-          const startlistRef = doc(db, `boulderComps/${selectedComp}/categories/${selectedCategory}/finals`, "startlist");
+        // For semifinal and final rounds, load the start list in reverse order
+        const startlistPath = startlistPathForRound(round);
+        if (startlistPath) {
+          const startlistRef = doc(db, `boulderComps/${selectedComp}/categories/${selectedCategory}/${startlistPath}`);
           const startlistSnap = await getDoc(startlistRef);
 
           if (startlistSnap.exists()) {
-            const entries = (startlistSnap.data()?.entries || []) as Array<{ athleteId: string; qualifierRank: number }>;
+            const entries = startlistEntries(startlistSnap.data());
             const athleteIds = entries.map(e => e.athleteId);
-            const rankMap = new Map(entries.map(e => [e.athleteId, e.qualifierRank]));
+            const rankMap = new Map(entries.map(e => [e.athleteId, e.previousRank]));
 
-            // Filter to only finalists and sort in REVERSE order by qualifier rank
-            // Top qualifier (rank 1) should be LAST, rank 8 should be FIRST
+            // Filter to only the start list and sort in REVERSE order by previous-round rank
+            // The best-ranked athlete (rank 1) should be LAST, rank 8 should be FIRST
             allAthletes = allAthletes
               .filter((athlete) => athleteIds.includes(athlete.id))
               .sort((a, b) => {
@@ -566,6 +697,51 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
     loadAthletes();
   }, [selectedComp, selectedCategory, selectedDetail, round, details]);
 
+  // Follow the round's running schedule (semifinal and final rounds)
+  useEffect(() => {
+    const schedulePath = schedulePathForRound(round);
+    if (!firestore || !selectedComp || !selectedCategory || !schedulePath) {
+      setRunningSchedule(null);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, `boulderComps/${selectedComp}/categories/${selectedCategory}/${schedulePath}`),
+      (snap) => setRunningSchedule(parseRunningSchedule(snap.data())),
+      (error) => {
+        console.error("Error loading running schedule:", error);
+        setRunningSchedule(null);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [selectedComp, selectedCategory, round]);
+
+  // Re-check the schedule every 30s so the pad follows the rotation
+  useEffect(() => {
+    if (!runningSchedule) return;
+    const timer = window.setInterval(() => setScheduleNowMs(Date.now()), 30 * 1000);
+    return () => window.clearInterval(timer);
+  }, [runningSchedule]);
+
+  const scheduledSlot = useMemo(
+    () => (runningSchedule && selectedRoute ? currentSlotForRoute(runningSchedule, selectedRoute, scheduleNowMs) : null),
+    [runningSchedule, selectedRoute, scheduleNowMs]
+  );
+
+  // Preselect the scheduled athlete when this boulder's slot changes; a
+  // judge's manual pick stands until the rotation moves on. A picked symbol or
+  // a save in flight holds the switch until the attempt is saved or cleared.
+  useEffect(() => {
+    if (!scheduledSlot || selectedSymbol || saving) return;
+    const slotKey = `${scheduledSlot.routeId}:${scheduledSlot.athleteId}:${scheduledSlot.startMs}`;
+    if (scheduledSlotKeyRef.current === slotKey) return;
+    const athlete = athletes.find((a) => a.id === scheduledSlot.athleteId);
+    if (!athlete) return;
+    scheduledSlotKeyRef.current = slotKey;
+    setSelectedAthlete(athlete);
+  }, [scheduledSlot, athletes, selectedSymbol, saving]);
+
   // Load attempts with real-time updates
   useEffect(() => {
     if (!firestore || !selectedComp || !selectedCategory || !selectedRoute) {
@@ -786,12 +962,21 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
   };
 
   const handleQRCodeDetected = (qrValue: string) => {
-    // QR code format: athleteId or bib number
-    const athlete = athletes.find(a =>
-      a.id === qrValue ||
-      a.bib === qrValue ||
-      `#${a.bib}` === qrValue
-    );
+    // Badges and scorecards encode compId/athleteId/bib; older cards hold a bare athleteId or bib number
+    const payload = parseAthleteQr(qrValue);
+    if (payload && payload.compId !== selectedComp) {
+      setQrError("This badge belongs to another competition");
+      setTimeout(() => setQrError(""), 3000);
+      return;
+    }
+    const athlete = payload
+      ? athletes.find(a => a.id === payload.athleteId) ||
+        (payload.bib ? athletes.find(a => String(a.bib ?? "") === payload.bib) : undefined)
+      : athletes.find(a =>
+          a.id === qrValue ||
+          a.bib === qrValue ||
+          `#${a.bib}` === qrValue
+        );
 
     if (athlete) {
       handleSelectAthlete(athlete);
@@ -799,7 +984,7 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
       setSaveMessage(`Selected: ${athlete.name || athlete.id}`);
       setTimeout(() => setSaveMessage(""), 3000);
     } else {
-      setQrError(`No athlete found with ID or bib: ${qrValue}`);
+      setQrError(`No athlete found with ID or bib: ${payload ? payload.bib || payload.athleteId : qrValue}`);
       setTimeout(() => setQrError(""), 3000);
     }
   };
@@ -809,14 +994,15 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
       setSaveMessage("Missing required information");
       return;
     }
+    if (roundClosed) {
+      setSaveMessage(`Error: ${ROUND_STATUS_LABELS[roundStatus]} results are closed to new attempts`);
+      return;
+    }
 
     setSaving(true);
     setSaveMessage("");
 
     try {
-      const db = firestore;
-      const attemptsPath = `boulderComps/${selectedComp}/attempts`;
-
       // Get detail index for qualification rounds
       const selectedDetailObj = details.find(d => d.id === selectedDetail);
       const detailIndex = selectedDetailObj?.detailIndex || selectedDetailObj?.id || selectedDetail;
@@ -828,19 +1014,26 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
         routeId: selectedRoute,
         problemId: selectedRoute, // alias for routeId
         round,
-        detailIndex: round === "qualification" ? detailIndex : undefined,
+        ...(round === "qualification" ? { detailIndex } : {}),
         symbol: selectedSymbol,
         stationId: `station_${selectedRoute}`,
         enteredBy: session?.uid || null,
-        clientAt: serverTimestamp(),
         clientAtMs: Date.now(),
-        offline: false,
       };
 
-      await addDoc(collection(db, attemptsPath), attemptData);
+      // Queued locally first; clientAt and the offline flag are stamped on write
+      const result = await attemptQueue.submitAttempt(selectedComp, attemptData);
+
+      if (result === "synced") {
+        reportJudgeActivity();
+      }
 
       // Success feedback
-      setSaveMessage(`Saved: ${selectedSymbol} for ${selectedAthlete.name || selectedAthlete.id}`);
+      setSaveMessage(
+        result === "synced"
+          ? `Saved: ${selectedSymbol} for ${selectedAthlete.name || selectedAthlete.id}`
+          : `Saved offline: ${selectedSymbol} for ${selectedAthlete.name || selectedAthlete.id}. Will sync when online.`
+      );
       setLastAthlete(selectedAthlete);
       setSelectedSymbol(null);
       setSelectedAthlete(null); // Unselect athlete to prevent wrong entry
@@ -850,8 +1043,12 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
     } catch (error) {
       console.error("Error saving attempt:", error);
       const code = (error as { code?: string } | null)?.code || ""
-      if (code.toLowerCase().includes("permission-denied")) {
-        setSaveMessage("Session expired or passcode changed. Please sign in again.")
+      if (code === "rejected" && roundClosedRef.current) {
+        setSaveMessage("Error: This round has been closed by the chief judge.")
+      } else if (code === "rejected") {
+        setSaveMessage(`Error: ${(error as Error).message}`)
+      } else if (code.toLowerCase().includes("permission-denied")) {
+        setSaveMessage("Session expired or passcode changed. Attempt kept on this device; sign in again to sync.")
         invalidateSession("Session expired or passcode changed. Please enter the new code.")
       } else {
         setSaveMessage("Error saving attempt. Please try again.");
@@ -861,57 +1058,24 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
     }
   };
 
-  const handleStartTimer = () => {
-    setTimerRunning(true);
-  };
-
-  const handleStopTimer = () => {
-    setTimerRunning(false);
-  };
-
-  // Timer effect
-  useEffect(() => {
-    if (!timerRunning) return;
-
-    const interval = setInterval(() => {
-      setTimerSeconds((prev) => {
-        if (prev <= 1) {
-          setTimerRunning(false);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [timerRunning]);
-
-  // Timer vibration feedback
+  // Vibration cues from the shared round clock: once at 10 seconds left,
+  // twice when the rotation signal sounds
+  const lastClockReadingRef = useRef(roundClock.reading);
   useEffect(() => {
-    if (!timerRunning) return;
+    const previous = lastClockReadingRef.current;
+    const current = roundClock.reading;
+    lastClockReadingRef.current = current;
+    if (current.status !== "running" || !navigator.vibrate) return;
 
-    // Vibrate once at 10 seconds mark
-    if (timerSeconds === 10) {
-      if (navigator.vibrate) {
-        navigator.vibrate(200);
-      }
+    if (current.remainingSeconds === 10 && previous.remainingSeconds !== 10) {
+      navigator.vibrate(200);
     }
 
-    // Strong vibration when timer expires
-    if (timerSeconds === 0 && !timerRunning) {
-      if (navigator.vibrate) {
-        // Pattern: vibrate 200ms, pause 100ms, vibrate 200ms
-        navigator.vibrate([200, 100, 200]);
-      }
+    if (previous.rotation > 0 && current.rotation > previous.rotation) {
+      // Pattern: vibrate 200ms, pause 100ms, vibrate 200ms
+      navigator.vibrate([200, 100, 200]);
     }
-  }, [timerSeconds, timerRunning]);
-
-  // Update timer display
-  useEffect(() => {
-    const minutes = Math.floor(timerSeconds / 60);
-    const seconds = timerSeconds % 60;
-    setTimerDisplay(`${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`);
-  }, [timerSeconds]);
+  }, [roundClock.reading]);
 
   // Helper to get selected option label
   const getSelectedLabel = (items: { id: string; name?: string; label?: string }[], selectedId: string): string => {
@@ -924,6 +1088,8 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
 
   const isCompLocked = session?.authType === "judge-passcode" && !!session?.compId
 
+  const twoZones = isTwoZoneComp(competitions.find((comp) => comp.id === selectedComp)?.zoneCount);
+
   const sessionExpiresLabel = useMemo(() => {
     if (!session?.sessionExpiresAt) return ""
     const date = new Date(session.sessionExpiresAt)
@@ -942,10 +1108,10 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
     const catText = selectedCategory ? getSelectedLabel(categories, selectedCategory) || "Cat?" : "Cat?";
     const routeText = selectedRoute ? getSelectedLabel(routes, selectedRoute) || "Route?" : "Route?";
     const detailText = selectedDetail ? getSelectedLabel(details, selectedDetail) || "Detail?" : "Detail?";
-    const roundText = round === "final" ? "Final" : "Qualification";
+    const roundText = BOULDER_ROUND_LABELS[round];
 
     const parts = [compText, catText, roundText, routeText];
-    if (round !== "final") {
+    if (round === "qualification") {
       parts.push(detailText);
     }
 
@@ -968,7 +1134,7 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
       compId: selectedComp || undefined,
       round,
       categoryId: selectedCategory || undefined,
-      detailIndex: round === "final" ? null : detailIndex,
+      detailIndex: round === "qualification" ? detailIndex : null,
       routeId: selectedRoute || undefined,
     };
   }, [selectedComp, round, selectedCategory, selectedDetail, selectedRoute, details]);
@@ -998,7 +1164,7 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
     const detailLabel = selectedDetail
       ? getSelectedLabel(details, selectedDetail) || selectedDetail
       : "";
-    const roundLabel = round === "final" ? "Final" : "Qualification";
+    const roundLabel = BOULDER_ROUND_LABELS[round];
 
     return { categoryName, routeLabel, detailLabel, roundLabel };
   }, [selectedCategory, categories, selectedRoute, routes, selectedDetail, details, round]);
@@ -1093,6 +1259,18 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
                 </select>
               </label>
 
+              <label className="block text-sm font-medium text-muted-foreground">
+                Your name (optional)
+                <input
+                  type="text"
+                  maxLength={60}
+                  className="mt-1 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+                  placeholder="Shown to staff with your session"
+                  value={judgeNameInput}
+                  onChange={(e) => setJudgeNameInput(e.target.value)}
+                />
+              </label>
+
               <label className="block text-sm font-medium text-muted-foreground">
                 Judge code
                 <input
@@ -1166,6 +1344,11 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
                 Expires {sessionExpiresLabel}
               </span>
             )}
+            {isRestrictedScope(judgeScope) && (
+              <span className="rounded-full bg-input px-2 py-1 text-xs text-muted-foreground">
+                {describeJudgeScope(judgeScope)}
+              </span>
+            )}
             <button
               type="button"
               onClick={() => signOutJudge()}
@@ -1244,8 +1427,11 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
                   value={round}
                   onChange={(e) => handleStationChange('round', e.target.value)}
                 >
-                  <option value="qualification">Qualification</option>
-                  <option value="final">Final</option>
+                  {categoryRounds.map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {BOULDER_ROUND_LABELS[r.id]}
+                    </option>
+                  ))}
                 </select>
               </label>
 
@@ -1320,28 +1506,34 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
             </button>
           </div>
 
-          {/* Finals Navigation Tools (only for final rounds) */}
-          {round === "final" && rosterExpanded && athletes.length > 0 && (
+          {/* Start list navigation tools (semifinal and final rounds) */}
+          {usesStartlist(round) && rosterExpanded && athletes.length > 0 && (
             <div className="flex items-center gap-2 mb-4">
               <button
                 onClick={handlePrevFinalist}
                 disabled={!selectedAthlete}
                 className="px-4 py-2 text-sm rounded-lg border border-border bg-input hover:bg-input/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Prev Finalist
+                Prev Athlete
               </button>
               <button
                 onClick={handleNextFinalist}
                 disabled={!selectedAthlete}
                 className="px-4 py-2 text-sm rounded-lg border border-border bg-input hover:bg-input/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Next Finalist
+                Next Athlete
               </button>
               {selectedAthlete && (
                 <span className="text-sm text-muted-foreground">
                   {athletes.findIndex(a => a.id === selectedAthlete.id) + 1} of {athletes.length}
                 </span>
               )}
+              {scheduledSlot && (
+                <span className="ml-auto text-sm text-muted-foreground">
+                  Scheduled: {athletes.find(a => a.id === scheduledSlot.athleteId)?.name || scheduledSlot.athleteId} ·{" "}
+                  {new Date(scheduledSlot.startMs).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                </span>
+              )}
             </div>
           )}
 
@@ -1394,7 +1586,7 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
                   <div className="text-sm text-amber-100/80 mt-1">
                     {stationDisplayLabels.categoryName}
                     {round === "qualification" && stationDisplayLabels.detailLabel && ` · ${stationDisplayLabels.detailLabel}`}
-                    {round === "final" && " · Final"}
+                    {round !== "qualification" && ` · ${stationDisplayLabels.roundLabel}`}
                     {stationDisplayLabels.routeLabel && ` · ${stationDisplayLabels.routeLabel}`}
                   </div>
                 </div>
@@ -1419,13 +1611,20 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
                 <span>
                   Station confirmed: {stationDisplayLabels.categoryName}
                   {round === "qualification" && stationDisplayLabels.detailLabel && ` · ${stationDisplayLabels.detailLabel}`}
-                  {round === "final" && " · Final"}
+                  {round !== "qualification" && ` · ${stationDisplayLabels.roundLabel}`}
                   {stationDisplayLabels.routeLabel && ` · ${stationDisplayLabels.routeLabel}`}
                 </span>
               </div>
             </div>
           )}
 
+          {roundClosed && (
+            <div className="mb-4 p-3 rounded-xl border border-yellow-500/50 bg-yellow-500/10 text-sm text-yellow-500 text-center">
+              {BOULDER_ROUND_LABELS[round]} results are {ROUND_STATUS_LABELS[roundStatus].toLowerCase()}.
+              New attempts are closed; ask the chief judge to reopen the round for corrections.
+            </div>
+          )}
+
           {/* Attempt Context */}
           <div className={`mb-4 p-4 rounded-xl border transition-all ${
             selectedAthlete
@@ -1455,7 +1654,7 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
           </div>
 
           {/* Scoring Buttons */}
-          <div className="grid grid-cols-3 gap-4 mb-4">
+          <div className={`grid ${twoZones ? "grid-cols-4" : "grid-cols-3"} gap-4 mb-4`}>
             <button
               onClick={() => setSelectedSymbol("1")}
               disabled={!selectedAthlete}
@@ -1476,8 +1675,21 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
                   : "bg-input border-border"
               }`}
             >
-              Zone
+              {twoZones ? "Low Zone" : "Zone"}
             </button>
+            {twoZones && (
+              <button
+                onClick={() => setSelectedSymbol("H")}
+                disabled={!selectedAthlete}
+                className={`py-8 rounded-xl font-bold text-xl border-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                  selectedSymbol === "H"
+                    ? "bg-orange-500 text-white border-orange-600 shadow-lg scale-105"
+                    : "bg-input border-border"
+                }`}
+              >
+                High Zone
+              </button>
+            )}
             <button
               onClick={() => setSelectedSymbol("T")}
               disabled={!selectedAthlete}
@@ -1496,7 +1708,7 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
             <div>
               <button
                 onClick={handleSaveAttempt}
-                disabled={!selectedAthlete || !selectedSymbol || saving}
+                disabled={!selectedAthlete || !selectedSymbol || saving || roundClosed}
                 className="w-full py-4 bg-primary text-white rounded-xl font-semibold text-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed shadow-md"
               >
                 {saving ? "Saving..." : "Save"}
@@ -1506,6 +1718,57 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
                   {saveMessage}
                 </div>
               )}
+              <div className="mt-2 flex items-center justify-center gap-3 text-xs text-muted-foreground">
+                <span className={attemptQueue.online ? "text-green-500" : "text-red-500"}>
+                  {attemptQueue.online ? "Online" : "Offline"}
+                </span>
+                <span className={attemptQueue.pendingCount ? "text-yellow-500 font-semibold" : ""}>
+                  Pending: {attemptQueue.pendingCount}
+                </span>
+                <span>Synced: {attemptQueue.syncedCount}</span>
+                {attemptQueue.rejectedAttempts.length > 0 && (
+                  <span className="text-red-500 font-semibold">
+                    Rejected: {attemptQueue.rejectedAttempts.length}
+                  </span>
+                )}
+                {attemptQueue.pendingCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => attemptQueue.flush()}
+                    disabled={attemptQueue.syncing || !attemptQueue.online}
+                    className="underline disabled:opacity-50 disabled:no-underline"
+                  >
+                    {attemptQueue.syncing ? "Syncing..." : "Sync now"}
+                  </button>
+                )}
+              </div>
+              {attemptQueue.rejectedAttempts.length > 0 && (
+                <div className="mt-2 space-y-1 rounded-lg border border-red-500/40 p-2 text-xs">
+                  <p className="text-red-500 font-semibold">
+                    Not recorded. Check each attempt with the chief judge before dismissing it.
+                  </p>
+                  {attemptQueue.rejectedAttempts.map((entry) => {
+                    const athleteId = String(entry.data.athleteId ?? "");
+                    const athlete = athletes.find((a) => a.id === athleteId);
+                    return (
+                      <div key={entry.id} className="flex items-start justify-between gap-2">
+                        <span>
+                          {String(entry.data.symbol ?? "?")} for {athlete?.name || athleteId} on{" "}
+                          {String(entry.data.routeId ?? "?")} at {new Date(entry.queuedAtMs).toLocaleTimeString()}:{" "}
+                          <span className="text-red-500">{entry.rejection}</span>
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => attemptQueue.dismissRejected(entry.id)}
+                          className="shrink-0 underline"
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
             </div>
 
             <button
@@ -1517,37 +1780,17 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
             </button>
           </div>
 
-          {/* Timer Controls */}
+          {/* Round Clock (controlled by the chief judge) */}
           <div className="rounded-xl border border-border bg-input/30 p-4">
             <div className="flex items-center gap-4 flex-wrap">
-              <label className="flex items-center gap-2 text-sm font-medium">
-                Timer (seconds)
-                <input
-                  type="number"
-                  min="5"
-                  value={timerSeconds}
-                  onChange={(e) => setTimerSeconds(parseInt(e.target.value) || 60)}
-                  disabled={timerRunning}
-                  className="w-20 px-3 py-2 rounded-lg border border-border bg-input text-foreground disabled:opacity-50"
-                />
-              </label>
-              <button
-                onClick={handleStartTimer}
-                disabled={timerRunning}
-                className="px-4 py-2 rounded-lg border border-border bg-input hover:bg-input/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
-              >
-                Start
-              </button>
-              <button
-                onClick={handleStopTimer}
-                disabled={!timerRunning}
-                className="px-4 py-2 rounded-lg border border-border bg-input hover:bg-input/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
-              >
-                Stop
-              </button>
-              <div className={`text-3xl font-bold tabular-nums ${timerRunning ? "text-primary" : "text-muted-foreground"}`}>
-                {timerDisplay}
+              <span className="text-sm font-medium">Round clock</span>
+              <div className={`text-3xl font-bold tabular-nums ${roundClock.reading.status === "running" ? "text-primary" : "text-muted-foreground"}`}>
+                {formatClockSeconds(roundClock.reading.remainingSeconds)}
               </div>
+              <span className="text-sm text-muted-foreground">
+                {roundClock.reading.rotation > 0 ? `Rotation ${roundClock.reading.rotation} · ` : ""}
+                {ROUND_CLOCK_STATUS_LABELS[roundClock.reading.status]}
+              </span>
             </div>
           </div>
 
@@ -1579,8 +1822,8 @@ function JudgeInterface({ authState }: { authState: JudgeAuthState }) {
                 </div>
               ) : attempts.length === 0 ? (
                 <div className="text-muted-foreground text-center py-8">
-                  {round === "final"
-                    ? "No finals attempts yet for this route."
+                  {round !== "qualification"
+                    ? `No ${BOULDER_ROUND_LABELS[round].toLowerCase()} attempts yet for this route.`
                     : "No attempts yet for this route/detail."}
                 </div>
               ) : (
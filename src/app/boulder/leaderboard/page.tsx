@@ -10,6 +10,7 @@ import { firestore } from "@/lib/firebase/client";
 import {
   collection,
   doc,
+  getDoc,
   getDocs,
   onSnapshot,
   query,
@@ -20,12 +21,36 @@ import {
 } from "firebase/firestore";
 import {
   buildLeaderboardRows,
+  getScoringFormat,
+  isTwoZoneComp,
+  rankRows,
   type AttemptDoc,
   type DetailMeta,
   type LeaderboardRow,
+  type RankTieBreak,
+  type RankedRow,
+  type ScoringFormat,
 } from "@/lib/boulder/scoring";
-
-type RoundType = "qualification" | "final";
+import { ROUND_STATUS_LABELS, getRoundStatus, type RoundStatus } from "@/lib/roundStatus";
+import {
+  BOULDER_ROUND_LABELS,
+  DEFAULT_BOULDER_ROUNDS,
+  getCategoryRounds,
+  parseBoulderRound,
+  previousRanksFromStartlist,
+  routeCollectionForRound,
+  startlistPathForRound,
+  type BoulderRoundConfig,
+  type BoulderRoundId,
+} from "@/lib/boulder/rounds";
+import {
+  athleteGroup,
+  getQualificationRanking,
+  isGroupRankedRow,
+  rankRowsByGroup,
+  type QualificationRanking,
+} from "@/lib/boulder/groupRanking";
+import { orgOptionsForComps, type OrgOption } from "@/lib/organisations";
 
 interface BoulderCompetition {
   id: string;
@@ -33,6 +58,9 @@ interface BoulderCompetition {
   status?: string;
   updatedAt?: unknown;
   isDemo?: boolean;
+  scoringFormat?: string;
+  zoneCount?: number;
+  orgId?: string;
 }
 
 interface BoulderCategory {
@@ -63,32 +91,53 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
   });
 
   const initialRoundParam = searchParams?.get("round");
-  const [round, setRound] = useState<RoundType>(
-    initialRoundParam === "final" ? "final" : "qualification"
+  const [round, setRound] = useState<BoulderRoundId>(
+    parseBoulderRound(initialRoundParam)
   );
 
   const [competitions, setCompetitions] = useState<BoulderCompetition[]>([]);
   const [competitionsLoading, setCompetitionsLoading] = useState(true);
   const [selectedComp, setSelectedComp] = useState("");
+  const [organisations, setOrganisations] = useState<OrgOption[]>([]);
+  const [selectedOrg, setSelectedOrg] = useState(searchParams?.get("orgId") || "");
 
   const [categories, setCategories] = useState<BoulderCategory[]>([]);
   const [categoriesLoading, setCategoriesLoading] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState("");
 
   const [rows, setRows] = useState<LeaderboardRow[]>([]);
+  const [previousRanks, setPreviousRanks] = useState<Map<string, number>>(new Map());
   const [rowsLoading, setRowsLoading] = useState(false);
   const [rowsError, setRowsError] = useState<string | null>(null);
   const [leaderboardNote, setLeaderboardNote] = useState("");
+  const [categoryRoundStatus, setCategoryRoundStatus] = useState<Record<string, RoundStatus>>({});
+  const [categoryRounds, setCategoryRounds] = useState<BoulderRoundConfig[]>(DEFAULT_BOULDER_ROUNDS);
+  const [qualificationRanking, setQualificationRanking] = useState<QualificationRanking>("overall");
+  const [athleteGroups, setAthleteGroups] = useState<Map<string, string>>(new Map());
 
   const renderTokenRef = useRef(0);
 
+  const selectedScoringFormat = competitions.find(
+    (comp) => comp.id === selectedComp
+  )?.scoringFormat;
+  const scoringFormat = useMemo(
+    () => getScoringFormat(selectedScoringFormat),
+    [selectedScoringFormat]
+  );
+  const twoZones = isTwoZoneComp(
+    competitions.find((comp) => comp.id === selectedComp)?.zoneCount
+  );
+
   useEffect(() => {
     const db = firestore; // Capture non-null value for TypeScript
     let cancelled = false;
     async function loadCompetitions() {
       setCompetitionsLoading(true);
       try {
-        const snap = await getDocs(collection(db, "boulderComps"));
+        const [snap, orgSnap] = await Promise.all([
+          getDocs(collection(db, "boulderComps")),
+          getDocs(collection(db, "organisations")),
+        ]);
         if (cancelled) return;
         const comps: BoulderCompetition[] = snap.docs
           .map((docSnap) => {
@@ -105,9 +154,11 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
           (a, b) => timestampValue(b.updatedAt) - timestampValue(a.updatedAt)
         );
         setCompetitions(comps);
+        setOrganisations(orgOptionsForComps(orgSnap.docs, comps));
       } catch (error) {
         console.error(error);
         setCompetitions([]);
+        setOrganisations([]);
       } finally {
         if (!cancelled) {
           setCompetitionsLoading(false);
@@ -120,23 +171,33 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
     };
   }, [firestore]);
 
+  // An unknown ?orgId= (or an org without live competitions) shows everything
+  const activeOrg = organisations.some((org) => org.id === selectedOrg) ? selectedOrg : "";
+  const visibleCompetitions = useMemo(
+    () =>
+      activeOrg
+        ? competitions.filter((comp) => comp.orgId === activeOrg)
+        : competitions,
+    [competitions, activeOrg]
+  );
+
   useEffect(() => {
-    if (!competitions.length) {
+    if (!visibleCompetitions.length) {
       setSelectedComp("");
       return;
     }
     setSelectedComp((current) => {
-      if (current && competitions.some((c) => c.id === current)) {
+      if (current && visibleCompetitions.some((c) => c.id === current)) {
         return current;
       }
       const { compId, usedComp } = initialSelectionsRef.current;
-      if (!usedComp && compId && competitions.some((c) => c.id === compId)) {
+      if (!usedComp && compId && visibleCompetitions.some((c) => c.id === compId)) {
         initialSelectionsRef.current.usedComp = true;
         return compId;
       }
-      return competitions[0]?.id || "";
+      return visibleCompetitions[0]?.id || "";
     });
-  }, [competitions]);
+  }, [visibleCompetitions]);
 
   useEffect(() => {
     if (!selectedComp) {
@@ -209,6 +270,9 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
   useEffect(() => {
     if (!selectedComp || !selectedCategory) {
       setLeaderboardNote("");
+      setCategoryRoundStatus({});
+      setCategoryRounds(DEFAULT_BOULDER_ROUNDS);
+      setQualificationRanking("overall");
       return;
     }
     const db = firestore; // Capture non-null value for TypeScript
@@ -224,8 +288,22 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
             ? snap.data().leaderboardNote
             : "";
         setLeaderboardNote(note);
+        setCategoryRoundStatus(
+          (snap.exists() && (snap.data().roundStatus as Record<string, RoundStatus>)) || {}
+        );
+        const rounds = getCategoryRounds(snap.data());
+        setCategoryRounds(rounds);
+        setQualificationRanking(getQualificationRanking(snap.data()));
+        setRound((current) =>
+          rounds.some((r) => r.id === current) ? current : "qualification"
+        );
       },
-      () => setLeaderboardNote("")
+      () => {
+        setLeaderboardNote("");
+        setCategoryRoundStatus({});
+        setCategoryRounds(DEFAULT_BOULDER_ROUNDS);
+        setQualificationRanking("overall");
+      }
     );
     return () => unsubscribe();
   }, [selectedComp, selectedCategory, firestore]);
@@ -256,8 +334,9 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
         const token = ++renderTokenRef.current;
         const attemptDocs = toAttemptDocs(snapshot);
         try {
-          const routeCollection = round === "final" ? "finalRoutes" : "routes";
-          const [athletesSnap, detailSnap, routesSnap] = await Promise.all([
+          const routeCollection = routeCollectionForRound(round);
+          const startlistPath = startlistPathForRound(round);
+          const [athletesSnap, detailSnap, routesSnap, startlistSnap] = await Promise.all([
             getDocs(
               query(
                 collection(db, `boulderComps/${selectedComp}/athletes`),
@@ -276,10 +355,19 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
                 `boulderComps/${selectedComp}/categories/${selectedCategory}/${routeCollection}`
               )
             ),
+            startlistPath
+              ? getDoc(
+                  doc(
+                    db,
+                    `boulderComps/${selectedComp}/categories/${selectedCategory}/${startlistPath}`
+                  )
+                )
+              : null,
           ]);
           if (token !== renderTokenRef.current) return;
 
           const athletes = new Map<string, { bib?: string; name?: string; team?: string }>();
+          const groups = new Map<string, string>();
           athletesSnap.forEach((docSnap) => {
             const data = docSnap.data() || {};
             athletes.set(docSnap.id, {
@@ -287,10 +375,11 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
               name: data.name || docSnap.id,
               team: data.team || "",
             });
+            groups.set(docSnap.id, athleteGroup(data));
           });
 
           const detailMeta = new Map<string, DetailMeta>();
-          if (round !== "final") {
+          if (!startlistPath) {
             detailSnap.forEach((docSnap) => {
               const data = docSnap.data() || {};
               const id = String(docSnap.id);
@@ -306,7 +395,7 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
             });
           }
 
-          if (round !== "final" && !detailMeta.size) {
+          if (!startlistPath && !detailMeta.size) {
             athletesSnap.forEach((docSnap) => {
               const data = docSnap.data() || {};
               const detailValue =
@@ -353,10 +442,16 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
             attemptDocs,
             athletesById: athletes,
             detailsMeta: detailMeta,
+            format: scoringFormat,
           });
 
+          // Previous-round ranks drive countback between athletes who stay level
+          const startlistRanks = previousRanksFromStartlist(startlistSnap?.data());
+
           if (token !== renderTokenRef.current) return;
           setRows(leaderboardRows);
+          setPreviousRanks(startlistRanks);
+          setAthleteGroups(groups);
           setRowsLoading(false);
         } catch (error) {
           console.error(error);
@@ -378,20 +473,15 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
       renderTokenRef.current += 1;
       unsubscribe();
     };
-  }, [selectedComp, selectedCategory, round, firestore]);
-
-  const rankedRows = useMemo(() => {
-    let prevKey: string | null = null;
-    let currentRank = 0;
-    return rows.map((row, idx) => {
-      const key = `${row.points}-${row.tops}-${row.zones}`;
-      if (key !== prevKey) {
-        currentRank = idx + 1;
-        prevKey = key;
-      }
-      return { row, rank: currentRank };
-    });
-  }, [rows]);
+  }, [selectedComp, selectedCategory, round, scoringFormat, firestore]);
+
+  const rankedRows = useMemo(
+    () =>
+      round === "qualification" && qualificationRanking === "combined"
+        ? rankRowsByGroup(rows, { format: scoringFormat, groupByAthlete: athleteGroups })
+        : rankRows(rows, { format: scoringFormat, previousRanks }),
+    [rows, scoringFormat, previousRanks, round, qualificationRanking, athleteGroups]
+  );
 
   const disableCategorySelect = !selectedComp || categoriesLoading;
 
@@ -420,13 +510,30 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
         </header>
 
         <section className="rounded-2xl border border-border bg-panel p-6">
-          <div className="grid gap-4 md:grid-cols-3">
+          <div className={`grid gap-4 ${organisations.length ? "md:grid-cols-4" : "md:grid-cols-3"}`}>
+            {organisations.length > 0 && (
+              <FilterField label="Organisation">
+                <select
+                  className="mt-2 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+                  value={activeOrg}
+                  onChange={(event) => setSelectedOrg(event.target.value)}
+                >
+                  <option value="">All organisations</option>
+                  {organisations.map((org) => (
+                    <option key={org.id} value={org.id}>
+                      {org.name}
+                    </option>
+                  ))}
+                </select>
+              </FilterField>
+            )}
+
             <FilterField
               label="Competition"
               helpText={
                 competitionsLoading
                   ? "Loading competitions…"
-                  : !competitions.length
+                  : !visibleCompetitions.length
                   ? "No competitions available"
                   : undefined
               }
@@ -435,10 +542,10 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
                 className="mt-2 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
                 value={selectedComp}
                 onChange={(event) => setSelectedComp(event.target.value)}
-                disabled={competitionsLoading || !competitions.length}
+                disabled={competitionsLoading || !visibleCompetitions.length}
               >
                 <option value="">Select competition</option>
-                {competitions.map((comp) => (
+                {visibleCompetitions.map((comp) => (
                   <option key={comp.id} value={comp.id}>
                     {comp.name || comp.id}
                   </option>
@@ -478,11 +585,14 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
                 className="mt-2 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
                 value={round}
                 onChange={(event) =>
-                  setRound(event.target.value as RoundType)
+                  setRound(parseBoulderRound(event.target.value))
                 }
               >
-                <option value="qualification">Qualification</option>
-                <option value="final">Final</option>
+                {categoryRounds.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {BOULDER_ROUND_LABELS[r.id]}
+                  </option>
+                ))}
               </select>
             </FilterField>
           </div>
@@ -491,6 +601,11 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
 
       {/* Full-width table section */}
       <section className="w-full">
+        {selectedComp && selectedCategory ? (
+          <Container>
+            <RoundStatusBadge status={getRoundStatus({ roundStatus: categoryRoundStatus }, round)} />
+          </Container>
+        ) : null}
         <div className="overflow-x-auto">
           <table className="w-full text-sm border-collapse border-y border-border">
             <thead>
@@ -498,7 +613,9 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
                 <th className="w-12 md:w-16 p-2 md:p-3 font-semibold">Rank</th>
                 <th className="w-32 md:w-64 p-2 md:p-3 font-semibold">Athlete</th>
                 <th className="p-2 md:p-3 font-semibold">Route Scores</th>
-                <th className="w-16 md:w-20 p-2 md:p-3 font-semibold text-right">Points</th>
+                <th className="w-16 md:w-20 p-2 md:p-3 font-semibold text-right">
+                  {scoringFormat.totalLabel}
+                </th>
               </tr>
             </thead>
             <tbody>
@@ -506,11 +623,18 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
                 rowsLoading,
                 rowsError,
                 rankedRows,
+                scoringFormat,
+                twoZones,
                 hasSelection: Boolean(selectedComp && selectedCategory),
               })}
             </tbody>
           </table>
         </div>
+        <Container>
+          <p className="mt-4 text-xs text-muted-foreground">
+            Scoring: {scoringFormat.description}
+          </p>
+        </Container>
         {leaderboardNote ? (
           <Container>
             <p className="mt-4 text-sm text-muted-foreground whitespace-pre-line">
@@ -552,6 +676,29 @@ function LeaderboardUnavailable() {
   );
 }
 
+function RoundStatusBadge({ status }: { status: RoundStatus }) {
+  if (status === "open") {
+    return (
+      <p className="mb-3 text-xs uppercase tracking-wide text-muted-foreground">
+        Live – results may still change
+      </p>
+    );
+  }
+  return (
+    <p className="mb-3">
+      <span
+        className={`inline-block rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide ${
+          status === "official"
+            ? "border-green-500/60 text-green-500"
+            : "border-yellow-500/60 text-yellow-500"
+        }`}
+      >
+        {ROUND_STATUS_LABELS[status]} results
+      </span>
+    </p>
+  );
+}
+
 function FilterField({
   label,
   children,
@@ -576,11 +723,15 @@ function renderTableBody({
   rowsLoading,
   rowsError,
   rankedRows,
+  scoringFormat,
+  twoZones,
   hasSelection,
 }: {
   rowsLoading: boolean;
   rowsError: string | null;
-  rankedRows: { row: LeaderboardRow; rank: number }[];
+  rankedRows: RankedRow[];
+  scoringFormat: ScoringFormat;
+  twoZones: boolean;
   hasSelection: boolean;
 }) {
   if (!hasSelection) {
@@ -598,7 +749,17 @@ function renderTableBody({
     return <TableMessage message="No attempts recorded yet." />;
   }
 
-  return rankedRows.map(({ row, rank }, idx) => (
+  // Combined group rankings also show each athlete's group and rank within it
+  const groupLabels = new Map(
+    rankedRows
+      .filter(isGroupRankedRow)
+      .map((entry) => [
+        entry.row.athleteId,
+        `${entry.group ? `Group ${entry.group}` : "No group"} · #${entry.groupRank}`,
+      ])
+  );
+
+  return rankedRows.map(({ row, rank, tieBreak }, idx) => (
     <tr
       key={row.athleteId}
       className="text-sm border-b border-border"
@@ -606,7 +767,22 @@ function renderTableBody({
         background: idx % 2 === 1 ? 'rgba(255, 255, 255, 0.02)' : 'transparent'
       }}
     >
-      <td className="p-2 md:p-3 font-semibold text-foreground">{rank}</td>
+      <td className="p-2 md:p-3 font-semibold text-foreground">
+        {rank}
+        {tieBreak ? (
+          <span
+            className="ml-1 text-[10px] uppercase text-muted-foreground"
+            title={`Tie split by ${TIE_BREAK_LABELS[tieBreak]}`}
+          >
+            {TIE_BREAK_SHORT[tieBreak]}
+          </span>
+        ) : null}
+        {groupLabels.has(row.athleteId) ? (
+          <span className="block text-[10px] font-normal text-muted-foreground">
+            {groupLabels.get(row.athleteId)}
+          </span>
+        ) : null}
+      </td>
       <td className="p-2 md:p-3">
         <div className="font-semibold text-foreground">{row.name}</div>
         {row.team ? (
@@ -616,15 +792,27 @@ function renderTableBody({
         ) : null}
       </td>
       <td className="p-2 md:p-3">
-        <RouteCells routes={row.routes} />
+        <RouteCells routes={row.routes} twoZones={twoZones} />
       </td>
       <td className="p-2 md:p-3 text-right text-base font-semibold text-foreground">
-        {row.points.toFixed(1)}
+        {scoringFormat.formatTotal(row)}
       </td>
     </tr>
   ));
 }
 
+const TIE_BREAK_LABELS: Record<RankTieBreak, string> = {
+  countback: "qualification countback",
+  attempts: "fewest total attempts",
+  reverseRoutes: "reverse route order",
+};
+
+const TIE_BREAK_SHORT: Record<RankTieBreak, string> = {
+  countback: "CB",
+  attempts: "A",
+  reverseRoutes: "R",
+};
+
 function TableMessage({ message }: { message: string }) {
   return (
     <tr>
@@ -635,7 +823,13 @@ function TableMessage({ message }: { message: string }) {
   );
 }
 
-function RouteCells({ routes }: { routes: LeaderboardRow["routes"] }) {
+function RouteCells({
+  routes,
+  twoZones,
+}: {
+  routes: LeaderboardRow["routes"];
+  twoZones: boolean;
+}) {
   if (!routes.length) {
     return (
       <div className="text-sm text-muted-foreground">No routes configured yet.</div>
@@ -650,17 +844,21 @@ function RouteCells({ routes }: { routes: LeaderboardRow["routes"] }) {
     >
       {routes.map((route) => {
         const hasTop = route.topAttempt != null;
+        const hasHighZone = route.highZoneAttempt != null;
         const hasZone = route.zoneAttempt != null;
         const titleParts = [];
         if (route.detailLabel) titleParts.push(route.detailLabel);
         if (hasTop) titleParts.push(`Top @ ${route.topAttempt}`);
+        else if (hasHighZone) titleParts.push(`High zone @ ${route.highZoneAttempt}`);
         else if (hasZone) titleParts.push(`Zone @ ${route.zoneAttempt}`);
         const title = titleParts.join(" • ");
 
         return (
           <div
             key={route.key}
-            className="flex flex-col overflow-hidden rounded text-center font-bold w-4 md:w-5 h-9 md:h-10 flex-shrink-0"
+            className={`flex flex-col overflow-hidden rounded text-center font-bold w-4 md:w-5 flex-shrink-0 ${
+              twoZones ? 'h-12 md:h-14' : 'h-9 md:h-10'
+            }`}
             style={{
               border: '1px solid #2a3550',
               background: 'var(--route-empty)',
@@ -677,6 +875,17 @@ function RouteCells({ routes }: { routes: LeaderboardRow["routes"] }) {
             >
               {hasTop ? route.topAttempt : ''}
             </div>
+            {twoZones ? (
+              <div
+                className="flex items-center justify-center leading-none flex-1 px-0.5"
+                style={{
+                  borderTop: '1px solid rgba(255, 255, 255, 0.08)',
+                  background: (hasTop || hasHighZone) ? 'var(--route-high-zone)' : 'transparent'
+                }}
+              >
+                {hasHighZone ? route.highZoneAttempt : ''}
+              </div>
+            ) : null}
             <div
               className="flex items-center justify-center leading-none flex-1 px-0.5"
               style={{
@@ -0,0 +1,612 @@
+'use client'
+
+import { useState, useEffect, useMemo } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import Container from "@/components/Container"
+import AccessDenied from "@/components/AccessDenied"
+import { UserButton, useUser } from "@clerk/nextjs"
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth"
+import { useUserRole, isStaffRole, type UserRole } from "@/hooks/useUserRole"
+import { canManageComp } from "@/lib/compMembers"
+import { firestore } from "@/lib/firebase/client"
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  setDoc,
+  serverTimestamp,
+  where,
+  orderBy as firestoreOrderBy,
+} from "firebase/firestore"
+import {
+  BOULDER_ROUND_LABELS,
+  getCategoryRounds,
+  routeCollectionForRound,
+  startlistEntries,
+  startlistPathForRound,
+  usesStartlist,
+  type BoulderRoundConfig,
+  type BoulderRoundId,
+} from "@/lib/boulder/rounds"
+import {
+  DEFAULT_ROTATION_MINUTES,
+  ROTATION_MINUTE_OPTIONS,
+  buildScheduleSlots,
+  isolationCallUps,
+  parseRunningSchedule,
+  runningOrderFromStartlist,
+  schedulePathForRound,
+  type RunningScheduleDoc,
+} from "@/lib/boulder/schedule"
+
+interface Competition {
+  id: string
+  name?: string
+  status?: string
+  updatedAt?: { seconds?: number }
+}
+
+interface Category {
+  id: string
+  name?: string
+  order?: number
+  rounds: BoulderRoundConfig[]
+}
+
+interface Athlete {
+  bib?: string
+  name?: string
+  team?: string
+}
+
+interface RouteInfo {
+  id: string
+  label: string
+}
+
+export default function BoulderSchedulePage() {
+  const { isLoaded, isSignedIn } = useUser()
+  const { isFirebaseAuthenticated, error: firebaseError } = useFirebaseAuth()
+  const { role, loading: roleLoading } = useUserRole()
+
+  const waitingForFirebaseAuth = isSignedIn && !isFirebaseAuthenticated && !firebaseError
+  if (!isLoaded || waitingForFirebaseAuth || roleLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="text-lg text-muted-foreground">Loading…</div>
+      </div>
+    )
+  }
+
+  if (!isSignedIn) {
+    return <AccessDenied feature="Running Schedule" message="Sign in with a staff/admin account to continue." />
+  }
+
+  if (!isStaffRole(role)) {
+    return <AccessDenied feature="Running Schedule (staff/admin only)" />
+  }
+
+  if (firebaseError) {
+    return <AccessDenied feature="Running Schedule" message="Firebase not available. Please refresh and try again." />
+  }
+
+  return <ScheduleInterface role={role} />
+}
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })
+
+// datetime-local value for the next whole quarter hour
+const defaultStartInput = () => {
+  const next = new Date()
+  next.setMinutes(Math.ceil((next.getMinutes() + 1) / 15) * 15, 0, 0)
+  const local = new Date(next.getTime() - next.getTimezoneOffset() * 60000)
+  return local.toISOString().slice(0, 16)
+}
+
+function ScheduleInterface({ role }: { role: UserRole | null }) {
+  const { user } = useUser()
+
+  // State
+  const [competitions, setCompetitions] = useState<Competition[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [selectedComp, setSelectedComp] = useState("")
+  const [selectedCategory, setSelectedCategory] = useState("")
+  const [round, setRound] = useState<BoulderRoundId | "">("")
+  const [athletes, setAthletes] = useState<Map<string, Athlete>>(new Map())
+  const [routes, setRoutes] = useState<RouteInfo[]>([])
+  const [schedule, setSchedule] = useState<RunningScheduleDoc | null>(null)
+  const [startInput, setStartInput] = useState(defaultStartInput)
+  const [periodMinutes, setPeriodMinutes] = useState(DEFAULT_ROTATION_MINUTES)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  // Load competitions
+  useEffect(() => {
+    if (!firestore) return
+
+    const loadCompetitions = async () => {
+      if (!firestore) return
+      try {
+        const snapshot = await getDocs(collection(firestore, "boulderComps"))
+        const comps = snapshot.docs
+          .filter((doc) => canManageComp(doc.data(), user?.id, role))
+          .map((doc) => ({
+            id: doc.id,
+            name: doc.data().name as string | undefined,
+            status: doc.data().status as string | undefined,
+            updatedAt: doc.data().updatedAt as { seconds?: number } | undefined,
+          }))
+          .filter(
+            (comp: Competition) =>
+              !["archived", "deleted"].includes((comp.status || "").toLowerCase())
+          )
+          .sort((a, b) => (b.updatedAt?.seconds || 0) - (a.updatedAt?.seconds || 0))
+
+        setCompetitions(comps)
+        if (comps.length > 0 && !selectedComp) {
+          setSelectedComp(comps[0].id)
+        }
+      } catch (err) {
+        console.error("Error loading competitions:", err)
+        setError("Failed to load competitions")
+      }
+    }
+
+    loadCompetitions()
+  }, [selectedComp, user?.id, role])
+
+  // Load categories when competition changes
+  useEffect(() => {
+    if (!firestore || !selectedComp) {
+      setCategories([])
+      setSelectedCategory("")
+      return
+    }
+
+    const loadCategories = async () => {
+      if (!firestore) return
+      try {
+        const catsQuery = query(
+          collection(firestore, `boulderComps/${selectedComp}/categories`),
+          firestoreOrderBy("order", "asc")
+        )
+        const snapshot = await getDocs(catsQuery)
+        const cats = snapshot.docs.map((doc) => ({
+          id: doc.id,
+          name: doc.data().name as string | undefined,
+          order: doc.data().order as number | undefined,
+          rounds: getCategoryRounds(doc.data()),
+        }))
+
+        setCategories(cats)
+        if (cats.length > 0 && !cats.some((cat) => cat.id === selectedCategory)) {
+          setSelectedCategory(cats[0].id)
+        }
+      } catch (err) {
+        console.error("Error loading categories:", err)
+      }
+    }
+
+    loadCategories()
+  }, [selectedComp, selectedCategory])
+
+  // Only rounds with a start list have a running order
+  const scheduledRounds = useMemo(
+    () =>
+      (categories.find((cat) => cat.id === selectedCategory)?.rounds || []).filter((r) =>
+        usesStartlist(r.id)
+      ),
+    [categories, selectedCategory]
+  )
+
+  useEffect(() => {
+    if (!round || !scheduledRounds.some((r) => r.id === round)) {
+      setRound(scheduledRounds[scheduledRounds.length - 1]?.id || "")
+    }
+  }, [round, scheduledRounds])
+
+  // Load athletes and the round's boulders
+  useEffect(() => {
+    if (!firestore || !selectedComp || !selectedCategory || !round) {
+      setAthletes(new Map())
+      setRoutes([])
+      return
+    }
+    const db = firestore
+    let cancelled = false
+
+    const loadRoundData = async () => {
+      try {
+        const [athletesSnap, routesSnap] = await Promise.all([
+          getDocs(
+            query(
+              collection(db, `boulderComps/${selectedComp}/athletes`),
+              where("categoryId", "==", selectedCategory)
+            )
+          ),
+          getDocs(
+            query(
+              collection(
+                db,
+                `boulderComps/${selectedComp}/categories/${selectedCategory}/${routeCollectionForRound(round)}`
+              ),
+              firestoreOrderBy("order", "asc")
+            )
+          ),
+        ])
+        if (cancelled) return
+        const athleteMap = new Map<string, Athlete>()
+        athletesSnap.docs.forEach((doc) => {
+          athleteMap.set(doc.id, {
+            bib: doc.data().bib != null ? String(doc.data().bib) : undefined,
+            name: doc.data().name,
+            team: doc.data().team,
+          })
+        })
+        setAthletes(athleteMap)
+        setRoutes(routesSnap.docs.map((doc) => ({ id: doc.id, label: doc.data().label || doc.id })))
+      } catch (err) {
+        console.error("Error loading round data:", err)
+        if (!cancelled) setError("Failed to load athletes and boulders")
+      }
+    }
+
+    loadRoundData()
+    return () => {
+      cancelled = true
+    }
+  }, [selectedComp, selectedCategory, round])
+
+  // Follow the saved schedule
+  useEffect(() => {
+    const schedulePath = round ? schedulePathForRound(round) : null
+    if (!firestore || !selectedComp || !selectedCategory || !schedulePath) {
+      setSchedule(null)
+      return
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, `boulderComps/${selectedComp}/categories/${selectedCategory}/${schedulePath}`),
+      (snap) => {
+        const parsed = parseRunningSchedule(snap.data())
+        setSchedule(parsed)
+        if (parsed) setPeriodMinutes(parsed.periodMinutes)
+      },
+      (err) => {
+        console.error("Error watching schedule:", err)
+        setSchedule(null)
+      }
+    )
+
+    return () => unsubscribe()
+  }, [selectedComp, selectedCategory, round])
+
+  const slots = useMemo(() => (schedule ? buildScheduleSlots(schedule) : []), [schedule])
+  const callUps = useMemo(() => (schedule ? isolationCallUps(schedule) : []), [schedule])
+  const routeLabel = (routeId: string) => routes.find((r) => r.id === routeId)?.label || routeId
+  const athleteLabel = (athleteId: string) => {
+    const athlete = athletes.get(athleteId)
+    return athlete ? `${athlete.bib ? `#${athlete.bib} ` : ""}${athlete.name || athleteId}` : athleteId
+  }
+
+  const handleGenerate = async () => {
+    const startlistPath = round ? startlistPathForRound(round) : null
+    const schedulePath = round ? schedulePathForRound(round) : null
+    if (!firestore || !selectedComp || !selectedCategory || !startlistPath || !schedulePath) {
+      setError("Please select a competition, category and round")
+      return
+    }
+    const startAtMs = new Date(startInput).getTime()
+    if (!Number.isFinite(startAtMs)) {
+      setError("Enter a valid start time")
+      return
+    }
+    if (!routes.length) {
+      setError("This round has no boulders yet")
+      return
+    }
+
+    setSaving(true)
+    setError("")
+    try {
+      const categoryPath = `boulderComps/${selectedComp}/categories/${selectedCategory}`
+      const startlistSnap = await getDoc(doc(firestore, `${categoryPath}/${startlistPath}`))
+      const order = runningOrderFromStartlist(startlistEntries(startlistSnap.data()))
+      if (!order.length) {
+        throw new Error("Generate the start list for this round first")
+      }
+
+      await setDoc(doc(firestore, `${categoryPath}/${schedulePath}`), {
+        order,
+        routeIds: routes.map((r) => r.id),
+        startAtMs,
+        periodMinutes,
+        generatedAt: serverTimestamp(),
+      })
+    } catch (err) {
+      console.error("Error saving schedule:", err)
+      setError(err instanceof Error ? err.message : "Failed to save schedule")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const categoryName = categories.find((c) => c.id === selectedCategory)?.name || selectedCategory
+
+  return (
+    <main className="py-6 min-h-screen bg-[#0b1220] text-gray-200 print:bg-white print:text-black">
+      <Container>
+        <div className="max-w-[1100px] mx-auto space-y-6">
+          {/* Header */}
+          <header className="flex flex-col gap-3 print:hidden">
+            <div className="flex items-center gap-3">
+              <Link href="/" className="inline-block">
+                <Image
+                  src="/logo_header.png"
+                  alt="GripRank"
+                  width={4001}
+                  height={1228}
+                  priority
+                  className="h-11 w-auto"
+                />
+              </Link>
+              <span className="text-gray-400">Running Schedule</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+              <span className="truncate max-w-[240px]">
+                {user?.emailAddresses[0]?.emailAddress || "Signed in"}
+              </span>
+              <UserButton afterSignOutUrl="/" />
+            </div>
+          </header>
+
+          {/* Controls */}
+          <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5 space-y-4 print:hidden">
+            <div className="mb-4">
+              <h1 className="text-2xl font-bold text-gray-100">Running Schedule</h1>
+              <p className="text-sm text-gray-400 mt-1">
+                Reverse previous-round order with a climbing and rest period on every boulder
+              </p>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <label className="block">
+                <span className="text-sm font-semibold text-gray-200 mb-2 block">
+                  Competition
+                </span>
+                <select
+                  value={selectedComp}
+                  onChange={(e) => setSelectedComp(e.target.value)}
+                  className="w-full px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                >
+                  {competitions.length === 0 ? (
+                    <option value="">No competitions found</option>
+                  ) : (
+                    competitions.map((comp) => (
+                      <option key={comp.id} value={comp.id}>
+                        {comp.name || comp.id}
+                      </option>
+                    ))
+                  )}
+                </select>
+              </label>
+
+              <label className="block">
+                <span className="text-sm font-semibold text-gray-200 mb-2 block">
+                  Category
+                </span>
+                <select
+                  value={selectedCategory}
+                  onChange={(e) => setSelectedCategory(e.target.value)}
+                  className="w-full px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                >
+                  {categories.length === 0 ? (
+                    <option value="">No categories found</option>
+                  ) : (
+                    categories.map((cat) => (
+                      <option key={cat.id} value={cat.id}>
+                        {cat.name || cat.id}
+                      </option>
+                    ))
+                  )}
+                </select>
+              </label>
+
+              <label className="block">
+                <span className="text-sm font-semibold text-gray-200 mb-2 block">
+                  Round
+                </span>
+                <select
+                  value={round}
+                  onChange={(e) => setRound(e.target.value as BoulderRoundId)}
+                  className="w-full px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                >
+                  {scheduledRounds.length === 0 ? (
+                    <option value="">No rounds after qualification</option>
+                  ) : (
+                    scheduledRounds.map((r) => (
+                      <option key={r.id} value={r.id}>
+                        {BOULDER_ROUND_LABELS[r.id]}
+                      </option>
+                    ))
+                  )}
+                </select>
+              </label>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <label className="block">
+                <span className="text-sm font-semibold text-gray-200 mb-2 block">
+                  First climbing period starts
+                </span>
+                <input
+                  type="datetime-local"
+                  value={startInput}
+                  onChange={(e) => setStartInput(e.target.value)}
+                  className="w-full px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                />
+              </label>
+
+              <label className="block">
+                <span className="text-sm font-semibold text-gray-200 mb-2 block">
+                  Climbing period (rest is the same length)
+                </span>
+                <select
+                  value={periodMinutes}
+                  onChange={(e) => setPeriodMinutes(Number(e.target.value))}
+                  className="w-full px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                >
+                  {Array.from(new Set([...ROTATION_MINUTE_OPTIONS, periodMinutes])).map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {minutes} minutes
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {/* Error Message */}
+            {error && (
+              <div className="rounded-lg bg-red-500/10 border border-red-500/30 px-4 py-3 text-sm text-red-300">
+                {error}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                onClick={handleGenerate}
+                disabled={saving || !round}
+                className="px-6 py-3 bg-[#27a9e1] text-[#031726] rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? "Saving..." : schedule ? "Regenerate schedule" : "Generate schedule"}
+              </button>
+              {schedule && (
+                <button
+                  onClick={() => window.print()}
+                  className="px-6 py-3 bg-[#101a34] border border-[#19bcd6] text-gray-200 rounded-lg font-semibold hover:bg-[#19bcd6]/10 transition"
+                >
+                  Print / PDF
+                </button>
+              )}
+            </div>
+          </section>
+
+          {schedule && round ? (
+            <>
+              {/* Print Header (only visible when printing) */}
+              <div className="hidden print:block mb-6">
+                <h1 className="text-2xl font-bold text-black mb-2">
+                  {categoryName} – {BOULDER_ROUND_LABELS[round]} running schedule
+                </h1>
+                <p className="text-sm text-gray-700">
+                  {schedule.periodMinutes} minute climbing and rest periods
+                </p>
+              </div>
+
+              {/* Isolation call-up */}
+              <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5 print:bg-white print:border-black print:rounded-none print:break-inside-avoid">
+                <h2 className="text-xl font-bold text-gray-100 print:text-black mb-4">Isolation call-up</h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse text-sm">
+                    <thead>
+                      <tr className="bg-[#101a34] print:bg-gray-100">
+                        <th className="border border-[#19bcd6] px-3 py-2 text-left print:border-black w-12">#</th>
+                        <th className="border border-[#19bcd6] px-3 py-2 text-left print:border-black">Athlete</th>
+                        <th className="border border-[#19bcd6] px-3 py-2 text-left print:border-black">Team</th>
+                        <th className="border border-[#19bcd6] px-3 py-2 text-left print:border-black">Call-up</th>
+                        <th className="border border-[#19bcd6] px-3 py-2 text-left print:border-black">
+                          {routeLabel(schedule.routeIds[0] || "")}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {callUps.map((callUp) => (
+                        <tr key={callUp.athleteId}>
+                          <td className="border border-[#19bcd6] px-3 py-2 print:border-black">{callUp.position + 1}</td>
+                          <td className="border border-[#19bcd6] px-3 py-2 font-semibold print:border-black">
+                            {athleteLabel(callUp.athleteId)}
+                          </td>
+                          <td className="border border-[#19bcd6] px-3 py-2 text-gray-300 print:border-black print:text-gray-700">
+                            {athletes.get(callUp.athleteId)?.team || "—"}
+                          </td>
+                          <td className="border border-[#19bcd6] px-3 py-2 print:border-black">{formatTime(callUp.callUpMs)}</td>
+                          <td className="border border-[#19bcd6] px-3 py-2 print:border-black">
+                            {formatTime(callUp.firstStartMs)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+
+              {/* Schedule grid */}
+              <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5 print:bg-white print:border-black print:rounded-none print:break-inside-avoid">
+                <h2 className="text-xl font-bold text-gray-100 print:text-black mb-4">Schedule</h2>
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse text-sm">
+                    <thead>
+                      <tr className="bg-[#101a34] print:bg-gray-100">
+                        <th className="border border-[#19bcd6] px-3 py-2 text-left print:border-black w-12">#</th>
+                        <th className="border border-[#19bcd6] px-3 py-2 text-left print:border-black">Athlete</th>
+                        {schedule.routeIds.map((routeId) => (
+                          <th key={routeId} className="border border-[#19bcd6] px-3 py-2 text-left print:border-black">
+                            {routeLabel(routeId)}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {schedule.order.map((athleteId, position) => (
+                        <tr key={athleteId}>
+                          <td className="border border-[#19bcd6] px-3 py-2 print:border-black">{position + 1}</td>
+                          <td className="border border-[#19bcd6] px-3 py-2 font-semibold print:border-black">
+                            {athleteLabel(athleteId)}
+                          </td>
+                          {schedule.routeIds.map((routeId) => {
+                            const slot = slots.find((s) => s.athleteId === athleteId && s.routeId === routeId)
+                            return (
+                              <td key={routeId} className="border border-[#19bcd6] px-3 py-2 print:border-black">
+                                {slot ? `${formatTime(slot.startMs)}–${formatTime(slot.endMs)}` : "—"}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {slots.length > 0 && (
+                  <p className="text-xs text-gray-400 print:text-gray-600 mt-3">
+                    Last climbing period ends at {formatTime(slots[slots.length - 1].endMs)}.
+                  </p>
+                )}
+              </section>
+            </>
+          ) : (
+            <div className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-6 text-center print:hidden">
+              <p className="text-gray-400">
+                No schedule yet. Generate the round&apos;s start list, then pick a start time and period.
+              </p>
+            </div>
+          )}
+
+          {/* Back Link */}
+          <div className="text-center print:hidden">
+            <Link
+              href="/boulder/admin"
+              className="text-sm text-[#27a9e1] hover:text-[#19bcd6] hover:underline"
+            >
+              ← Back to Admin Dashboard
+            </Link>
+          </div>
+        </div>
+      </Container>
+    </main>
+  )
+}
@@ -1,7 +1,5 @@
 'use client'
 
-/* eslint-disable @next/next/no-img-element */
-
 import { useEffect, useState } from "react"
 import Link from "next/link"
 import Image from "next/image"
@@ -19,9 +17,23 @@ import {
   getDoc,
 } from "firebase/firestore"
 import { firestore } from "@/lib/firebase/client"
+import QrCode from "@/components/QrCode"
+import { encodeAthleteQr } from "@/lib/boulder/athleteQr"
+import {
+  BOULDER_ROUND_DEFS,
+  BOULDER_ROUND_IDS,
+  BOULDER_ROUND_LABELS,
+  getCategoryRounds,
+  parseBoulderRound,
+  previousRoundOf,
+  routeCollectionForRound,
+  startlistEntries,
+  startlistPathForRound,
+  type BoulderRoundId,
+} from "@/lib/boulder/rounds"
 
 type Competition = { id: string; name?: string; status?: string; updatedAt?: { seconds?: number } }
-type Category = { id: string; name?: string; order?: number }
+type Category = { id: string; name?: string; order?: number; rounds?: unknown }
 type RouteMeta = { id: string; label: string }
 type Athlete = {
   id: string
@@ -38,11 +50,16 @@ type ScorecardBlock = {
   routes: RouteMeta[]
   routeLabels: Map<string, string>
   athletes: Athlete[]
-  round: RoundType
-  qualifierRanks?: Map<string, number>
+  round: BoulderRoundId
+  previousRanks?: Map<string, number>
+  previousRoundLabel?: string
 }
 
-type RoundType = "qualification" | "final"
+type PrintLayout = "scorecards" | "badges"
+
+// Scorecards and bib badges carry the same payload, so judges can scan either
+const athleteQrValue = (compId: string, ath: Athlete) =>
+  encodeAthleteQr({ compId, athleteId: ath.id, bib: ath.bib != null ? String(ath.bib) : "" })
 
 export default function ScorecardsPage() {
   const { isLoaded, isSignedIn } = useUser()
@@ -83,7 +100,8 @@ function ScorecardsInterface() {
   const [selectedCompId, setSelectedCompId] = useState("")
   const [selectedCategoryId, setSelectedCategoryId] = useState("")
   const [detailFilter, setDetailFilter] = useState("")
-  const [round, setRound] = useState<RoundType>("qualification")
+  const [round, setRound] = useState<BoulderRoundId>("qualification")
+  const [layout, setLayout] = useState<PrintLayout>("scorecards")
 
   const [cards, setCards] = useState<ScorecardBlock[]>([])
   const [status, setStatus] = useState("Select a competition to begin.")
@@ -197,18 +215,18 @@ function ScorecardsInterface() {
     loadDetails()
   }, [selectedCompId, selectedCategoryId])
 
-  const fetchRoutes = async (compId: string, categoryId: string, currentRound: RoundType) => {
+  const fetchRoutes = async (compId: string, categoryId: string, currentRound: BoulderRoundId) => {
     if (!firestore) return [] as RouteMeta[]
     const db = firestore
     if (!db) return [] as RouteMeta[]
     const base = `boulderComps/${compId}/categories/${categoryId}`
-    const collectionName = currentRound === "final" ? "finalRoutes" : "routes"
+    const collectionName = routeCollectionForRound(currentRound)
     const snap = await getDocs(collection(db, `${base}/${collectionName}`))
     let routes = snap.docs.map((d) => {
       const data = d.data() || {}
       return { id: d.id, label: (data as { label?: string }).label || d.id }
     })
-    if (!routes.length && currentRound === "final") {
+    if (!routes.length && currentRound !== "qualification") {
       const fallback = await getDocs(collection(db, `${base}/routes`))
       routes = fallback.docs.map((d) => {
         const data = d.data() || {}
@@ -217,8 +235,8 @@ function ScorecardsInterface() {
     }
     if (!routes.length) {
       routes = Array.from({ length: 5 }).map((_, idx) => ({
-        id: `${currentRound === "final" ? "F" : "B"}${idx + 1}`,
-        label: `${currentRound === "final" ? "Final" : "Boulder"} ${idx + 1}`,
+        id: `${BOULDER_ROUND_DEFS[currentRound].routeIdPrefix}${idx + 1}`,
+        label: `${BOULDER_ROUND_DEFS[currentRound].routeLabelPrefix} ${idx + 1}`,
       }))
     }
     return routes
@@ -243,24 +261,27 @@ function ScorecardsInterface() {
 
       const blocks: ScorecardBlock[] = []
       for (const cat of targetCategories) {
+        const catRounds = getCategoryRounds(cat)
+        if (!catRounds.some((r) => r.id === round)) continue
         const routes = await fetchRoutes(selectedCompId, cat.id, round)
         const routeLabels = new Map(routes.map((r) => [r.id, r.label]))
 
         let athletes: Athlete[] = []
-        let qualifierRanks: Map<string, number> | undefined = undefined
+        let previousRanks: Map<string, number> | undefined = undefined
+        const startlistPath = startlistPathForRound(round)
 
-        if (round === "final") {
-          // Load finalists from startlist
-          const startlistRef = doc(db, `boulderComps/${selectedCompId}/categories/${cat.id}/finals`, "startlist")
+        if (startlistPath) {
+          // Load the athletes who advanced from the start list
+          const startlistRef = doc(db, `boulderComps/${selectedCompId}/categories/${cat.id}/${startlistPath}`)
           const startlistSnap = await getDoc(startlistRef)
 
           if (startlistSnap.exists()) {
-            const entries = (startlistSnap.data()?.entries || []) as Array<{ athleteId: string; qualifierRank: number }>
+            const entries = startlistEntries(startlistSnap.data())
             const athleteIds = entries.map(e => e.athleteId)
 
             // Create rank map for sorting and display
-            const rankMap = new Map(entries.map(e => [e.athleteId, e.qualifierRank]))
-            qualifierRanks = rankMap
+            const rankMap = new Map(entries.map(e => [e.athleteId, e.previousRank]))
+            previousRanks = rankMap
 
             // Load all athletes in category
             const athletesQuery = query(
@@ -269,7 +290,7 @@ function ScorecardsInterface() {
             )
             const athSnap = await getDocs(athletesQuery)
 
-            // Filter to only finalists and sort by qualifier rank
+            // Filter to the start list and sort by previous-round rank
             athletes = athSnap.docs
               .map((d) => {
                 const { id: _id, ...rest } = d.data() as Athlete
@@ -315,13 +336,14 @@ function ScorecardsInterface() {
           routeLabels,
           athletes,
           round,
-          qualifierRanks,
+          previousRanks,
+          previousRoundLabel: BOULDER_ROUND_LABELS[previousRoundOf(catRounds, round)?.id ?? "qualification"],
         })
       }
 
       setCards(blocks)
       const totalCards = blocks.reduce((sum, block) => sum + block.athletes.length, 0)
-      setStatus(totalCards ? `Generated ${totalCards} scorecards. Use Print to export.` : "No athletes match the filters.")
+      setStatus(totalCards ? `Generated ${totalCards} athlete cards. Use Print to export.` : "No athletes match the filters.")
     } catch (err) {
       console.error(err)
       setStatus("Failed to load scorecards.")
@@ -362,7 +384,7 @@ function ScorecardsInterface() {
             </div>
           </header>
         <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5 space-y-4">
-          <div className="grid gap-4 md:grid-cols-4">
+          <div className="grid gap-4 md:grid-cols-5">
             <label className="flex flex-col gap-2 text-sm">
               Competition
               <select
@@ -400,11 +422,14 @@ function ScorecardsInterface() {
               <select
                 className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
                 value={round}
-                onChange={(e) => setRound(e.target.value as RoundType)}
+                onChange={(e) => setRound(parseBoulderRound(e.target.value))}
                 disabled={!selectedCompId}
               >
-                <option value="qualification">Qualification</option>
-                <option value="final">Final</option>
+                {BOULDER_ROUND_IDS.map((id) => (
+                  <option key={id} value={id}>
+                    {BOULDER_ROUND_LABELS[id]}
+                  </option>
+                ))}
               </select>
             </label>
             <label className="flex flex-col gap-2 text-sm">
@@ -413,9 +438,9 @@ function ScorecardsInterface() {
                 className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
                 value={detailFilter}
                 onChange={(e) => setDetailFilter(e.target.value)}
-                disabled={!selectedCategoryId || round === "final"}
+                disabled={!selectedCategoryId || round !== "qualification"}
               >
-                <option value="">{round === "final" ? "Not used in finals" : "All details"}</option>
+                <option value="">{round !== "qualification" ? "Qualification only" : "All details"}</option>
                 {details.map((id) => (
                   <option key={id} value={id}>
                     Detail {id}
@@ -423,6 +448,17 @@ function ScorecardsInterface() {
                 ))}
               </select>
             </label>
+            <label className="flex flex-col gap-2 text-sm">
+              Layout
+              <select
+                className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                value={layout}
+                onChange={(e) => setLayout(e.target.value as PrintLayout)}
+              >
+                <option value="scorecards">Scorecards</option>
+                <option value="badges">Bib badges</option>
+              </select>
+            </label>
           </div>
 
           <div className="flex flex-wrap items-center gap-3">
@@ -458,10 +494,35 @@ function ScorecardsInterface() {
                   </p>
                 </div>
               </div>
+              {layout === "badges" ? (
+                <div className="grid gap-4 sm:grid-cols-2 md:grid-cols-3 print:grid-cols-3">
+                  {block.athletes.map((ath) => (
+                    <article
+                      key={ath.id}
+                      className="flex break-inside-avoid flex-col items-center gap-3 rounded-xl border border-neutral-800 bg-neutral-900/80 p-5 text-center print:border-neutral-400 print:bg-white print:text-black"
+                    >
+                      <div className="text-6xl font-black tabular-nums text-gray-100 print:text-black">
+                        {ath.bib != null ? String(ath.bib) : "—"}
+                      </div>
+                      <div>
+                        <div className="text-lg font-semibold text-gray-100 print:text-black">{ath.name || ath.id}</div>
+                        <div className="text-sm text-neutral-300 print:text-black">
+                          {[ath.team, block.categoryName].filter(Boolean).join(" • ")}
+                        </div>
+                      </div>
+                      <QrCode
+                        value={athleteQrValue(block.compId, ath)}
+                        className="h-32 w-32 rounded border border-neutral-800 print:border-neutral-500"
+                        title={`Badge QR for ${ath.name || ath.id}`}
+                      />
+                    </article>
+                  ))}
+                </div>
+              ) : (
               <div className="grid gap-4 md:grid-cols-2 print:grid-cols-2">
                 {block.athletes.map((ath) => {
                   const detailDisplay = ath.detailIndex != null ? `Detail ${ath.detailIndex}` : "—"
-                  const qualifierRankDisplay = block.qualifierRanks?.get(ath.id) || "—"
+                  const previousRankDisplay = block.previousRanks?.get(ath.id) || "—"
                   const bibDisplay = ath.bib != null ? String(ath.bib) : "—"
                   return (
                     <article
@@ -480,9 +541,9 @@ function ScorecardsInterface() {
                             <span className="mr-3">
                               <strong>Category:</strong> {block.categoryName}
                             </span>
-                            {block.round === "final" ? (
+                            {block.round !== "qualification" ? (
                               <span>
-                                <strong>Qualifier Rank:</strong> {qualifierRankDisplay}
+                                <strong>{block.previousRoundLabel} Rank:</strong> {previousRankDisplay}
                               </span>
                             ) : (
                               <span>
@@ -493,24 +554,10 @@ function ScorecardsInterface() {
                         </div>
                         <div className="flex flex-col items-center text-xs text-gray-400 print:text-black">
                           <span>QR</span>
-                          <img
-                            className="h-20 w-20 rounded border border-neutral-800 bg-white object-contain print:border-neutral-500"
-                            src={`https://api.qrserver.com/v1/create-qr-code/?size=120x120&margin=0&data=${encodeURIComponent(
-                              bibDisplay || ath.id
-                            )}`}
-                            alt={`QR for ${bibDisplay || ath.id}`}
-                            onError={(e) => {
-                              const target = e.currentTarget
-                              target.replaceWith(
-                                (() => {
-                                  const div = document.createElement("div")
-                                  div.className =
-                                    "h-20 w-20 rounded border border-neutral-800 bg-neutral-800 text-[10px] text-neutral-200 flex items-center justify-center text-center print:border-neutral-500 print:bg-white print:text-black"
-                                  div.textContent = "QR unavailable"
-                                  return div
-                                })()
-                              )
-                            }}
+                          <QrCode
+                            value={athleteQrValue(block.compId, ath)}
+                            className="h-20 w-20 rounded border border-neutral-800 print:border-neutral-500"
+                            title={`QR for ${bibDisplay !== "—" ? bibDisplay : ath.id}`}
                           />
                         </div>
                       </div>
@@ -548,6 +595,7 @@ function ScorecardsInterface() {
                   )
                 })}
               </div>
+              )}
             </div>
           ))}
 
@@ -21,6 +21,34 @@ import AccessDenied from "@/components/AccessDenied"
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth"
 import { useUserRole } from "@/hooks/useUserRole"
 import { firestore } from "@/lib/firebase/client"
+import { DEFAULT_SCORING_FORMAT, SCORING_FORMATS, TWO_ZONE_COUNT } from "@/lib/boulder/scoring"
+import {
+  BOULDER_ROUND_DEFS,
+  BOULDER_ROUND_IDS,
+  BOULDER_ROUND_LABELS,
+  getCategoryRounds,
+  parseBoulderRound,
+  routeCollectionForRound,
+  type BoulderRoundConfig,
+  type BoulderRoundId,
+} from "@/lib/boulder/rounds"
+import {
+  QUALIFICATION_RANKINGS,
+  QUALIFICATION_RANKING_LABELS,
+  getQualificationRanking,
+  type QualificationRanking,
+} from "@/lib/boulder/groupRanking"
+import {
+  COMP_MEMBER_ROLE_LABELS,
+  canEditCompMembers,
+  canManageComp,
+  initialCompMembers,
+  type CompMemberRole,
+} from "@/lib/compMembers"
+import { addCompMember, removeCompMember } from "@/lib/compMembersApi"
+import { JUDGE_PASSCODE_MIN_LENGTH, judgePasscodeError } from "@/lib/judgePasscode"
+import PasscodeFailures from "@/components/PasscodeFailures"
+import CompTeamPanel from "@/components/CompTeamPanel"
 
 type UserRole = "viewer" | "judge" | "staff" | "admin"
 
@@ -28,19 +56,26 @@ interface Competition {
   id: string
   name?: string
   status?: string
+  scoringFormat?: string
+  zoneCount?: number
   eventDate?: unknown
   qualifierRouteCount?: number
+  semifinalRouteCount?: number
   finalRouteCount?: number
   boulderCount?: number
   updatedAt?: { seconds?: number }
   judgePasscodeVersion?: string
   judgePasscodeUpdatedAt?: unknown
+  members?: unknown
+  memberEmails?: Record<string, string>
 }
 
 interface Category {
   id: string
   name?: string
   order?: number | null
+  rounds: BoulderRoundConfig[]
+  qualificationRanking: QualificationRanking
 }
 
 interface RouteDoc {
@@ -49,15 +84,23 @@ interface RouteDoc {
   order?: number | null
 }
 
-type RoutePhase = "qualifier" | "final"
+type RouteCounts = Partial<Record<BoulderRoundId, number>>
 
-const ROUTE_PHASE_CONFIG: Record<
-  RoutePhase,
-  { collection: string; idPrefix: string; labelPrefix: string }
-> = {
-  qualifier: { collection: "routes", idPrefix: "B", labelPrefix: "Boulder" },
-  final: { collection: "finalRoutes", idPrefix: "F", labelPrefix: "Final Boulder" },
-}
+const emptyRoutesByRound = (): Record<BoulderRoundId, Record<string, RouteDoc[]>> => ({
+  qualification: {},
+  semifinal: {},
+  final: {},
+})
+
+const hasRound = (cat: Category, round: BoulderRoundId) => cat.rounds.some((r) => r.id === round)
+
+// Adds or drops the semifinal while keeping the other rounds' quotas
+const withSemifinal = (rounds: BoulderRoundConfig[], enabled: boolean) =>
+  getCategoryRounds({
+    rounds: enabled
+      ? [...rounds.filter((r) => r.id !== "semifinal"), { id: "semifinal", quota: null }]
+      : rounds.filter((r) => r.id !== "semifinal"),
+  })
 
 const staffOrAdmin = (role: UserRole | null) => role === "staff" || role === "admin"
 
@@ -98,10 +141,10 @@ export default function SetupPage() {
     )
   }
 
-  return <SetupInterface />
+  return <SetupInterface role={role} />
 }
 
-function SetupInterface() {
+function SetupInterface({ role }: { role: UserRole | null }) {
   const { user } = useUser()
 
   const [toast, setToast] = useState<{ message: string; tone?: "info" | "ok" | "warn" } | null>(
@@ -115,17 +158,15 @@ function SetupInterface() {
   const [selectedComp, setSelectedComp] = useState<Competition | null>(null)
 
   const [qualifierRouteCount, setQualifierRouteCount] = useState(0)
+  const [semifinalRouteCount, setSemifinalRouteCount] = useState(0)
   const [finalRouteCount, setFinalRouteCount] = useState(0)
 
   const [categories, setCategories] = useState<Category[]>([])
   const [categoriesLoading, setCategoriesLoading] = useState(false)
 
-  const [routePhase, setRoutePhase] = useState<RoutePhase>("qualifier")
+  const [routePhase, setRoutePhase] = useState<BoulderRoundId>("qualification")
   const [routeCategoryId, setRouteCategoryId] = useState("")
-  const [routesByCategory, setRoutesByCategory] = useState<{
-    qualifier: Record<string, RouteDoc[]>
-    final: Record<string, RouteDoc[]>
-  }>({ qualifier: {}, final: {} })
+  const [routesByCategory, setRoutesByCategory] = useState(emptyRoutesByRound)
   const [routeRenameInputs, setRouteRenameInputs] = useState<Record<string, string>>({})
   const [routeRenameMsg, setRouteRenameMsg] = useState("")
   const [routeRenameSaving, setRouteRenameSaving] = useState(false)
@@ -135,13 +176,17 @@ function SetupInterface() {
   const [createDate, setCreateDate] = useState("")
   const [createCategories, setCreateCategories] = useState("")
   const [createQualCount, setCreateQualCount] = useState("6")
+  const [createSemiCount, setCreateSemiCount] = useState("0")
   const [createFinalCount, setCreateFinalCount] = useState("4")
   const [createMsg, setCreateMsg] = useState("")
 
   const [editName, setEditName] = useState("")
   const [editStatus, setEditStatus] = useState("draft")
+  const [editScoringFormat, setEditScoringFormat] = useState<string>(DEFAULT_SCORING_FORMAT)
+  const [editZoneCount, setEditZoneCount] = useState("1")
   const [editDate, setEditDate] = useState("")
   const [editQualCount, setEditQualCount] = useState("")
+  const [editSemiCount, setEditSemiCount] = useState("")
   const [editFinalCount, setEditFinalCount] = useState("")
   const [editMsg, setEditMsg] = useState("")
 
@@ -153,6 +198,11 @@ function SetupInterface() {
   const [judgePasscodeMsg, setJudgePasscodeMsg] = useState("")
   const [judgePasscodeSaving, setJudgePasscodeSaving] = useState(false)
 
+  const [memberEmailInput, setMemberEmailInput] = useState("")
+  const [memberRoleInput, setMemberRoleInput] = useState<CompMemberRole>("staff")
+  const [memberMsg, setMemberMsg] = useState("")
+  const [memberSaving, setMemberSaving] = useState(false)
+
   useEffect(() => {
     if (!firestore) return
     loadCompetitions().catch((err) => {
@@ -288,14 +338,14 @@ function SetupInterface() {
     compId: string,
     catId: string,
     count: number,
-    phase: RoutePhase = "qualifier"
+    round: BoulderRoundId = "qualification"
   ) => {
     const total = Number(count)
     if (!compId || !catId || !Number.isFinite(total) || total <= 0 || !firestore) return
-    const config = ROUTE_PHASE_CONFIG[phase]
+    const config = BOULDER_ROUND_DEFS[round]
     const routesCol = collection(
       firestore!,
-      `boulderComps/${compId}/categories/${catId}/${config.collection}`
+      `boulderComps/${compId}/categories/${catId}/${config.routeCollection}`
     )
     const existingSnap = await getDocs(routesCol)
     const batch = writeBatch(firestore!)
@@ -313,13 +363,13 @@ function SetupInterface() {
     })
 
     for (let i = 1; i <= total; i += 1) {
-      const routeId = `${config.idPrefix}${i}`
+      const routeId = `${config.routeIdPrefix}${i}`
       const existing = existingSnap.docs.find((d) => d.id === routeId)
       if (existing) continue
       batch.set(
         doc(routesCol, routeId),
         {
-          label: `${config.labelPrefix} ${i}`,
+          label: `${config.routeLabelPrefix} ${i}`,
           order: i,
           createdAt: serverTimestamp(),
           updatedAt: serverTimestamp(),
@@ -345,16 +395,19 @@ function SetupInterface() {
   const ensureRoutesForAllCategories = async (
     compId: string,
     catList: Category[],
-    counts: { qualifier?: number; final?: number }
+    counts: RouteCounts
   ) => {
-    const qualifier = Number(counts.qualifier)
-    const final = Number(counts.final)
     for (const cat of catList) {
-      if (Number.isFinite(qualifier) && qualifier > 0) {
-        await ensureRoutesForCategory(compId, cat.id, qualifier, "qualifier")
-      }
-      if (Number.isFinite(final) && final > 0) {
-        await ensureRoutesForCategory(compId, cat.id, final, "final")
+      await ensureRoutesForRounds(compId, cat, counts)
+    }
+  }
+
+  // Only rounds the category runs get routes
+  const ensureRoutesForRounds = async (compId: string, cat: Category, counts: RouteCounts) => {
+    for (const round of BOULDER_ROUND_IDS) {
+      const count = Number(counts[round])
+      if (hasRound(cat, round) && Number.isFinite(count) && count > 0) {
+        await ensureRoutesForCategory(compId, cat.id, count, round)
       }
     }
   }
@@ -421,8 +474,10 @@ function SetupInterface() {
     setCompsLoading(true)
     try {
       const snap = await getDocs(collection(firestore, "boulderComps"))
+      // Only the competitions this user manages
       const list = snap.docs
         .map((d) => ({ ...(d.data() as Competition), id: d.id }))
+        .filter((comp) => canManageComp(comp, user?.id, role))
         .sort((a, b) => (b.updatedAt?.seconds || 0) - (a.updatedAt?.seconds || 0))
       setComps(list)
     } catch (err) {
@@ -435,7 +490,7 @@ function SetupInterface() {
   }
 
   const handleCreateCompetition = async () => {
-    if (!firestore) return
+    if (!firestore || !user) return
     const name = createName.trim()
     if (!name) {
       showToast("Enter a competition name first.", "warn")
@@ -448,11 +503,16 @@ function SetupInterface() {
       return
     }
     const qualCount = Number(createQualCount)
+    const semiCount = Number(createSemiCount || 0)
     const finalCount = Number(createFinalCount)
     if (!Number.isFinite(qualCount) || qualCount <= 0) {
       showToast("Enter the number of qualifier routes.", "warn")
       return
     }
+    if (!Number.isFinite(semiCount) || semiCount < 0) {
+      showToast("Enter the number of semifinal routes (0 for none).", "warn")
+      return
+    }
     if (!Number.isFinite(finalCount) || finalCount <= 0) {
       showToast("Enter the number of final routes.", "warn")
       return
@@ -475,12 +535,21 @@ function SetupInterface() {
         eventDate: eventDate || null,
         boulderCount: qualCount,
         qualifierRouteCount: qualCount,
+        semifinalRouteCount: Math.floor(semiCount),
         finalRouteCount: finalCount,
+        members: initialCompMembers(user.id),
+        memberEmails: { [user.id]: user.primaryEmailAddress?.emailAddress || "" },
         createdAt: now,
         updatedAt: now,
       })
 
-      const cats = parseCategoryLines(createCategories)
+      // Categories start with a semifinal when the competition has semifinal routes
+      const rounds = withSemifinal(getCategoryRounds(null), semiCount > 0)
+      const cats = parseCategoryLines(createCategories).map((cat) => ({
+        ...cat,
+        rounds,
+        qualificationRanking: "overall" as const,
+      }))
       if (cats.length) {
         const batch = writeBatch(firestore!)
         cats.forEach((cat, index) => {
@@ -488,12 +557,17 @@ function SetupInterface() {
           batch.set(catRef, {
             name: cat.name,
             order: index,
+            rounds: cat.rounds,
             createdAt: serverTimestamp(),
             updatedAt: serverTimestamp(),
           })
         })
         await batch.commit()
-        await ensureRoutesForAllCategories(compId, cats, { qualifier: qualCount, final: finalCount })
+        await ensureRoutesForAllCategories(compId, cats, {
+          qualification: qualCount,
+          semifinal: semiCount,
+          final: finalCount,
+        })
       }
 
       showToast(`Created competition ${compId}`, "ok")
@@ -503,9 +577,11 @@ function SetupInterface() {
       setCreateDate("")
       setCreateCategories("")
       setCreateQualCount(String(qualCount))
+      setCreateSemiCount(String(Math.floor(semiCount)))
       setCreateFinalCount(String(finalCount))
       setSelectedCompId(compId)
       setQualifierRouteCount(qualCount)
+      setSemifinalRouteCount(Math.floor(semiCount))
       setFinalRouteCount(finalCount)
       await loadCompetitions()
       await loadCompetitionDetail(compId)
@@ -533,14 +609,19 @@ function SetupInterface() {
       const qual = Number(data.qualifierRouteCount ?? data.boulderCount) || 0
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const fin = Number(data.finalRouteCount ?? (data as any)?.finalBoulderCount) || 0
+      const semi = Number(data.semifinalRouteCount) || 0
       setQualifierRouteCount(qual)
+      setSemifinalRouteCount(semi)
       setFinalRouteCount(fin)
       setEditName(data.name || "")
       setEditStatus(data.status || "draft")
+      setEditScoringFormat(data.scoringFormat || DEFAULT_SCORING_FORMAT)
+      setEditZoneCount(data.zoneCount === TWO_ZONE_COUNT ? String(TWO_ZONE_COUNT) : "1")
       setEditDate(toInputDate(data.eventDate))
       setEditQualCount(qual ? String(qual) : "")
+      setEditSemiCount(String(semi))
       setEditFinalCount(fin ? String(fin) : "")
-      await loadCategories(compId, { qualifier: qual, final: fin })
+      await loadCategories(compId, { qualification: qual, semifinal: semi, final: fin })
     } catch (err) {
       console.error(err)
       showToast("Failed to load competition details.", "warn")
@@ -553,8 +634,10 @@ function SetupInterface() {
     try {
       const eventDate = dateFromInput(editDate.trim())
       const qual = Number(editQualCount)
+      const semi = Number(editSemiCount || 0)
       const final = Number(editFinalCount)
       const qualifier = Number.isFinite(qual) && qual > 0 ? Math.floor(qual) : qualifierRouteCount
+      const semifinalRoutes = Number.isFinite(semi) && semi >= 0 ? Math.floor(semi) : semifinalRouteCount
       const finalRoutes = Number.isFinite(final) && final > 0 ? Math.floor(final) : finalRouteCount
       if (!qualifier) {
         showToast("Enter a positive number of qualifier routes.", "warn")
@@ -571,9 +654,12 @@ function SetupInterface() {
         {
           name: editName.trim(),
           status: editStatus,
+          scoringFormat: editScoringFormat,
+          zoneCount: Number(editZoneCount),
           eventDate: eventDate || null,
           boulderCount: qualifier,
           qualifierRouteCount: qualifier,
+          semifinalRouteCount: semifinalRoutes,
           finalRouteCount: finalRoutes,
           updatedAt: serverTimestamp(),
         },
@@ -585,17 +671,23 @@ function SetupInterface() {
               ...selectedComp,
               name: editName.trim(),
               status: editStatus,
+              scoringFormat: editScoringFormat,
+              zoneCount: Number(editZoneCount),
               eventDate: eventDate || null,
               qualifierRouteCount: qualifier,
+              semifinalRouteCount: semifinalRoutes,
               finalRouteCount: finalRoutes,
               boulderCount: qualifier,
             }
           : null
       )
       setQualifierRouteCount(qualifier)
+      setSemifinalRouteCount(semifinalRoutes)
       setFinalRouteCount(finalRoutes)
+      setEditSemiCount(String(semifinalRoutes))
       await ensureRoutesForAllCategories(selectedCompId, categories, {
-        qualifier,
+        qualification: qualifier,
+        semifinal: semifinalRoutes,
         final: finalRoutes,
       })
       setEditMsg("Saved")
@@ -619,6 +711,11 @@ function SetupInterface() {
       setTimeout(() => setJudgePasscodeMsg(""), 2000)
       return
     }
+    const passcodeError = judgePasscodeError(code)
+    if (passcodeError) {
+      setJudgePasscodeMsg(passcodeError)
+      return
+    }
 
     setJudgePasscodeSaving(true)
     setJudgePasscodeMsg("")
@@ -646,9 +743,53 @@ function SetupInterface() {
     }
   }
 
+  const handleAddMember = async () => {
+    if (!selectedCompId) return
+    const email = memberEmailInput.trim()
+    if (!email) {
+      setMemberMsg("Enter the email of a GripRank account.")
+      return
+    }
+
+    setMemberSaving(true)
+    setMemberMsg("")
+    try {
+      await addCompMember(selectedCompId, email, memberRoleInput)
+      setMemberEmailInput("")
+      showToast(`${email} added as ${COMP_MEMBER_ROLE_LABELS[memberRoleInput].toLowerCase()}.`, "ok")
+      await loadCompetitionDetail(selectedCompId)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to add team member."
+      setMemberMsg(message)
+      showToast(message, "warn")
+    } finally {
+      setMemberSaving(false)
+    }
+  }
+
+  const handleRemoveMember = async (uid: string) => {
+    if (!selectedCompId) return
+    const label = selectedComp?.memberEmails?.[uid] || uid
+    if (!window.confirm(`Remove ${label} from this competition's team?`)) return
+
+    setMemberSaving(true)
+    setMemberMsg("")
+    try {
+      await removeCompMember(selectedCompId, uid)
+      showToast(`Removed ${label}`, "ok")
+      await loadCompetitionDetail(selectedCompId)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to remove team member."
+      setMemberMsg(message)
+      showToast(message, "warn")
+    } finally {
+      setMemberSaving(false)
+    }
+  }
+
   const loadCategories = async (
     compId: string,
-    counts: { qualifier?: number; final?: number } = {}
+    counts: RouteCounts = {}
   ) => {
     if (!firestore) return
     setCategoriesLoading(true)
@@ -660,6 +801,8 @@ function SetupInterface() {
           id: d.id,
           name: data.name || "",
           order: typeof data.order === "number" ? data.order : null,
+          rounds: getCategoryRounds(data),
+          qualificationRanking: getQualificationRanking(data),
         }
       })
       cats.sort((a, b) => {
@@ -669,13 +812,13 @@ function SetupInterface() {
         return (a.name || a.id).localeCompare(b.name || b.id)
       })
       setCategories(cats)
-      setRoutesByCategory({ qualifier: {}, final: {} })
+      setRoutesByCategory(emptyRoutesByRound())
       if (routeCategoryId && !cats.find((c) => c.id === routeCategoryId)) {
         setRouteCategoryId("")
         setRouteRenameInputs({})
       }
       await ensureDetailsFromAthletes(compId, cats)
-      if (cats.length && (counts.qualifier || counts.final)) {
+      if (cats.length && Object.values(counts).some((count) => count)) {
         await ensureRoutesForAllCategories(compId, cats, counts)
       }
     } catch (err) {
@@ -733,6 +876,39 @@ function SetupInterface() {
     }
   }
 
+  const handleSaveCategoryRounds = async (cat: Category) => {
+    if (!selectedCompId || !firestore) return
+    const rounds = getCategoryRounds({ rounds: cat.rounds })
+    try {
+      await setDoc(
+        doc(firestore!, `boulderComps/${selectedCompId}/categories/${cat.id}`),
+        { rounds, qualificationRanking: cat.qualificationRanking, updatedAt: serverTimestamp() },
+        { merge: true }
+      )
+      setCategories((prev) => prev.map((c) => (c.id === cat.id ? { ...c, rounds } : c)))
+      await ensureRoutesForRounds(selectedCompId, { ...cat, rounds }, {
+        semifinal: semifinalRouteCount,
+        final: finalRouteCount,
+      })
+      showToast("Category rounds saved.", "ok")
+    } catch (err) {
+      console.error(err)
+      showToast("Failed to save category rounds.", "warn")
+    }
+  }
+
+  const updateCategoryRounds = (catId: string, update: (rounds: BoulderRoundConfig[]) => BoulderRoundConfig[]) =>
+    setCategories((prev) => prev.map((c) => (c.id === catId ? { ...c, rounds: update(c.rounds) } : c)))
+
+  const setRoundQuota = (catId: string, round: BoulderRoundId, value: string) => {
+    const quota = Number(value)
+    updateCategoryRounds(catId, (rounds) =>
+      rounds.map((r) =>
+        r.id === round ? { ...r, quota: value && Number.isInteger(quota) && quota > 0 ? quota : null } : r
+      )
+    )
+  }
+
   const deleteDocsChunked = async (
     docs: { id: string }[],
     refFactory: (id: string) => ReturnType<typeof doc>
@@ -756,32 +932,37 @@ function SetupInterface() {
       return
     }
     try {
-      const routesSnap = await getDocs(
-        collection(firestore!, "boulderComps", selectedCompId, "categories", catId, "routes")
-      )
+      for (const round of BOULDER_ROUND_IDS) {
+        const routeCollection = routeCollectionForRound(round)
+        const routesSnap = await getDocs(
+          collection(firestore!, "boulderComps", selectedCompId, "categories", catId, routeCollection)
+        )
+        await deleteDocsChunked(routesSnap.docs, (id) =>
+          doc(firestore!, "boulderComps", selectedCompId, "categories", catId, routeCollection, id)
+        )
+      }
       const detailsSnap = await getDocs(
         collection(firestore!, "boulderComps", selectedCompId, "categories", catId, "details")
       )
-      await deleteDocsChunked(routesSnap.docs, (id) =>
-        doc(firestore!, "boulderComps", selectedCompId, "categories", catId, "routes", id)
-      )
       await deleteDocsChunked(detailsSnap.docs, (id) =>
         doc(firestore!, "boulderComps", selectedCompId, "categories", catId, "details", id)
       )
       await deleteDoc(doc(firestore!, "boulderComps", selectedCompId, "categories", catId))
       setCategories((prev) => prev.filter((c) => c.id !== catId))
-      setRoutesByCategory((prev) => ({
-        qualifier: Object.fromEntries(
-          Object.entries(prev.qualifier).filter(([key]) => key !== catId)
-        ),
-        final: Object.fromEntries(Object.entries(prev.final).filter(([key]) => key !== catId)),
-      }))
+      setRoutesByCategory((prev) => {
+        const next = emptyRoutesByRound()
+        BOULDER_ROUND_IDS.forEach((round) => {
+          next[round] = Object.fromEntries(Object.entries(prev[round]).filter(([key]) => key !== catId))
+        })
+        return next
+      })
       if (routeCategoryId === catId) {
         setRouteCategoryId("")
         setRouteRenameInputs({})
       }
       await loadCategories(selectedCompId, {
-        qualifier: qualifierRouteCount,
+        qualification: qualifierRouteCount,
+        semifinal: semifinalRouteCount,
         final: finalRouteCount,
       })
       showToast(`Deleted category ${label}`, "ok")
@@ -804,28 +985,31 @@ function SetupInterface() {
       return
     }
     const name = rawName || toTitle(catId)
+    const rounds = withSemifinal(getCategoryRounds(null), semifinalRouteCount > 0)
     try {
       await setDoc(
         doc(firestore!, `boulderComps/${selectedCompId}/categories/${catId}`),
         {
           name,
           order: categories.length,
+          rounds,
           updatedAt: serverTimestamp(),
         },
         { merge: true }
       )
       setNewCatId("")
       setNewCatName("")
-      if (qualifierRouteCount > 0) {
-        await ensureRoutesForCategory(selectedCompId, catId, qualifierRouteCount, "qualifier")
-      }
-      if (finalRouteCount > 0) {
-        await ensureRoutesForCategory(selectedCompId, catId, finalRouteCount, "final")
-      }
-      await loadCategories(selectedCompId, {
-        qualifier: qualifierRouteCount,
+      const counts = {
+        qualification: qualifierRouteCount,
+        semifinal: semifinalRouteCount,
         final: finalRouteCount,
-      })
+      }
+      await ensureRoutesForRounds(
+        selectedCompId,
+        { id: catId, name, rounds, qualificationRanking: "overall" },
+        counts
+      )
+      await loadCategories(selectedCompId, counts)
       showToast("Category added.", "ok")
     } catch (err) {
       console.error(err)
@@ -833,21 +1017,21 @@ function SetupInterface() {
     }
   }
 
-  const loadRoutesForRename = async (catId: string, phase: RoutePhase = routePhase) => {
+  const loadRoutesForRename = async (catId: string, phase: BoulderRoundId = routePhase) => {
     if (!firestore || !selectedCompId) return
-    const normalizedPhase: RoutePhase = phase === "final" ? "final" : "qualifier"
+    const normalizedPhase = parseBoulderRound(phase)
     setRouteCategoryId(catId)
     setRoutePhase(normalizedPhase)
     if (!catId) {
       setRouteRenameInputs({})
       return
     }
-    const phaseConfig = ROUTE_PHASE_CONFIG[normalizedPhase]
+    const routeCollection = routeCollectionForRound(normalizedPhase)
     try {
       const snap = await getDocs(
         collection(
           firestore,
-          `boulderComps/${selectedCompId}/categories/${catId}/${phaseConfig.collection}`
+          `boulderComps/${selectedCompId}/categories/${catId}/${routeCollection}`
         )
       )
       const routes = snap.docs
@@ -888,11 +1072,11 @@ function SetupInterface() {
     setRouteRenameMsg("Saving…")
     try {
       const batch = writeBatch(firestore!)
-      const phaseConfig = ROUTE_PHASE_CONFIG[routePhase]
+      const routeCollection = routeCollectionForRound(routePhase)
       updates.forEach(({ id, value }) => {
         const routeRef = doc(
           firestore!,
-          `boulderComps/${selectedCompId}/categories/${routeCategoryId}/${phaseConfig.collection}/${id}`
+          `boulderComps/${selectedCompId}/categories/${routeCategoryId}/${routeCollection}/${id}`
         )
         batch.set(
           routeRef,
@@ -977,6 +1161,13 @@ function SetupInterface() {
         </span>
       )
     }
+    if (semifinalRouteCount) {
+      pieces.push(
+        <span key="semiCount" className="text-muted-foreground text-sm">
+          Semifinal routes: {semifinalRouteCount}
+        </span>
+      )
+    }
     if (finalRouteCount) {
       pieces.push(
         <span key="finalCount" className="text-muted-foreground text-sm">
@@ -985,10 +1176,10 @@ function SetupInterface() {
       )
     }
     return pieces
-  }, [selectedComp, categories.length, qualifierRouteCount, finalRouteCount, formatDisplayDate])
+  }, [selectedComp, categories.length, qualifierRouteCount, semifinalRouteCount, finalRouteCount, formatDisplayDate])
 
   const routesForSelected = routesByCategory[routePhase][routeCategoryId] || []
-  const selectedPhaseConfig = ROUTE_PHASE_CONFIG[routePhase]
+  const selectedPhaseConfig = BOULDER_ROUND_DEFS[routePhase]
 
   return (
     <main className="py-6 min-h-screen bg-[#0b1220] text-gray-200">
@@ -1085,7 +1276,7 @@ function SetupInterface() {
                   </label>
                 </div>
 
-                <div className="mt-4 grid gap-4 md:grid-cols-2">
+                <div className="mt-4 grid gap-4 md:grid-cols-3">
                   <label className="flex flex-col gap-2 text-sm text-gray-400">
                     Qualifier Routes
                     <input
@@ -1096,6 +1287,16 @@ function SetupInterface() {
                       onChange={(e) => setCreateQualCount(e.target.value)}
                     />
                   </label>
+                  <label className="flex flex-col gap-2 text-sm text-gray-400">
+                    Semifinal Routes (0 for none)
+                    <input
+                      type="number"
+                      min="0"
+                      className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                      value={createSemiCount}
+                      onChange={(e) => setCreateSemiCount(e.target.value)}
+                    />
+                  </label>
                   <label className="flex flex-col gap-2 text-sm text-gray-400">
                     Final Routes
                     <input
@@ -1202,7 +1403,7 @@ function SetupInterface() {
                   setSelectedCompId(compId)
                   setSelectedComp(null)
                   setCategories([])
-                  setRoutesByCategory({ qualifier: {}, final: {} })
+                  setRoutesByCategory(emptyRoutesByRound())
                   setRouteCategoryId("")
                   setRouteRenameInputs({})
                   if (compId) {
@@ -1261,6 +1462,36 @@ function SetupInterface() {
                 </label>
               </div>
               <div className="grid gap-4 md:grid-cols-2">
+                <label className="flex flex-col gap-2 text-sm">
+                  Scoring Format
+                  <select
+                    className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                    value={editScoringFormat}
+                    onChange={(e) => setEditScoringFormat(e.target.value)}
+                  >
+                    {Object.values(SCORING_FORMATS).map((format) => (
+                      <option key={format.id} value={format.id}>
+                        {format.label}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-xs text-gray-400">
+                    {SCORING_FORMATS[editScoringFormat as keyof typeof SCORING_FORMATS]?.description}
+                  </span>
+                </label>
+                <label className="flex flex-col gap-2 text-sm">
+                  Zones per Boulder
+                  <select
+                    className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                    value={editZoneCount}
+                    onChange={(e) => setEditZoneCount(e.target.value)}
+                  >
+                    <option value="1">One zone</option>
+                    <option value={String(TWO_ZONE_COUNT)}>Two zones (low and high)</option>
+                  </select>
+                </label>
+              </div>
+              <div className="grid gap-4 md:grid-cols-3">
                 <label className="flex flex-col gap-2 text-sm">
                   Qualifier Routes
                   <input
@@ -1271,6 +1502,16 @@ function SetupInterface() {
                     onChange={(e) => setEditQualCount(e.target.value)}
                   />
                 </label>
+                <label className="flex flex-col gap-2 text-sm">
+                  Semifinal Routes (0 for none)
+                  <input
+                    type="number"
+                    min="0"
+                    className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                    value={editSemiCount}
+                    onChange={(e) => setEditSemiCount(e.target.value)}
+                  />
+                </label>
                 <label className="flex flex-col gap-2 text-sm">
                   Final Routes
                   <input
@@ -1314,7 +1555,7 @@ function SetupInterface() {
                     <input
                       type="password"
                       className="w-full rounded-lg border border-border bg-input px-3 py-2 text-sm text-foreground focus:border-ring focus:outline-none"
-                      placeholder="Enter a code judges will type"
+                      placeholder={`At least ${JUDGE_PASSCODE_MIN_LENGTH} characters judges will type`}
                       value={judgePasscodeInput}
                       onChange={(e) => setJudgePasscodeInput(e.target.value)}
                     />
@@ -1331,10 +1572,26 @@ function SetupInterface() {
                 {judgePasscodeMsg && <div className="text-sm text-gray-300">{judgePasscodeMsg}</div>}
                 <p className="text-xs text-gray-500">
                   Share this code with judges for the selected competition. They can reuse the same code, and
-                  their access ends after 6 hours or when you change it here.
+                  their access ends after 6 hours or when you change it here. Repeated wrong codes lock that network
+                  out for 15 minutes; a flood of wrong codes limits every network to one try for 5 minutes, or until
+                  you save a new code.
                 </p>
+                <PasscodeFailures compPath={`boulderComps/${selectedComp.id}`} />
               </div>
 
+              <CompTeamPanel
+                comp={selectedComp}
+                canEdit={canEditCompMembers(selectedComp, user?.id, role)}
+                emailInput={memberEmailInput}
+                roleInput={memberRoleInput}
+                saving={memberSaving}
+                message={memberMsg}
+                onEmailChange={setMemberEmailInput}
+                onRoleChange={setMemberRoleInput}
+                onAdd={handleAddMember}
+                onRemove={handleRemoveMember}
+              />
+
               <hr className="border-[#19bcd6]/30" />
 
               <div className="space-y-3">
@@ -1342,6 +1599,8 @@ function SetupInterface() {
                   <h3 className="text-xl font-semibold">Categories</h3>
                   <p className="text-xs text-gray-500">
                     Use the move buttons to reorder categories. That order flows through start lists and displays.
+                    Quotas set how many athletes advance to the next round. Use the combined group ranking when
+                    qualification groups climb different boulders.
                   </p>
                 </div>
                 <div className="flex flex-col gap-3">
@@ -1404,6 +1663,60 @@ function SetupInterface() {
                             Delete
                           </button>
                         </div>
+                        <div className="flex w-full flex-wrap items-center gap-3 text-xs text-gray-400">
+                          <label className="flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={hasRound(cat, "semifinal")}
+                              onChange={(e) =>
+                                updateCategoryRounds(cat.id, (rounds) => withSemifinal(rounds, e.target.checked))
+                              }
+                            />
+                            Semifinal
+                          </label>
+                          <label className="flex items-center gap-2">
+                            Qualification ranking
+                            <select
+                              className="rounded-lg border border-border bg-input px-2 py-1 text-xs text-foreground focus:border-ring focus:outline-none"
+                              value={cat.qualificationRanking}
+                              onChange={(e) =>
+                                setCategories((prev) =>
+                                  prev.map((c) =>
+                                    c.id === cat.id
+                                      ? { ...c, qualificationRanking: getQualificationRanking({ qualificationRanking: e.target.value }) }
+                                      : c
+                                  )
+                                )
+                              }
+                            >
+                              {QUALIFICATION_RANKINGS.map((ranking) => (
+                                <option key={ranking} value={ranking}>
+                                  {QUALIFICATION_RANKING_LABELS[ranking]}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          {cat.rounds.slice(0, -1).map((round, roundIndex) => (
+                            <label key={round.id} className="flex items-center gap-2">
+                              {BOULDER_ROUND_LABELS[round.id]} → {BOULDER_ROUND_LABELS[cat.rounds[roundIndex + 1].id]}
+                              <input
+                                type="number"
+                                min="1"
+                                placeholder="Quota"
+                                className="w-20 rounded-lg border border-border bg-input px-2 py-1 text-xs text-foreground focus:border-ring focus:outline-none"
+                                value={round.quota ?? ""}
+                                onChange={(e) => setRoundQuota(cat.id, round.id, e.target.value)}
+                              />
+                            </label>
+                          ))}
+                          <button
+                            type="button"
+                            className="rounded-lg border border-border bg-input px-3 py-1.5 text-xs font-medium hover:bg-input/80"
+                            onClick={() => handleSaveCategoryRounds(cat)}
+                          >
+                            Save Rounds &amp; Ranking
+                          </button>
+                        </div>
                       </div>
                     ))
                   )}
@@ -1473,13 +1786,16 @@ function SetupInterface() {
                       className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
                       value={routePhase}
                       onChange={(e) => {
-                        const value = e.target.value === "final" ? "final" : "qualifier"
+                        const value = parseBoulderRound(e.target.value)
                         setRoutePhase(value)
                         if (routeCategoryId) loadRoutesForRename(routeCategoryId, value)
                       }}
                     >
-                      <option value="qualifier">Qualifier</option>
-                      <option value="final">Final</option>
+                      {BOULDER_ROUND_IDS.map((round) => (
+                        <option key={round} value={round}>
+                          {BOULDER_ROUND_LABELS[round]}
+                        </option>
+                      ))}
                     </select>
                   </label>
                 </div>
@@ -1511,7 +1827,7 @@ function SetupInterface() {
                       <tbody className="divide-y divide-border">
                         {routesForSelected.map((route) => {
                           const sequence = route.id.replace(/[^0-9]+/g, "") || route.id
-                          const defaultLabel = `${selectedPhaseConfig.labelPrefix} ${sequence}`.trim()
+                          const defaultLabel = `${selectedPhaseConfig.routeLabelPrefix} ${sequence}`.trim()
                           const display = route.label || defaultLabel
                           return (
                             <tr key={route.id} className="bg-input/20">
@@ -1553,7 +1869,7 @@ function SetupInterface() {
                   {routeRenameMsg && <span className="text-sm text-gray-300">{routeRenameMsg}</span>}
                   {routeCategoryId && !!routesForSelected.length && (
                     <span className="text-xs text-gray-500">
-                      {routesForSelected.length} {selectedPhaseConfig.labelPrefix.toLowerCase()}
+                      {routesForSelected.length} {selectedPhaseConfig.routeLabelPrefix.toLowerCase()}
                       {routesForSelected.length === 1 ? "" : "s"} available.
                     </span>
                   )}
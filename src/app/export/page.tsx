@@ -10,6 +10,12 @@ import { useFirebaseAuth } from "@/hooks/useFirebaseAuth"
 import { useUserRole, isStaffRole } from "@/hooks/useUserRole"
 import { firestore } from "@/lib/firebase/client"
 import { collection, getDocs, query, orderBy as firestoreOrderBy } from "firebase/firestore"
+import {
+  BOULDER_ROUND_IDS,
+  BOULDER_ROUND_LABELS,
+  parseBoulderRound,
+  type BoulderRoundId,
+} from "@/lib/boulder/rounds"
 
 type Discipline = "boulder" | "speed"
 
@@ -66,7 +72,7 @@ function ExportInterface() {
 
   const [selectedComp, setSelectedComp] = useState("")
   const [selectedCategory, setSelectedCategory] = useState("all")
-  const [boulderRound, setBoulderRound] = useState<"qualification" | "final">("qualification")
+  const [boulderRound, setBoulderRound] = useState<BoulderRoundId>("qualification")
   const [speedType, setSpeedType] = useState<SpeedExportType>("qualifiers")
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState("")
@@ -288,11 +294,14 @@ function ExportInterface() {
                     </span>
                     <select
                       value={boulderRound}
-                      onChange={(e) => setBoulderRound(e.target.value as "qualification" | "final")}
+                      onChange={(e) => setBoulderRound(parseBoulderRound(e.target.value))}
                       className="w-full px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
                     >
-                      <option value="qualification">Qualification</option>
-                      <option value="final">Final</option>
+                      {BOULDER_ROUND_IDS.map((id) => (
+                        <option key={id} value={id}>
+                          {BOULDER_ROUND_LABELS[id]}
+                        </option>
+                      ))}
                     </select>
                   </label>
 
@@ -0,0 +1,849 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import Image from "next/image"
+import Link from "next/link"
+import AccessDenied from "@/components/AccessDenied"
+import Container from "@/components/Container"
+import { firestore } from "@/lib/firebase/client"
+import { useJudgePasscodeSession } from "@/hooks/useJudgePasscodeSession"
+import {
+  formatAttemptTime,
+  formatHold,
+  parseAttemptTime,
+  parseHold,
+  type LeadResultDoc,
+} from "@/lib/lead/scoring"
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+  type Firestore,
+} from "firebase/firestore"
+import { Button } from "@/components/ui/button"
+
+type LeadRound = "qualification" | "final"
+
+interface LeadCompetition {
+  id: string
+  name?: string
+  status?: string
+  updatedAt?: unknown
+  archived?: boolean
+  isArchived?: boolean
+  deleted?: boolean
+}
+
+interface LeadCategory {
+  id: string
+  name?: string
+  order?: number
+}
+
+interface LeadRoute {
+  id: string
+  label?: string
+  order?: number
+}
+
+interface LeadAthlete {
+  id: string
+  bib?: string
+  name?: string
+  team?: string
+  order?: number
+}
+
+type JudgeAuthState = ReturnType<typeof useJudgePasscodeSession>
+
+export default function LeadJudgePage() {
+  const authState = useJudgePasscodeSession()
+  if (!firestore) {
+    return <AccessDenied feature="Lead Judge" message="Firebase not available. Check NEXT_PUBLIC_FIREBASE_* configuration." />
+  }
+  return <JudgeInterface authState={authState} firestore={firestore} />
+}
+
+function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; firestore: Firestore }) {
+  const {
+    session,
+    loading: authLoading,
+    signingIn,
+    error: authError,
+    signInWithPasscode,
+    signOutJudge,
+    invalidateSession,
+    clearError,
+  } = authState
+
+  const [competitions, setCompetitions] = useState<LeadCompetition[]>([])
+  const [competitionsLoading, setCompetitionsLoading] = useState(true)
+  const [selectedComp, setSelectedComp] = useState("")
+  const [passcodeInput, setPasscodeInput] = useState("")
+  const [authNotice, setAuthNotice] = useState("")
+
+  const [categories, setCategories] = useState<LeadCategory[]>([])
+  const [categoriesLoading, setCategoriesLoading] = useState(false)
+  const [selectedCategory, setSelectedCategory] = useState("")
+  const [round, setRound] = useState<LeadRound>("qualification")
+
+  const [routes, setRoutes] = useState<LeadRoute[]>([])
+  const [selectedRoute, setSelectedRoute] = useState("")
+  const [athletes, setAthletes] = useState<LeadAthlete[]>([])
+  const [athletesLoading, setAthletesLoading] = useState(false)
+  const [results, setResults] = useState<Map<string, LeadResultDoc>>(new Map())
+
+  const [selectedAthlete, setSelectedAthlete] = useState("")
+  const [holdInput, setHoldInput] = useState("")
+  const [timeInput, setTimeInput] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [notice, setNotice] = useState("")
+
+  const [stopwatchStartedAt, setStopwatchStartedAt] = useState<number | null>(null)
+  const [stopwatchNow, setStopwatchNow] = useState(0)
+  const stopwatchRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  const compLocked = session?.authType === "judge-passcode" && Boolean(session.compId)
+
+  // Load competitions
+  useEffect(() => {
+    let cancelled = false
+    async function loadCompetitions() {
+      setCompetitionsLoading(true)
+      try {
+        const snap = await getDocs(collection(firestore, "leadComps"))
+        if (cancelled) return
+        const comps: LeadCompetition[] = snap.docs
+          .map((docSnap) => ({ id: docSnap.id, ...(docSnap.data() || {}) } as LeadCompetition))
+          .filter((comp) => {
+            const status = (comp.status || "").toLowerCase()
+            if (status === "archived" || status === "deleted") return false
+            if (comp.archived === true || comp.deleted === true || comp.isArchived === true) return false
+            return true
+          })
+        comps.sort((a, b) => timestampValue(b.updatedAt) - timestampValue(a.updatedAt))
+        setCompetitions(comps)
+        setSelectedComp((current) => current || comps[0]?.id || "")
+      } catch (error) {
+        console.error(error)
+        setCompetitions([])
+      } finally {
+        if (!cancelled) setCompetitionsLoading(false)
+      }
+    }
+    loadCompetitions()
+    return () => {
+      cancelled = true
+    }
+  }, [firestore])
+
+  // Passcode sessions are locked to the competition they were issued for
+  useEffect(() => {
+    if (compLocked && session?.compId && session.compId !== selectedComp) {
+      setSelectedComp(session.compId)
+    }
+  }, [compLocked, session?.compId, selectedComp])
+
+  // Load categories
+  useEffect(() => {
+    if (!selectedComp) {
+      setCategories([])
+      setSelectedCategory("")
+      return
+    }
+    let cancelled = false
+    async function loadCategories() {
+      setCategoriesLoading(true)
+      try {
+        const snap = await getDocs(collection(firestore, `leadComps/${selectedComp}/categories`))
+        if (cancelled) return
+        const cats: LeadCategory[] = snap.docs.map((d) => ({ id: d.id, ...(d.data() || {}) }))
+        cats.sort((a, b) => {
+          const orderA = typeof a.order === "number" ? a.order : Number.POSITIVE_INFINITY
+          const orderB = typeof b.order === "number" ? b.order : Number.POSITIVE_INFINITY
+          if (orderA !== orderB) return orderA - orderB
+          return (a.name || a.id || "").localeCompare(b.name || b.id || "")
+        })
+        setCategories(cats)
+        setSelectedCategory((current) =>
+          current && cats.some((c) => c.id === current) ? current : cats[0]?.id || ""
+        )
+      } catch (error) {
+        console.error(error)
+        if (!cancelled) {
+          setCategories([])
+          setSelectedCategory("")
+        }
+      } finally {
+        if (!cancelled) setCategoriesLoading(false)
+      }
+    }
+    loadCategories()
+    return () => {
+      cancelled = true
+    }
+  }, [selectedComp, firestore])
+
+  // Load routes + athletes for the selected round
+  useEffect(() => {
+    if (!selectedComp || !selectedCategory) {
+      setRoutes([])
+      setSelectedRoute("")
+      setAthletes([])
+      return
+    }
+    let cancelled = false
+    async function load() {
+      setAthletesLoading(true)
+      try {
+        const routeCollection = round === "final" ? "finalRoutes" : "routes"
+        const [routeSnap, athleteSnap, startlistSnap] = await Promise.all([
+          getDocs(collection(firestore, `leadComps/${selectedComp}/categories/${selectedCategory}/${routeCollection}`)),
+          getDocs(
+            query(
+              collection(firestore, `leadComps/${selectedComp}/athletes`),
+              where("categoryId", "==", selectedCategory)
+            )
+          ),
+          round === "final"
+            ? getDoc(doc(firestore, `leadComps/${selectedComp}/categories/${selectedCategory}/finals/startlist`))
+            : Promise.resolve(null),
+        ])
+        if (cancelled) return
+
+        const routeList: LeadRoute[] = routeSnap.docs.map((d) => ({ id: d.id, ...(d.data() || {}) }))
+        routeList.sort((a, b) => {
+          const orderA = typeof a.order === "number" ? a.order : Number.POSITIVE_INFINITY
+          const orderB = typeof b.order === "number" ? b.order : Number.POSITIVE_INFINITY
+          if (orderA !== orderB) return orderA - orderB
+          return (a.label || a.id).localeCompare(b.label || b.id, undefined, { numeric: true })
+        })
+        setRoutes(routeList)
+        setSelectedRoute((current) =>
+          current && routeList.some((r) => r.id === current) ? current : routeList[0]?.id || ""
+        )
+
+        const athleteList: LeadAthlete[] = athleteSnap.docs.map((d) => {
+          const data = d.data() || {}
+          return {
+            id: d.id,
+            bib: data.bib != null ? String(data.bib) : undefined,
+            name: data.name,
+            team: data.team,
+            order: typeof data.order === "number" ? data.order : undefined,
+          }
+        })
+
+        if (round === "final" && startlistSnap?.exists()) {
+          // Finalists climb in reverse qualification order
+          const entries = (startlistSnap.data()?.entries || []) as { athleteId: string; qualifierRank: number }[]
+          const byId = new Map(athleteList.map((a) => [a.id, a]))
+          const ordered = [...entries]
+            .sort((a, b) => b.qualifierRank - a.qualifierRank)
+            .map((entry) => byId.get(entry.athleteId))
+            .filter((a): a is LeadAthlete => Boolean(a))
+          setAthletes(ordered)
+        } else {
+          setAthletes(sortByStartOrder(athleteList))
+        }
+      } catch (error) {
+        console.error(error)
+        if (!cancelled) {
+          setRoutes([])
+          setAthletes([])
+        }
+      } finally {
+        if (!cancelled) setAthletesLoading(false)
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [selectedComp, selectedCategory, round, firestore])
+
+  // Live results for the selected route
+  useEffect(() => {
+    if (!selectedComp || !selectedCategory || !selectedRoute) {
+      setResults(new Map())
+      return
+    }
+    const resultsQuery = query(
+      collection(firestore, `leadComps/${selectedComp}/results`),
+      where("categoryId", "==", selectedCategory),
+      where("round", "==", round),
+      where("routeId", "==", selectedRoute)
+    )
+    const unsubscribe = onSnapshot(
+      resultsQuery,
+      (snap) => {
+        const map = new Map<string, LeadResultDoc>()
+        snap.docs.forEach((d) => {
+          const data = d.data() as LeadResultDoc
+          if (data.athleteId) map.set(data.athleteId, data)
+        })
+        setResults(map)
+      },
+      (error) => console.error("[Lead Judge] results listener failed", error)
+    )
+    return () => unsubscribe()
+  }, [selectedComp, selectedCategory, selectedRoute, round, firestore])
+
+  // Prefill the form with any existing result when the athlete or route changes
+  useEffect(() => {
+    const existing = selectedAthlete ? results.get(selectedAthlete) : undefined
+    setHoldInput(existing?.hold || "")
+    setTimeInput(existing?.timeMs != null ? formatAttemptTime(existing.timeMs) : "")
+    // Only reset when the selection changes, not on every results update
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedAthlete, selectedRoute, round])
+
+  useEffect(() => {
+    return () => {
+      if (stopwatchRef.current) clearInterval(stopwatchRef.current)
+    }
+  }, [])
+
+  const athleteLabel = useMemo(() => {
+    const map = new Map<string, LeadAthlete>()
+    athletes.forEach((a) => map.set(a.id, a))
+    return (aid?: string | null) => {
+      if (!aid) return "—"
+      const ath = map.get(aid)
+      if (!ath) return aid
+      return `${ath.bib ? `#${ath.bib} ` : ""}${ath.name || aid}`
+    }
+  }, [athletes])
+
+  const parsedHold = parseHold(holdInput)
+
+  const adjustHold = (delta: number) => {
+    const current = parseHold(holdInput)
+    if (current?.top) return
+    const next = Math.max(0, (current?.holds ?? 0) + delta)
+    setHoldInput(formatHold({ holds: next, plus: false, top: false }))
+  }
+
+  const togglePlus = () => {
+    const current = parseHold(holdInput)
+    if (!current || current.top) return
+    setHoldInput(formatHold({ ...current, plus: !current.plus }))
+  }
+
+  const handleStartStopwatch = () => {
+    if (stopwatchRef.current) clearInterval(stopwatchRef.current)
+    const startedAt = Date.now()
+    setStopwatchStartedAt(startedAt)
+    setStopwatchNow(startedAt)
+    stopwatchRef.current = setInterval(() => setStopwatchNow(Date.now()), 100)
+  }
+
+  const handleStopStopwatch = () => {
+    if (stopwatchRef.current) {
+      clearInterval(stopwatchRef.current)
+      stopwatchRef.current = null
+    }
+    if (stopwatchStartedAt != null) {
+      setTimeInput(formatAttemptTime(Date.now() - stopwatchStartedAt))
+    }
+    setStopwatchStartedAt(null)
+  }
+
+  const handleNextAthlete = () => {
+    const idx = athletes.findIndex((a) => a.id === selectedAthlete)
+    const next = athletes[idx + 1]
+    if (next) setSelectedAthlete(next.id)
+  }
+
+  const handleSaveResult = async () => {
+    if (!session) {
+      setNotice("Sign in with the judge code first.")
+      return
+    }
+    if (!selectedComp || !selectedCategory || !selectedRoute || !selectedAthlete) {
+      setNotice("Select a category, route and athlete first.")
+      return
+    }
+    if (!parsedHold) {
+      setNotice("Enter a hold number (e.g. 24 or 24+) or TOP.")
+      return
+    }
+    const timeMs = parseAttemptTime(timeInput)
+    if (timeInput.trim() && timeMs == null) {
+      setNotice("Attempt time must be seconds or m:ss.")
+      return
+    }
+
+    setSaving(true)
+    try {
+      const resultId = `${round}_${selectedRoute}_${selectedAthlete}`
+      await setDoc(
+        doc(firestore, `leadComps/${selectedComp}/results/${resultId}`),
+        {
+          compId: selectedComp,
+          categoryId: selectedCategory,
+          athleteId: selectedAthlete,
+          routeId: selectedRoute,
+          round,
+          hold: formatHold(parsedHold),
+          timeMs,
+          enteredBy: session.uid,
+          updatedAt: serverTimestamp(),
+          updatedAtMs: Date.now(),
+        },
+        { merge: true }
+      )
+      setNotice(`Saved ${formatHold(parsedHold)} for ${athleteLabel(selectedAthlete)}`)
+    } catch (error) {
+      console.error("[Lead Judge] save failed", error)
+      setNotice("Save failed")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const onSignIn = async () => {
+    if (!selectedComp) {
+      setAuthNotice("Select a competition first")
+      return
+    }
+    await signInWithPasscode(selectedComp, passcodeInput, "lead").catch(() => {
+      setAuthNotice("Invalid code")
+    })
+  }
+
+  if (authLoading) {
+    return (
+      <main className="flex min-h-screen items-center justify-center text-muted-foreground">
+        Loading…
+      </main>
+    )
+  }
+
+  if (authError && !session) {
+    return (
+      <main className="py-12 text-foreground bg-background">
+        <Container className="space-y-6">
+          <header className="space-y-2">
+            <Image
+              src="/logo_header.png"
+              alt="GripRank"
+              width={4001}
+              height={1228}
+              priority
+              className="h-11 w-auto"
+            />
+            <p className="text-muted-foreground">{authError}</p>
+          </header>
+          <PasscodeCard
+            competitions={competitions}
+            loading={competitionsLoading}
+            selectedComp={selectedComp}
+            setSelectedComp={setSelectedComp}
+            passcodeInput={passcodeInput}
+            setPasscodeInput={setPasscodeInput}
+            signingIn={signingIn}
+            onSignIn={onSignIn}
+            notice={authNotice}
+            clearNotice={() => setAuthNotice("")}
+          />
+        </Container>
+      </main>
+    )
+  }
+
+  const stopwatchRunning = stopwatchStartedAt != null
+
+  return (
+    <main className="py-10 text-foreground bg-background">
+      <Container className="space-y-6">
+        <header className="flex flex-wrap items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Image
+              src="/logo_header.png"
+              alt="GripRank"
+              width={4001}
+              height={1228}
+              priority
+              className="h-11 w-auto"
+            />
+            <p className="text-sm text-muted-foreground">
+              Lead Judge Pad — record the highest hold reached and attempt time.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            {session ? (
+              <span className="text-xs text-muted-foreground">
+                Signed in as judge {session.compId ? `for ${session.compId}` : ""}
+              </span>
+            ) : null}
+            <Button variant="secondary" onClick={() => signOutJudge().catch(() => null)}>
+              Sign out
+            </Button>
+          </div>
+        </header>
+
+        <section className="rounded-2xl border border-border bg-panel p-6 space-y-4">
+          <div className="grid gap-4 md:grid-cols-4">
+            <FilterField label="Competition" helpText={compLocked ? "Locked to passcode competition" : undefined}>
+              <select
+                className="mt-2 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+                value={selectedComp}
+                onChange={(event) => {
+                  setSelectedComp(event.target.value)
+                  clearError()
+                  setAuthNotice("")
+                }}
+                disabled={competitionsLoading || compLocked}
+              >
+                <option value="">Select competition</option>
+                {competitions.map((comp) => (
+                  <option key={comp.id} value={comp.id}>
+                    {comp.name || comp.id}
+                  </option>
+                ))}
+              </select>
+            </FilterField>
+
+            <FilterField label="Category">
+              <select
+                className="mt-2 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+                value={selectedCategory}
+                onChange={(event) => {
+                  setSelectedCategory(event.target.value)
+                  setSelectedAthlete("")
+                }}
+                disabled={!selectedComp || categoriesLoading || !categories.length}
+              >
+                <option value="">Select category</option>
+                {categories.map((cat) => (
+                  <option key={cat.id} value={cat.id}>
+                    {cat.name || cat.id}
+                  </option>
+                ))}
+              </select>
+            </FilterField>
+
+            <FilterField label="Round">
+              <select
+                className="mt-2 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+                value={round}
+                onChange={(event) => {
+                  setRound(event.target.value as LeadRound)
+                  setSelectedAthlete("")
+                }}
+              >
+                <option value="qualification">Qualification</option>
+                <option value="final">Final</option>
+              </select>
+            </FilterField>
+
+            <FilterField label="Route">
+              <select
+                className="mt-2 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+                value={selectedRoute}
+                onChange={(event) => setSelectedRoute(event.target.value)}
+                disabled={!routes.length}
+              >
+                <option value="">Select route</option>
+                {routes.map((route) => (
+                  <option key={route.id} value={route.id}>
+                    {route.label || route.id}
+                  </option>
+                ))}
+              </select>
+            </FilterField>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              asChild
+              variant="secondary"
+              className="bg-card text-foreground hover:bg-card/80"
+              disabled={!selectedComp || !selectedCategory}
+            >
+              <Link
+                href={`/lead/leaderboard?comp=${encodeURIComponent(selectedComp || "")}${
+                  selectedCategory ? `&cat=${encodeURIComponent(selectedCategory)}` : ""
+                }&round=${round}`}
+              >
+                View Leaderboard
+              </Link>
+            </Button>
+            <Button
+              variant="secondary"
+              className="bg-card text-foreground hover:bg-card/80"
+              disabled={!selectedComp}
+              onClick={() => {
+                setPasscodeInput("")
+                invalidateSession("Session reset. Re-enter passcode to switch comp.")
+              }}
+            >
+              Switch Code
+            </Button>
+          </div>
+
+          {!session ? (
+            <PasscodeCard
+              competitions={competitions}
+              loading={competitionsLoading}
+              selectedComp={selectedComp}
+              setSelectedComp={setSelectedComp}
+              passcodeInput={passcodeInput}
+              setPasscodeInput={setPasscodeInput}
+              signingIn={signingIn}
+              onSignIn={onSignIn}
+              notice={authNotice}
+              clearNotice={() => setAuthNotice("")}
+            />
+          ) : null}
+        </section>
+
+        <section className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+          <div className="rounded-2xl border border-border bg-panel p-6 space-y-3">
+            <div className="space-y-1">
+              <p className="text-sm font-semibold text-foreground">Start Order</p>
+              <p className="text-xs text-muted-foreground">
+                {round === "final"
+                  ? "Finalists climb in reverse qualification order."
+                  : "Athletes climb in start order, then bib."}
+              </p>
+            </div>
+            {!selectedComp || !selectedCategory ? (
+              <div className="text-sm text-muted-foreground">Select competition and category to begin.</div>
+            ) : athletesLoading ? (
+              <div className="text-sm text-muted-foreground">Loading athletes…</div>
+            ) : !athletes.length ? (
+              <div className="text-sm text-muted-foreground">No athletes found for this round.</div>
+            ) : (
+              <ul className="divide-y divide-border rounded-xl border border-border">
+                {athletes.map((athlete, idx) => {
+                  const result = results.get(athlete.id)
+                  const active = athlete.id === selectedAthlete
+                  return (
+                    <li key={athlete.id}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedAthlete(athlete.id)}
+                        className={`flex w-full items-center justify-between gap-3 px-4 py-3 text-left text-sm transition-colors ${
+                          active ? "bg-primary/15" : "hover:bg-card/60"
+                        }`}
+                      >
+                        <span className="flex items-center gap-3">
+                          <span className="w-6 text-xs text-muted-foreground">{idx + 1}</span>
+                          <span>
+                            <span className="font-semibold text-foreground">{athleteLabel(athlete.id)}</span>
+                            {athlete.team ? (
+                              <span className="block text-xs text-muted-foreground">{athlete.team}</span>
+                            ) : null}
+                          </span>
+                        </span>
+                        <span className="text-sm font-semibold text-foreground">
+                          {result?.hold || <span className="text-muted-foreground">—</span>}
+                        </span>
+                      </button>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+
+          <div className="rounded-2xl border border-border bg-panel p-6 space-y-4">
+            <div className="space-y-1">
+              <p className="text-sm font-semibold text-foreground">Record Result</p>
+              <p className="text-xs text-muted-foreground">
+                {selectedAthlete ? athleteLabel(selectedAthlete) : "Select an athlete from the start order."}
+              </p>
+            </div>
+
+            <FilterField label="Highest hold" helpText='Use "+" when the athlete made a controlled move past the hold.'>
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <Button type="button" variant="secondary" onClick={() => adjustHold(-1)} disabled={!selectedAthlete}>
+                  −1
+                </Button>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  className="w-28 rounded-xl border border-border bg-input px-4 py-3 text-center text-lg font-semibold text-foreground focus:border-ring focus:outline-none"
+                  placeholder="24+"
+                  value={holdInput}
+                  onChange={(event) => setHoldInput(event.target.value.toUpperCase())}
+                  disabled={!selectedAthlete}
+                />
+                <Button type="button" variant="secondary" onClick={() => adjustHold(1)} disabled={!selectedAthlete}>
+                  +1
+                </Button>
+                <Button type="button" variant="secondary" onClick={togglePlus} disabled={!parsedHold || parsedHold.top}>
+                  {parsedHold?.plus ? "Remove +" : "Add +"}
+                </Button>
+                <Button type="button" variant="secondary" onClick={() => setHoldInput("TOP")} disabled={!selectedAthlete}>
+                  TOP
+                </Button>
+              </div>
+            </FilterField>
+
+            <FilterField label="Attempt time" helpText="Seconds or m:ss. Used after countback to split ties.">
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className="w-32 rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+                  placeholder="0:00.0"
+                  value={stopwatchRunning ? formatAttemptTime(stopwatchNow - stopwatchStartedAt) : timeInput}
+                  onChange={(event) => setTimeInput(event.target.value)}
+                  disabled={!selectedAthlete || stopwatchRunning}
+                />
+                {stopwatchRunning ? (
+                  <Button type="button" variant="secondary" onClick={handleStopStopwatch}>
+                    Stop
+                  </Button>
+                ) : (
+                  <Button type="button" variant="secondary" onClick={handleStartStopwatch} disabled={!selectedAthlete}>
+                    Start clock
+                  </Button>
+                )}
+              </div>
+            </FilterField>
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={handleSaveResult}
+                disabled={saving || !session || !selectedAthlete || !parsedHold || stopwatchRunning}
+              >
+                {saving ? "Saving…" : "Save result"}
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={handleNextAthlete}
+                disabled={!selectedAthlete || athletes[athletes.length - 1]?.id === selectedAthlete}
+              >
+                Next athlete
+              </Button>
+            </div>
+            {notice ? <p className="text-xs text-muted-foreground">{notice}</p> : null}
+          </div>
+        </section>
+      </Container>
+    </main>
+  )
+}
+
+function PasscodeCard({
+  competitions,
+  loading,
+  selectedComp,
+  setSelectedComp,
+  passcodeInput,
+  setPasscodeInput,
+  signingIn,
+  onSignIn,
+  notice,
+  clearNotice,
+}: {
+  competitions: LeadCompetition[]
+  loading: boolean
+  selectedComp: string
+  setSelectedComp: (value: string) => void
+  passcodeInput: string
+  setPasscodeInput: (value: string) => void
+  signingIn: boolean
+  onSignIn: () => Promise<void>
+  notice: string
+  clearNotice: () => void
+}) {
+  return (
+    <div className="rounded-xl border border-border bg-card p-4 space-y-3">
+      <p className="text-sm font-semibold text-foreground">Judge Passcode</p>
+      <p className="text-xs text-muted-foreground">Enter the judge code for this Lead competition.</p>
+      <div className="grid gap-3 md:grid-cols-3">
+        <select
+          className="w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+          value={selectedComp}
+          onChange={(e) => setSelectedComp(e.target.value)}
+          disabled={loading}
+        >
+          <option value="">Select competition</option>
+          {competitions.map((comp) => (
+            <option key={comp.id} value={comp.id}>
+              {comp.name || comp.id}
+            </option>
+          ))}
+        </select>
+        <input
+          type="password"
+          className="w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+          placeholder="Judge code"
+          value={passcodeInput}
+          onChange={(e) => setPasscodeInput(e.target.value)}
+        />
+        <Button onClick={onSignIn} disabled={signingIn || !selectedComp}>
+          {signingIn ? "Signing in…" : "Sign in"}
+        </Button>
+      </div>
+      {notice ? <p className="text-xs text-muted-foreground">{notice}</p> : null}
+      <button type="button" className="text-xs text-muted-foreground underline" onClick={clearNotice}>
+        Clear
+      </button>
+    </div>
+  )
+}
+
+function FilterField({
+  label,
+  children,
+  helpText,
+}: {
+  label: string
+  children: React.ReactNode
+  helpText?: string
+}) {
+  return (
+    <label className="block text-sm font-medium text-muted-foreground">
+      {label}
+      {children}
+      {helpText ? (
+        <span className="mt-2 block text-xs text-muted-foreground">{helpText}</span>
+      ) : null}
+    </label>
+  )
+}
+
+function sortByStartOrder(list: LeadAthlete[]) {
+  return [...list].sort((a, b) => {
+    const orderA = typeof a.order === "number" ? a.order : Number.POSITIVE_INFINITY
+    const orderB = typeof b.order === "number" ? b.order : Number.POSITIVE_INFINITY
+    if (orderA !== orderB) return orderA - orderB
+    const bibA = a.bib || ""
+    const bibB = b.bib || ""
+    if (bibA && bibB) return bibA.localeCompare(bibB, undefined, { numeric: true, sensitivity: "base" })
+    if (bibA) return -1
+    if (bibB) return 1
+    return (a.name || "").localeCompare(b.name || "")
+  })
+}
+
+function timestampValue(input: unknown): number {
+  if (!input) return 0
+  if (typeof input === "number") return input
+  if (input instanceof Date) return input.getTime()
+  if (typeof (input as { toMillis?: () => number }).toMillis === "function") {
+    const millis = (input as { toMillis: () => number }).toMillis()
+    return Number.isFinite(millis) ? millis : 0
+  }
+  if (
+    typeof (input as { seconds?: number }).seconds === "number" &&
+    typeof (input as { nanoseconds?: number }).nanoseconds === "number"
+  ) {
+    const ts = input as { seconds: number; nanoseconds: number }
+    return ts.seconds * 1000 + ts.nanoseconds / 1e6
+  }
+  return 0
+}
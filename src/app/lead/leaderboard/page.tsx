@@ -0,0 +1,562 @@
+'use client'
+
+import { Suspense, useEffect, useMemo, useRef, useState } from "react"
+import type { ReactNode } from "react"
+import { useSearchParams } from "next/navigation"
+import Image from "next/image"
+import Link from "next/link"
+import Container from "@/components/Container"
+import { firestore } from "@/lib/firebase/client"
+import {
+  buildLeadRows,
+  formatAttemptTime,
+  type LeadAthleteInfo,
+  type LeadLeaderboardRow,
+  type LeadResultDoc,
+  type LeadRouteMeta,
+} from "@/lib/lead/scoring"
+import {
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  where,
+  type Firestore,
+  type Unsubscribe,
+} from "firebase/firestore"
+
+type LeadRound = "qualification" | "final"
+
+interface LeadCompetition {
+  id: string
+  name?: string
+  status?: string
+  updatedAt?: unknown
+  archived?: boolean
+  isArchived?: boolean
+  deleted?: boolean
+}
+
+interface LeadCategory {
+  id: string
+  name?: string
+  order?: number
+  updatedAt?: unknown
+}
+
+export default function LeadLeaderboardPage() {
+  if (!firestore) {
+    return <LeaderboardUnavailable />
+  }
+  return (
+    <Suspense fallback={<LeaderboardFallback />}>
+      <LeaderboardContent firestore={firestore} />
+    </Suspense>
+  )
+}
+
+function LeaderboardContent({ firestore }: { firestore: Firestore }) {
+  const searchParams = useSearchParams()
+  const initialSelectionsRef = useRef({
+    compId: searchParams?.get("comp") || null,
+    categoryId: searchParams?.get("cat") || null,
+    usedComp: false,
+    usedCategory: false,
+  })
+
+  const [competitions, setCompetitions] = useState<LeadCompetition[]>([])
+  const [competitionsLoading, setCompetitionsLoading] = useState(true)
+  const [selectedComp, setSelectedComp] = useState("")
+
+  const [categories, setCategories] = useState<LeadCategory[]>([])
+  const [categoriesLoading, setCategoriesLoading] = useState(false)
+  const [selectedCategory, setSelectedCategory] = useState("")
+  const [round, setRound] = useState<LeadRound>(
+    searchParams?.get("round") === "final" ? "final" : "qualification"
+  )
+
+  const [routes, setRoutes] = useState<LeadRouteMeta[]>([])
+  const [athletesById, setAthletesById] = useState<Map<string, LeadAthleteInfo>>(new Map())
+  const [previousRanks, setPreviousRanks] = useState<Map<string, number>>(new Map())
+  const [resultDocs, setResultDocs] = useState<LeadResultDoc[]>([])
+  const [loading, setLoading] = useState(false)
+  const renderTokenRef = useRef(0)
+
+  useEffect(() => {
+    const db = firestore
+    let cancelled = false
+    async function loadCompetitions() {
+      setCompetitionsLoading(true)
+      try {
+        const snap = await getDocs(collection(db, "leadComps"))
+        if (cancelled) return
+        const comps: LeadCompetition[] = snap.docs
+          .map((docSnap) => {
+            const data = (docSnap.data() || {}) as Partial<LeadCompetition>
+            return { id: docSnap.id, ...data }
+          })
+          .filter((comp) => {
+            const status = (comp.status || "").toLowerCase()
+            if (status === "archived" || status === "deleted") return false
+            if (comp.archived === true || comp.deleted === true || comp.isArchived === true) return false
+            return true
+          })
+        comps.sort((a, b) => timestampValue(b.updatedAt) - timestampValue(a.updatedAt))
+        setCompetitions(comps)
+      } catch (error) {
+        console.error(error)
+        setCompetitions([])
+      } finally {
+        if (!cancelled) setCompetitionsLoading(false)
+      }
+    }
+    loadCompetitions()
+    return () => {
+      cancelled = true
+    }
+  }, [firestore])
+
+  useEffect(() => {
+    if (!competitions.length) {
+      setSelectedComp("")
+      return
+    }
+    setSelectedComp((current) => {
+      if (current && competitions.some((c) => c.id === current)) {
+        return current
+      }
+      const { compId, usedComp } = initialSelectionsRef.current
+      if (!usedComp && compId && competitions.some((c) => c.id === compId)) {
+        initialSelectionsRef.current.usedComp = true
+        return compId
+      }
+      return competitions[0]?.id || ""
+    })
+  }, [competitions])
+
+  useEffect(() => {
+    if (!selectedComp) {
+      setCategories([])
+      setSelectedCategory("")
+      return
+    }
+    const db = firestore
+    let cancelled = false
+    async function loadCategories() {
+      setCategoriesLoading(true)
+      try {
+        const snap = await getDocs(collection(db, `leadComps/${selectedComp}/categories`))
+        if (cancelled) return
+        const cats: LeadCategory[] = snap.docs.map((docSnap) => {
+          const data = (docSnap.data() || {}) as Partial<LeadCategory>
+          return { id: docSnap.id, ...data }
+        })
+        cats.sort((a, b) => {
+          const orderA = typeof a.order === "number" ? a.order : Number.POSITIVE_INFINITY
+          const orderB = typeof b.order === "number" ? b.order : Number.POSITIVE_INFINITY
+          if (orderA !== orderB) return orderA - orderB
+          return (a.name || a.id || "").localeCompare(b.name || b.id || "")
+        })
+        setCategories(cats)
+        setSelectedCategory((current) => {
+          if (current && cats.some((c) => c.id === current)) {
+            return current
+          }
+          const { categoryId, usedCategory } = initialSelectionsRef.current
+          if (!usedCategory && categoryId && cats.some((c) => c.id === categoryId)) {
+            initialSelectionsRef.current.usedCategory = true
+            return categoryId
+          }
+          return cats[0]?.id || ""
+        })
+      } catch (error) {
+        console.error(error)
+        if (!cancelled) {
+          setCategories([])
+          setSelectedCategory("")
+        }
+      } finally {
+        if (!cancelled) setCategoriesLoading(false)
+      }
+    }
+    loadCategories()
+    return () => {
+      cancelled = true
+    }
+  }, [selectedComp, firestore])
+
+  useEffect(() => {
+    const db = firestore
+    const token = ++renderTokenRef.current
+
+    if (!selectedComp || !selectedCategory) {
+      setRoutes([])
+      setAthletesById(new Map())
+      setPreviousRanks(new Map())
+      setResultDocs([])
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    const routeCollection = round === "final" ? "finalRoutes" : "routes"
+    const unsubscribers: Unsubscribe[] = []
+
+    unsubscribers.push(
+      onSnapshot(
+        collection(db, `leadComps/${selectedComp}/categories/${selectedCategory}/${routeCollection}`),
+        (snap) => {
+          if (token !== renderTokenRef.current) return
+          setRoutes(
+            snap.docs.map((docSnap) => {
+              const data = docSnap.data() || {}
+              return {
+                routeId: docSnap.id,
+                label: data.label || docSnap.id,
+                order: typeof data.order === "number" ? data.order : undefined,
+              }
+            })
+          )
+        }
+      )
+    )
+
+    unsubscribers.push(
+      onSnapshot(
+        query(collection(db, `leadComps/${selectedComp}/athletes`), where("categoryId", "==", selectedCategory)),
+        (snap) => {
+          if (token !== renderTokenRef.current) return
+          const map = new Map<string, LeadAthleteInfo>()
+          snap.docs.forEach((docSnap) => {
+            const data = docSnap.data() || {}
+            map.set(docSnap.id, {
+              bib: data.bib != null ? String(data.bib) : undefined,
+              name: data.name,
+              team: data.team,
+            })
+          })
+          setAthletesById(map)
+        }
+      )
+    )
+
+    if (round === "final") {
+      // Countback uses the qualification ranks frozen into the finals startlist
+      unsubscribers.push(
+        onSnapshot(
+          doc(db, `leadComps/${selectedComp}/categories/${selectedCategory}/finals/startlist`),
+          (snap) => {
+            if (token !== renderTokenRef.current) return
+            const map = new Map<string, number>()
+            const entries = (snap.data()?.entries || []) as { athleteId: string; qualifierRank: number }[]
+            entries.forEach((entry) => map.set(entry.athleteId, entry.qualifierRank))
+            setPreviousRanks(map)
+          }
+        )
+      )
+    } else {
+      setPreviousRanks(new Map())
+    }
+
+    unsubscribers.push(
+      onSnapshot(
+        query(
+          collection(db, `leadComps/${selectedComp}/results`),
+          where("categoryId", "==", selectedCategory),
+          where("round", "==", round)
+        ),
+        (snap) => {
+          if (token !== renderTokenRef.current) return
+          setResultDocs(snap.docs.map((docSnap) => docSnap.data() as LeadResultDoc))
+          setLoading(false)
+        },
+        (error) => {
+          console.error(error)
+          setLoading(false)
+        }
+      )
+    )
+
+    return () => {
+      renderTokenRef.current += 1
+      unsubscribers.forEach((fn) => fn())
+    }
+  }, [selectedComp, selectedCategory, round, firestore])
+
+  const rows = useMemo(
+    () => buildLeadRows({ resultDocs, athletesById, routes, previousRanks }),
+    [resultDocs, athletesById, routes, previousRanks]
+  )
+
+  const orderedRoutes = rows[0]?.routes ?? []
+  const hasSelection = Boolean(selectedComp && selectedCategory)
+
+  return (
+    <main className="py-12 text-foreground bg-background">
+      <Container className="space-y-8 mb-8">
+        <header className="space-y-4">
+          <Link href="/" className="inline-block">
+            <Image
+              src="/logo_header.png"
+              alt="GripRank"
+              width={4001}
+              height={1228}
+              priority
+              className="h-11 w-auto"
+            />
+          </Link>
+          <div className="space-y-2">
+            <p className="text-sm uppercase tracking-wide text-primary">Lead Results</p>
+            <p className="text-base text-muted-foreground">
+              Choose a competition, category and round to view live Lead standings.
+            </p>
+          </div>
+        </header>
+
+        <section className="rounded-2xl border border-border bg-panel p-6">
+          <div className="grid gap-4 md:grid-cols-3">
+            <FilterField
+              label="Competition"
+              helpText={
+                competitionsLoading
+                  ? "Loading competitions…"
+                  : !competitions.length
+                  ? "No competitions available"
+                  : undefined
+              }
+            >
+              <select
+                className="mt-2 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+                value={selectedComp}
+                onChange={(event) => setSelectedComp(event.target.value)}
+                disabled={competitionsLoading || !competitions.length}
+              >
+                <option value="">Select competition</option>
+                {competitions.map((comp) => (
+                  <option key={comp.id} value={comp.id}>
+                    {comp.name || comp.id}
+                  </option>
+                ))}
+              </select>
+            </FilterField>
+
+            <FilterField
+              label="Category"
+              helpText={
+                !selectedComp
+                  ? "Select a competition first"
+                  : categoriesLoading
+                  ? "Loading categories…"
+                  : !categories.length
+                  ? "No categories found"
+                  : undefined
+              }
+            >
+              <select
+                className="mt-2 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none disabled:opacity-60"
+                value={selectedCategory}
+                onChange={(event) => setSelectedCategory(event.target.value)}
+                disabled={!selectedComp || categoriesLoading || !categories.length}
+              >
+                <option value="">Select category</option>
+                {categories.map((cat) => (
+                  <option key={cat.id} value={cat.id}>
+                    {cat.name || cat.id}
+                  </option>
+                ))}
+              </select>
+            </FilterField>
+
+            <FilterField label="Round">
+              <select
+                className="mt-2 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+                value={round}
+                onChange={(event) => setRound(event.target.value as LeadRound)}
+              >
+                <option value="qualification">Qualification</option>
+                <option value="final">Final</option>
+              </select>
+            </FilterField>
+          </div>
+        </section>
+      </Container>
+
+      <section className="w-full overflow-x-auto">
+        <table className="w-full text-sm border-collapse border-y border-border">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wider text-muted-foreground" style={{ background: "rgba(255, 255, 255, 0.04)" }}>
+              <th className="w-12 md:w-16 p-2 md:p-3 font-semibold">Rank</th>
+              <th className="w-48 md:w-64 p-2 md:p-3 font-semibold">Athlete</th>
+              <th className="w-32 md:w-48 p-2 md:p-3 font-semibold">Team</th>
+              {orderedRoutes.map((route) => (
+                <th key={route.routeId} className="p-2 md:p-3 font-semibold text-right">
+                  {route.label}
+                </th>
+              ))}
+              {orderedRoutes.length > 1 ? (
+                <th className="w-20 md:w-24 p-2 md:p-3 font-semibold text-right">Score</th>
+              ) : null}
+              <th className="w-20 md:w-24 p-2 md:p-3 font-semibold text-right">Time</th>
+            </tr>
+          </thead>
+          <tbody>
+            {renderTableMessage({ loading, hasSelection, hasRows: rows.length > 0 })}
+            {!loading && hasSelection && rows.map((row, idx) => (
+              <LeaderboardRowView key={row.athleteId} row={row} index={idx} showScore={orderedRoutes.length > 1} />
+            ))}
+          </tbody>
+        </table>
+        <Container>
+          <p className="mt-4 text-xs text-muted-foreground">
+            {round === "final"
+              ? "Finals rank by highest hold reached (\"+\" beats the same hold without it). Ties are split by countback to the qualification rank, then by attempt time."
+              : "Each route is ranked by highest hold reached, with tied athletes sharing the average of their positions. The score is the geometric mean of route ranks (lower is better); ties are split by attempt time."}
+          </p>
+        </Container>
+      </section>
+    </main>
+  )
+}
+
+function LeaderboardRowView({
+  row,
+  index,
+  showScore,
+}: {
+  row: LeadLeaderboardRow
+  index: number
+  showScore: boolean
+}) {
+  return (
+    <tr
+      className="text-sm border-b border-border"
+      style={{ background: index % 2 === 1 ? "rgba(255, 255, 255, 0.02)" : "transparent" }}
+    >
+      <td className="p-2 md:p-3 font-semibold text-foreground">
+        {row.rank}
+        {row.tieBreak ? (
+          <span className="ml-1 text-[10px] uppercase text-muted-foreground" title={`Tie split by ${row.tieBreak}`}>
+            {row.tieBreak === "countback" ? "CB" : "T"}
+          </span>
+        ) : null}
+      </td>
+      <td className="p-2 md:p-3">
+        <div className="font-semibold text-foreground">{row.name}</div>
+        {row.bib ? <div className="text-xs text-muted-foreground">#{row.bib}</div> : null}
+      </td>
+      <td className="p-2 md:p-3 text-muted-foreground">{row.team || "—"}</td>
+      {row.routes.map((route) => (
+        <td key={route.routeId} className="p-2 md:p-3 text-right">
+          <div className="text-base font-semibold text-foreground">{route.hold || "—"}</div>
+          {showScore && route.routeRank != null ? (
+            <div className="text-xs text-muted-foreground">({route.routeRank})</div>
+          ) : null}
+        </td>
+      ))}
+      {showScore ? (
+        <td className="p-2 md:p-3 text-right text-base font-semibold text-foreground">{row.scoreLabel || "—"}</td>
+      ) : null}
+      <td className="p-2 md:p-3 text-right text-muted-foreground">
+        {row.totalTimeMs != null ? formatAttemptTime(row.totalTimeMs) : "—"}
+      </td>
+    </tr>
+  )
+}
+
+function FilterField({
+  label,
+  children,
+  helpText,
+}: {
+  label: string
+  children: ReactNode
+  helpText?: string
+}) {
+  return (
+    <label className="block text-sm font-medium text-muted-foreground">
+      {label}
+      {children}
+      {helpText ? (
+        <span className="mt-2 block text-xs text-muted-foreground">{helpText}</span>
+      ) : null}
+    </label>
+  )
+}
+
+function renderTableMessage({
+  loading,
+  hasSelection,
+  hasRows,
+}: {
+  loading: boolean
+  hasSelection: boolean
+  hasRows: boolean
+}) {
+  if (!hasSelection) {
+    return <TableMessage message="Select a competition and category to view scores." />
+  }
+  if (loading) {
+    return <TableMessage message="Loading leaderboard…" />
+  }
+  if (!hasRows) {
+    return <TableMessage message="No results recorded yet." />
+  }
+  return null
+}
+
+function TableMessage({ message, colSpan = 6 }: { message: string; colSpan?: number }) {
+  return (
+    <tr>
+      <td colSpan={colSpan} className="py-10 text-center text-sm text-muted-foreground">
+        {message}
+      </td>
+    </tr>
+  )
+}
+
+function LeaderboardFallback() {
+  return (
+    <main className="py-12 text-foreground bg-background">
+      <Container className="space-y-6">
+        <div className="space-y-2">
+          <div className="h-4 w-32 animate-pulse rounded bg-card" />
+          <div className="h-8 w-72 animate-pulse rounded bg-card" />
+        </div>
+        <div className="h-40 animate-pulse rounded-2xl border border-border bg-panel" />
+        <div className="h-64 animate-pulse rounded-2xl border border-border bg-panel" />
+      </Container>
+    </main>
+  )
+}
+
+function LeaderboardUnavailable() {
+  return (
+    <main className="py-12 text-foreground bg-background">
+      <Container className="space-y-4">
+        <h1 className="text-3xl font-semibold">Leaderboard unavailable</h1>
+        <p className="text-muted-foreground">
+          Live results require Firebase configuration. Please verify NEXT_PUBLIC_FIREBASE_* variables are set for this deployment.
+        </p>
+      </Container>
+    </main>
+  )
+}
+
+function timestampValue(input: unknown): number {
+  if (!input) return 0
+  if (typeof input === "number") return input
+  if (input instanceof Date) return input.getTime()
+  if (typeof (input as { toMillis?: () => number }).toMillis === "function") {
+    const millis = (input as { toMillis: () => number }).toMillis()
+    return Number.isFinite(millis) ? millis : 0
+  }
+  if (
+    typeof (input as { seconds?: number }).seconds === "number" &&
+    typeof (input as { nanoseconds?: number }).nanoseconds === "number"
+  ) {
+    const ts = input as { seconds: number; nanoseconds: number }
+    return ts.seconds * 1000 + ts.nanoseconds / 1e6
+  }
+  return 0
+}
@@ -1,15 +1,720 @@
 "use client";
 
-export default function OrganisersComingSoon() {
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import Container from "@/components/Container";
+import AccessDenied from "@/components/AccessDenied";
+import { UserButton, useUser } from "@clerk/nextjs";
+import { collection, doc, getDoc, getDocs, serverTimestamp, setDoc, updateDoc, type DocumentData } from "firebase/firestore";
+import { firestore } from "@/lib/firebase/client";
+import { useFirebaseAuth } from "@/hooks/useFirebaseAuth";
+import { useUserRole, isStaffRole, type UserRole } from "@/hooks/useUserRole";
+import { canManageComp } from "@/lib/compMembers";
+import {
+  DEFAULT_ORG_BRANDING,
+  ORG_MEMBER_ROLES,
+  ORG_MEMBER_ROLE_LABELS,
+  canEditOrgMembers,
+  canManageOrg,
+  initialOrgMembers,
+  isHexColor,
+  isLogoUrl,
+  orgIdFromName,
+  orgMemberRoleOf,
+  parseOrganisation,
+  type OrgBranding,
+  type OrgCompType,
+  type OrgMemberRole,
+  type Organisation,
+} from "@/lib/organisations";
+import { addOrgComp, addOrgMember, removeOrgComp, removeOrgMember } from "@/lib/orgsApi";
+import { boulderSetupChecklist, loadBoulderSetupCounts, type BoulderSetupCounts } from "@/lib/boulder/setupStatus";
+
+interface OrgComp {
+  type: OrgCompType;
+  id: string;
+  name: string;
+  status: string;
+  orgId: string;
+  canManage: boolean;
+}
+
+const COMP_TYPE_LABELS: Record<OrgCompType, string> = {
+  boulder: "Boulder",
+  speed: "Speed",
+};
+
+const compKey = (comp: { type: OrgCompType; id: string }) => `${comp.type}:${comp.id}`;
+
+const isHiddenComp = (data: DocumentData) =>
+  ["archived", "deleted"].includes(String(data.status || "").toLowerCase()) ||
+  data.archived === true ||
+  data.deleted === true ||
+  data.isArchived === true;
+
+export default function OrganisersPage() {
+  const { isLoaded, isSignedIn } = useUser();
+  const { isFirebaseAuthenticated, error: firebaseError } = useFirebaseAuth();
+  const { role, loading: roleLoading } = useUserRole();
+
+  const waitingForFirebaseAuth = isSignedIn && !isFirebaseAuthenticated && !firebaseError;
+  if (!isLoaded || waitingForFirebaseAuth || roleLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-lg text-muted-foreground">Loading…</div>
+      </div>
+    );
+  }
+
+  if (!isSignedIn) {
+    return <AccessDenied feature="Organiser Dashboard" message="Sign in with a staff/admin account to continue." />;
+  }
+
+  if (!isStaffRole(role)) {
+    return <AccessDenied feature="Organiser Dashboard (staff/admin only)" />;
+  }
+
+  if (firebaseError) {
+    return <AccessDenied feature="Organiser Dashboard" message="Firebase not available. Please refresh and try again." />;
+  }
+
+  return <OrgDashboard role={role} />;
+}
+
+function OrgDashboard({ role }: { role: UserRole | null }) {
+  const { user } = useUser();
+
+  const [orgs, setOrgs] = useState<Organisation[]>([]);
+  const [orgsLoading, setOrgsLoading] = useState(true);
+  const [selectedOrgId, setSelectedOrgId] = useState("");
+  const [comps, setComps] = useState<OrgComp[]>([]);
+  const [compsLoading, setCompsLoading] = useState(false);
+  const [setupCounts, setSetupCounts] = useState<Record<string, BoulderSetupCounts | null>>({});
+
+  const [newOrgName, setNewOrgName] = useState("");
+  const [brandingForm, setBrandingForm] = useState({ name: "", description: "", ...DEFAULT_ORG_BRANDING });
+  const [memberEmail, setMemberEmail] = useState("");
+  const [memberRole, setMemberRole] = useState<OrgMemberRole>("staff");
+  const [compToAdd, setCompToAdd] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const brandingOrgRef = useRef("");
+
+  const selectedOrg = orgs.find((org) => org.id === selectedOrgId) || null;
+
+  const loadOrgs = useCallback(async () => {
+    if (!firestore) return;
+    setOrgsLoading(true);
+    try {
+      const snap = await getDocs(collection(firestore, "organisations"));
+      const list = snap.docs
+        .filter((d) => canManageOrg(d.data(), user?.id, role))
+        .map((d) => parseOrganisation(d.id, d.data()))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      setOrgs(list);
+      setSelectedOrgId((current) => (current && list.some((org) => org.id === current) ? current : list[0]?.id || ""));
+    } catch (err) {
+      console.error("Error loading organisations:", err);
+      setMessage("Failed to load organisations.");
+    } finally {
+      setOrgsLoading(false);
+    }
+  }, [user?.id, role]);
+
+  const loadComps = useCallback(async () => {
+    if (!firestore) return;
+    setCompsLoading(true);
+    try {
+      const [boulderSnap, speedSnap] = await Promise.all([
+        getDocs(collection(firestore, "boulderComps")),
+        getDocs(collection(firestore, "speedCompetitions")),
+      ]);
+      const toComp = (type: OrgCompType, id: string, data: DocumentData, canManage: boolean): OrgComp => ({
+        type,
+        id,
+        name: typeof data.name === "string" && data.name ? data.name : id,
+        status: typeof data.status === "string" ? data.status : "",
+        orgId: typeof data.orgId === "string" ? data.orgId : "",
+        canManage,
+      });
+      setComps([
+        ...boulderSnap.docs
+          .filter((d) => !isHiddenComp(d.data()))
+          .map((d) => toComp("boulder", d.id, d.data(), canManageComp(d.data(), user?.id, role))),
+        ...speedSnap.docs
+          .filter((d) => !isHiddenComp(d.data()))
+          .map((d) => toComp("speed", d.id, d.data(), isStaffRole(role))),
+      ]);
+    } catch (err) {
+      console.error("Error loading competitions:", err);
+      setMessage("Failed to load competitions.");
+    } finally {
+      setCompsLoading(false);
+    }
+  }, [user?.id, role]);
+
+  useEffect(() => {
+    loadOrgs();
+  }, [loadOrgs]);
+
+  useEffect(() => {
+    loadComps();
+  }, [loadComps]);
+
+  // Reset the details form only when switching organisations
+  useEffect(() => {
+    if (!selectedOrg || brandingOrgRef.current === selectedOrg.id) return;
+    brandingOrgRef.current = selectedOrg.id;
+    setBrandingForm({ name: selectedOrg.name, description: selectedOrg.description, ...selectedOrg.branding });
+  }, [selectedOrg]);
+
+  const orgComps = useMemo(
+    () =>
+      comps
+        .filter((comp) => comp.orgId === selectedOrgId)
+        .sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name)),
+    [comps, selectedOrgId]
+  );
+  const unassignedComps = useMemo(
+    () => comps.filter((comp) => !comp.orgId && comp.canManage).sort((a, b) => a.name.localeCompare(b.name)),
+    [comps]
+  );
+
+  // Setup checks for the org's boulder comps, loaded one after another
+  useEffect(() => {
+    const db = firestore;
+    if (!db) return;
+    let cancelled = false;
+    const boulderIds = orgComps.filter((comp) => comp.type === "boulder").map((comp) => comp.id);
+    const loadSetup = async () => {
+      for (const compId of boulderIds) {
+        try {
+          const counts = await loadBoulderSetupCounts(db, compId);
+          if (cancelled) return;
+          setSetupCounts((prev) => ({ ...prev, [compId]: counts }));
+        } catch (err) {
+          console.error("Error loading setup status:", err);
+          if (cancelled) return;
+          setSetupCounts((prev) => ({ ...prev, [compId]: null }));
+        }
+      }
+    };
+    loadSetup();
+    return () => {
+      cancelled = true;
+    };
+  }, [orgComps]);
+
+  const handleCreateOrg = async () => {
+    if (!firestore || !user) return;
+    const name = newOrgName.trim();
+    const orgId = orgIdFromName(name);
+    if (!orgId) {
+      setMessage("Enter an organisation name.");
+      return;
+    }
+    setSaving(true);
+    setMessage("");
+    try {
+      const orgRef = doc(firestore, "organisations", orgId);
+      if ((await getDoc(orgRef)).exists()) {
+        setMessage("An organisation with that name already exists.");
+        return;
+      }
+      const now = serverTimestamp();
+      await setDoc(orgRef, {
+        name,
+        description: "",
+        branding: DEFAULT_ORG_BRANDING,
+        members: initialOrgMembers(user.id),
+        memberEmails: { [user.id]: user.primaryEmailAddress?.emailAddress || "" },
+        createdAt: now,
+        updatedAt: now,
+      });
+      setNewOrgName("");
+      setSelectedOrgId(orgId);
+      setMessage(`Created ${name}.`);
+      await loadOrgs();
+    } catch (err) {
+      console.error("Error creating organisation:", err);
+      setMessage("Failed to create organisation.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveBranding = async () => {
+    if (!firestore || !selectedOrg) return;
+    const name = brandingForm.name.trim();
+    const branding: OrgBranding = {
+      logoUrl: brandingForm.logoUrl.trim(),
+      primaryColor: brandingForm.primaryColor,
+      accentColor: brandingForm.accentColor,
+    };
+    if (!name) {
+      setMessage("The organisation needs a name.");
+      return;
+    }
+    if (!isLogoUrl(branding.logoUrl)) {
+      setMessage("The logo must be an https:// link to an image.");
+      return;
+    }
+    if (!isHexColor(branding.primaryColor) || !isHexColor(branding.accentColor)) {
+      setMessage("Colours must be hex values like #27a9e1.");
+      return;
+    }
+    setSaving(true);
+    setMessage("");
+    try {
+      await updateDoc(doc(firestore, "organisations", selectedOrg.id), {
+        name,
+        description: brandingForm.description.trim(),
+        branding,
+        updatedAt: serverTimestamp(),
+      });
+      setOrgs((prev) =>
+        prev.map((org) =>
+          org.id === selectedOrg.id ? { ...org, name, description: brandingForm.description.trim(), branding } : org
+        )
+      );
+      setMessage("Organisation details saved.");
+    } catch (err) {
+      console.error("Error saving organisation:", err);
+      setMessage("Failed to save organisation details.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!selectedOrg) return;
+    const email = memberEmail.trim();
+    if (!email) {
+      setMessage("Enter the email of a GripRank account.");
+      return;
+    }
+    setSaving(true);
+    setMessage("");
+    try {
+      const result = await addOrgMember(selectedOrg.id, email, memberRole);
+      setOrgs((prev) =>
+        prev.map((org) =>
+          org.id === selectedOrg.id
+            ? { ...org, members: result.members, memberEmails: { ...org.memberEmails, [result.uid]: result.email } }
+            : org
+        )
+      );
+      setMemberEmail("");
+      setMessage(`${result.email} added as ${ORG_MEMBER_ROLE_LABELS[result.memberRole].toLowerCase()}.`);
+    } catch (err) {
+      console.error("Error adding organisation member:", err);
+      setMessage(err instanceof Error ? err.message : "Failed to add member.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveMember = async (uid: string) => {
+    if (!selectedOrg) return;
+    const label = selectedOrg.memberEmails[uid] || uid;
+    if (!confirm(`Remove ${label} from ${selectedOrg.name}?`)) return;
+    setSaving(true);
+    setMessage("");
+    try {
+      const result = await removeOrgMember(selectedOrg.id, uid);
+      setOrgs((prev) => prev.map((org) => (org.id === selectedOrg.id ? { ...org, members: result.members } : org)));
+      setMessage(`${label} removed.`);
+      if (uid === user?.id) await loadOrgs();
+    } catch (err) {
+      console.error("Error removing organisation member:", err);
+      setMessage(err instanceof Error ? err.message : "Failed to remove member.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddComp = async () => {
+    const comp = unassignedComps.find((c) => compKey(c) === compToAdd);
+    if (!selectedOrg || !comp) return;
+    setSaving(true);
+    setMessage("");
+    try {
+      await addOrgComp(selectedOrg.id, comp.type, comp.id);
+      setCompToAdd("");
+      setMessage(`${comp.name} now belongs to ${selectedOrg.name}.`);
+      await loadComps();
+    } catch (err) {
+      console.error("Error adding competition:", err);
+      setMessage(err instanceof Error ? err.message : "Failed to add competition.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveComp = async (comp: OrgComp) => {
+    if (!selectedOrg) return;
+    if (!confirm(`Remove ${comp.name} from ${selectedOrg.name}? Organisation staff lose access to it.`)) return;
+    setSaving(true);
+    setMessage("");
+    try {
+      await removeOrgComp(comp.type, comp.id);
+      setMessage(`${comp.name} removed from ${selectedOrg.name}.`);
+      await loadComps();
+    } catch (err) {
+      console.error("Error removing competition:", err);
+      setMessage(err instanceof Error ? err.message : "Failed to remove competition.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canEditMembers = selectedOrg ? canEditOrgMembers(selectedOrg, user?.id, role) : false;
+  const memberUids = selectedOrg ? [...selectedOrg.members.owners, ...selectedOrg.members.staff] : [];
+
+  return (
+    <main className="py-6 min-h-screen bg-[#0b1220] text-gray-200">
+      <Container>
+        <div className="max-w-[1100px] mx-auto space-y-6">
+          {/* Header */}
+          <header className="flex flex-col gap-3">
+            <div className="flex items-center gap-3">
+              <Link href="/" className="inline-block">
+                <Image
+                  src="/logo_header.png"
+                  alt="GripRank"
+                  width={4001}
+                  height={1228}
+                  priority
+                  className="h-11 w-auto"
+                />
+              </Link>
+              <span className="text-gray-400">Organiser Dashboard</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-400">
+              <span className="truncate max-w-[240px]">
+                {user?.emailAddresses[0]?.emailAddress || "Signed in"}
+              </span>
+              <UserButton afterSignOutUrl="/" />
+            </div>
+          </header>
+
+          {message && (
+            <div className="rounded-lg border border-[#19bcd6]/40 bg-[#101a34] px-4 py-3 text-sm text-gray-200">{message}</div>
+          )}
+
+          {/* Organisation picker and creation */}
+          <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5 space-y-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-100">Organisations</h1>
+              <p className="text-sm text-gray-400 mt-1">
+                An organisation owns its competitions, staff and public page.
+              </p>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <label className="flex flex-col gap-2 text-sm text-gray-400">
+                Organisation
+                <select
+                  value={selectedOrgId}
+                  onChange={(e) => setSelectedOrgId(e.target.value)}
+                  disabled={orgsLoading || !orgs.length}
+                  className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1] disabled:opacity-60"
+                >
+                  {orgsLoading ? (
+                    <option value="">Loading…</option>
+                  ) : orgs.length ? (
+                    orgs.map((org) => (
+                      <option key={org.id} value={org.id}>
+                        {org.name}
+                      </option>
+                    ))
+                  ) : (
+                    <option value="">No organisations yet</option>
+                  )}
+                </select>
+              </label>
+              <div className="flex flex-col gap-2 text-sm text-gray-400">
+                New organisation
+                <div className="flex gap-2">
+                  <input
+                    value={newOrgName}
+                    onChange={(e) => setNewOrgName(e.target.value)}
+                    placeholder="Organisation name"
+                    className="flex-1 min-w-0 px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleCreateOrg}
+                    disabled={saving || !newOrgName.trim()}
+                    className="px-4 py-2.5 bg-[#27a9e1] text-[#031726] rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    Create
+                  </button>
+                </div>
+              </div>
+            </div>
+          </section>
+
+          {selectedOrg && (
+            <>
+              {/* Competitions */}
+              <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5 space-y-4">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-100">Competitions</h2>
+                    <p className="text-sm text-gray-400 mt-1">Setup status of {selectedOrg.name}&apos;s events.</p>
+                  </div>
+                  <Link
+                    href={`/orgs/${selectedOrg.id}`}
+                    className="text-sm text-[#27a9e1] hover:text-[#19bcd6] hover:underline"
+                  >
+                    View public page →
+                  </Link>
+                </div>
+
+                {compsLoading ? (
+                  <p className="text-sm text-gray-400">Loading competitions…</p>
+                ) : orgComps.length === 0 ? (
+                  <p className="text-sm text-gray-400">No competitions in this organisation yet.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {orgComps.map((comp) => (
+                      <OrgCompRow
+                        key={compKey(comp)}
+                        comp={comp}
+                        setupCounts={comp.type === "boulder" ? setupCounts[comp.id] : undefined}
+                        saving={saving}
+                        onRemove={() => handleRemoveComp(comp)}
+                      />
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  <select
+                    value={compToAdd}
+                    onChange={(e) => setCompToAdd(e.target.value)}
+                    disabled={!unassignedComps.length}
+                    className="flex-1 min-w-[220px] px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1] disabled:opacity-60"
+                  >
+                    <option value="">
+                      {unassignedComps.length ? "Add a competition…" : "No unassigned competitions you manage"}
+                    </option>
+                    {unassignedComps.map((comp) => (
+                      <option key={compKey(comp)} value={compKey(comp)}>
+                        {COMP_TYPE_LABELS[comp.type]} · {comp.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleAddComp}
+                    disabled={saving || !compToAdd}
+                    className="px-4 py-2.5 bg-[#27a9e1] text-[#031726] rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    Add to organisation
+                  </button>
+                </div>
+              </section>
+
+              {/* Branding */}
+              <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5 space-y-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-100">Details &amp; branding</h2>
+                  <p className="text-sm text-gray-400 mt-1">Shown on the organisation&apos;s public page.</p>
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <label className="flex flex-col gap-2 text-sm text-gray-400">
+                    Name
+                    <input
+                      value={brandingForm.name}
+                      onChange={(e) => setBrandingForm((prev) => ({ ...prev, name: e.target.value }))}
+                      className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-2 text-sm text-gray-400">
+                    Logo URL
+                    <input
+                      value={brandingForm.logoUrl}
+                      onChange={(e) => setBrandingForm((prev) => ({ ...prev, logoUrl: e.target.value }))}
+                      placeholder="https://…"
+                      className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-2 text-sm text-gray-400 md:col-span-2">
+                    Description
+                    <textarea
+                      value={brandingForm.description}
+                      onChange={(e) => setBrandingForm((prev) => ({ ...prev, description: e.target.value }))}
+                      rows={3}
+                      className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                    />
+                  </label>
+                  <label className="flex items-center gap-3 text-sm text-gray-400">
+                    <input
+                      type="color"
+                      value={brandingForm.primaryColor}
+                      onChange={(e) => setBrandingForm((prev) => ({ ...prev, primaryColor: e.target.value }))}
+                      className="h-10 w-14 rounded border border-[#19bcd6] bg-[#101a34]"
+                    />
+                    Primary colour
+                  </label>
+                  <label className="flex items-center gap-3 text-sm text-gray-400">
+                    <input
+                      type="color"
+                      value={brandingForm.accentColor}
+                      onChange={(e) => setBrandingForm((prev) => ({ ...prev, accentColor: e.target.value }))}
+                      className="h-10 w-14 rounded border border-[#19bcd6] bg-[#101a34]"
+                    />
+                    Background colour
+                  </label>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleSaveBranding}
+                  disabled={saving}
+                  className="px-6 py-2.5 bg-[#27a9e1] text-[#031726] rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  {saving ? "Saving…" : "Save details"}
+                </button>
+              </section>
+
+              {/* Staff */}
+              <section className="bg-[#0e1730] border border-[#19bcd6] rounded-xl p-5 space-y-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-100">Staff</h2>
+                  <p className="text-sm text-gray-400 mt-1">
+                    Owners and staff manage every competition of the organisation; owners also edit this list.
+                  </p>
+                </div>
+                <ul className="divide-y divide-[#19bcd6]/20 text-sm">
+                  {memberUids.map((uid) => {
+                    const orgRole = orgMemberRoleOf(selectedOrg.members, uid);
+                    return (
+                      <li key={uid} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                        <span className="text-gray-200">{selectedOrg.memberEmails[uid] || uid}</span>
+                        <span className="flex items-center gap-3">
+                          <span className="text-xs text-gray-400">{orgRole ? ORG_MEMBER_ROLE_LABELS[orgRole] : ""}</span>
+                          {canEditMembers && (
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveMember(uid)}
+                              disabled={saving}
+                              className="text-xs text-red-300 hover:underline disabled:opacity-50"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+                {canEditMembers && (
+                  <div className="flex flex-wrap gap-2">
+                    <input
+                      type="email"
+                      value={memberEmail}
+                      onChange={(e) => setMemberEmail(e.target.value)}
+                      placeholder="Account email"
+                      className="flex-1 min-w-[220px] px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                    />
+                    <select
+                      value={memberRole}
+                      onChange={(e) => setMemberRole(e.target.value as OrgMemberRole)}
+                      className="px-3 py-2.5 bg-[#101a34] text-gray-200 border border-[#19bcd6] rounded-lg focus:outline-none focus:border-[#27a9e1]"
+                    >
+                      {ORG_MEMBER_ROLES.map((orgRole) => (
+                        <option key={orgRole} value={orgRole}>
+                          {ORG_MEMBER_ROLE_LABELS[orgRole]}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={handleAddMember}
+                      disabled={saving}
+                      className="px-4 py-2.5 bg-[#27a9e1] text-[#031726] rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-60 disabled:cursor-not-allowed"
+                    >
+                      Add staff
+                    </button>
+                  </div>
+                )}
+              </section>
+            </>
+          )}
+
+          {/* Back Link */}
+          <div className="text-center">
+            <Link
+              href="/boulder/admin"
+              className="text-sm text-[#27a9e1] hover:text-[#19bcd6] hover:underline"
+            >
+              ← Back to Admin Dashboard
+            </Link>
+          </div>
+        </div>
+      </Container>
+    </main>
+  );
+}
+
+function OrgCompRow({
+  comp,
+  setupCounts,
+  saving,
+  onRemove,
+}: {
+  comp: OrgComp;
+  setupCounts: BoulderSetupCounts | null | undefined;
+  saving: boolean;
+  onRemove: () => void;
+}) {
+  const adminHref = comp.type === "boulder" ? "/boulder/admin" : "/speed/admin";
+
   return (
-    <div className="min-h-[60vh] px-6 md:px-20 py-20 text-neutral-200">
-      <h1 className="text-3xl md:text-4xl font-black tracking-tight leading-tight mb-4">
-        Organiser Tools — Coming Soon
-      </h1>
-      <p className="text-neutral-400 leading-relaxed max-w-2xl">
-        We’re finishing the dashboard that takes you from score sheet to live results. 
-        Check back soon!
-      </p>
-    </div>
+    <li className="rounded-lg border border-[#19bcd6]/40 bg-[#101a34] p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="font-semibold text-gray-100">{comp.name}</div>
+          <div className="text-xs text-gray-400">
+            {COMP_TYPE_LABELS[comp.type]} · {comp.status || "draft"}
+          </div>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          <Link href={adminHref} className="text-[#27a9e1] hover:underline">
+            Open admin
+          </Link>
+          {comp.canManage && (
+            <button type="button" onClick={onRemove} disabled={saving} className="text-red-300 hover:underline disabled:opacity-50">
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+      {comp.type === "boulder" &&
+        (setupCounts === undefined ? (
+          <p className="text-xs text-gray-400">Loading setup status…</p>
+        ) : setupCounts === null ? (
+          <p className="text-xs text-red-300">Failed to load setup status.</p>
+        ) : (
+          <ul className="flex flex-wrap gap-2 text-xs">
+            {boulderSetupChecklist(setupCounts).map((item) => (
+              <li key={item.id}>
+                <Link
+                  href={item.href}
+                  className={`inline-block rounded-full border px-3 py-1 ${
+                    item.ok
+                      ? "border-emerald-500/40 bg-emerald-500/15 text-emerald-200"
+                      : "border-amber-400/40 bg-amber-500/15 text-amber-200"
+                  }`}
+                >
+                  {item.ok ? "✓" : "!"} {item.label}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ))}
+    </li>
   );
 }
@@ -0,0 +1,198 @@
+'use client'
+
+import { useEffect, useState } from "react"
+import { useParams } from "next/navigation"
+import Image from "next/image"
+import Link from "next/link"
+import Container from "@/components/Container"
+import { firestore } from "@/lib/firebase/client"
+import { collection, doc, getDoc, getDocs, query, where, type DocumentData } from "firebase/firestore"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { parseOrganisation, type OrgCompType, type Organisation } from "@/lib/organisations"
+
+interface OrgEvent {
+  type: OrgCompType
+  id: string
+  name: string
+  status: string
+  sortMs: number
+}
+
+const isPublicComp = (data: DocumentData) =>
+  !["archived", "deleted"].includes(String(data.status || "").toLowerCase()) &&
+  data.archived !== true &&
+  data.deleted !== true &&
+  data.isArchived !== true &&
+  !data.isDemo
+
+// Public landing page of an organisation: /orgs/{orgId}
+export default function OrganisationPage() {
+  const params = useParams<{ orgId: string }>()
+  const orgId = params?.orgId || ""
+
+  const [org, setOrg] = useState<Organisation | null>(null)
+  const [events, setEvents] = useState<OrgEvent[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const db = firestore
+    if (!db || !orgId) {
+      setLoading(false)
+      return
+    }
+    let cancelled = false
+    const loadOrganisation = async () => {
+      setLoading(true)
+      try {
+        const [orgSnap, boulderSnap, speedSnap] = await Promise.all([
+          getDoc(doc(db, "organisations", orgId)),
+          getDocs(query(collection(db, "boulderComps"), where("orgId", "==", orgId))),
+          getDocs(query(collection(db, "speedCompetitions"), where("orgId", "==", orgId))),
+        ])
+        if (cancelled) return
+        setOrg(orgSnap.exists() ? parseOrganisation(orgSnap.id, orgSnap.data()) : null)
+        const toEvent = (type: OrgCompType, id: string, data: DocumentData): OrgEvent => ({
+          type,
+          id,
+          name: typeof data.name === "string" && data.name ? data.name : id,
+          status: typeof data.status === "string" ? data.status : "",
+          sortMs: timestampValue(data.eventDate) || timestampValue(data.createdAt),
+        })
+        setEvents(
+          [
+            ...boulderSnap.docs.filter((d) => isPublicComp(d.data())).map((d) => toEvent("boulder", d.id, d.data())),
+            ...speedSnap.docs.filter((d) => isPublicComp(d.data())).map((d) => toEvent("speed", d.id, d.data())),
+          ].sort((a, b) => b.sortMs - a.sortMs)
+        )
+      } catch (error) {
+        console.error("Error loading organisation:", error)
+        setOrg(null)
+        setEvents([])
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadOrganisation()
+    return () => {
+      cancelled = true
+    }
+  }, [orgId])
+
+  if (loading) {
+    return (
+      <main className="py-12 text-foreground bg-background">
+        <Container>
+          <p className="text-muted-foreground">Loading…</p>
+        </Container>
+      </main>
+    )
+  }
+
+  if (!org) {
+    return (
+      <main className="py-12 text-foreground bg-background">
+        <Container className="space-y-4">
+          <h1 className="text-3xl font-semibold">Organisation not found</h1>
+          <p className="text-muted-foreground">Check the link or browse the live results instead.</p>
+          <Link href="/boulder/leaderboard" className="text-primary hover:underline">
+            Live Results →
+          </Link>
+        </Container>
+      </main>
+    )
+  }
+
+  const { primaryColor, accentColor, logoUrl } = org.branding
+
+  return (
+    <main className="py-12 text-foreground bg-background">
+      <Container className="space-y-8">
+        <header
+          className="rounded-2xl border p-6 md:p-8 flex flex-col md:flex-row md:items-center gap-6"
+          style={{ backgroundColor: accentColor, borderColor: primaryColor }}
+        >
+          {logoUrl && (
+            <Image
+              src={logoUrl}
+              alt={org.name}
+              width={160}
+              height={160}
+              unoptimized
+              className="h-20 w-auto max-w-[200px] object-contain"
+            />
+          )}
+          <div className="space-y-2">
+            <h1 className="text-3xl md:text-4xl font-black tracking-tight" style={{ color: primaryColor }}>
+              {org.name}
+            </h1>
+            {org.description && (
+              <p className="text-base text-gray-200 whitespace-pre-line max-w-2xl">{org.description}</p>
+            )}
+          </div>
+        </header>
+
+        <section className="space-y-4">
+          <p className="text-sm uppercase tracking-wide" style={{ color: primaryColor }}>
+            Events
+          </p>
+          {events.length ? (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {events.map((event) => (
+                <Card key={`${event.type}:${event.id}`} className="border-border/60 bg-card/70">
+                  <CardHeader className="space-y-1">
+                    <CardTitle className="text-lg">{event.name}</CardTitle>
+                    <CardDescription className="text-xs uppercase tracking-wide" style={{ color: primaryColor }}>
+                      {event.type === "boulder" ? "Boulder" : "Speed"} · {normalizeStatus(event.status)}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex gap-2">
+                      <Button asChild className="flex-1" style={{ backgroundColor: primaryColor }}>
+                        <Link
+                          href={
+                            event.type === "boulder"
+                              ? `/boulder/leaderboard?compId=${encodeURIComponent(event.id)}&orgId=${encodeURIComponent(org.id)}`
+                              : `/speed/leaderboard?comp=${encodeURIComponent(event.id)}&orgId=${encodeURIComponent(org.id)}`
+                          }
+                        >
+                          View Leaderboard
+                        </Link>
+                      </Button>
+                      {event.type === "speed" && (
+                        <Button asChild variant="secondary" className="bg-card text-foreground hover:bg-card/80">
+                          <Link href={`/speed/startlist?comp=${encodeURIComponent(event.id)}`}>Start List</Link>
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No events published yet.</p>
+          )}
+        </section>
+      </Container>
+    </main>
+  )
+}
+
+function normalizeStatus(status?: string) {
+  const value = (status || "").toLowerCase()
+  if (value === "live") return "Live"
+  if (value === "completed") return "Completed"
+  return "Upcoming"
+}
+
+function timestampValue(input: unknown) {
+  if (!input) return 0
+  if (typeof input === "number") return input
+  if (input instanceof Date) return input.getTime()
+  if (typeof (input as { toMillis?: () => number }).toMillis === "function") {
+    const millis = (input as { toMillis: () => number }).toMillis()
+    return Number.isFinite(millis) ? millis : 0
+  }
+  return 0
+}
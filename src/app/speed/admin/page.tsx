@@ -8,28 +8,69 @@ import Container from "@/components/Container"
 import { firestore } from "@/lib/firebase/client"
 import { useUser } from "@clerk/nextjs"
 import { useFirebaseAuth } from "@/hooks/useFirebaseAuth"
-import { useUserRole, isStaffRole } from "@/hooks/useUserRole"
+import { useUserRole, isStaffRole, type UserRole } from "@/hooks/useUserRole"
 import {
   addDoc,
   collection,
-  deleteDoc,
   doc,
   getDoc,
   getDocs,
   onSnapshot,
   serverTimestamp,
   setDoc,
+  Timestamp,
   updateDoc,
   writeBatch,
   type Firestore,
   type Unsubscribe,
 } from "firebase/firestore"
 import { Button } from "@/components/ui/button"
+import PasscodeFailures from "@/components/PasscodeFailures"
+import CompTeamPanel from "@/components/CompTeamPanel"
+import {
+  COMP_MEMBER_ROLE_LABELS,
+  canEditCompMembers,
+  canManageComp,
+  initialCompMembers,
+  type CompMemberRole,
+} from "@/lib/compMembers"
+import { addCompMember, removeCompMember } from "@/lib/compMembersApi"
+import { JUDGE_PASSCODE_MIN_LENGTH, judgePasscodeError } from "@/lib/judgePasscode"
+import {
+  ROUND_STATUSES,
+  ROUND_STATUS_LABELS,
+  getRoundOfficialAtMs,
+  getRoundStatus,
+  type RoundStatus,
+} from "@/lib/roundStatus"
+import { FINALS_SIZES, isFinalsSize, type FinalsSize } from "@/lib/speed/bracket"
+import { decideWinner } from "@/lib/speed/finals"
+import {
+  DEFAULT_FALSE_START_THRESHOLD_MS,
+  SPEED_FALSE_START_RULES,
+  SPEED_FALSE_START_RULE_LABELS,
+  formatReactionMs,
+  parseFalseStartRule,
+  parseFalseStartThresholdMs,
+  withReactionFalseStart,
+  type SpeedFalseStartRule,
+} from "@/lib/speed/scoring"
+import { drawFinalsBracket, saveFinalsMatch } from "@/lib/speed/finalsApi"
+import { refreshQualifierStandings } from "@/lib/speed/standingsApi"
+import { bracketOrder } from "@/lib/speed/scoring"
+import { generateQualifierHeats, type StartlistDraw } from "@/lib/speed/startlist"
+import {
+  APPEAL_STATUS_LABELS,
+  appealsPath,
+  fileAppeal,
+  isAppealOpen,
+  updateAppealStatus,
+  type Appeal,
+} from "@/lib/appeals"
 
 type SpeedTimingPrecision = "ms2" | "ms3"
-type SpeedFalseStartRule = "IFSC" | "TOLERANT"
 type SpeedRunStatus = "TIME" | "FS" | "DNS" | "DNF"
-type SpeedFinalsRoundId = "R16" | "QF" | "SF" | "F" | string
+type SpeedFinalsRoundId = "R32" | "R16" | "QF" | "SF" | "F" | string
 const DEFAULT_FINALS_ID = "default"
 
 interface SpeedCompetition {
@@ -38,13 +79,31 @@ interface SpeedCompetition {
   status?: string
   createdAt?: unknown
   falseStartRule?: SpeedFalseStartRule
+  falseStartThresholdMs?: number
   timingPrecision?: SpeedTimingPrecision
+  members?: unknown
+  memberEmails?: Record<string, string>
+  orgStaff?: unknown
+}
+
+// Speed competitions have no chief judge tools
+const SPEED_MEMBER_ROLES: CompMemberRole[] = ["owner", "staff"]
+
+// Rounds with a results status on the category doc; all finals rounds share one
+type SpeedStatusRound = "qualification" | "finals"
+const SPEED_STATUS_ROUNDS: SpeedStatusRound[] = ["qualification", "finals"]
+const SPEED_STATUS_ROUND_LABELS: Record<SpeedStatusRound, string> = {
+  qualification: "Qualification",
+  finals: "Finals",
 }
 
 interface SpeedCategory {
   id: string
   name?: string
   order?: number
+  roundStatus?: Record<string, RoundStatus>
+  roundOfficialAt?: Record<string, Timestamp>
+  roundOfficialAtMs?: Record<string, number>
 }
 
 interface SpeedAthlete {
@@ -57,6 +116,7 @@ interface SpeedAthlete {
 interface SpeedRunResult {
   status?: SpeedRunStatus | null
   ms?: number | null
+  reactionMs?: number | null
 }
 
 interface SpeedQualifierResult {
@@ -74,6 +134,7 @@ interface FinalsMatch {
   winner?: "A" | "B" | null
   winnerAthlete?: string | null
   allowWinnerRun?: boolean | null
+  falseStartReruns?: number
 }
 
 type FinalsRounds = Record<SpeedFinalsRoundId, FinalsMatch[]>
@@ -104,10 +165,11 @@ export default function SpeedAdminPage() {
     return <AccessDenied feature="Speed Admin" message="Firebase not available. Please refresh and try again." />
   }
 
-  return <AdminInterface firestore={firestore} />
+  return <AdminInterface firestore={firestore} role={role} />
 }
 
-function AdminInterface({ firestore }: { firestore: Firestore }) {
+function AdminInterface({ firestore, role }: { firestore: Firestore; role: UserRole | null }) {
+  const { user } = useUser()
   const [comps, setComps] = useState<SpeedCompetition[]>([])
   const [compLoading, setCompLoading] = useState(false)
   const [selectedComp, setSelectedComp] = useState("")
@@ -118,6 +180,7 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
   const [newCompName, setNewCompName] = useState("")
   const [newCompId, setNewCompId] = useState("")
   const [falseStartRule, setFalseStartRule] = useState<SpeedFalseStartRule>("IFSC")
+  const [falseStartThreshold, setFalseStartThreshold] = useState(formatReactionMs(DEFAULT_FALSE_START_THRESHOLD_MS))
   const [timingPrecision, setTimingPrecision] = useState<SpeedTimingPrecision>("ms3")
   const [newCatName, setNewCatName] = useState("")
   const [passcodeInput, setPasscodeInput] = useState("")
@@ -125,6 +188,21 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
   const [finalsMeta, setFinalsMeta] = useState<Record<string, unknown> | null>(null)
   const [finalsRounds, setFinalsRounds] = useState<FinalsRounds>({})
   const [finalsLoading, setFinalsLoading] = useState(false)
+  const [finalsSize, setFinalsSize] = useState<FinalsSize | "auto">("auto")
+  const [startlistDraw, setStartlistDraw] = useState<StartlistDraw>("order")
+  const [startlistHeatCount, setStartlistHeatCount] = useState(0)
+  const [startlistLoading, setStartlistLoading] = useState(false)
+  const [appeals, setAppeals] = useState<Appeal[]>([])
+  const [appealAthlete, setAppealAthlete] = useState("")
+  const [appealRound, setAppealRound] = useState("qualification")
+  const [appealMatch, setAppealMatch] = useState("")
+  const [appealReason, setAppealReason] = useState("")
+  const [appealFeePaid, setAppealFeePaid] = useState(false)
+  const [decisionNotes, setDecisionNotes] = useState<Record<string, string>>({})
+  const [memberEmailInput, setMemberEmailInput] = useState("")
+  const [memberRoleInput, setMemberRoleInput] = useState<CompMemberRole>("staff")
+  const [memberSaving, setMemberSaving] = useState(false)
+  const [memberMsg, setMemberMsg] = useState("")
 
   useEffect(() => {
     let cancelled = false
@@ -134,6 +212,7 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
         const snap = await getDocs(collection(firestore, "speedCompetitions"))
         if (cancelled) return
         const list = snap.docs
+          .filter((d) => canManageComp(d.data(), user?.id, role))
           .map((d) => ({ id: d.id, ...(d.data() || {}) } as SpeedCompetition))
           .sort((a, b) => timestampValue(b.createdAt) - timestampValue(a.createdAt))
         setComps(list)
@@ -149,7 +228,7 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
     return () => {
       cancelled = true
     }
-  }, [firestore, selectedComp])
+  }, [firestore, selectedComp, user?.id, role])
 
   useEffect(() => {
     if (!selectedComp) {
@@ -202,11 +281,44 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedComp, selectedCategory, firestore])
 
+  useEffect(() => {
+    if (!selectedComp || !selectedCategory) {
+      setStartlistHeatCount(0)
+      return
+    }
+    const unsub = onSnapshot(
+      collection(firestore, `speedCompetitions/${selectedComp}/categories/${selectedCategory}/startlist`),
+      (snap) => setStartlistHeatCount(snap.size),
+      () => setStartlistHeatCount(0)
+    )
+    return () => unsub()
+  }, [selectedComp, selectedCategory, firestore])
+
+  // Show the selected competition's saved settings so saving does not overwrite them
+  useEffect(() => {
+    const comp = comps.find((c) => c.id === selectedComp)
+    if (!comp) return
+    setFalseStartRule(parseFalseStartRule(comp.falseStartRule))
+    setFalseStartThreshold(formatReactionMs(parseFalseStartThresholdMs(comp.falseStartThresholdMs)))
+    setTimingPrecision(comp.timingPrecision === "ms2" ? "ms2" : "ms3")
+  }, [comps, selectedComp])
+
+  const falseStartThresholdMs = useMemo(() => {
+    const seconds = Number(falseStartThreshold.trim().replace(",", "."))
+    return falseStartThreshold.trim() && Number.isFinite(seconds) ? Math.round(seconds * 1000) : null
+  }, [falseStartThreshold])
+
   const selectedCompName = useMemo(() => {
     const match = comps.find((c) => c.id === selectedComp)
     return match?.name || selectedComp
   }, [comps, selectedComp])
 
+  // /api/speed/finals refuses bracket draws and match edits once finals are official
+  const selectedFinalsStatus = useMemo(
+    () => getRoundStatus(categories.find((c) => c.id === selectedCategory), "finals"),
+    [categories, selectedCategory]
+  )
+
   const createCompetition = async () => {
     if (!newCompName.trim()) {
       setMessage("Competition name is required")
@@ -217,18 +329,23 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
       setMessage("Competition ID could not be generated")
       return
     }
+    if (!user) return
     const ref = doc(firestore, "speedCompetitions", compId)
-    await setDoc(
-      ref,
-      {
-        name: newCompName.trim(),
-        falseStartRule,
-        timingPrecision,
-        status: "open",
-        createdAt: serverTimestamp(),
-      },
-      { merge: true }
-    )
+    if ((await getDoc(ref)).exists()) {
+      setMessage(`Competition ${compId} already exists`)
+      return
+    }
+    // The creator owns the new competition
+    await setDoc(ref, {
+      name: newCompName.trim(),
+      falseStartRule,
+      falseStartThresholdMs: parseFalseStartThresholdMs(falseStartThresholdMs),
+      timingPrecision,
+      status: "open",
+      createdAt: serverTimestamp(),
+      members: initialCompMembers(user.id),
+      memberEmails: { [user.id]: user.primaryEmailAddress?.emailAddress || "" },
+    })
     setMessage(`Created competition ${compId}`)
     setNewCompId("")
     setNewCompName("")
@@ -240,6 +357,52 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
     setSelectedComp(compId)
   }
 
+  const selectedCompDoc = comps.find((c) => c.id === selectedComp) || null
+
+  const handleAddMember = async () => {
+    if (!selectedComp) return
+    const email = memberEmailInput.trim()
+    if (!email) {
+      setMemberMsg("Enter the email of a GripRank account.")
+      return
+    }
+    setMemberSaving(true)
+    setMemberMsg("")
+    try {
+      const result = await addCompMember(selectedComp, email, memberRoleInput, "speed")
+      setComps((prev) =>
+        prev.map((c) =>
+          c.id === selectedComp
+            ? { ...c, members: result.members, memberEmails: { ...c.memberEmails, [result.uid]: result.email } }
+            : c
+        )
+      )
+      setMemberEmailInput("")
+      setMemberMsg(`${email} added as ${COMP_MEMBER_ROLE_LABELS[memberRoleInput].toLowerCase()}.`)
+    } catch (error) {
+      setMemberMsg(error instanceof Error ? error.message : "Failed to add team member.")
+    } finally {
+      setMemberSaving(false)
+    }
+  }
+
+  const handleRemoveMember = async (uid: string) => {
+    if (!selectedComp) return
+    const label = selectedCompDoc?.memberEmails?.[uid] || uid
+    if (!window.confirm(`Remove ${label} from this competition's team?`)) return
+    setMemberSaving(true)
+    setMemberMsg("")
+    try {
+      const result = await removeCompMember(selectedComp, uid, "speed")
+      setComps((prev) => prev.map((c) => (c.id === selectedComp ? { ...c, members: result.members } : c)))
+      setMemberMsg(`Removed ${label}`)
+    } catch (error) {
+      setMemberMsg(error instanceof Error ? error.message : "Failed to remove team member.")
+    } finally {
+      setMemberSaving(false)
+    }
+  }
+
   const addCategory = async () => {
     if (!selectedComp) {
       setMessage("Select a competition first")
@@ -261,13 +424,57 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
     setCategories(list)
   }
 
+  // Qualification and finals results each move open → provisional → official;
+  // judges can only record runs while the round is open, and official finals
+  // heats can no longer be edited
+  const saveRoundStatus = async (categoryId: string, round: SpeedStatusRound, status: RoundStatus) => {
+    if (!selectedComp) return
+    if (
+      status === "official" &&
+      !confirm(`Mark ${SPEED_STATUS_ROUND_LABELS[round].toLowerCase()} results official? They can no longer be edited until reopened.`)
+    ) {
+      return
+    }
+    try {
+      // The rules only accept the server time as the official stamp
+      await setDoc(
+        doc(firestore, `speedCompetitions/${selectedComp}/categories/${categoryId}`),
+        {
+          roundStatus: { [round]: status },
+          ...(status === "official" ? { roundOfficialAt: { [round]: serverTimestamp() } } : {}),
+          roundStatusUpdatedAt: serverTimestamp(),
+          roundStatusUpdatedBy: user?.id || "unknown",
+        },
+        { merge: true }
+      )
+      setCategories((prev) =>
+        prev.map((cat) =>
+          cat.id === categoryId
+            ? {
+                ...cat,
+                roundStatus: { ...cat.roundStatus, [round]: status },
+                ...(status === "official"
+                  ? { roundOfficialAt: { ...cat.roundOfficialAt, [round]: Timestamp.now() } }
+                  : {}),
+              }
+            : cat
+        )
+      )
+      setMessage(`${SPEED_STATUS_ROUND_LABELS[round]} results marked ${ROUND_STATUS_LABELS[status].toLowerCase()}`)
+    } catch (error) {
+      console.error(error)
+      setMessage("Failed to update results status")
+    }
+  }
+
   const savePasscode = async () => {
     if (!selectedComp) {
       setMessage("Select a competition first")
       return
     }
-    if (passcodeInput.length < 4) {
-      setMessage("Passcode must be at least 4 characters")
+    const passcodeError = judgePasscodeError(passcodeInput)
+    if (passcodeError) {
+      setMessage(passcodeError)
       return
     }
     const res = await fetch("/api/judge-passcode", {
@@ -289,88 +496,97 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
       setMessage("Select a competition first")
       return
     }
+    if (falseStartThresholdMs == null || falseStartThresholdMs < 0 || falseStartThresholdMs > 1000) {
+      setMessage("False start threshold must be between 0 and 1 second")
+      return
+    }
     const ref = doc(firestore, "speedCompetitions", selectedComp)
     await updateDoc(ref, {
       falseStartRule,
+      falseStartThresholdMs,
       timingPrecision,
       updatedAt: serverTimestamp(),
     })
+    setComps((prev) =>
+      prev.map((c) => (c.id === selectedComp ? { ...c, falseStartRule, falseStartThresholdMs, timingPrecision } : c))
+    )
     setMessage("Settings saved")
   }
 
-  const generateFinals = async () => {
+  // Replaces the qualification heats; refused once any run is recorded, since
+  // the judge pad maps runs to lanes by heat order
+  const generateStartlist = async () => {
     if (!selectedComp || !selectedCategory) {
       setMessage("Select a competition and category first")
       return
     }
+    const categoryPath = `speedCompetitions/${selectedComp}/categories/${selectedCategory}`
     try {
-      setFinalsLoading(true)
-      // Load athletes and qualifier results
-      const [athletesSnap, resultsSnap] = await Promise.all([
-        getDocs(collection(firestore, `speedCompetitions/${selectedComp}/categories/${selectedCategory}/athletes`)),
-        getDocs(collection(firestore, `speedCompetitions/${selectedComp}/categories/${selectedCategory}/qualifierResults`)),
+      setStartlistLoading(true)
+      const [athletesSnap, resultsSnap, startlistSnap] = await Promise.all([
+        getDocs(collection(firestore, `${categoryPath}/athletes`)),
+        getDocs(collection(firestore, `${categoryPath}/qualifierResults`)),
+        getDocs(collection(firestore, `${categoryPath}/startlist`)),
       ])
+      const hasResults = resultsSnap.docs.some((d) => {
+        const data = d.data() as SpeedQualifierResult
+        return Boolean(data.runA?.status || data.runB?.status)
+      })
+      if (hasResults) {
+        setMessage("Qualifier results already exist; clear them before regenerating the start list.")
+        return
+      }
       const athleteList: SpeedAthlete[] = athletesSnap.docs.map((d) => ({ id: d.id, ...(d.data() as Partial<SpeedAthlete>) }))
-      const resultsMap = new Map<string, SpeedQualifierResult>()
-      resultsSnap.docs.forEach((d) => resultsMap.set(d.id, d.data() as SpeedQualifierResult))
-
-      const ranked = buildQualifierRanking(athleteList, resultsMap)
-      if (ranked.length < 2) {
-        setMessage("Not enough valid qualifier times to seed finals.")
-        setFinalsLoading(false)
+      if (!athleteList.length) {
+        setMessage("No athletes in this category yet.")
         return
       }
 
-      const size = decideBracketSize(ranked.length)
-      const seeds = ranked.slice(0, size).map((r, idx) => ({ seed: idx + 1, aid: r.id }))
-
-      await clearExistingFinals(firestore, selectedComp, selectedCategory)
-
-      const finalsRef = doc(firestore, `speedCompetitions/${selectedComp}/categories/${selectedCategory}/finals/${DEFAULT_FINALS_ID}`)
+      const heats = generateQualifierHeats(athleteList, startlistDraw)
       const batch = writeBatch(firestore)
-      batch.set(
-        finalsRef,
-        {
-          size,
-          seeds,
-          seedRule: "best-time-of-two",
-          seedVersion: 2,
-          generator: "admin",
+      const heatIds = new Set(heats.map((heat) => String(heat.heatIndex)))
+      startlistSnap.docs.forEach((d) => {
+        if (!heatIds.has(d.id)) batch.delete(d.ref)
+      })
+      heats.forEach((heat) => {
+        batch.set(doc(firestore, `${categoryPath}/startlist`, String(heat.heatIndex)), {
+          ...heat,
+          draw: startlistDraw,
           createdAt: serverTimestamp(),
-        },
-        { merge: true }
-      )
-
-      const firstRoundId = roundIdForSize(size)
-      const roundRef = doc(finalsRef, "rounds", firstRoundId)
-      batch.set(roundRef, { createdAt: serverTimestamp(), seeded: true }, { merge: true })
-
-      pairingsForSize(size).forEach((pair, idx) => {
-        const athleteA = seeds.find((s) => s.seed === pair[0])?.aid || null
-        const athleteB = seeds.find((s) => s.seed === pair[1])?.aid || null
-        const matchRef = doc(roundRef, "matches", `m${idx + 1}`)
-        batch.set(
-          matchRef,
-          {
-            matchIndex: idx + 1,
-            athleteA,
-            athleteB,
-            laneA: null,
-            laneB: null,
-            winner: null,
-            winnerAthlete: null,
-            allowWinnerRun: false,
-            createdAt: serverTimestamp(),
-          },
-          { merge: true }
-        )
+        })
       })
-
       await batch.commit()
-      setMessage(`Finals generated (${size}) ✔`)
+      setMessage(`Start list generated: ${heats.length / 2} heats per run ✔`)
     } catch (error) {
       console.error(error)
-      setMessage("Failed to generate finals")
+      setMessage("Failed to generate start list")
+    } finally {
+      setStartlistLoading(false)
+    }
+  }
+
+  const generateFinals = async () => {
+    if (!selectedComp || !selectedCategory) {
+      setMessage("Select a competition and category first")
+      return
+    }
+    try {
+      setFinalsLoading(true)
+      // Bring the standings up to date, then seed from that frozen version so
+      // results saved while the bracket is drawn cannot change the seeding
+      const { version: seedVersion } = await refreshQualifierStandings(selectedComp, selectedCategory)
+      // The server clears the old bracket and draws the new one in a single
+      // transaction; a fixed size larger than the field gives the top seeds byes
+      const { size } = await drawFinalsBracket(
+        selectedComp,
+        selectedCategory,
+        seedVersion,
+        finalsSize === "auto" ? undefined : finalsSize
+      )
+      setMessage(`Finals generated (${size}) from standings v${seedVersion} ✔`)
+    } catch (error) {
+      console.error(error)
+      setMessage(error instanceof Error ? `Failed to generate finals: ${error.message}` : "Failed to generate finals")
     } finally {
       setFinalsLoading(false)
     }
@@ -379,36 +595,106 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
   const handleSaveMatch = async (roundId: SpeedFinalsRoundId, matchId: string, payload: { athleteA: string | null; athleteB: string | null; laneA: SpeedRunResult; laneB: SpeedRunResult; allowWinnerRun?: boolean }) => {
     if (!selectedComp || !selectedCategory) return
     try {
-      const finalsRef = doc(firestore, `speedCompetitions/${selectedComp}/categories/${selectedCategory}/finals/${DEFAULT_FINALS_ID}`)
-      const matchRef = doc(finalsRef, "rounds", roundId, "matches", matchId)
-      const winner = decideWinner(payload.laneA, payload.laneB, falseStartRule)
-      const winnerAthlete =
-        winner === "A" ? payload.athleteA : winner === "B" ? payload.athleteB : null
+      const { rerun, advancedTo } = await saveFinalsMatch({
+        compId: selectedComp,
+        categoryId: selectedCategory,
+        roundId,
+        matchId,
+        ...payload,
+      })
+      setMessage(
+        rerun
+          ? `False start in ${roundId}/${matchId} • heat to be re-run`
+          : `Saved match ${roundId}/${matchId}${advancedTo ? ` • ${advancedTo} drawn` : ""}`
+      )
+    } catch (error) {
+      console.error(error)
+      setMessage(error instanceof Error ? `Failed to save match: ${error.message}` : "Failed to save match")
+    }
+  }
 
-      await setDoc(
-        matchRef,
+  // Appeals listener
+  useEffect(() => {
+    if (!selectedComp) {
+      setAppeals([])
+      return
+    }
+    const unsub = onSnapshot(
+      collection(firestore, appealsPath("speed", selectedComp)),
+      (snap) => {
+        const list = snap.docs
+          .map((d) => ({ id: d.id, ...d.data() }) as Appeal)
+          .sort((a, b) => b.submittedAtMs - a.submittedAtMs)
+        setAppeals(list)
+      },
+      (error) => {
+        console.error(error)
+        setAppeals([])
+      }
+    )
+    return () => unsub()
+  }, [selectedComp, firestore])
+
+  const appealMatches = useMemo(
+    () =>
+      (finalsRounds[appealRound] || []).filter(
+        (m) => !appealAthlete || m.athleteA === appealAthlete || m.athleteB === appealAthlete
+      ),
+    [finalsRounds, appealRound, appealAthlete]
+  )
+
+  const submitAppeal = async () => {
+    if (!selectedComp || !selectedCategory || !appealAthlete || !appealReason.trim()) {
+      setMessage("Select an athlete and enter the grounds for the appeal")
+      return
+    }
+    const category = categories.find((c) => c.id === selectedCategory)
+    const athlete = athletes.find((a) => a.id === appealAthlete)
+    try {
+      await fileAppeal(
+        firestore,
+        "speed",
+        selectedComp,
         {
-          athleteA: payload.athleteA,
-          athleteB: payload.athleteB,
-          laneA: payload.laneA,
-          laneB: payload.laneB,
-          winner,
-          winnerAthlete,
-          allowWinnerRun: payload.allowWinnerRun ?? false,
-          updatedAt: serverTimestamp(),
+          categoryId: selectedCategory,
+          round: appealRound,
+          athleteId: appealAthlete,
+          athleteLabel: athlete?.name || appealAthlete,
+          matchId: appealRound === "qualification" ? null : appealMatch || null,
+          attemptIds: [],
+          reason: appealReason.trim(),
+          feePaid: appealFeePaid,
+          submittedBy: user?.id || "unknown",
         },
-        { merge: true }
+        // All finals rounds share the finals results status and filing window
+        getRoundOfficialAtMs(category, appealRound === "qualification" ? "qualification" : "finals")
       )
-      await maybeAdvanceBracket({
-        firestore,
-        compId: selectedComp,
-        categoryId: selectedCategory,
-        roundId,
+      setAppealReason("")
+      setAppealFeePaid(false)
+      setAppealMatch("")
+      setMessage("Appeal filed")
+    } catch (error) {
+      console.error(error)
+      setMessage(error instanceof Error ? error.message : "Failed to file appeal")
+    }
+  }
+
+  const setAppealStatus = async (appeal: Appeal, status: Appeal["status"]) => {
+    if (!selectedComp) return
+    const decisionNote = (decisionNotes[appeal.id] || "").trim()
+    if ((status === "upheld" || status === "rejected") && !decisionNote) {
+      setMessage("Add a decision note before deciding the appeal")
+      return
+    }
+    try {
+      await updateAppealStatus(firestore, "speed", selectedComp, appeal.id, status, {
+        actorUid: user?.id || "unknown",
+        ...(decisionNote ? { decisionNote } : {}),
       })
-      setMessage(`Saved match ${roundId}/${matchId}`)
+      setMessage(`Appeal ${APPEAL_STATUS_LABELS[status].toLowerCase()}`)
     } catch (error) {
       console.error(error)
-      setMessage("Failed to save match")
+      setMessage("Failed to update appeal")
     }
   }
 
@@ -501,7 +787,7 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
               />
             </div>
           </div>
-          <div className="grid gap-3 md:grid-cols-2">
+          <div className="grid gap-3 md:grid-cols-3">
             <div>
               <label className="text-sm text-muted-foreground">False start rule</label>
               <select
@@ -509,10 +795,24 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
                 value={falseStartRule}
                 onChange={(e) => setFalseStartRule(e.target.value as SpeedFalseStartRule)}
               >
-                <option value="IFSC">IFSC (Run A FS → Run B DNS)</option>
-                <option value="TOLERANT">Tolerant</option>
+                {SPEED_FALSE_START_RULES.map((rule) => (
+                  <option key={rule} value={rule}>
+                    {SPEED_FALSE_START_RULE_LABELS[rule]}
+                  </option>
+                ))}
               </select>
             </div>
+            <div>
+              <label className="text-sm text-muted-foreground">False start threshold (s)</label>
+              <input
+                className="mt-1 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+                type="text"
+                inputMode="decimal"
+                placeholder="0.100"
+                value={falseStartThreshold}
+                onChange={(e) => setFalseStartThreshold(e.target.value)}
+              />
+            </div>
             <div>
               <label className="text-sm text-muted-foreground">Timing precision</label>
               <select
@@ -538,7 +838,7 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
             </div>
           </div>
 
-          <div className="grid gap-3 md:grid-cols-3">
+          <div className="grid gap-3 md:grid-cols-4">
             <div>
               <label className="text-sm text-muted-foreground">Competition</label>
               <select
@@ -563,10 +863,25 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
                 onChange={(e) => setFalseStartRule(e.target.value as SpeedFalseStartRule)}
                 disabled={!selectedComp}
               >
-                <option value="IFSC">IFSC</option>
-                <option value="TOLERANT">Tolerant</option>
+                {SPEED_FALSE_START_RULES.map((rule) => (
+                  <option key={rule} value={rule}>
+                    {SPEED_FALSE_START_RULE_LABELS[rule]}
+                  </option>
+                ))}
               </select>
             </div>
+            <div>
+              <label className="text-sm text-muted-foreground">False start threshold (s)</label>
+              <input
+                className="mt-1 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+                type="text"
+                inputMode="decimal"
+                placeholder="0.100"
+                value={falseStartThreshold}
+                onChange={(e) => setFalseStartThreshold(e.target.value)}
+                disabled={!selectedComp}
+              />
+            </div>
             <div>
               <label className="text-sm text-muted-foreground">Timing precision</label>
               <select
@@ -609,7 +924,26 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
                   {categories.map((cat) => (
                     <li key={cat.id} className="flex items-center justify-between rounded-lg border border-border bg-card/40 px-3 py-2">
                       <span>{cat.name || cat.id}</span>
-                      <span className="text-xs text-muted-foreground">Order {cat.order ?? "–"}</span>
+                      <div className="flex items-center gap-3">
+                        {SPEED_STATUS_ROUNDS.map((round) => (
+                          <label key={round} className="flex items-center gap-1 text-xs text-muted-foreground">
+                            {SPEED_STATUS_ROUND_LABELS[round]}
+                            <select
+                              className="rounded-lg border border-border bg-input px-2 py-1 text-xs text-foreground focus:border-ring focus:outline-none"
+                              value={getRoundStatus(cat, round)}
+                              onChange={(e) => saveRoundStatus(cat.id, round, e.target.value as RoundStatus)}
+                              title={`${SPEED_STATUS_ROUND_LABELS[round]} results status`}
+                            >
+                              {ROUND_STATUSES.map((status) => (
+                                <option key={status} value={status}>
+                                  {ROUND_STATUS_LABELS[status]}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                        ))}
+                        <span className="text-xs text-muted-foreground">Order {cat.order ?? "–"}</span>
+                      </div>
                     </li>
                   ))}
                 </ul>
@@ -631,6 +965,52 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
               </Button>
             </div>
           </div>
+
+          {selectedCompDoc && (
+            <CompTeamPanel
+              comp={selectedCompDoc}
+              canEdit={canEditCompMembers(selectedCompDoc, user?.id, role)}
+              emailInput={memberEmailInput}
+              roleInput={memberRoleInput}
+              saving={memberSaving}
+              message={memberMsg}
+              onEmailChange={setMemberEmailInput}
+              onRoleChange={setMemberRoleInput}
+              onAdd={handleAddMember}
+              onRemove={handleRemoveMember}
+              roles={SPEED_MEMBER_ROLES}
+            />
+          )}
+        </section>
+
+        <section className="rounded-2xl border border-border bg-panel p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-semibold">Qualification start list</h2>
+              <p className="text-sm text-muted-foreground">
+                Pair athletes into heats; the second run swaps lanes. Regenerating is only possible before any results exist.
+              </p>
+            </div>
+            <div className="flex gap-2 flex-wrap">
+              <select
+                className="rounded-xl border border-border bg-input px-4 py-2 text-sm text-foreground focus:border-ring focus:outline-none"
+                value={startlistDraw}
+                onChange={(e) => setStartlistDraw(e.target.value as StartlistDraw)}
+                title="Start order"
+              >
+                <option value="order">Order: athlete order</option>
+                <option value="random">Order: random draw</option>
+              </select>
+              <Button onClick={generateStartlist} disabled={!selectedComp || !selectedCategory || startlistLoading}>
+                {startlistHeatCount ? "Regenerate start list" : "Generate start list"}
+              </Button>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {startlistHeatCount
+              ? `${startlistHeatCount} heats across both runs for ${athletes.length} athletes.`
+              : "No start list yet."}
+          </p>
         </section>
 
         <section className="rounded-2xl border border-border bg-panel p-6 space-y-4">
@@ -640,9 +1020,33 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
               <p className="text-sm text-muted-foreground">
                 Generate finals from qualifier standings and edit matches.
               </p>
+              {selectedFinalsStatus === "official" && (
+                <p className="text-sm text-amber-300">
+                  Finals results are official. Reopen finals in the category list to redraw or edit matches.
+                </p>
+              )}
             </div>
             <div className="flex gap-2 flex-wrap">
-              <Button onClick={generateFinals} disabled={!selectedComp || !selectedCategory || finalsLoading}>
+              <select
+                className="rounded-xl border border-border bg-input px-4 py-2 text-sm text-foreground focus:border-ring focus:outline-none"
+                value={finalsSize}
+                onChange={(e) => {
+                  const value = Number(e.target.value)
+                  setFinalsSize(isFinalsSize(value) ? value : "auto")
+                }}
+                title="Finals size"
+              >
+                <option value="auto">Size: fit to field</option>
+                {FINALS_SIZES.map((size) => (
+                  <option key={size} value={size}>
+                    Size: {size}
+                  </option>
+                ))}
+              </select>
+              <Button
+                onClick={generateFinals}
+                disabled={!selectedComp || !selectedCategory || finalsLoading || selectedFinalsStatus === "official"}
+              >
                 Generate finals from qualifiers
               </Button>
               <Button
@@ -662,6 +1066,9 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
               <p className="text-sm text-muted-foreground">
                 Size: {String((finalsMeta as { size?: number }).size || "?")} • Seed rule:{" "}
                 {(finalsMeta as { seedRule?: string }).seedRule || "best-time-of-two"}
+                {typeof (finalsMeta as { seedVersion?: unknown }).seedVersion === "number"
+                  ? ` • Standings v${(finalsMeta as { seedVersion: number }).seedVersion}`
+                  : ""}
               </p>
               {renderFinalsRounds({
                 finalsMeta,
@@ -669,6 +1076,7 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
                 athletes,
                 timingPrecision,
                 falseStartRule,
+                falseStartThresholdMs: parseFalseStartThresholdMs(falseStartThresholdMs),
                 onSaveMatch: handleSaveMatch,
               })}
             </div>
@@ -677,6 +1085,123 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
           )}
         </section>
 
+        <section className="rounded-2xl border border-border bg-panel p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold">Appeals</h2>
+            <p className="text-sm text-muted-foreground">
+              Record athlete protests for the selected category. Upheld finals appeals point at the match to correct.
+            </p>
+          </div>
+          <div className="grid gap-3 md:grid-cols-4">
+            <select
+              className="rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+              value={appealAthlete}
+              onChange={(e) => setAppealAthlete(e.target.value)}
+              disabled={!selectedCategory}
+            >
+              <option value="">Athlete</option>
+              {athletes.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name || a.id}
+                </option>
+              ))}
+            </select>
+            <select
+              className="rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+              value={appealRound}
+              onChange={(e) => {
+                setAppealRound(e.target.value)
+                setAppealMatch("")
+              }}
+            >
+              <option value="qualification">Qualification</option>
+              {Object.keys(finalsRounds).map((rid) => (
+                <option key={rid} value={rid}>
+                  Finals {rid}
+                </option>
+              ))}
+            </select>
+            <select
+              className="rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+              value={appealMatch}
+              onChange={(e) => setAppealMatch(e.target.value)}
+              disabled={appealRound === "qualification"}
+            >
+              <option value="">Match</option>
+              {appealMatches.map((m) => (
+                <option key={m.id} value={m.id}>
+                  Match {m.matchIndex ?? m.id}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input type="checkbox" checked={appealFeePaid} onChange={(e) => setAppealFeePaid(e.target.checked)} />
+              Fee paid
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <input
+              className="flex-1 rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+              placeholder="Grounds for the appeal"
+              value={appealReason}
+              onChange={(e) => setAppealReason(e.target.value)}
+            />
+            <Button onClick={submitAppeal} disabled={!selectedCategory || !appealAthlete || !appealReason.trim()}>
+              File appeal
+            </Button>
+          </div>
+          {appeals.length ? (
+            <ul className="space-y-2">
+              {appeals.map((appeal) => (
+                <li key={appeal.id} className="rounded-lg border border-border bg-card/40 px-3 py-2 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <span>
+                      <span className="font-semibold">{appeal.athleteLabel || appeal.athleteId}</span>
+                      {" · "}
+                      {categories.find((c) => c.id === appeal.categoryId)?.name || appeal.categoryId}
+                      {" · "}
+                      {appeal.round === "qualification" ? "Qualification" : `Finals ${appeal.round}`}
+                      {appeal.matchId ? ` / ${appeal.matchId}` : ""}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {APPEAL_STATUS_LABELS[appeal.status]} · {appeal.feePaid ? "Fee paid" : "Fee not paid"}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">{appeal.reason}</p>
+                  {isAppealOpen(appeal.status) ? (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        className="flex-1 rounded-lg border border-border bg-input px-3 py-2 text-sm text-foreground focus:border-ring focus:outline-none"
+                        placeholder="Decision note"
+                        value={decisionNotes[appeal.id] || ""}
+                        onChange={(e) => setDecisionNotes((prev) => ({ ...prev, [appeal.id]: e.target.value }))}
+                      />
+                      {appeal.status === "submitted" ? (
+                        <Button variant="secondary" className="bg-card text-foreground hover:bg-card/80" onClick={() => setAppealStatus(appeal, "under_review")}>
+                          Review
+                        </Button>
+                      ) : (
+                        <>
+                          <Button variant="secondary" className="bg-card text-foreground hover:bg-card/80" onClick={() => setAppealStatus(appeal, "upheld")}>
+                            Uphold
+                          </Button>
+                          <Button variant="secondary" className="bg-card text-foreground hover:bg-card/80" onClick={() => setAppealStatus(appeal, "rejected")}>
+                            Reject
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ) : appeal.decisionNote ? (
+                    <p className="text-xs text-muted-foreground">Decision: {appeal.decisionNote}</p>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No appeals filed.</p>
+          )}
+        </section>
+
         <section className="rounded-2xl border border-border bg-panel p-6 space-y-3">
           <h2 className="text-lg font-semibold">Judge passcode</h2>
           <p className="text-sm text-muted-foreground">
@@ -696,16 +1221,17 @@ function AdminInterface({ firestore }: { firestore: Firestore }) {
               <label className="text-sm text-muted-foreground">New passcode</label>
               <input
                 className="mt-1 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
-                placeholder="****"
+                placeholder={`At least ${JUDGE_PASSCODE_MIN_LENGTH} characters`}
                 value={passcodeInput}
                 onChange={(e) => setPasscodeInput(e.target.value)}
                 disabled={!selectedComp}
               />
             </div>
           </div>
-          <Button onClick={savePasscode} disabled={!selectedComp || passcodeInput.length < 4}>
+          <Button onClick={savePasscode} disabled={!selectedComp || passcodeInput.length < JUDGE_PASSCODE_MIN_LENGTH}>
             Save passcode
           </Button>
+          {selectedComp && <PasscodeFailures compPath={`speedCompetitions/${selectedComp}`} />}
         </section>
 
         {message ? <p className="text-sm text-muted-foreground">{message}</p> : null}
@@ -741,181 +1267,13 @@ function timestampValue(input: unknown): number {
   return 0
 }
 
-function buildQualifierRanking(
-  athletes: SpeedAthlete[],
-  results: Map<string, SpeedQualifierResult>
-) {
-  const rows = athletes
-    .map((athlete) => {
-      const res = results.get(athlete.id)
-      const times: number[] = []
-      if (res?.runA?.status === "TIME" && typeof res.runA.ms === "number") times.push(res.runA.ms)
-      if (res?.runB?.status === "TIME" && typeof res.runB.ms === "number") times.push(res.runB.ms)
-      times.sort((a, b) => a - b)
-      const bestMs = times[0] ?? null
-      const secondMs = times[1] ?? null
-      return { id: athlete.id, name: athlete.name || athlete.id, bestMs, secondMs }
-    })
-    .filter((row) => row.bestMs != null)
-    .sort((a, b) => (a.bestMs! - b.bestMs!) || ((a.secondMs ?? Infinity) - (b.secondMs ?? Infinity)) || a.name.localeCompare(b.name))
-  return rows
-}
-
-function decideBracketSize(validCount: number) {
-  if (validCount >= 16) return 16
-  if (validCount >= 8) return 8
-  if (validCount >= 4) return 4
-  return 2
-}
-
-function roundIdForSize(size: number) {
-  if (size === 16) return "R16"
-  if (size === 8) return "QF"
-  if (size === 4) return "SF"
-  return "F"
-}
-
-function pairingsForSize(size: number) {
-  if (size === 16) return [[1, 16], [8, 9], [4, 13], [5, 12], [2, 15], [7, 10], [3, 14], [6, 11]]
-  if (size === 8) return [[1, 8], [4, 5], [2, 7], [3, 6]]
-  if (size === 4) return [[1, 4], [2, 3]]
-  if (size === 2) return [[1, 2]]
-  return []
-}
-
-function decideWinner(
-  laneA: SpeedRunResult | null | undefined,
-  laneB: SpeedRunResult | null | undefined,
-  falseStartRule: SpeedFalseStartRule
-): "A" | "B" | null {
-  const isTimeA = laneA?.status === "TIME" && typeof laneA.ms === "number"
-  const isTimeB = laneB?.status === "TIME" && typeof laneB.ms === "number"
-
-  if (falseStartRule === "IFSC") {
-    if (laneA?.status === "FS" && laneB?.status !== "FS") return "B"
-    if (laneB?.status === "FS" && laneA?.status !== "FS") return "A"
-  }
-
-  if (isTimeA && !isTimeB) return "A"
-  if (isTimeB && !isTimeA) return "B"
-  if (isTimeA && isTimeB) return (laneA!.ms! <= laneB!.ms! ? "A" : "B")
-
-  return null
-}
-
-async function clearExistingFinals(firestore: Firestore, compId: string, categoryId: string) {
-  const finalsRef = doc(firestore, `speedCompetitions/${compId}/categories/${categoryId}/finals/${DEFAULT_FINALS_ID}`)
-  const roundsSnap = await getDocs(collection(finalsRef, "rounds"))
-  for (const roundDoc of roundsSnap.docs) {
-    const matchesSnap = await getDocs(collection(roundDoc.ref, "matches"))
-    for (const match of matchesSnap.docs) {
-      await deleteDoc(match.ref)
-    }
-    await deleteDoc(roundDoc.ref)
-  }
-  await deleteDoc(finalsRef)
-}
-
-async function maybeAdvanceBracket({
-  firestore,
-  compId,
-  categoryId,
-  roundId,
-}: {
-  firestore: Firestore
-  compId: string
-  categoryId: string
-  roundId: SpeedFinalsRoundId
-}) {
-  const nextMap: Record<string, SpeedFinalsRoundId | undefined> = { R16: "QF", QF: "SF", SF: "F" }
-  const next = nextMap[roundId]
-  if (!next) return
-
-  const finalsRef = doc(firestore, `speedCompetitions/${compId}/categories/${categoryId}/finals/${DEFAULT_FINALS_ID}`)
-  const curMatchesSnap = await getDocs(collection(finalsRef, "rounds", roundId, "matches"))
-  const matches = curMatchesSnap.docs
-    .map((m) => ({ id: m.id, ...(m.data() as FinalsMatch) }))
-    .sort((a, b) => (a.matchIndex || 0) - (b.matchIndex || 0))
-
-  const winAid = (m: FinalsMatch) => (m.winner === "A" ? m.athleteA : m.winner === "B" ? m.athleteB : null)
-  const loseAid = (m: FinalsMatch) => (m.winner === "A" ? m.athleteB : m.winner === "B" ? m.athleteA : null)
-
-  if (!matches.length || matches.some((m) => m.winner !== "A" && m.winner !== "B")) return
-
-  const batch = writeBatch(firestore)
-  const nextRoundRef = doc(finalsRef, "rounds", next)
-  batch.set(nextRoundRef, { createdAt: serverTimestamp() }, { merge: true })
-
-  if (roundId === "SF" && next === "F") {
-    const winners = [winAid(matches[0]), winAid(matches[1])]
-    const losers = [loseAid(matches[0]), loseAid(matches[1])]
-
-    const smallRef = doc(nextRoundRef, "matches", "m1")
-    batch.set(
-      smallRef,
-      {
-        matchIndex: 1,
-        athleteA: losers[0] || null,
-        athleteB: losers[1] || null,
-        laneA: null,
-        laneB: null,
-        winner: null,
-        winnerAthlete: null,
-        allowWinnerRun: false,
-        createdAt: serverTimestamp(),
-      },
-      { merge: true }
-    )
-
-    const bigRef = doc(nextRoundRef, "matches", "m2")
-    batch.set(
-      bigRef,
-      {
-        matchIndex: 2,
-        athleteA: winners[0] || null,
-        athleteB: winners[1] || null,
-        laneA: null,
-        laneB: null,
-        winner: null,
-        winnerAthlete: null,
-        allowWinnerRun: false,
-        createdAt: serverTimestamp(),
-      },
-      { merge: true }
-    )
-  } else {
-    for (let i = 0, mi = 1; i < matches.length; i += 2, mi += 1) {
-      const a = matches[i]
-      const b = matches[i + 1]
-      if (!a || !b) continue
-      const mRef = doc(nextRoundRef, "matches", `m${mi}`)
-      batch.set(
-        mRef,
-        {
-          matchIndex: mi,
-          athleteA: winAid(a) || null,
-          athleteB: winAid(b) || null,
-          laneA: null,
-          laneB: null,
-          winner: null,
-          winnerAthlete: null,
-          allowWinnerRun: false,
-          createdAt: serverTimestamp(),
-        },
-        { merge: true }
-      )
-    }
-  }
-
-  await batch.commit()
-}
-
 function renderFinalsRounds({
   finalsMeta,
   finalsRounds,
   athletes,
   timingPrecision,
   falseStartRule,
+  falseStartThresholdMs,
   onSaveMatch,
 }: {
   finalsMeta: Record<string, unknown> | null
@@ -923,10 +1281,11 @@ function renderFinalsRounds({
   athletes: SpeedAthlete[]
   timingPrecision: SpeedTimingPrecision
   falseStartRule: SpeedFalseStartRule
+  falseStartThresholdMs: number
   onSaveMatch: (roundId: SpeedFinalsRoundId, matchId: string, payload: { athleteA: string | null; athleteB: string | null; laneA: SpeedRunResult; laneB: SpeedRunResult; allowWinnerRun?: boolean }) => void
 }) {
   const size = (finalsMeta as { size?: number } | null)?.size || 0
-  const order = size ? (size === 16 ? ["R16", "QF", "SF", "F"] : size === 8 ? ["QF", "SF", "F"] : size === 4 ? ["SF", "F"] : ["F"]) : Object.keys(finalsRounds)
+  const order = size ? bracketOrder(size) : Object.keys(finalsRounds)
   return (
     <div className="space-y-4">
       {order.map((rid) => (
@@ -940,12 +1299,13 @@ function renderFinalsRounds({
           <div className="grid gap-3 md:grid-cols-2">
             {(finalsRounds[rid] || []).map((match) => (
               <FinalsMatchCard
-                key={match.id || match.matchIndex}
+                key={`${match.id || match.matchIndex}-${match.falseStartReruns || 0}`}
                 match={match}
                 roundId={rid}
                 athletes={athletes}
                 timingPrecision={timingPrecision}
                 falseStartRule={falseStartRule}
+                falseStartThresholdMs={falseStartThresholdMs}
                 onSave={onSaveMatch}
               />
             ))}
@@ -962,6 +1322,7 @@ function FinalsMatchCard({
   athletes,
   timingPrecision,
   falseStartRule,
+  falseStartThresholdMs,
   onSave,
 }: {
   match: FinalsMatch
@@ -969,6 +1330,7 @@ function FinalsMatchCard({
   athletes: SpeedAthlete[]
   timingPrecision: SpeedTimingPrecision
   falseStartRule: SpeedFalseStartRule
+  falseStartThresholdMs: number
   onSave: (roundId: SpeedFinalsRoundId, matchId: string, payload: { athleteA: string | null; athleteB: string | null; laneA: SpeedRunResult; laneB: SpeedRunResult; allowWinnerRun?: boolean }) => void
 }) {
   const [athleteA, setAthleteA] = useState(match.athleteA || "")
@@ -985,6 +1347,8 @@ function FinalsMatchCard({
       ? (match.laneB.ms / 1000).toFixed(timingPrecision === "ms2" ? 2 : 3)
       : ""
   )
+  const [reactionA, setReactionA] = useState(formatReactionMs(match.laneA?.reactionMs))
+  const [reactionB, setReactionB] = useState(formatReactionMs(match.laneB?.reactionMs))
   const [allowWinnerRun, setAllowWinnerRun] = useState(Boolean(match.allowWinnerRun))
 
   useEffect(() => {
@@ -1002,6 +1366,8 @@ function FinalsMatchCard({
         ? (match.laneB.ms / 1000).toFixed(timingPrecision === "ms2" ? 2 : 3)
         : ""
     )
+    setReactionA(formatReactionMs(match.laneA?.reactionMs))
+    setReactionB(formatReactionMs(match.laneB?.reactionMs))
     setAllowWinnerRun(Boolean(match.allowWinnerRun))
   }, [match, timingPrecision])
 
@@ -1014,8 +1380,16 @@ function FinalsMatchCard({
   }
 
   const handleSave = () => {
-    const laneA: SpeedRunResult = { status: statusA, ms: statusA === "TIME" ? parseMs(timeA) : null }
-    const laneB: SpeedRunResult = { status: statusB, ms: statusB === "TIME" ? parseMs(timeB) : null }
+    const laneA: SpeedRunResult = {
+      status: statusA,
+      ms: statusA === "TIME" ? parseMs(timeA) : null,
+      reactionMs: parseMs(reactionA),
+    }
+    const laneB: SpeedRunResult = {
+      status: statusB,
+      ms: statusB === "TIME" ? parseMs(timeB) : null,
+      reactionMs: parseMs(reactionB),
+    }
     // Auto-clear times when status is not TIME
     if (statusA !== "TIME") laneA.ms = null
     if (statusB !== "TIME") laneB.ms = null
@@ -1029,8 +1403,16 @@ function FinalsMatchCard({
   }
 
   const currentWinner = decideWinner(
-    statusA === "TIME" ? { status: statusA, ms: parseMs(timeA) } : { status: statusA, ms: null },
-    statusB === "TIME" ? { status: statusB, ms: parseMs(timeB) } : { status: statusB, ms: null },
+    withReactionFalseStart(
+      { status: statusA, ms: statusA === "TIME" ? parseMs(timeA) : null, reactionMs: parseMs(reactionA) },
+      falseStartThresholdMs,
+      falseStartRule
+    ),
+    withReactionFalseStart(
+      { status: statusB, ms: statusB === "TIME" ? parseMs(timeB) : null, reactionMs: parseMs(reactionB) },
+      falseStartThresholdMs,
+      falseStartRule
+    ),
     falseStartRule
   )
 
@@ -1054,7 +1436,7 @@ function FinalsMatchCard({
             </option>
           ))}
         </select>
-        <div className="grid grid-cols-[1fr_auto] gap-2">
+        <div className="grid grid-cols-[1fr_auto_auto] gap-2">
           <select
             className="w-full rounded-lg border border-border bg-input px-3 py-2 text-sm text-foreground"
             value={statusA}
@@ -1074,6 +1456,15 @@ function FinalsMatchCard({
             onChange={(e) => setTimeA(e.target.value)}
             disabled={statusA !== "TIME"}
           />
+          <input
+            className="w-20 rounded-lg border border-border bg-input px-3 py-2 text-sm text-foreground"
+            type="text"
+            inputMode="decimal"
+            placeholder="RT"
+            value={reactionA}
+            onChange={(e) => setReactionA(e.target.value)}
+            aria-label="Lane A reaction time"
+          />
         </div>
       </div>
       <div className="space-y-2">
@@ -1090,7 +1481,7 @@ function FinalsMatchCard({
             </option>
           ))}
         </select>
-        <div className="grid grid-cols-[1fr_auto] gap-2">
+        <div className="grid grid-cols-[1fr_auto_auto] gap-2">
           <select
             className="w-full rounded-lg border border-border bg-input px-3 py-2 text-sm text-foreground"
             value={statusB}
@@ -1110,6 +1501,15 @@ function FinalsMatchCard({
             onChange={(e) => setTimeB(e.target.value)}
             disabled={statusB !== "TIME"}
           />
+          <input
+            className="w-20 rounded-lg border border-border bg-input px-3 py-2 text-sm text-foreground"
+            type="text"
+            inputMode="decimal"
+            placeholder="RT"
+            value={reactionB}
+            onChange={(e) => setReactionB(e.target.value)}
+            aria-label="Lane B reaction time"
+          />
         </div>
       </div>
       {roundId === "F" && match.matchIndex === 2 ? (
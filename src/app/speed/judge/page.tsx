@@ -7,6 +7,7 @@ import AccessDenied from "@/components/AccessDenied"
 import Container from "@/components/Container"
 import { firestore } from "@/lib/firebase/client"
 import { useJudgePasscodeSession } from "@/hooks/useJudgePasscodeSession"
+import { useTimingBridge } from "@/hooks/useTimingBridge"
 import {
   collection,
   doc,
@@ -21,9 +22,23 @@ import {
   type Unsubscribe,
 } from "firebase/firestore"
 import { Button } from "@/components/ui/button"
+import { FINALS_ROUND_IDS } from "@/lib/speed/bracket"
+import { decideWinner } from "@/lib/speed/finals"
+import { saveFinalsMatch } from "@/lib/speed/finalsApi"
+import { refreshQualifierStandings } from "@/lib/speed/standingsApi"
+import { laneResultFromReading, type LaneReading } from "@/lib/speed/timing"
+import {
+  DEFAULT_FALSE_START_THRESHOLD_MS,
+  SPEED_FALSE_START_RULE_LABELS,
+  falseStartEliminates,
+  formatReactionMs,
+  parseFalseStartRule,
+  parseFalseStartThresholdMs,
+  withReactionFalseStart,
+  type SpeedFalseStartRule,
+} from "@/lib/speed/scoring"
 
 type SpeedTimingPrecision = "ms2" | "ms3"
-type SpeedFalseStartRule = "IFSC" | "TOLERANT"
 
 interface SpeedCompetition {
   id: string
@@ -59,6 +74,7 @@ type SpeedRunStatus = "TIME" | "FS" | "DNS" | "DNF"
 interface SpeedRunResult {
   status?: SpeedRunStatus | null
   ms?: number | null
+  reactionMs?: number | null
 }
 
 interface SpeedQualifierResult {
@@ -66,6 +82,18 @@ interface SpeedQualifierResult {
   runB?: SpeedRunResult
 }
 
+interface FinalsMatch {
+  id: string
+  matchIndex?: number
+  athleteA?: string | null
+  athleteB?: string | null
+  laneA?: SpeedRunResult | null
+  laneB?: SpeedRunResult | null
+  winner?: "A" | "B" | null
+  bye?: boolean
+  falseStartReruns?: number | null
+}
+
 type JudgeAuthState = ReturnType<typeof useJudgePasscodeSession>
 
 export default function SpeedJudgePage() {
@@ -102,11 +130,18 @@ function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; f
   const [startlistLoading, setStartlistLoading] = useState(false)
   const [athletes, setAthletes] = useState<SpeedAthlete[]>([])
   const [results, setResults] = useState<Map<string, SpeedQualifierResult>>(new Map())
+  const [finalsRounds, setFinalsRounds] = useState<Record<string, FinalsMatch[]>>({})
+  const [finalsRound, setFinalsRound] = useState("")
+  const [finalsNotice, setFinalsNotice] = useState("")
+  const [timingTarget, setTimingTarget] = useState("")
+  const [timingSaving, setTimingSaving] = useState(false)
 
   const [falseStartRule, setFalseStartRule] = useState<SpeedFalseStartRule>("IFSC")
+  const [falseStartThresholdMs, setFalseStartThresholdMs] = useState(DEFAULT_FALSE_START_THRESHOLD_MS)
   const [timingPrecision, setTimingPrecision] = useState<SpeedTimingPrecision>("ms3")
 
   const effectTokenRef = useRef(0)
+  const timing = useTimingBridge(falseStartThresholdMs)
 
   // Load competitions
   useEffect(() => {
@@ -171,8 +206,13 @@ function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; f
         } else if (selectedCategory && !cats.find((c) => c.id === selectedCategory)) {
           setSelectedCategory(cats[0]?.id || "")
         }
-        const compData = (compSnap.data() || {}) as { falseStartRule?: string; timingPrecision?: string }
-        setFalseStartRule(compData.falseStartRule === "TOLERANT" ? "TOLERANT" : "IFSC")
+        const compData = (compSnap.data() || {}) as {
+          falseStartRule?: string
+          falseStartThresholdMs?: number
+          timingPrecision?: string
+        }
+        setFalseStartRule(parseFalseStartRule(compData.falseStartRule))
+        setFalseStartThresholdMs(parseFalseStartThresholdMs(compData.falseStartThresholdMs))
         setTimingPrecision(compData.timingPrecision === "ms2" ? "ms2" : "ms3")
       } catch (error) {
         console.error(error)
@@ -270,6 +310,75 @@ function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; f
     }
   }, [selectedComp, selectedCategory, firestore])
 
+  // Finals heats, entered through /api/speed/finals so the bracket advances server-side
+  useEffect(() => {
+    if (!selectedComp || !selectedCategory) {
+      setFinalsRounds({})
+      return
+    }
+    const roundsRef = collection(
+      firestore,
+      `speedCompetitions/${selectedComp}/categories/${selectedCategory}/finals/default/rounds`
+    )
+    let matchUnsubs: Unsubscribe[] = []
+    const unsubRounds = onSnapshot(roundsRef, (roundSnap) => {
+      matchUnsubs.forEach((fn) => fn())
+      matchUnsubs = []
+      setFinalsRounds({})
+      roundSnap.docs.forEach((roundDoc) => {
+        matchUnsubs.push(
+          onSnapshot(collection(roundDoc.ref, "matches"), (matchSnap) => {
+            const matches: FinalsMatch[] = matchSnap.docs
+              .map((m) => ({ id: m.id, ...(m.data() as Omit<FinalsMatch, "id">) }))
+              .sort((a, b) => (a.matchIndex || 0) - (b.matchIndex || 0))
+            setFinalsRounds((prev) => ({ ...prev, [roundDoc.id]: matches }))
+          })
+        )
+      })
+    })
+    return () => {
+      unsubRounds()
+      matchUnsubs.forEach((fn) => fn())
+    }
+  }, [selectedComp, selectedCategory, firestore])
+
+  const finalsRoundIds = useMemo(
+    () => FINALS_ROUND_IDS.filter((rid) => finalsRounds[rid]?.length),
+    [finalsRounds]
+  )
+
+  // Follow the bracket: default to the latest round that has been drawn
+  useEffect(() => {
+    setFinalsRound((current) =>
+      current && finalsRoundIds.includes(current as (typeof FINALS_ROUND_IDS)[number])
+        ? current
+        : finalsRoundIds[finalsRoundIds.length - 1] || ""
+    )
+  }, [finalsRoundIds])
+
+  // Run A/B per lane of each qualifier heat, using the same first/second
+  // appearance rule as the heats table
+  const heatRunKeys = useMemo(() => {
+    const seen = new Map<string, number>()
+    const keyFor = (aid: string | null) => {
+      if (!aid) return "runA" as const
+      const count = seen.get(aid) || 0
+      seen.set(aid, count + 1)
+      return count === 0 ? ("runA" as const) : ("runB" as const)
+    }
+    const map = new Map<number, { a: "runA" | "runB"; b: "runA" | "runB" }>()
+    startlist.forEach((row) => map.set(row.heatIndex, { a: keyFor(row.laneA), b: keyFor(row.laneB) }))
+    return map
+  }, [startlist])
+
+  // Timers that label their heats pick the matching qualifier heat
+  useEffect(() => {
+    const heat = Number(timing.readings.heat)
+    if (heat && startlist.some((row) => row.heatIndex === heat)) {
+      setTimingTarget(`q:${heat}`)
+    }
+  }, [timing.readings.heat, startlist])
+
   const compLocked = session?.authType === "judge-passcode" && Boolean(session.compId)
 
   const laneLabel = useMemo(() => {
@@ -305,25 +414,34 @@ function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; f
     runKey,
     status,
     msInput,
+    reactionMs,
   }: {
     athleteId: string
     runKey: "runA" | "runB"
     status: SpeedRunStatus
     msInput: string
+    // Omitted to keep the stored reaction time
+    reactionMs?: number | null
   }) => {
     try {
       const ms = status === "TIME" ? parseMs(msInput) : null
-      const base = {
-        status,
-        ms: status === "TIME" && ms != null ? ms : null,
-      }
+      // A reaction under the competition's threshold is a false start
+      const base = withReactionFalseStart(
+        {
+          status,
+          ms: status === "TIME" && ms != null ? ms : null,
+          ...(reactionMs !== undefined ? { reactionMs } : {}),
+        },
+        falseStartThresholdMs,
+        falseStartRule
+      )
       const payload: Record<string, unknown> = {
         updatedAt: serverTimestamp(),
         compId: selectedComp,
         categoryId: selectedCategory,
         [runKey]: base,
       }
-      if (falseStartRule === "IFSC" && runKey === "runA" && status === "FS") {
+      if (falseStartEliminates(falseStartRule) && runKey === "runA" && base.status === "FS") {
         const existing = results.get(athleteId)
         const runB = existing?.runB || {}
         payload.runB = runB.status ? runB : { status: "DNS", ms: null }
@@ -334,12 +452,92 @@ function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; f
       )
       await setDoc(ref, payload, { merge: true })
       setAuthNotice(`Saved ${athleteId}`)
+      // The leaderboard and finals seeding read the materialized standings
+      refreshQualifierStandings(selectedComp, selectedCategory).catch((error) => {
+        console.error(error)
+        setAuthNotice(`Saved ${athleteId} • standings not refreshed`)
+      })
     } catch (error) {
       console.error(error)
       setAuthNotice("Save failed")
     }
   }
 
+  const onSaveReaction = (athleteId: string, runKey: "runA" | "runB", input: string) => {
+    const existing = results.get(athleteId)?.[runKey]
+    const reactionMs = parseMs(input)
+    if (reactionMs === (existing?.reactionMs ?? null)) return
+    onSaveRun({
+      athleteId,
+      runKey,
+      status: existing?.status || "TIME",
+      msInput: existing?.ms != null ? String(existing.ms / 1000) : "",
+      reactionMs,
+    })
+  }
+
+  const onSaveFinalsMatch = async (matchId: string, laneA: SpeedRunResult, laneB: SpeedRunResult) => {
+    if (!selectedComp || !selectedCategory || !finalsRound) return
+    try {
+      const { rerun, advancedTo } = await saveFinalsMatch({
+        compId: selectedComp,
+        categoryId: selectedCategory,
+        roundId: finalsRound,
+        matchId,
+        laneA,
+        laneB,
+      })
+      setFinalsNotice(
+        rerun
+          ? `False start in ${finalsRound} ${matchId}: heat voided, run it again`
+          : `Saved ${finalsRound} ${matchId}${advancedTo ? ` • ${advancedTo} drawn` : ""}`
+      )
+    } catch (error) {
+      console.error(error)
+      setFinalsNotice(error instanceof Error ? error.message : "Save failed")
+    }
+  }
+
+  const onConfirmTiming = async () => {
+    const laneA = laneResultFromReading(timing.readings.A, falseStartRule)
+    const laneB = laneResultFromReading(timing.readings.B, falseStartRule)
+    const [kind, id] = timingTarget.split(":")
+    if (!kind || !id || (!laneA && !laneB)) return
+    setTimingSaving(true)
+    try {
+      if (kind === "q") {
+        const row = startlist.find((r) => r.heatIndex === Number(id))
+        const runKeys = heatRunKeys.get(Number(id))
+        if (!row || !runKeys) return
+        const lanes = [
+          { athleteId: row.laneA, runKey: runKeys.a, result: laneA },
+          { athleteId: row.laneB, runKey: runKeys.b, result: laneB },
+        ]
+        for (const lane of lanes) {
+          if (!lane.athleteId || !lane.result?.status) continue
+          await onSaveRun({
+            athleteId: lane.athleteId,
+            runKey: lane.runKey,
+            status: lane.result.status,
+            msInput: lane.result.ms != null ? String(lane.result.ms / 1000) : "",
+            reactionMs: lane.result.reactionMs ?? null,
+          })
+        }
+      } else {
+        const match = (finalsRounds[finalsRound] || []).find((m) => m.id === id)
+        if (!match) return
+        await onSaveFinalsMatch(
+          id,
+          match.athleteA && laneA ? laneA : { status: null, ms: null },
+          match.athleteB && laneB ? laneB : { status: null, ms: null }
+        )
+      }
+      timing.clearReadings()
+    } finally {
+      setTimingSaving(false)
+    }
+  }
+
   if (authLoading) {
     return (
       <main className="flex min-h-screen items-center justify-center text-muted-foreground">
@@ -402,7 +600,7 @@ function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; f
               className="h-11 w-auto"
             />
             <p className="text-sm text-muted-foreground">
-              Speed Judge Pad — enter qualifier times and statuses.
+              Speed Judge Pad — enter qualifier and finals times and statuses.
             </p>
           </div>
           <div className="flex items-center gap-3">
@@ -510,12 +708,105 @@ function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; f
           ) : null}
         </section>
 
+        <section className="rounded-2xl border border-border bg-panel p-6 space-y-3">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="space-y-1">
+              <p className="text-sm font-semibold text-foreground">Timing System</p>
+              <p className="text-xs text-muted-foreground">
+                Lane times from the timing bridge are shown here and only saved once confirmed.
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                className="w-56 rounded-lg border border-border bg-input px-3 py-2 text-sm text-foreground"
+                value={timing.url}
+                onChange={(e) => timing.setUrl(e.target.value)}
+                disabled={timing.state === "connected" || timing.state === "connecting"}
+                aria-label="Timing bridge URL"
+              />
+              {timing.state === "disconnected" ? (
+                <Button variant="secondary" className="bg-card text-foreground hover:bg-card/80" onClick={timing.connect}>
+                  Connect
+                </Button>
+              ) : (
+                <Button variant="secondary" className="bg-card text-foreground hover:bg-card/80" onClick={timing.disconnect}>
+                  Disconnect
+                </Button>
+              )}
+              <span className="text-xs text-muted-foreground">
+                {timing.state === "connected"
+                  ? "Connected"
+                  : timing.state === "connecting"
+                  ? "Connecting…"
+                  : timing.state === "error"
+                  ? "Bridge unreachable, retrying…"
+                  : "Not connected"}
+              </span>
+            </div>
+          </div>
+
+          {timing.state !== "disconnected" ? (
+            <div className="space-y-3">
+              <div className="grid gap-3 md:grid-cols-2">
+                {(["A", "B"] as const).map((lane) => (
+                  <TimingLaneReading
+                    key={lane}
+                    lane={lane}
+                    reading={timing.readings[lane]}
+                    timingPrecision={timingPrecision}
+                    falseStartRule={falseStartRule}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  className="rounded-lg border border-border bg-input px-3 py-2 text-sm text-foreground"
+                  value={timingTarget}
+                  onChange={(e) => setTimingTarget(e.target.value)}
+                >
+                  <option value="">Save to…</option>
+                  {startlist.map((row) => (
+                    <option key={`q-${row.heatIndex}`} value={`q:${row.heatIndex}`}>
+                      Qualifier heat {row.heatIndex}: {laneLabel(row.laneA)} / {laneLabel(row.laneB)}
+                    </option>
+                  ))}
+                  {(finalsRounds[finalsRound] || [])
+                    .filter((m) => !m.bye)
+                    .map((m) => (
+                      <option key={`f-${m.id}`} value={`f:${m.id}`}>
+                        Finals {finalsRound} heat {m.matchIndex}: {laneLabel(m.athleteA)} / {laneLabel(m.athleteB)}
+                      </option>
+                    ))}
+                </select>
+                <Button
+                  onClick={onConfirmTiming}
+                  disabled={
+                    timingSaving ||
+                    !timingTarget ||
+                    (!laneResultFromReading(timing.readings.A, falseStartRule) &&
+                      !laneResultFromReading(timing.readings.B, falseStartRule))
+                  }
+                >
+                  {timingSaving ? "Saving…" : "Confirm & save"}
+                </Button>
+                <Button variant="secondary" className="bg-card text-foreground hover:bg-card/80" onClick={timing.clearReadings}>
+                  Discard
+                </Button>
+                {timing.readings.heat ? (
+                  <span className="text-xs text-muted-foreground">Timer heat {timing.readings.heat}</span>
+                ) : null}
+              </div>
+            </div>
+          ) : null}
+        </section>
+
         <section className="rounded-2xl border border-border bg-panel p-6 space-y-3">
           <div className="flex items-center justify-between gap-4 flex-wrap">
             <div className="space-y-1">
               <p className="text-sm font-semibold text-foreground">Qualifier Heats</p>
               <p className="text-xs text-muted-foreground">
-                First appearance = Run A, second appearance = Run B. {falseStartRule === "IFSC" ? "FS on Run A auto-sets Run B to DNS." : null}
+                First appearance = Run A, second appearance = Run B. Reactions under {formatReactionMs(falseStartThresholdMs)} s are false starts ({SPEED_FALSE_START_RULE_LABELS[falseStartRule]}).{" "}
+                {falseStartEliminates(falseStartRule) ? "FS on Run A auto-sets Run B to DNS." : null}
               </p>
             </div>
             <span className="text-xs text-muted-foreground">
@@ -540,9 +831,11 @@ function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; f
                     <th className="p-2 md:p-3">Lane A</th>
                     <th className="p-2 md:p-3">Status</th>
                     <th className="p-2 md:p-3">Time (s)</th>
+                    <th className="p-2 md:p-3">RT (s)</th>
                     <th className="p-2 md:p-3">Lane B</th>
                     <th className="p-2 md:p-3">Status</th>
                     <th className="p-2 md:p-3">Time (s)</th>
+                    <th className="p-2 md:p-3">RT (s)</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -558,6 +851,8 @@ function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; f
                     const laneBStatus = bRunKey === "runA" ? resB?.runA?.status : resB?.runB?.status
                     const laneAMs = aRunKey === "runA" ? resA?.runA?.ms : resA?.runB?.ms
                     const laneBMs = bRunKey === "runA" ? resB?.runA?.ms : resB?.runB?.ms
+                    const laneAReaction = (aRunKey === "runA" ? resA?.runA : resA?.runB)?.reactionMs ?? null
+                    const laneBReaction = (bRunKey === "runA" ? resB?.runA : resB?.runB)?.reactionMs ?? null
                     return (
                       <tr
                         key={row.heatIndex}
@@ -614,6 +909,18 @@ function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; f
                             disabled={!row.laneA || laneAStatus !== "TIME"}
                           />
                         </td>
+                        <td className="p-2 md:p-3">
+                          <input
+                            key={`rt-${row.heatIndex}-A-${laneAReaction ?? ""}`}
+                            className="w-20 rounded-lg border border-border bg-input px-2 py-2 text-sm text-foreground"
+                            type="text"
+                            inputMode="decimal"
+                            placeholder="0.000"
+                            defaultValue={formatReactionMs(laneAReaction)}
+                            onBlur={(e) => row.laneA && onSaveReaction(row.laneA, aRunKey, e.target.value)}
+                            disabled={!row.laneA}
+                          />
+                        </td>
                         <td className="p-2 md:p-3">
                           <div className="font-semibold text-foreground">{laneLabel(row.laneB)}</div>
                           <div className="text-xs text-muted-foreground">{bRunKey.toUpperCase()}</div>
@@ -663,6 +970,18 @@ function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; f
                             disabled={!row.laneB || laneBStatus !== "TIME"}
                           />
                         </td>
+                        <td className="p-2 md:p-3">
+                          <input
+                            key={`rt-${row.heatIndex}-B-${laneBReaction ?? ""}`}
+                            className="w-20 rounded-lg border border-border bg-input px-2 py-2 text-sm text-foreground"
+                            type="text"
+                            inputMode="decimal"
+                            placeholder="0.000"
+                            defaultValue={formatReactionMs(laneBReaction)}
+                            onBlur={(e) => row.laneB && onSaveReaction(row.laneB, bRunKey, e.target.value)}
+                            disabled={!row.laneB}
+                          />
+                        </td>
                       </tr>
                     )
                     })
@@ -672,11 +991,218 @@ function JudgeInterface({ authState, firestore }: { authState: JudgeAuthState; f
             </div>
           )}
         </section>
+
+        {finalsRoundIds.length ? (
+          <section className="rounded-2xl border border-border bg-panel p-6 space-y-3">
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+              <div className="space-y-1">
+                <p className="text-sm font-semibold text-foreground">Finals Heats</p>
+                <p className="text-xs text-muted-foreground">
+                  Winners advance automatically once every heat in the round is decided.
+                </p>
+              </div>
+              <select
+                className="rounded-xl border border-border bg-input px-4 py-2 text-sm text-foreground focus:border-ring focus:outline-none"
+                value={finalsRound}
+                onChange={(e) => setFinalsRound(e.target.value)}
+              >
+                {finalsRoundIds.map((rid) => (
+                  <option key={rid} value={rid}>
+                    Round {rid}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {finalsNotice ? <p className="text-xs text-muted-foreground">{finalsNotice}</p> : null}
+            <div className="grid gap-3 md:grid-cols-2">
+              {(finalsRounds[finalsRound] || []).map((match) => (
+                <FinalsHeatCard
+                  key={`${finalsRound}-${match.id}-${match.falseStartReruns || 0}`}
+                  match={match}
+                  laneLabel={laneLabel}
+                  timingPrecision={timingPrecision}
+                  falseStartRule={falseStartRule}
+                  falseStartThresholdMs={falseStartThresholdMs}
+                  parseMs={parseMs}
+                  onSave={onSaveFinalsMatch}
+                />
+              ))}
+            </div>
+          </section>
+        ) : null}
       </Container>
     </main>
   )
 }
 
+function TimingLaneReading({
+  lane,
+  reading,
+  timingPrecision,
+  falseStartRule,
+}: {
+  lane: "A" | "B"
+  reading: LaneReading
+  timingPrecision: SpeedTimingPrecision
+  falseStartRule: SpeedFalseStartRule
+}) {
+  const result = laneResultFromReading(reading, falseStartRule)
+  const seconds = (ms: number) => (ms / 1000).toFixed(timingPrecision === "ms2" ? 2 : 3)
+  return (
+    <div className="rounded-lg border border-border bg-card/40 p-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-foreground">Lane {lane}</span>
+        <span className={result?.status === "FS" ? "font-semibold text-red-400" : "font-semibold text-foreground"}>
+          {result?.status === "FS"
+            ? "FS"
+            : result?.ms != null
+            ? `${seconds(result.ms)} s${result.falseStart ? " (FS)" : ""}`
+            : reading.reactionMs != null
+            ? "Running…"
+            : "—"}
+        </span>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        Reaction: {reading.reactionMs != null ? `${seconds(reading.reactionMs)} s` : "—"}
+      </div>
+    </div>
+  )
+}
+
+function FinalsHeatCard({
+  match,
+  laneLabel,
+  timingPrecision,
+  falseStartRule,
+  falseStartThresholdMs,
+  parseMs,
+  onSave,
+}: {
+  match: FinalsMatch
+  laneLabel: (aid?: string | null) => string
+  timingPrecision: SpeedTimingPrecision
+  falseStartRule: SpeedFalseStartRule
+  falseStartThresholdMs: number
+  parseMs: (value: string) => number | null
+  onSave: (matchId: string, laneA: SpeedRunResult, laneB: SpeedRunResult) => Promise<void>
+}) {
+  const formatTime = (lane?: SpeedRunResult | null) =>
+    lane?.status === "TIME" && typeof lane.ms === "number"
+      ? (lane.ms / 1000).toFixed(timingPrecision === "ms2" ? 2 : 3)
+      : ""
+  const [statusA, setStatusA] = useState<SpeedRunStatus>(match.laneA?.status || "TIME")
+  const [statusB, setStatusB] = useState<SpeedRunStatus>(match.laneB?.status || "TIME")
+  const [timeA, setTimeA] = useState(formatTime(match.laneA))
+  const [timeB, setTimeB] = useState(formatTime(match.laneB))
+  const [reactionA, setReactionA] = useState(formatReactionMs(match.laneA?.reactionMs))
+  const [reactionB, setReactionB] = useState(formatReactionMs(match.laneB?.reactionMs))
+  const [saving, setSaving] = useState(false)
+
+  const laneResult = (
+    athleteId: string | null | undefined,
+    status: SpeedRunStatus,
+    time: string,
+    reaction: string
+  ): SpeedRunResult => {
+    if (!athleteId) return { status: null, ms: null, reactionMs: null }
+    const reactionMs = parseMs(reaction)
+    const ms = status === "TIME" ? parseMs(time) : null
+    if (status === "TIME" && ms == null) return { status: null, ms: null, reactionMs }
+    return withReactionFalseStart({ status, ms, reactionMs }, falseStartThresholdMs, falseStartRule)
+  }
+  const laneA = laneResult(match.athleteA, statusA, timeA, reactionA)
+  const laneB = laneResult(match.athleteB, statusB, timeB, reactionB)
+  const winner = decideWinner(laneA, laneB, falseStartRule)
+
+  if (match.bye) {
+    return (
+      <div className="rounded-lg border border-border bg-card/40 p-4 text-sm text-muted-foreground">
+        Heat {match.matchIndex}: {laneLabel(match.athleteA || match.athleteB)} advances on a bye.
+      </div>
+    )
+  }
+
+  const lanes = [
+    {
+      key: "A",
+      athleteId: match.athleteA,
+      status: statusA,
+      setStatus: setStatusA,
+      time: timeA,
+      setTime: setTimeA,
+      reaction: reactionA,
+      setReaction: setReactionA,
+    },
+    {
+      key: "B",
+      athleteId: match.athleteB,
+      status: statusB,
+      setStatus: setStatusB,
+      time: timeB,
+      setTime: setTimeB,
+      reaction: reactionB,
+      setReaction: setReactionB,
+    },
+  ]
+
+  return (
+    <div className="rounded-lg border border-border bg-card/40 p-4 space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-semibold text-foreground">Heat {match.matchIndex}</span>
+        <span className="text-xs text-muted-foreground">Winner: {winner || match.winner || "—"}</span>
+      </div>
+      {lanes.map((lane) => (
+        <div key={lane.key} className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-2">
+          <span className="truncate text-sm text-foreground">
+            {lane.key}: {laneLabel(lane.athleteId)}
+          </span>
+          <select
+            className="rounded-lg border border-border bg-input px-2 py-2 text-sm text-foreground"
+            value={lane.status}
+            onChange={(e) => lane.setStatus(e.target.value as SpeedRunStatus)}
+            disabled={!lane.athleteId}
+          >
+            {STATUS_OPTIONS.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+          <input
+            className="w-24 rounded-lg border border-border bg-input px-2 py-2 text-sm text-foreground"
+            type="text"
+            inputMode="decimal"
+            placeholder={timingPrecision === "ms2" ? "0.00" : "0.000"}
+            value={lane.status === "TIME" ? lane.time : ""}
+            onChange={(e) => lane.setTime(e.target.value)}
+            disabled={!lane.athleteId || lane.status !== "TIME"}
+          />
+          <input
+            className="w-20 rounded-lg border border-border bg-input px-2 py-2 text-sm text-foreground"
+            type="text"
+            inputMode="decimal"
+            placeholder="RT"
+            value={lane.reaction}
+            onChange={(e) => lane.setReaction(e.target.value)}
+            disabled={!lane.athleteId}
+            aria-label={`Lane ${lane.key} reaction time`}
+          />
+        </div>
+      ))}
+      <Button
+        onClick={async () => {
+          setSaving(true)
+          await onSave(match.id, laneA, laneB)
+          setSaving(false)
+        }}
+        disabled={saving}
+      >
+        {saving ? "Saving…" : "Save heat"}
+      </Button>
+    </div>
+  )
+}
+
 function PasscodeCard({
   competitions,
   loading,
@@ -21,6 +21,13 @@ import {
   type SpeedQualifierResult,
   type SpeedTimingPrecision,
 } from "@/lib/speed/scoring"
+import {
+  QUALIFIER_STANDINGS_DOC,
+  rowsFromStandingsItems,
+  sameStandings,
+  standingsItemsFromRows,
+  type QualifierStandingsSnapshot,
+} from "@/lib/speed/standings"
 import {
   collection,
   doc,
@@ -34,7 +41,9 @@ import {
   type QuerySnapshot,
   type Unsubscribe,
 } from "firebase/firestore"
+import { ROUND_STATUS_LABELS, getRoundStatus, type RoundStatus } from "@/lib/roundStatus"
 import { Button } from "@/components/ui/button"
+import { orgOptionsForComps, type OrgOption } from "@/lib/organisations"
 
 type LeaderboardTab = "qual" | "finals" | "overall"
 
@@ -48,6 +57,7 @@ interface SpeedCompetition {
   archived?: boolean
   isArchived?: boolean
   deleted?: boolean
+  orgId?: string
 }
 
 interface SpeedCategory {
@@ -80,6 +90,8 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
   const [competitions, setCompetitions] = useState<SpeedCompetition[]>([])
   const [competitionsLoading, setCompetitionsLoading] = useState(true)
   const [selectedComp, setSelectedComp] = useState("")
+  const [organisations, setOrganisations] = useState<OrgOption[]>([])
+  const [selectedOrg, setSelectedOrg] = useState(searchParams?.get("orgId") || "")
 
   const [categories, setCategories] = useState<SpeedCategory[]>([])
   const [categoriesLoading, setCategoriesLoading] = useState(false)
@@ -93,7 +105,11 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
 
   const [athletes, setAthletes] = useState<SpeedAthlete[]>([])
   const [results, setResults] = useState<Map<string, SpeedQualifierResult>>(new Map())
+  const [standings, setStandings] = useState<QualifierStandingsSnapshot | null>(null)
+  const [liveLoaded, setLiveLoaded] = useState({ athletes: false, results: false })
   const [qualLoading, setQualLoading] = useState(false)
+  const [qualStatus, setQualStatus] = useState<RoundStatus>("open")
+  const [finalsStatus, setFinalsStatus] = useState<RoundStatus>("open")
   const [finalsMeta, setFinalsMeta] = useState<FinalsMeta | null>(null)
   const [finalsRounds, setFinalsRounds] = useState<FinalsRounds>({})
   const [finalsLoading, setFinalsLoading] = useState(false)
@@ -107,7 +123,10 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
     async function loadCompetitions() {
       setCompetitionsLoading(true)
       try {
-        const snap = await getDocs(collection(db, "speedCompetitions"))
+        const [snap, orgSnap] = await Promise.all([
+          getDocs(collection(db, "speedCompetitions")),
+          getDocs(collection(db, "organisations")),
+        ])
         if (cancelled) return
         const comps: SpeedCompetition[] = snap.docs
           .map((docSnap) => {
@@ -124,9 +143,11 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
           })
         comps.sort((a, b) => timestampValue(b.updatedAt) - timestampValue(a.updatedAt))
         setCompetitions(comps)
+        setOrganisations(orgOptionsForComps(orgSnap.docs, comps))
       } catch (error) {
         console.error(error)
         setCompetitions([])
+        setOrganisations([])
       } finally {
         if (!cancelled) setCompetitionsLoading(false)
       }
@@ -137,23 +158,30 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
     }
   }, [firestore])
 
+  // An unknown ?orgId= (or an org without live competitions) shows everything
+  const activeOrg = organisations.some((org) => org.id === selectedOrg) ? selectedOrg : ""
+  const visibleCompetitions = useMemo(
+    () => (activeOrg ? competitions.filter((comp) => comp.orgId === activeOrg) : competitions),
+    [competitions, activeOrg]
+  )
+
   useEffect(() => {
-    if (!competitions.length) {
+    if (!visibleCompetitions.length) {
       setSelectedComp("")
       return
     }
     setSelectedComp((current) => {
-      if (current && competitions.some((c) => c.id === current)) {
+      if (current && visibleCompetitions.some((c) => c.id === current)) {
         return current
       }
       const { compId, usedComp } = initialSelectionsRef.current
-      if (!usedComp && compId && competitions.some((c) => c.id === compId)) {
+      if (!usedComp && compId && visibleCompetitions.some((c) => c.id === compId)) {
         initialSelectionsRef.current.usedComp = true
         return compId
       }
-      return competitions[0]?.id || ""
+      return visibleCompetitions[0]?.id || ""
     })
-  }, [competitions])
+  }, [visibleCompetitions])
 
   useEffect(() => {
     if (!selectedComp) {
@@ -236,10 +264,12 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
     if (!selectedComp || !selectedCategory) {
       setAthletes([])
       setResults(new Map())
+      setStandings(null)
       setFinalsMeta(null)
       setFinalsRounds({})
       setQualLoading(false)
       setFinalsLoading(false)
+      setQualStatus("open")
       return
     }
 
@@ -247,6 +277,8 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
     setFinalsLoading(true)
     setFinalsRounds({})
     setFinalsMeta(null)
+    setStandings(null)
+    setLiveLoaded({ athletes: false, results: false })
 
     const athletesRef = collection(
       db,
@@ -261,6 +293,8 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
       `speedCompetitions/${selectedComp}/categories/${selectedCategory}/finals/default`
     )
     const roundsCol = collection(finalsDocRef, "rounds")
+    const categoryRef = doc(db, `speedCompetitions/${selectedComp}/categories/${selectedCategory}`)
+    const standingsRef = doc(categoryRef, "computed", QUALIFIER_STANDINGS_DOC)
 
     const unsubscribers: Unsubscribe[] = []
     let cleanupRoundMatches: () => void = () => {}
@@ -274,6 +308,7 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
           return { id: docSnap.id, ...data }
         })
         setAthletes(list)
+        setLiveLoaded((prev) => ({ ...prev, athletes: true }))
         setQualLoading(false)
       },
       () => setQualLoading(false)
@@ -286,12 +321,38 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
         if (token !== renderTokenRef.current) return
         const map = toQualifierMap(snap)
         setResults(map)
+        setLiveLoaded((prev) => ({ ...prev, results: true }))
         setQualLoading(false)
       },
       () => setQualLoading(false)
     )
     unsubscribers.push(unsubResults)
 
+    const unsubStandings = onSnapshot(
+      standingsRef,
+      (snap) => {
+        if (token !== renderTokenRef.current) return
+        const data = snap.exists() ? (snap.data() as QualifierStandingsSnapshot) : null
+        setStandings(data && Array.isArray(data.items) ? data : null)
+      },
+      () => setStandings(null)
+    )
+    unsubscribers.push(unsubStandings)
+
+    const unsubCategory = onSnapshot(
+      categoryRef,
+      (snap) => {
+        if (token !== renderTokenRef.current) return
+        setQualStatus(getRoundStatus(snap.data(), "qualification"))
+        setFinalsStatus(getRoundStatus(snap.data(), "finals"))
+      },
+      () => {
+        setQualStatus("open")
+        setFinalsStatus("open")
+      }
+    )
+    unsubscribers.push(unsubCategory)
+
     const unsubMeta = onSnapshot(
       finalsDocRef,
       (snap) => {
@@ -342,7 +403,7 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
     }
   }, [selectedComp, selectedCategory, firestore])
 
-  const qualifierRows = useMemo(() => {
+  const liveQualifierRows = useMemo(() => {
     return buildQualifierStandings({
       athletes,
       results,
@@ -350,6 +411,20 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
     })
   }, [athletes, results, compSettings.timingPrecision])
 
+  // The snapshot is only rebuilt after a save, and that call can fail; when it
+  // no longer matches the live results those are ranked here instead
+  const standingsStale = useMemo(() => {
+    if (!standings || !liveLoaded.athletes || !liveLoaded.results) return false
+    return !sameStandings(standings.items, standingsItemsFromRows(liveQualifierRows))
+  }, [standings, liveLoaded, liveQualifierRows])
+
+  // Categories scored before standings were materialized fall back to
+  // ranking the raw results here
+  const qualifierRows = useMemo(() => {
+    if (standings && !standingsStale) return rowsFromStandingsItems(standings.items, compSettings.timingPrecision)
+    return liveQualifierRows
+  }, [standings, standingsStale, liveQualifierRows, compSettings.timingPrecision])
+
   const overallRows = useMemo(() => {
     return buildOverallRanking({
       athletes,
@@ -384,13 +459,30 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
         </header>
 
         <section className="rounded-2xl border border-border bg-panel p-6">
-          <div className="grid gap-4 md:grid-cols-3">
+          <div className={`grid gap-4 ${organisations.length ? "md:grid-cols-4" : "md:grid-cols-3"}`}>
+            {organisations.length > 0 && (
+              <FilterField label="Organisation">
+                <select
+                  className="mt-2 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
+                  value={activeOrg}
+                  onChange={(event) => setSelectedOrg(event.target.value)}
+                >
+                  <option value="">All organisations</option>
+                  {organisations.map((org) => (
+                    <option key={org.id} value={org.id}>
+                      {org.name}
+                    </option>
+                  ))}
+                </select>
+              </FilterField>
+            )}
+
             <FilterField
               label="Competition"
               helpText={
                 competitionsLoading
                   ? "Loading competitions…"
-                  : !competitions.length
+                  : !visibleCompetitions.length
                   ? "No competitions available"
                   : undefined
               }
@@ -399,10 +491,10 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
                 className="mt-2 w-full rounded-xl border border-border bg-input px-4 py-3 text-sm text-foreground focus:border-ring focus:outline-none"
                 value={selectedComp}
                 onChange={(event) => setSelectedComp(event.target.value)}
-                disabled={competitionsLoading || !competitions.length}
+                disabled={competitionsLoading || !visibleCompetitions.length}
               >
                 <option value="">Select competition</option>
-                {competitions.map((comp) => (
+                {visibleCompetitions.map((comp) => (
                   <option key={comp.id} value={comp.id}>
                     {comp.name || comp.id}
                   </option>
@@ -475,6 +567,8 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
             loading={qualLoading}
             hasSelection={Boolean(selectedComp && selectedCategory)}
             precision={activePrecision}
+            status={qualStatus}
+            stale={standingsStale}
           />
         ) : null}
         {activeTab === "finals" ? (
@@ -485,6 +579,7 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
             hasSelection={Boolean(selectedComp && selectedCategory)}
             athletes={athletes}
             precision={activePrecision}
+            status={finalsStatus}
           />
         ) : null}
         {activeTab === "overall" ? (
@@ -493,6 +588,7 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
             loading={finalsLoading && !overallRows.length}
             hasSelection={Boolean(selectedComp && selectedCategory)}
             precision={activePrecision}
+            status={finalsStatus}
           />
         ) : null}
       </section>
@@ -500,19 +596,51 @@ function LeaderboardContent({ firestore }: { firestore: Firestore }) {
   )
 }
 
+function RoundStatusBadge({ status, label = "" }: { status: RoundStatus; label?: string }) {
+  if (status === "open") return null
+  return (
+    <Container>
+      <p className="mb-3">
+        <span
+          className={`inline-block rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide ${
+            status === "official"
+              ? "border-green-500/60 text-green-500"
+              : "border-yellow-500/60 text-yellow-500"
+          }`}
+        >
+          {label ? `${label} ` : ""}
+          {ROUND_STATUS_LABELS[status]} results
+        </span>
+      </p>
+    </Container>
+  )
+}
+
 function QualifierTable({
   rows,
   loading,
   hasSelection,
   precision,
+  status,
+  stale,
 }: {
   rows: QualifierStandingRow[]
   loading: boolean
   hasSelection: boolean
   precision: SpeedTimingPrecision
+  status: RoundStatus
+  stale: boolean
 }) {
   return (
     <div className="overflow-x-auto">
+      {hasSelection ? <RoundStatusBadge status={status} /> : null}
+      {hasSelection && stale ? (
+        <Container>
+          <p className="mb-3 text-xs text-yellow-500">
+            Standings are being updated. Showing rankings from the latest results.
+          </p>
+        </Container>
+      ) : null}
       <table className="w-full text-sm border-collapse border-y border-border">
         <thead>
           <tr className="text-left text-xs uppercase tracking-wider text-muted-foreground" style={{ background: "rgba(255, 255, 255, 0.04)" }}>
@@ -566,6 +694,7 @@ function FinalsBracket({
   hasSelection,
   athletes,
   precision,
+  status,
 }: {
   rounds: FinalsRounds
   meta: FinalsMeta | null
@@ -573,6 +702,7 @@ function FinalsBracket({
   hasSelection: boolean
   athletes: SpeedAthlete[]
   precision: SpeedTimingPrecision
+  status: RoundStatus
 }) {
   const order = bracketOrder(meta?.size)
   const nameOf = (aid?: string | null) => {
@@ -602,76 +732,81 @@ function FinalsBracket({
   }
 
   return (
-    <div className="px-4 md:px-8">
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        {order.map((rid) => {
-          const matches = rounds[rid] || []
-          return (
-            <div key={rid} className="rounded-2xl border border-border bg-panel p-4">
-              <h3 className="text-sm font-semibold text-muted-foreground mb-3">
-                {roundLabel(rid)}
-              </h3>
-              {matches.length ? (
-                matches.map((m) => {
-                  const isBigFinal = rid === "F" && m.matchIndex === 2
-                  const showA = laneResultLabel({
-                    lane: m.laneA,
-                    opponent: m.laneB,
-                    isWinner: m.winner === "A",
-                    isBigFinal,
-                    allowWinnerRun: m.allowWinnerRun ?? meta?.allowWinnerRun,
-                    precision,
-                  })
-                  const showB = laneResultLabel({
-                    lane: m.laneB,
-                    opponent: m.laneA,
-                    isWinner: m.winner === "B",
-                    isBigFinal,
-                    allowWinnerRun: m.allowWinnerRun ?? meta?.allowWinnerRun,
-                    precision,
-                  })
-                  return (
-                    <div
-                      key={m.id || `${rid}-${m.matchIndex}-${m.athleteA}-${m.athleteB}`}
-                      className="mb-3 rounded-xl border border-border/60 bg-card/50 p-3"
-                    >
-                      <div className="text-xs text-muted-foreground mb-2">
-                        {rid === "F"
-                          ? m.matchIndex === 2
-                            ? "Big Final"
-                            : m.matchIndex === 1
-                            ? "Small Final"
-                            : `Match ${m.matchIndex || ""}`
-                          : `Match ${m.matchIndex || ""}`}
-                      </div>
-                      <div
-                        className={`flex items-center justify-between gap-2 rounded-lg border px-3 py-2 ${m.winner === "A" ? "border-success/70 bg-success/10" : "border-border/60 bg-panel"}`}
-                      >
-                        <div className="font-semibold text-foreground">{nameOf(m.athleteA)}</div>
-                        <div className="text-sm text-muted-foreground">{showA}</div>
-                      </div>
+    <>
+      <RoundStatusBadge status={status} />
+      <div className="px-4 md:px-8">
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {order.map((rid) => {
+            const matches = rounds[rid] || []
+            return (
+              <div key={rid} className="rounded-2xl border border-border bg-panel p-4">
+                <h3 className="text-sm font-semibold text-muted-foreground mb-3">
+                  {roundLabel(rid)}
+                </h3>
+                {matches.length ? (
+                  matches.map((m) => {
+                    const isBigFinal = rid === "F" && m.matchIndex === 2
+                    const showA = laneResultLabel({
+                      lane: m.laneA,
+                      opponent: m.laneB,
+                      isWinner: m.winner === "A",
+                      isBigFinal,
+                      allowWinnerRun: m.allowWinnerRun ?? meta?.allowWinnerRun,
+                      precision,
+                      showReaction: true,
+                    })
+                    const showB = laneResultLabel({
+                      lane: m.laneB,
+                      opponent: m.laneA,
+                      isWinner: m.winner === "B",
+                      isBigFinal,
+                      allowWinnerRun: m.allowWinnerRun ?? meta?.allowWinnerRun,
+                      precision,
+                      showReaction: true,
+                    })
+                    return (
                       <div
-                        className={`mt-2 flex items-center justify-between gap-2 rounded-lg border px-3 py-2 ${m.winner === "B" ? "border-success/70 bg-success/10" : "border-border/60 bg-panel"}`}
+                        key={m.id || `${rid}-${m.matchIndex}-${m.athleteA}-${m.athleteB}`}
+                        className="mb-3 rounded-xl border border-border/60 bg-card/50 p-3"
                       >
-                        <div className="font-semibold text-foreground">{nameOf(m.athleteB)}</div>
-                        <div className="text-sm text-muted-foreground">{showB}</div>
+                        <div className="text-xs text-muted-foreground mb-2">
+                          {rid === "F"
+                            ? m.matchIndex === 2
+                              ? "Big Final"
+                              : m.matchIndex === 1
+                              ? "Small Final"
+                              : `Match ${m.matchIndex || ""}`
+                            : `Match ${m.matchIndex || ""}`}
+                        </div>
+                        <div
+                          className={`flex items-center justify-between gap-2 rounded-lg border px-3 py-2 ${m.winner === "A" ? "border-success/70 bg-success/10" : "border-border/60 bg-panel"}`}
+                        >
+                          <div className="font-semibold text-foreground">{nameOf(m.athleteA)}</div>
+                          <div className="text-sm text-muted-foreground">{showA}</div>
+                        </div>
+                        <div
+                          className={`mt-2 flex items-center justify-between gap-2 rounded-lg border px-3 py-2 ${m.winner === "B" ? "border-success/70 bg-success/10" : "border-border/60 bg-panel"}`}
+                        >
+                          <div className="font-semibold text-foreground">{nameOf(m.athleteB)}</div>
+                          <div className="text-sm text-muted-foreground">{showB}</div>
+                        </div>
                       </div>
-                    </div>
-                  )
-                })
-              ) : (
-                <p className="text-sm text-muted-foreground">No matches yet.</p>
-              )}
-            </div>
-          )
-        })}
+                    )
+                  })
+                ) : (
+                  <p className="text-sm text-muted-foreground">No matches yet.</p>
+                )}
+              </div>
+            )
+          })}
+        </div>
+        <Container>
+          <p className="mt-4 text-xs text-muted-foreground">
+            Finals show live matches from Firestore. If a finalist false starts or does not start, winners in the big final show a dash unless allow-winner-time is enabled.
+          </p>
+        </Container>
       </div>
-      <Container>
-        <p className="mt-4 text-xs text-muted-foreground">
-          Finals show live matches from Firestore. If a finalist false starts or does not start, winners in the big final show a dash unless allow-winner-time is enabled.
-        </p>
-      </Container>
-    </div>
+    </>
   )
 }
 
@@ -680,14 +815,17 @@ function OverallTable({
   loading,
   hasSelection,
   precision,
+  status,
 }: {
   rows: ReturnType<typeof buildOverallRanking>
   loading: boolean
   hasSelection: boolean
   precision: SpeedTimingPrecision
+  status: RoundStatus
 }) {
   return (
     <div className="overflow-x-auto">
+      {hasSelection ? <RoundStatusBadge status={status} label="Finals" /> : null}
       <table className="w-full text-sm border-collapse border-y border-border">
         <thead>
           <tr className="text-left text-xs uppercase tracking-wider text-muted-foreground" style={{ background: "rgba(255, 255, 255, 0.04)" }}>
@@ -725,7 +863,7 @@ function OverallTable({
       </table>
       <Container>
         <p className="mt-4 text-xs text-muted-foreground">
-          Overall ranking groups athletes by exit stage (winner → big final loser → small final placements or semifinal exits → quarterfinal exits → R16 exits → qualifiers only) with time-based tiebreaks inside each group.
+          Overall ranking groups athletes by exit stage (winner → big final loser → small final placements or semifinal exits → quarterfinal exits → R16 exits → R32 exits → qualifiers only) with time-based tiebreaks inside each group.
         </p>
       </Container>
     </div>
@@ -864,6 +1002,7 @@ function timestampValue(input: unknown): number {
 }
 
 function roundLabel(id: string) {
+  if (id === "R32") return "Top 32"
   if (id === "R16") return "Top 16"
   if (id === "QF") return "Quarterfinals"
   if (id === "SF") return "Semifinals"
@@ -877,5 +1016,6 @@ function stageLabel(stage: string) {
   if (stage === "SF") return "Semifinals"
   if (stage === "QF") return "Quarterfinals"
   if (stage === "R16") return "Round of 16"
+  if (stage === "R32") return "Round of 32"
   return "Qualifiers"
 }
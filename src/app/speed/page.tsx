@@ -8,6 +8,7 @@ import { firestore } from "@/lib/firebase/client"
 import { collection, getDocs, type Firestore } from "firebase/firestore"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
+import { orgOptionsForComps, type OrgOption } from "@/lib/organisations"
 
 interface SpeedCompetition {
   id: string
@@ -19,6 +20,7 @@ interface SpeedCompetition {
   archived?: boolean
   isArchived?: boolean
   deleted?: boolean
+  orgId?: string
 }
 
 export default function SpeedLandingPage() {
@@ -40,6 +42,8 @@ export default function SpeedLandingPage() {
 
 function SpeedContent({ firestore }: { firestore: Firestore }) {
   const [competitions, setCompetitions] = useState<SpeedCompetition[]>([])
+  const [organisations, setOrganisations] = useState<OrgOption[]>([])
+  const [selectedOrg, setSelectedOrg] = useState("")
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -47,7 +51,10 @@ function SpeedContent({ firestore }: { firestore: Firestore }) {
     async function loadCompetitions() {
       setLoading(true)
       try {
-        const snap = await getDocs(collection(firestore, "speedCompetitions"))
+        const [snap, orgSnap] = await Promise.all([
+          getDocs(collection(firestore, "speedCompetitions")),
+          getDocs(collection(firestore, "organisations")),
+        ])
         if (cancelled) return
         const comps = snap.docs
           .map((docSnap) => {
@@ -62,9 +69,11 @@ function SpeedContent({ firestore }: { firestore: Firestore }) {
           })
         comps.sort((a, b) => timestampValue(b.createdAt) - timestampValue(a.createdAt))
         setCompetitions(comps)
+        setOrganisations(orgOptionsForComps(orgSnap.docs, comps))
       } catch (error) {
         console.error(error)
         setCompetitions([])
+        setOrganisations([])
       } finally {
         if (!cancelled) setLoading(false)
       }
@@ -75,6 +84,8 @@ function SpeedContent({ firestore }: { firestore: Firestore }) {
     }
   }, [firestore])
 
+  const visibleCompetitions = selectedOrg ? competitions.filter((comp) => comp.orgId === selectedOrg) : competitions
+
   return (
     <main className="py-12 text-foreground bg-background">
       <Container className="space-y-8">
@@ -103,11 +114,25 @@ function SpeedContent({ firestore }: { firestore: Firestore }) {
               <p className="text-sm text-muted-foreground">
                 {loading
                   ? "Loading competitions…"
-                  : competitions.length
-                  ? `${competitions.length} competition${competitions.length > 1 ? "s" : ""}`
+                  : visibleCompetitions.length
+                  ? `${visibleCompetitions.length} competition${visibleCompetitions.length > 1 ? "s" : ""}`
                   : "No competitions available"}
               </p>
             </div>
+            {organisations.length > 0 && (
+              <select
+                className="rounded-xl border border-border bg-input px-4 py-2 text-sm text-foreground focus:border-ring focus:outline-none"
+                value={selectedOrg}
+                onChange={(event) => setSelectedOrg(event.target.value)}
+              >
+                <option value="">All organisations</option>
+                {organisations.map((org) => (
+                  <option key={org.id} value={org.id}>
+                    {org.name}
+                  </option>
+                ))}
+              </select>
+            )}
             <Button asChild variant="secondary" className="bg-card text-foreground hover:bg-card/80">
               <Link href="/speed/leaderboard">Open Leaderboard</Link>
             </Button>
@@ -127,8 +152,8 @@ function SpeedContent({ firestore }: { firestore: Firestore }) {
                   </CardContent>
                 </Card>
               ))
-            ) : competitions.length ? (
-              competitions.map((comp) => (
+            ) : visibleCompetitions.length ? (
+              visibleCompetitions.map((comp) => (
                 <Card key={comp.id} className="border-border/60 bg-card/70">
                   <CardHeader className="space-y-1">
                     <CardTitle className="text-lg">{comp.name || comp.id}</CardTitle>
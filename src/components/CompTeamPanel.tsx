@@ -0,0 +1,126 @@
+"use client";
+
+import {
+  COMP_MEMBER_ROLES,
+  COMP_MEMBER_ROLE_LABELS,
+  compMemberRoleOf,
+  parseCompMembers,
+  type CompMemberRole,
+} from "@/lib/compMembers";
+
+interface TeamComp {
+  members?: unknown;
+  memberEmails?: Record<string, string>;
+}
+
+/**
+ * CompTeamPanel - Owners, staff and chief judges of a boulder or speed
+ * competition, with add/remove controls for those who may edit the team.
+ * Speed competitions have no chief judge tools, so they pass `roles` without it.
+ */
+export default function CompTeamPanel({
+  comp,
+  canEdit,
+  emailInput,
+  roleInput,
+  saving,
+  message,
+  onEmailChange,
+  onRoleChange,
+  onAdd,
+  onRemove,
+  roles = COMP_MEMBER_ROLES,
+}: {
+  comp: TeamComp;
+  canEdit: boolean;
+  emailInput: string;
+  roleInput: CompMemberRole;
+  saving: boolean;
+  message: string;
+  onEmailChange: (value: string) => void;
+  onRoleChange: (value: CompMemberRole) => void;
+  onAdd: () => void;
+  onRemove: (uid: string) => void;
+  roles?: CompMemberRole[];
+}) {
+  const members = parseCompMembers(comp);
+  const uids = members ? [...members.owners, ...members.staff, ...members.chiefJudges] : [];
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-border bg-panel/60 p-4">
+      <div>
+        <h3 className="text-xl font-semibold">Competition team</h3>
+        <p className="text-sm text-gray-400">
+          Owners and staff manage this competition
+          {roles.includes("chiefJudge") ? "; chief judges run its chief judge tools" : ""}. Owners also edit the team.
+        </p>
+      </div>
+      {!members ? (
+        <p className="text-sm text-yellow-300">
+          No team yet, so only admins can manage this competition. An admin needs to add its owner.
+        </p>
+      ) : (
+        <ul className="divide-y divide-[#19bcd6]/20 text-sm">
+          {uids.map((uid) => {
+            const memberRole = compMemberRoleOf(members, uid);
+            return (
+              <li key={uid} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                <span className="text-gray-200">{comp.memberEmails?.[uid] || uid}</span>
+                <span className="flex items-center gap-3">
+                  <span className="text-xs text-gray-400">{memberRole ? COMP_MEMBER_ROLE_LABELS[memberRole] : ""}</span>
+                  {canEdit && (
+                    <button
+                      type="button"
+                      onClick={() => onRemove(uid)}
+                      disabled={saving}
+                      className="text-xs text-red-300 hover:underline disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {canEdit && (
+        <div className="grid gap-3 md:grid-cols-[minmax(0,1fr),auto,auto] md:items-end">
+          <label className="flex flex-col gap-2 text-sm text-gray-400">
+            Email
+            <input
+              type="email"
+              className="w-full rounded-lg border border-border bg-input px-3 py-2 text-sm text-foreground focus:border-ring focus:outline-none"
+              placeholder="Account email"
+              value={emailInput}
+              onChange={(e) => onEmailChange(e.target.value)}
+            />
+          </label>
+          <label className="flex flex-col gap-2 text-sm text-gray-400">
+            Role
+            <select
+              className="rounded-lg border border-border bg-input px-3 py-2 text-sm text-foreground focus:border-ring focus:outline-none"
+              value={roleInput}
+              onChange={(e) => onRoleChange(e.target.value as CompMemberRole)}
+            >
+              {roles.map((memberRole) => (
+                <option key={memberRole} value={memberRole}>
+                  {COMP_MEMBER_ROLE_LABELS[memberRole]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="button"
+            onClick={onAdd}
+            disabled={saving}
+            className="h-[42px] min-w-[140px] rounded-lg border border-[#27a9e1] bg-[#27a9e1] px-4 text-sm font-semibold text-[#031726] transition-opacity hover:opacity-90 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {saving ? "Saving…" : "Add to team"}
+          </button>
+        </div>
+      )}
+      {message && <div className="text-sm text-gray-300">{message}</div>}
+    </div>
+  );
+}
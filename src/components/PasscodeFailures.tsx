@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, limit, onSnapshot, orderBy, query } from "firebase/firestore";
+import { firestore } from "@/lib/firebase/client";
+import { PASSCODE_FAILURES_LIMIT, parsePasscodeFailure, type PasscodeFailureEntry } from "@/lib/judgePasscode";
+
+const formatTime = (ms: number) => (ms ? new Date(ms).toLocaleString() : "—");
+
+/**
+ * PasscodeFailures - Recent failed judge passcode sign-ins of a competition,
+ * e.g. compPath "boulderComps/{compId}"
+ */
+export default function PasscodeFailures({ compPath }: { compPath: string }) {
+  const [entries, setEntries] = useState<PasscodeFailureEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!firestore) return;
+    setLoading(true);
+    const failuresQuery = query(
+      collection(firestore, `${compPath}/passcodeFailures`),
+      orderBy("atMs", "desc"),
+      limit(PASSCODE_FAILURES_LIMIT)
+    );
+    const unsubscribe = onSnapshot(
+      failuresQuery,
+      (snapshot) => {
+        setEntries(snapshot.docs.map((d) => parsePasscodeFailure(d.id, d.data())));
+        setLoading(false);
+      },
+      (error) => {
+        console.error("Error loading failed passcode attempts:", error);
+        setEntries([]);
+        setLoading(false);
+      }
+    );
+    return () => unsubscribe();
+  }, [compPath]);
+
+  const now = Date.now();
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold">Failed sign-ins</h4>
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading…</p>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No failed attempts recorded.</p>
+      ) : (
+        <ul className="max-h-56 overflow-y-auto divide-y divide-border text-xs">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex flex-wrap items-center justify-between gap-2 py-1.5">
+              <span className="text-muted-foreground">
+                {formatTime(entry.atMs)} · {entry.ip}
+              </span>
+              {entry.lockedUntilMs ? (
+                <span className={entry.lockedUntilMs > now ? "text-red-400" : "text-muted-foreground"}>
+                  Locked out until {new Date(entry.lockedUntilMs).toLocaleTimeString()}
+                </span>
+              ) : (
+                <span className="truncate max-w-[280px] text-muted-foreground" title={entry.userAgent}>
+                  {entry.userAgent || "Unknown device"}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
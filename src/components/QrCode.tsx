@@ -0,0 +1,53 @@
+"use client";
+
+import { useMemo } from "react";
+import { encodeQr, qrSvgPath, type QrErrorCorrection } from "@/lib/qrCode";
+
+const QUIET_ZONE = 4;
+
+/**
+ * QrCode - Inline SVG QR code, generated in the browser so it prints offline
+ */
+export default function QrCode({
+  value,
+  className = "",
+  errorCorrection = "M",
+  title,
+}: {
+  value: string;
+  className?: string;
+  errorCorrection?: QrErrorCorrection;
+  title?: string;
+}) {
+  const qr = useMemo(() => {
+    try {
+      const modules = encodeQr(value, errorCorrection);
+      return { size: modules.length + QUIET_ZONE * 2, path: qrSvgPath(modules, QUIET_ZONE) };
+    } catch (error) {
+      console.error("QR encoding failed", error);
+      return null;
+    }
+  }, [value, errorCorrection]);
+
+  if (!qr) {
+    return (
+      <div className={`flex items-center justify-center text-center text-[10px] ${className}`}>
+        QR unavailable
+      </div>
+    );
+  }
+
+  return (
+    <svg
+      className={className}
+      viewBox={`0 0 ${qr.size} ${qr.size}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={title || "QR code"}
+    >
+      {title ? <title>{title}</title> : null}
+      <rect width={qr.size} height={qr.size} fill="#fff" />
+      <path d={qr.path} fill="#000" />
+    </svg>
+  );
+}
@@ -0,0 +1,318 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { doc, serverTimestamp, writeBatch } from "firebase/firestore"
+import { auth as firebaseAuth, firestore } from "@/lib/firebase/client"
+import {
+  createAttemptId,
+  enqueueAttempt,
+  isAttemptQueueAvailable,
+  isRejectedAttempt,
+  listQueuedAttempts,
+  markAttemptRejected,
+  removeQueuedAttempt,
+  type QueuedAttempt,
+} from "@/lib/boulder/attemptQueue"
+import { appendAttemptAudit, createAuditId } from "@/lib/boulder/attemptAudit"
+
+// Firestore holds writes made while offline until the connection returns, so a
+// write that has not been acknowledged within this window is treated as queued.
+const WRITE_TIMEOUT_MS = 8000
+const RETRY_INTERVAL_MS = 15000
+
+type SubmitResult = "synced" | "queued"
+
+// "firestore" writes the attempt doc directly; "api" posts it to
+// /api/boulder/attempts, which validates it server-side first.
+export type AttemptTransport = "firestore" | "api"
+
+const errorCode = (err: unknown) => ((err as { code?: string } | null)?.code || "").toLowerCase()
+
+const isPermissionDenied = (err: unknown) => errorCode(err).includes("permission-denied")
+
+// The server refused the attempt itself (unknown route, locked route, ...);
+// replaying it would fail the same way.
+const isRejected = (err: unknown) => errorCode(err) === "rejected"
+
+const attemptError = (message: string, code: string) => Object.assign(new Error(message), { code })
+
+// The rules also deny writes to a closed round or to a route outside a station
+// passcode's scope; with a valid session those are refusals, not sign-in problems.
+const REFUSED_MESSAGE = "Not allowed to record this attempt: the round is closed or the route is outside this judge code."
+
+const writeToFirestore = async (entry: QueuedAttempt, offline: boolean, actorRole: string) => {
+  if (!firestore) throw new Error("Firebase is not configured")
+  const batch = writeBatch(firestore)
+  batch.set(doc(firestore, `boulderComps/${entry.compId}/attempts`, entry.id), {
+    ...entry.data,
+    clientAt: serverTimestamp(),
+    offline,
+  })
+  appendAttemptAudit(
+    batch,
+    firestore,
+    entry.compId,
+    {
+      attemptId: entry.id,
+      action: "create",
+      athleteId: entry.data.athleteId as string | undefined,
+      categoryId: entry.data.categoryId as string | undefined,
+      routeId: entry.data.routeId as string | undefined,
+      round: entry.data.round as string | undefined,
+      detailIndex: (entry.data.detailIndex as string | number | undefined) ?? null,
+      beforeSymbol: null,
+      afterSymbol: (entry.data.symbol as string | undefined) ?? null,
+      actorUid: firebaseAuth?.currentUser?.uid || "",
+      actorRole,
+      reason: "Judge pad",
+    },
+    createAuditId(entry.id)
+  )
+  await batch.commit()
+}
+
+const postToApi = async (entry: QueuedAttempt, offline: boolean) => {
+  const user = firebaseAuth?.currentUser
+  if (!user) throw attemptError("Not signed in", "permission-denied")
+  const idToken = await user.getIdToken()
+  const response = await fetch("/api/boulder/attempts", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${idToken}`,
+      "Idempotency-Key": entry.id,
+    },
+    body: JSON.stringify({ ...entry.data, compId: entry.compId, offline }),
+  })
+  if (response.ok) return
+
+  const data = await response.json().catch(() => null)
+  const message = (data as { error?: string } | null)?.error || `Request failed (${response.status})`
+  if (response.status === 401 || response.status === 403) {
+    throw attemptError(message, "permission-denied")
+  }
+  if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+    throw attemptError(message, "rejected")
+  }
+  throw new Error(message)
+}
+
+const writeAttempt = async (
+  entry: QueuedAttempt,
+  offline: boolean,
+  transport: AttemptTransport,
+  actorRole: string
+) => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error("WRITE_TIMEOUT")), WRITE_TIMEOUT_MS)
+  })
+  try {
+    await Promise.race([
+      transport === "api" ? postToApi(entry, offline) : writeToFirestore(entry, offline, actorRole),
+      timeout,
+    ])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// `enabled` should follow the judge session: replays need a signed-in judge.
+// `checkSession` tells a permission-denied write caused by an invalid session
+// (expired, passcode changed, revoked) from one the rules refused; without it
+// every permission-denied write is treated as a session problem.
+export function useAttemptQueue({
+  enabled = true,
+  transport = "firestore",
+  actorRole = "judge",
+  onPermissionDenied,
+  checkSession,
+}: {
+  enabled?: boolean
+  transport?: AttemptTransport
+  actorRole?: string
+  onPermissionDenied?: () => void
+  checkSession?: () => Promise<boolean>
+} = {}) {
+  const [pendingCount, setPendingCount] = useState(0)
+  const [rejectedAttempts, setRejectedAttempts] = useState<QueuedAttempt[]>([])
+  const [syncedCount, setSyncedCount] = useState(0)
+  const [syncing, setSyncing] = useState(false)
+  const [online, setOnline] = useState(true)
+  const flushingRef = useRef(false)
+  const enabledRef = useRef(enabled)
+  const permissionDeniedRef = useRef(onPermissionDenied)
+  const checkSessionRef = useRef(checkSession)
+
+  useEffect(() => {
+    enabledRef.current = enabled
+    permissionDeniedRef.current = onPermissionDenied
+    checkSessionRef.current = checkSession
+  }, [enabled, onPermissionDenied, checkSession])
+
+  const sessionStillValid = useCallback(async () => {
+    if (!firebaseAuth?.currentUser || !checkSessionRef.current) return false
+    try {
+      return await checkSessionRef.current()
+    } catch (err) {
+      console.warn("[AttemptQueue] Could not check the session", err)
+      return false
+    }
+  }, [])
+
+  const refreshPending = useCallback(async () => {
+    if (!isAttemptQueueAvailable()) return
+    try {
+      const entries = await listQueuedAttempts()
+      setPendingCount(entries.filter((entry) => !isRejectedAttempt(entry)).length)
+      setRejectedAttempts(entries.filter(isRejectedAttempt))
+    } catch (err) {
+      console.error("[AttemptQueue] Failed to read queue", err)
+    }
+  }, [])
+
+  const flush = useCallback(async () => {
+    if (!enabledRef.current || flushingRef.current || !isAttemptQueueAvailable()) return
+    if (typeof navigator !== "undefined" && !navigator.onLine) return
+    flushingRef.current = true
+    setSyncing(true)
+    try {
+      const entries = (await listQueuedAttempts()).filter((entry) => !isRejectedAttempt(entry))
+      for (const entry of entries) {
+        try {
+          await writeAttempt(entry, true, transport, actorRole)
+          await removeQueuedAttempt(entry.id)
+          setSyncedCount((count) => count + 1)
+        } catch (err) {
+          // A refused entry is set aside for the judge to review so it cannot
+          // hold up the ones behind it
+          const refused = isRejected(err) || (isPermissionDenied(err) && (await sessionStillValid()))
+          if (refused) {
+            await markAttemptRejected(entry, isRejected(err) ? (err as Error).message : REFUSED_MESSAGE).catch(() => null)
+            continue
+          }
+          if (isPermissionDenied(err)) {
+            permissionDeniedRef.current?.()
+          } else {
+            await enqueueAttempt({ ...entry, tries: entry.tries + 1 }).catch(() => null)
+          }
+          // Keep the remaining entries in order; they are retried on the next pass
+          break
+        }
+      }
+    } catch (err) {
+      console.error("[AttemptQueue] Replay failed", err)
+    } finally {
+      flushingRef.current = false
+      setSyncing(false)
+      await refreshPending()
+    }
+  }, [refreshPending, sessionStillValid, transport, actorRole])
+
+  // Persist first, then try to write straight through. Anything that does not
+  // make it stays queued and is replayed with `offline: true`.
+  const submitAttempt = useCallback(
+    async (compId: string, data: Record<string, unknown>): Promise<SubmitResult> => {
+      const entry: QueuedAttempt = {
+        id: createAttemptId(),
+        compId,
+        data,
+        queuedAtMs: Date.now(),
+        tries: 0,
+      }
+
+      if (!isAttemptQueueAvailable()) {
+        await writeAttempt(entry, false, transport, actorRole)
+        setSyncedCount((count) => count + 1)
+        return "synced"
+      }
+
+      await enqueueAttempt(entry)
+      await refreshPending()
+
+      if (typeof navigator !== "undefined" && !navigator.onLine) {
+        return "queued"
+      }
+
+      try {
+        await writeAttempt(entry, false, transport, actorRole)
+        await removeQueuedAttempt(entry.id)
+        setSyncedCount((count) => count + 1)
+        return "synced"
+      } catch (err) {
+        if (isRejected(err)) {
+          await markAttemptRejected(entry, (err as Error).message).catch(() => null)
+          throw err
+        }
+        if (isPermissionDenied(err)) {
+          if (await sessionStillValid()) {
+            await markAttemptRejected(entry, REFUSED_MESSAGE).catch(() => null)
+            throw attemptError(REFUSED_MESSAGE, "rejected")
+          }
+          throw err
+        }
+        console.warn("[AttemptQueue] Attempt queued for replay", err)
+        return "queued"
+      } finally {
+        await refreshPending()
+      }
+    },
+    [refreshPending, sessionStillValid, transport, actorRole]
+  )
+
+  // Rejected entries are only ever removed here, once a judge has reviewed them
+  const dismissRejected = useCallback(
+    async (id: string) => {
+      try {
+        await removeQueuedAttempt(id)
+      } catch (err) {
+        console.error("[AttemptQueue] Failed to dismiss rejected attempt", err)
+      } finally {
+        await refreshPending()
+      }
+    },
+    [refreshPending]
+  )
+
+  useEffect(() => {
+    if (typeof window === "undefined") return
+    setOnline(navigator.onLine)
+    refreshPending()
+
+    const handleOnline = () => {
+      setOnline(true)
+      flush()
+    }
+    const handleOffline = () => setOnline(false)
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [flush, refreshPending])
+
+  useEffect(() => {
+    if (enabled) flush()
+  }, [enabled, flush])
+
+  useEffect(() => {
+    if (!pendingCount || !enabled) return
+    const interval = setInterval(() => {
+      flush()
+    }, RETRY_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [pendingCount, enabled, flush])
+
+  return {
+    pendingCount,
+    syncedCount,
+    syncing,
+    online,
+    rejectedAttempts,
+    dismissRejected,
+    submitAttempt,
+    flush,
+  }
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { firestore } from '@/lib/firebase/client';
+import type { BoulderRoundId } from '@/lib/boulder/rounds';
 import {
   collection,
   query,
@@ -67,14 +68,14 @@ interface AthleteRecord {
  *
  * @param compId - Competition ID
  * @param categoryId - Category ID to filter athletes and attempts
- * @param round - "qualification" or "final"
+ * @param round - "qualification", "semifinal" or "final"
  * @param routeId - Route ID to filter attempts
  * @param detailIndex - Detail/group index (for qualification rounds only)
  */
 export function useChiefJudgeAttempts(
   compId: string,
   categoryId: string,
-  round: 'qualification' | 'final',
+  round: BoulderRoundId,
   routeId: string,
   detailIndex?: number | null
 ) {
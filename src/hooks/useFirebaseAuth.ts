@@ -3,7 +3,9 @@
 import { useEffect, useState, useRef } from 'react';
 import { useUser } from '@clerk/nextjs';
 import { signInWithCustomToken, signOut } from 'firebase/auth';
-import { auth as firebaseAuth } from '@/lib/firebase/client';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { auth as firebaseAuth, firestore } from '@/lib/firebase/client';
+import { parseUserRole } from '@/lib/roles';
 
 /**
  * useFirebaseAuth - Clerk ↔ Firebase Authentication Sync
@@ -26,6 +28,9 @@ export function useFirebaseAuth() {
   const [isFirebaseAuthenticated, setIsFirebaseAuthenticated] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Bumped to re-run the sync after signing out stale claims
+  const [resyncCount, setResyncCount] = useState(0);
+
   // INVARIANT 4: Track in-flight operations to enable cancellation
   // Prevents parallel token requests for the same user
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -235,7 +240,43 @@ export function useFirebaseAuth() {
         abortControllerRef.current = null;
       }
     };
-  }, [isLoaded, isSignedIn, user?.id]);
+  }, [isLoaded, isSignedIn, user?.id, resyncCount]);
+
+  // ROLE CHANGES: an admin changing roles/{uid} revokes the user's refresh
+  // tokens, but the current ID token keeps its old role claim until it expires.
+  // Watch our own roles doc and, when it no longer matches the claim, sign out
+  // so the sync above fetches a token with the new claims.
+  useEffect(() => {
+    if (!firestore || !firebaseAuth || !isFirebaseAuthenticated || !user?.id) return;
+    const clerkUserId = user.id;
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, 'roles', clerkUserId),
+      async (snap) => {
+        const currentUser = firebaseAuth?.currentUser;
+        if (!firebaseAuth || !currentUser || currentUser.uid !== clerkUserId) return;
+        try {
+          const tokenResult = await currentUser.getIdTokenResult();
+          const claimedRole = parseUserRole(tokenResult.claims.role);
+          const storedRole = parseUserRole(snap.data()?.role);
+          if (claimedRole === storedRole) return;
+
+          console.log('🔄 Role changed:', claimedRole, '→', storedRole, '- refreshing Firebase token');
+          await signOut(firebaseAuth);
+          setIsFirebaseAuthenticated(false);
+          lastAuthenticatedUserRef.current = null;
+          setResyncCount((count) => count + 1);
+        } catch (err) {
+          console.error('❌ Failed to refresh role claims:', err);
+        }
+      },
+      (err) => {
+        console.error('❌ Error watching role doc:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [isFirebaseAuthenticated, user?.id]);
 
   return { isFirebaseAuthenticated, error };
 }
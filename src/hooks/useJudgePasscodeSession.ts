@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useState } from "react"
 import { onIdTokenChanged, signInWithCustomToken, signOut, type User } from "firebase/auth"
 import { auth as firebaseAuth } from "@/lib/firebase/client"
+import { parseJudgeScope, type JudgeScope } from "@/lib/boulder/judgeAccess"
 
 type JudgeSession = {
   uid: string
@@ -11,10 +12,13 @@ type JudgeSession = {
   authType?: string
   passcodeVersion?: string
   sessionExpiresAt?: number
+  // Set for station passcodes; restricts the rounds and routes the judge may score
+  credentialId?: string
+  scope: JudgeScope
 }
 
 const ALLOWED_ROLES = ["judge", "staff", "admin"]
-type JudgeDiscipline = "boulder" | "speed"
+type JudgeDiscipline = "boulder" | "speed" | "lead"
 
 const parseSessionFromUser = async (user: User): Promise<JudgeSession | null> => {
   const tokenResult = await user.getIdTokenResult()
@@ -26,6 +30,7 @@ const parseSessionFromUser = async (user: User): Promise<JudgeSession | null> =>
   const passcodeVersion = typeof claims.passcodeVersion === "string" ? claims.passcodeVersion : undefined
   const sessionExpiresAt =
     typeof claims.sessionExpiresAt === "number" ? claims.sessionExpiresAt : undefined
+  const credentialId = typeof claims.credentialId === "string" ? claims.credentialId : undefined
 
   if (authType === "judge-passcode" && sessionExpiresAt && Date.now() > sessionExpiresAt) {
     throw new Error("SESSION_EXPIRED")
@@ -40,6 +45,8 @@ const parseSessionFromUser = async (user: User): Promise<JudgeSession | null> =>
     authType,
     passcodeVersion,
     sessionExpiresAt,
+    credentialId,
+    scope: parseJudgeScope(claims.scopeRound, claims.scopeRouteIds),
   }
 }
 
@@ -95,7 +102,12 @@ export function useJudgePasscodeSession() {
     return () => unsubscribe()
   }, [])
 
-  const signInWithPasscode = useCallback(async (compId: string, passcode: string, discipline: JudgeDiscipline = "boulder") => {
+  const signInWithPasscode = useCallback(async (
+    compId: string,
+    passcode: string,
+    discipline: JudgeDiscipline = "boulder",
+    judgeName?: string
+  ) => {
     if (!firebaseAuth) throw new Error("Firebase is not configured")
     setSigningIn(true)
     setError(null)
@@ -108,7 +120,7 @@ export function useJudgePasscodeSession() {
       const response = await fetch("/api/judge-passcode", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ compId, passcode, discipline }),
+        body: JSON.stringify({ compId, passcode, discipline, judgeName }),
       })
 
       const data = await response.json().catch(() => null)
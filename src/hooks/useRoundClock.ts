@@ -0,0 +1,115 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { doc, onSnapshot, serverTimestamp, setDoc } from "firebase/firestore"
+import { firestore } from "@/lib/firebase/client"
+import {
+  parseRoundClock,
+  readRoundClock,
+  roundClockPath,
+  type RoundClockDoc,
+  type RoundClockReading,
+} from "@/lib/boulder/roundClock"
+
+const OFFSET_SAMPLES = 3
+const OFFSET_RESYNC_MS = 5 * 60 * 1000
+const TICK_MS = 250
+
+// Server time minus local time, taken from the /api/time sample with the
+// shortest round trip. 0 when the server cannot be reached.
+async function measureServerOffset() {
+  let best: { offsetMs: number; roundTripMs: number } | null = null
+  for (let i = 0; i < OFFSET_SAMPLES; i++) {
+    try {
+      const sentAt = Date.now()
+      const response = await fetch("/api/time", { cache: "no-store" })
+      const receivedAt = Date.now()
+      const data = (await response.json()) as { nowMs?: number }
+      if (!response.ok || typeof data.nowMs !== "number") continue
+      const roundTripMs = receivedAt - sentAt
+      if (!best || roundTripMs < best.roundTripMs) {
+        best = { offsetMs: data.nowMs - (sentAt + roundTripMs / 2), roundTripMs }
+      }
+    } catch (error) {
+      console.error("Error measuring server time offset:", error)
+    }
+  }
+  return best?.offsetMs ?? 0
+}
+
+// Follows a competition's round clock and re-reads it several times a second
+// against the server-corrected time. `update` merges new clock fields; only
+// staff can write them.
+export function useRoundClock(compId: string | null | undefined) {
+  const [clock, setClock] = useState<RoundClockDoc>(() => parseRoundClock(null))
+  const [reading, setReading] = useState<RoundClockReading>(() => readRoundClock(parseRoundClock(null), Date.now()))
+  const [offsetMs, setOffsetMs] = useState(0)
+  const offsetRef = useRef(0)
+
+  useEffect(() => {
+    let cancelled = false
+    const sync = async () => {
+      const measured = await measureServerOffset()
+      if (cancelled) return
+      offsetRef.current = measured
+      setOffsetMs(measured)
+    }
+    sync()
+    const interval = window.setInterval(sync, OFFSET_RESYNC_MS)
+    return () => {
+      cancelled = true
+      window.clearInterval(interval)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!firestore || !compId) {
+      setClock(parseRoundClock(null))
+      return
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, roundClockPath(compId)),
+      (snap) => setClock(parseRoundClock(snap.data())),
+      (error) => {
+        console.error("Error loading round clock:", error)
+        setClock(parseRoundClock(null))
+      }
+    )
+
+    return () => unsubscribe()
+  }, [compId])
+
+  useEffect(() => {
+    const tick = () => {
+      const next = readRoundClock(clock, Date.now() + offsetRef.current)
+      setReading((prev) =>
+        prev.status === next.status &&
+        prev.rotation === next.rotation &&
+        prev.remainingSeconds === next.remainingSeconds
+          ? prev
+          : next
+      )
+    }
+    tick()
+    if (clock.status !== "running") return
+    const interval = window.setInterval(tick, TICK_MS)
+    return () => window.clearInterval(interval)
+  }, [clock, offsetMs])
+
+  const serverNowMs = useCallback(() => Date.now() + offsetRef.current, [])
+
+  const update = useCallback(
+    async (next: RoundClockDoc, updatedBy?: string) => {
+      if (!firestore || !compId) throw new Error("No competition selected")
+      await setDoc(
+        doc(firestore, roundClockPath(compId)),
+        { ...next, updatedAt: serverTimestamp(), updatedBy: updatedBy || "unknown" },
+        { merge: true }
+      )
+    },
+    [compId]
+  )
+
+  return { clock, reading, offsetMs, serverNowMs, update }
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import {
+  applyTimingEvent,
+  emptyReadings,
+  parseTimingEvent,
+  type TimingReadings,
+} from "@/lib/speed/timing"
+
+export const DEFAULT_TIMING_BRIDGE_URL = "http://localhost:4555"
+
+const BRIDGE_URL_STORAGE_KEY = "speedTimingBridgeUrl"
+
+type BridgeState = "disconnected" | "connecting" | "connected" | "error"
+
+// Subscribes to the local timing bridge's event stream and folds incoming
+// events into per-lane readings. Nothing is saved here; the judge confirms the
+// readings before they are written.
+export function useTimingBridge(falseStartThresholdMs: number) {
+  const [url, setUrl] = useState(DEFAULT_TIMING_BRIDGE_URL)
+  const [state, setState] = useState<BridgeState>("disconnected")
+  const [readings, setReadings] = useState<TimingReadings>(emptyReadings)
+  const sourceRef = useRef<EventSource | null>(null)
+  const thresholdRef = useRef(falseStartThresholdMs)
+
+  useEffect(() => {
+    thresholdRef.current = falseStartThresholdMs
+  }, [falseStartThresholdMs])
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(BRIDGE_URL_STORAGE_KEY)
+    if (stored) setUrl(stored)
+  }, [])
+
+  const disconnect = useCallback(() => {
+    sourceRef.current?.close()
+    sourceRef.current = null
+    setState("disconnected")
+  }, [])
+
+  const connect = useCallback(() => {
+    sourceRef.current?.close()
+    const base = url.trim().replace(/\/+$/, "")
+    window.localStorage.setItem(BRIDGE_URL_STORAGE_KEY, base)
+    setState("connecting")
+
+    const source = new EventSource(`${base}/events`)
+    sourceRef.current = source
+    source.onopen = () => setState("connected")
+    // EventSource retries on its own; surface the drop until it reconnects
+    source.onerror = () => setState("error")
+    source.onmessage = (message) => {
+      const event = parseTimingEvent(message.data)
+      if (!event) return
+      setReadings((prev) => applyTimingEvent(prev, event, thresholdRef.current))
+    }
+  }, [url])
+
+  const clearReadings = useCallback(() => setReadings(emptyReadings()), [])
+
+  useEffect(() => () => sourceRef.current?.close(), [])
+
+  return { url, setUrl, state, readings, connect, disconnect, clearReadings }
+}
@@ -2,13 +2,15 @@
 
 import { useEffect, useState } from 'react';
 import { useUser } from '@clerk/nextjs';
+import { onIdTokenChanged } from 'firebase/auth';
 import { auth as firebaseAuth } from '@/lib/firebase/client';
+import type { UserRole } from '@/lib/roles';
 
 /**
  * User roles in GripRank
  * Source: Firestore roles/{userId} collection → Firebase custom token claims
  */
-export type UserRole = 'viewer' | 'judge' | 'staff' | 'admin';
+export type { UserRole };
 
 /**
  * useUserRole - Get the current user's role from Firebase token claims
@@ -64,8 +66,9 @@ export function useUserRole() {
       return;
     }
 
-    // Listen to Firebase auth state changes
-    const unsubscribe = firebaseAuth.onAuthStateChanged(async (user) => {
+    // Listen to Firebase token changes (sign-in, sign-out and the re-sign-in
+    // after an admin changes this user's role)
+    const unsubscribe = onIdTokenChanged(firebaseAuth, async (user) => {
       if (!user) {
         // No Firebase user yet, but Clerk is signed in
         // This means useFirebaseAuth is still in progress
@@ -126,3 +129,13 @@ export function isJudgeRole(role: UserRole | null): boolean {
 export function isStaffRole(role: UserRole | null): boolean {
   return role === 'staff' || role === 'admin';
 }
+
+/**
+ * Helper: Check if a role is allowed for admin-only pages (e.g., /admin/roles)
+ *
+ * ALLOWED ROLES: admin
+ * DENIED ROLES: viewer, judge, staff, null (not signed in)
+ */
+export function isAdminRole(role: UserRole | null): boolean {
+  return role === 'admin';
+}
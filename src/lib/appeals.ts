@@ -0,0 +1,125 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  serverTimestamp,
+  updateDoc,
+  type Firestore,
+} from "firebase/firestore";
+
+// Athlete protests, stored per competition under boulderComps/{compId}/appeals
+// or speedCompetitions/{compId}/appeals. An appeal moves submitted →
+// under_review → upheld | rejected; an upheld appeal keeps the audit ids of the
+// attempt corrections made while it was being handled.
+
+export type AppealDiscipline = "boulder" | "speed";
+
+export type AppealStatus = "submitted" | "under_review" | "upheld" | "rejected";
+
+export const APPEAL_STATUS_LABELS: Record<AppealStatus, string> = {
+  submitted: "Submitted",
+  under_review: "Under review",
+  upheld: "Upheld",
+  rejected: "Rejected",
+};
+
+// Appeals must be filed within this window after a round's results go official.
+// Keep in step with the 30 minutes in appealFilingOpen() in firestore.rules.
+export const APPEAL_WINDOW_MINUTES = 30;
+
+export interface Appeal {
+  id: string;
+  compId: string;
+  discipline: AppealDiscipline;
+  categoryId: string;
+  round: string;
+  athleteId: string;
+  athleteLabel?: string;
+  routeId?: string | null;
+  routeLabel?: string | null;
+  matchId?: string | null;
+  attemptIds: string[];
+  reason: string;
+  status: AppealStatus;
+  feePaid: boolean;
+  decisionNote?: string;
+  correctionAuditIds?: string[];
+  submittedBy: string;
+  submittedAtMs: number;
+  decidedBy?: string | null;
+  decidedAtMs?: number | null;
+}
+
+export type AppealInput = Omit<
+  Appeal,
+  "id" | "compId" | "discipline" | "status" | "submittedAtMs" | "decidedBy" | "decidedAtMs"
+>;
+
+export function appealsPath(discipline: AppealDiscipline, compId: string) {
+  return discipline === "speed"
+    ? `speedCompetitions/${compId}/appeals`
+    : `boulderComps/${compId}/appeals`;
+}
+
+export function isAppealOpen(status: AppealStatus) {
+  return status === "submitted" || status === "under_review";
+}
+
+// Null while the round is not official yet; filing stays open until then.
+export function appealDeadlineMs(officialAtMs: number | null) {
+  return officialAtMs == null ? null : officialAtMs + APPEAL_WINDOW_MINUTES * 60 * 1000;
+}
+
+export function canFileAppeal(officialAtMs: number | null, nowMs = Date.now()) {
+  const deadline = appealDeadlineMs(officialAtMs);
+  return deadline == null || nowMs <= deadline;
+}
+
+export async function fileAppeal(
+  db: Firestore,
+  discipline: AppealDiscipline,
+  compId: string,
+  input: AppealInput,
+  officialAtMs: number | null
+) {
+  if (!canFileAppeal(officialAtMs)) {
+    const deadline = new Date(appealDeadlineMs(officialAtMs) as number);
+    throw new Error(`The appeal window closed at ${deadline.toLocaleTimeString()}`);
+  }
+
+  const ref = await addDoc(collection(db, appealsPath(discipline, compId)), {
+    ...input,
+    compId,
+    discipline,
+    status: "submitted",
+    decisionNote: input.decisionNote || "",
+    correctionAuditIds: input.correctionAuditIds || [],
+    submittedAt: serverTimestamp(),
+    submittedAtMs: Date.now(),
+  });
+  return ref.id;
+}
+
+export async function updateAppealStatus(
+  db: Firestore,
+  discipline: AppealDiscipline,
+  compId: string,
+  appealId: string,
+  status: AppealStatus,
+  {
+    actorUid,
+    decisionNote,
+    correctionAuditIds,
+  }: { actorUid: string; decisionNote?: string; correctionAuditIds?: string[] }
+) {
+  const decided = status === "upheld" || status === "rejected";
+  await updateDoc(doc(db, appealsPath(discipline, compId), appealId), {
+    status,
+    ...(decisionNote !== undefined ? { decisionNote } : {}),
+    ...(correctionAuditIds !== undefined ? { correctionAuditIds } : {}),
+    decidedBy: decided ? actorUid : null,
+    decidedAtMs: decided ? Date.now() : null,
+    updatedAt: serverTimestamp(),
+    updatedBy: actorUid,
+  });
+}
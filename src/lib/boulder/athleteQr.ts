@@ -0,0 +1,27 @@
+// Payload printed on scorecards and bib badges and read by the judge pad
+// scanner. Versioned so the format can change without misreading old cards.
+
+export interface AthleteQrPayload {
+  compId: string;
+  athleteId: string;
+  bib: string;
+}
+
+const PREFIX = "GRA1?";
+
+export function encodeAthleteQr({ compId, athleteId, bib }: AthleteQrPayload) {
+  const params = new URLSearchParams({ c: compId, a: athleteId });
+  if (bib) params.set("b", bib);
+  return `${PREFIX}${params.toString()}`;
+}
+
+// Null for anything that is not an athlete payload, e.g. cards printed with a
+// bare bib or athlete id before the payload existed.
+export function parseAthleteQr(raw: string): AthleteQrPayload | null {
+  if (!raw.startsWith(PREFIX)) return null;
+  const params = new URLSearchParams(raw.slice(PREFIX.length));
+  const compId = params.get("c");
+  const athleteId = params.get("a");
+  if (!compId || !athleteId) return null;
+  return { compId, athleteId, bib: params.get("b") || "" };
+}
@@ -0,0 +1,149 @@
+import {
+  collection,
+  doc,
+  serverTimestamp,
+  writeBatch,
+  type Firestore,
+  type WriteBatch,
+} from "firebase/firestore";
+
+// Every create/update/delete of an attempt appends one entry to
+// boulderComps/{compId}/attemptAudit. Entries are never edited; an undo is a
+// new entry that points at the one it reverts through `revertsAuditId`.
+
+export type AttemptAuditAction = "create" | "update" | "delete";
+
+export interface AttemptAuditActor {
+  uid: string;
+  role: string;
+}
+
+export interface AttemptAuditEntry {
+  id: string;
+  attemptId: string;
+  action: AttemptAuditAction;
+  athleteId?: string;
+  categoryId?: string;
+  routeId?: string;
+  round?: string;
+  detailIndex?: string | number | null;
+  beforeSymbol: string | null;
+  afterSymbol: string | null;
+  // Attempt doc as it was before a delete, so an undo can restore it
+  before?: Record<string, unknown> | null;
+  actorUid: string;
+  actorRole: string;
+  reason: string;
+  createdAtMs: number;
+  revertsAuditId?: string | null;
+  // Appeal the change was made for, so an upheld appeal can list its corrections
+  appealId?: string | null;
+}
+
+export type AttemptAuditInput = Omit<AttemptAuditEntry, "id" | "createdAtMs">;
+
+export function attemptAuditPath(compId: string) {
+  return `boulderComps/${compId}/attemptAudit`;
+}
+
+// Create entries are keyed by attempt id so a replayed write lands on the same entry.
+export function createAuditId(attemptId: string) {
+  return `create_${attemptId}`;
+}
+
+export function appendAttemptAudit(
+  batch: WriteBatch,
+  db: Firestore,
+  compId: string,
+  entry: AttemptAuditInput,
+  auditId?: string
+) {
+  const path = attemptAuditPath(compId);
+  const ref = auditId ? doc(db, path, auditId) : doc(collection(db, path));
+  // Firestore rejects undefined fields; legacy attempts may lack some of them
+  const fields = Object.fromEntries(
+    Object.entries(entry).filter(([, value]) => value !== undefined)
+  );
+  batch.set(ref, {
+    ...fields,
+    compId,
+    createdAt: serverTimestamp(),
+    createdAtMs: Date.now(),
+  });
+  return ref.id;
+}
+
+// Strips the local-only fields from an attempt before it is stored in an entry.
+export function attemptSnapshot(attempt: Record<string, unknown>) {
+  const snapshot = { ...attempt };
+  delete snapshot.id;
+  delete snapshot.createdAt;
+  return snapshot;
+}
+
+// Entries that can still be undone, newest first. Undo entries themselves and
+// entries that already have an undo are skipped.
+export function undoableAuditEntries(entries: AttemptAuditEntry[]) {
+  const reverted = new Set(entries.map((entry) => entry.revertsAuditId).filter(Boolean));
+  return entries
+    .filter((entry) => !entry.revertsAuditId && !reverted.has(entry.id))
+    .sort((a, b) => b.createdAtMs - a.createdAtMs);
+}
+
+export async function undoAttemptAudit(
+  db: Firestore,
+  compId: string,
+  entry: AttemptAuditEntry,
+  actor: AttemptAuditActor,
+  reason: string
+) {
+  const batch = writeBatch(db);
+  const attemptRef = doc(db, `boulderComps/${compId}/attempts`, entry.attemptId);
+  const base = {
+    attemptId: entry.attemptId,
+    athleteId: entry.athleteId,
+    categoryId: entry.categoryId,
+    routeId: entry.routeId,
+    round: entry.round,
+    detailIndex: entry.detailIndex ?? null,
+    actorUid: actor.uid,
+    actorRole: actor.role,
+    reason,
+    revertsAuditId: entry.id,
+  };
+
+  if (entry.action === "create") {
+    batch.delete(attemptRef);
+    appendAttemptAudit(batch, db, compId, {
+      ...base,
+      action: "delete",
+      beforeSymbol: entry.afterSymbol,
+      afterSymbol: null,
+    });
+  } else if (entry.action === "update") {
+    batch.update(attemptRef, {
+      symbol: entry.beforeSymbol,
+      updatedAt: serverTimestamp(),
+      updatedBy: actor.uid,
+    });
+    appendAttemptAudit(batch, db, compId, {
+      ...base,
+      action: "update",
+      beforeSymbol: entry.afterSymbol,
+      afterSymbol: entry.beforeSymbol,
+    });
+  } else {
+    if (!entry.before) {
+      throw new Error("Audit entry has no snapshot to restore");
+    }
+    batch.set(attemptRef, entry.before);
+    appendAttemptAudit(batch, db, compId, {
+      ...base,
+      action: "create",
+      beforeSymbol: null,
+      afterSymbol: entry.beforeSymbol,
+    });
+  }
+
+  await batch.commit();
+}
@@ -0,0 +1,90 @@
+// Persistent queue for judge pad attempts that have not reached Firestore yet.
+// Entries live in IndexedDB so they survive reloads and dropped connections,
+// and carry a client-generated id so replaying one twice writes the same doc.
+// An entry the server refused stays on the device, marked rejected, until a
+// judge dismisses it; it is never replayed.
+
+export interface QueuedAttempt {
+  id: string;
+  compId: string;
+  data: Record<string, unknown>;
+  queuedAtMs: number;
+  tries: number;
+  rejectedAtMs?: number;
+  rejection?: string;
+}
+
+const DB_NAME = "boulder-judge";
+const DB_VERSION = 1;
+const STORE = "attemptQueue";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isAttemptQueueAvailable() {
+  return typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
+}
+
+function openQueueDb(): Promise<IDBDatabase> {
+  if (!isAttemptQueueAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openQueueDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function createAttemptId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+export async function enqueueAttempt(attempt: QueuedAttempt) {
+  await withStore("readwrite", (store) => store.put(attempt));
+}
+
+export function isRejectedAttempt(attempt: QueuedAttempt) {
+  return typeof attempt.rejectedAtMs === "number";
+}
+
+export async function markAttemptRejected(attempt: QueuedAttempt, rejection: string) {
+  await enqueueAttempt({ ...attempt, rejectedAtMs: Date.now(), rejection });
+}
+
+export async function removeQueuedAttempt(id: string) {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+export async function listQueuedAttempts(): Promise<QueuedAttempt[]> {
+  const entries = await withStore<QueuedAttempt[]>("readonly", (store) => store.getAll());
+  return [...entries].sort((a, b) => a.queuedAtMs - b.queuedAtMs);
+}
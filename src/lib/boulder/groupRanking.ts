@@ -0,0 +1,100 @@
+import {
+  rankRows,
+  type LeaderboardRow,
+  type RankedRow,
+  type ScoringFormat,
+  type ScoringFormatId,
+} from "@/lib/boulder/scoring";
+
+// Qualification is split into groups by the athletes' `detailIndex`. With the
+// "overall" ranking every athlete in the category is ranked together; with
+// "combined" (IFSC) each group is ranked on its own, the group rankings are
+// merged by rank position so that the winners of each group share 1st, and
+// the quota for the next round is split evenly across the groups. A category
+// picks its ranking with `qualificationRanking` on its doc.
+
+export type QualificationRanking = "overall" | "combined";
+
+export const QUALIFICATION_RANKINGS: QualificationRanking[] = ["overall", "combined"];
+
+export const QUALIFICATION_RANKING_LABELS: Record<QualificationRanking, string> = {
+  overall: "Overall",
+  combined: "Combined by group (IFSC)",
+};
+
+export function getQualificationRanking(
+  categoryData: { qualificationRanking?: unknown } | null | undefined
+): QualificationRanking {
+  return categoryData?.qualificationRanking === "combined" ? "combined" : "overall";
+}
+
+export interface GroupRankedRow extends RankedRow {
+  group: string;
+  groupRank: number;
+}
+
+export function isGroupRankedRow(entry: RankedRow): entry is GroupRankedRow {
+  return typeof (entry as GroupRankedRow).groupRank === "number";
+}
+
+// An athlete's group, read the same way the judge pad filters athletes; "" when unassigned.
+export function athleteGroup(data: { detailIndex?: unknown; detail?: unknown; detailId?: unknown }) {
+  const raw = data.detailIndex ?? data.detail ?? data.detailId;
+  return raw == null ? "" : String(raw).trim();
+}
+
+const compareGroups = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+// Ranks each group separately, then merges them: athletes holding the same
+// rank in their groups share the combined rank, which counts everyone ranked
+// better in any group.
+export function rankRowsByGroup(
+  rows: LeaderboardRow[],
+  {
+    format,
+    groupByAthlete,
+  }: {
+    format?: ScoringFormat | ScoringFormatId | null;
+    groupByAthlete: Map<string, string>;
+  }
+): GroupRankedRow[] {
+  const rowsByGroup = new Map<string, LeaderboardRow[]>();
+  rows.forEach((row) => {
+    const group = groupByAthlete.get(row.athleteId) ?? "";
+    rowsByGroup.set(group, [...(rowsByGroup.get(group) || []), row]);
+  });
+
+  const grouped: GroupRankedRow[] = [];
+  rowsByGroup.forEach((groupRows, group) => {
+    rankRows(groupRows, { format }).forEach((entry) => {
+      grouped.push({ ...entry, group, groupRank: entry.rank });
+    });
+  });
+
+  grouped.sort((a, b) => a.groupRank - b.groupRank || compareGroups(a.group, b.group));
+  return grouped.map((entry) => ({
+    ...entry,
+    rank: grouped.filter((other) => other.groupRank < entry.groupRank).length + 1,
+  }));
+}
+
+// Splits `count` places evenly across the groups; larger groups take the remainder.
+export function groupQuotas(ranked: GroupRankedRow[], count: number) {
+  const sizes = new Map<string, number>();
+  ranked.forEach((entry) => sizes.set(entry.group, (sizes.get(entry.group) || 0) + 1));
+  const groups = Array.from(sizes.keys()).sort(
+    (a, b) => (sizes.get(b) || 0) - (sizes.get(a) || 0) || compareGroups(a, b)
+  );
+  const quotas = new Map<string, number>();
+  groups.forEach((group, index) => {
+    quotas.set(group, Math.floor(count / groups.length) + (index < count % groups.length ? 1 : 0));
+  });
+  return quotas;
+}
+
+// Athletes within their group's quota, keeping everyone tied at a group's cut.
+export function pickByGroupQuota(ranked: GroupRankedRow[], count: number) {
+  const quotas = groupQuotas(ranked, count);
+  return ranked.filter((entry) => entry.groupRank <= (quotas.get(entry.group) || 0));
+}
@@ -0,0 +1,116 @@
+/**
+ * Judge Access - Station passcodes and passcode judge sessions
+ *
+ * Paths:
+ * - boulderComps/{compId}/judgeCredentials/{credentialId}
+ * - boulderComps/{compId}/judgeSessions/{uid}
+ *
+ * Besides the shared competition passcode, staff can issue station passcodes
+ * that sign judges in with tokens scoped to one round and/or a set of routes
+ * (claims `scopeRound` and `scopeRouteIds`, enforced by the Firestore rules).
+ * Every passcode sign-in records a session doc so staff can see who is judging
+ * and revoke a single session without changing the shared passcode.
+ */
+
+import { BOULDER_ROUND_IDS, BOULDER_ROUND_LABELS, type BoulderRoundId } from "@/lib/boulder/rounds";
+
+/** Route ids are carried in the token claims, so keep the list short */
+export const MAX_SCOPE_ROUTES = 12;
+
+export const JUDGE_NAME_MAX_LENGTH = 60;
+
+/**
+ * Rounds and routes a judge token may write; empty means unrestricted
+ */
+export interface JudgeScope {
+  round: BoulderRoundId | null;
+  routeIds: string[];
+}
+
+export const UNRESTRICTED_SCOPE: JudgeScope = { round: null, routeIds: [] };
+
+/**
+ * Station passcode as listed to staff (the hash stays server-side)
+ */
+export interface JudgeCredential {
+  id: string;
+  label: string;
+  scope: JudgeScope;
+  createdAtMs: number;
+}
+
+/**
+ * JudgeSession document, written by /api/judge-passcode on sign-in
+ */
+export interface JudgeSessionEntry {
+  uid: string;
+  judgeName: string;
+  credentialId: string | null;
+  credentialLabel: string;
+  scope: JudgeScope;
+  createdAtMs: number;
+  expiresAtMs: number;
+  station: string | null;
+  lastWriteAtMs: number | null;
+  revokedAtMs: number | null;
+}
+
+const isBoulderRoundId = (value: unknown): value is BoulderRoundId =>
+  typeof value === "string" && (BOULDER_ROUND_IDS as string[]).includes(value);
+
+/**
+ * Normalise a scope from request bodies or stored docs: unknown rounds become
+ * "any round", route ids are trimmed, de-duplicated and capped.
+ */
+export function parseJudgeScope(round: unknown, routeIds: unknown): JudgeScope {
+  const ids = Array.isArray(routeIds)
+    ? routeIds.filter((id): id is string => typeof id === "string").map((id) => id.trim()).filter(Boolean)
+    : [];
+  return {
+    round: isBoulderRoundId(round) ? round : null,
+    routeIds: Array.from(new Set(ids)).slice(0, MAX_SCOPE_ROUTES),
+  };
+}
+
+export function isRestrictedScope(scope: JudgeScope): boolean {
+  return scope.round !== null || scope.routeIds.length > 0;
+}
+
+/** Mirrors judgeScopeAllows() in firestore.rules */
+export function judgeScopeAllows(scope: JudgeScope, round: BoulderRoundId, routeId: string): boolean {
+  return (scope.round === null || scope.round === round) && (scope.routeIds.length === 0 || scope.routeIds.includes(routeId));
+}
+
+export function describeJudgeScope(scope: JudgeScope): string {
+  if (!isRestrictedScope(scope)) return "All rounds and routes";
+  const roundText = scope.round ? BOULDER_ROUND_LABELS[scope.round] : "Any round";
+  return scope.routeIds.length > 0 ? `${roundText} · ${scope.routeIds.join(", ")}` : roundText;
+}
+
+export function parseJudgeCredential(id: string, data: Record<string, unknown>): JudgeCredential {
+  return {
+    id,
+    label: typeof data.label === "string" ? data.label : id,
+    scope: parseJudgeScope(data.round, data.routeIds),
+    createdAtMs: typeof data.createdAtMs === "number" ? data.createdAtMs : 0,
+  };
+}
+
+export function parseJudgeSession(uid: string, data: Record<string, unknown>): JudgeSessionEntry {
+  return {
+    uid,
+    judgeName: typeof data.judgeName === "string" ? data.judgeName : "",
+    credentialId: typeof data.credentialId === "string" ? data.credentialId : null,
+    credentialLabel: typeof data.credentialLabel === "string" ? data.credentialLabel : "",
+    scope: parseJudgeScope(data.scopeRound, data.scopeRouteIds),
+    createdAtMs: typeof data.createdAtMs === "number" ? data.createdAtMs : 0,
+    expiresAtMs: typeof data.expiresAtMs === "number" ? data.expiresAtMs : 0,
+    station: typeof data.station === "string" ? data.station : null,
+    lastWriteAtMs: typeof data.lastWriteAtMs === "number" ? data.lastWriteAtMs : null,
+    revokedAtMs: typeof data.revokedAtMs === "number" ? data.revokedAtMs : null,
+  };
+}
+
+export function isActiveJudgeSession(session: JudgeSessionEntry, now: number): boolean {
+  return session.revokedAtMs === null && session.expiresAtMs > now;
+}
@@ -0,0 +1,52 @@
+import { auth as firebaseAuth } from "@/lib/firebase/client";
+import type { BoulderRoundId } from "@/lib/boulder/rounds";
+
+// Calls the judge access API routes with the signed-in user's ID token. Throws
+// with the API's error message.
+async function callJudgeAccessApi<T>(path: string, method: "POST" | "DELETE", body: Record<string, unknown>): Promise<T> {
+  const user = firebaseAuth?.currentUser;
+  if (!user) throw new Error("Not signed in");
+  const idToken = await user.getIdToken();
+  const response = await fetch(path, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const data = (await response.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!response.ok || !data) {
+    throw new Error(data?.error || `Request failed (${response.status})`);
+  }
+  return data;
+}
+
+export function addJudgeCredential(
+  compId: string,
+  label: string,
+  passcode: string,
+  round: BoulderRoundId | null,
+  routeIds: string[]
+) {
+  return callJudgeAccessApi<{ credentialId: string; label: string; round: BoulderRoundId | null; routeIds: string[] }>(
+    "/api/boulder/judge-credentials",
+    "POST",
+    { compId, label, passcode, round, routeIds }
+  );
+}
+
+export function removeJudgeCredential(compId: string, credentialId: string) {
+  return callJudgeAccessApi<{ credentialId: string; revokedSessions: number }>(
+    "/api/boulder/judge-credentials",
+    "DELETE",
+    { compId, credentialId }
+  );
+}
+
+export function revokeJudgeSession(compId: string, uid: string) {
+  return callJudgeAccessApi<{ uid: string; revoked: boolean }>("/api/boulder/judge-sessions", "DELETE", {
+    compId,
+    uid,
+  });
+}
@@ -8,15 +8,16 @@
  */
 
 import type { Timestamp } from "firebase/firestore";
+import type { BoulderRoundId } from "@/lib/boulder/rounds";
 
 /**
  * Station configuration - the judge's current selection
  */
 export interface StationConfig {
   compId: string;
-  round: "qualification" | "final";
+  round: BoulderRoundId;
   categoryId: string;
-  detailIndex: number | null; // null for finals
+  detailIndex: number | null; // null after qualification
   routeId: string;
 }
 
@@ -25,7 +26,7 @@ export interface StationConfig {
  */
 export interface JudgeStation {
   compId: string;
-  round: "qualification" | "final";
+  round: BoulderRoundId;
   categoryId: string;
   detailIndex: number | null;
   routeId: string;
@@ -48,6 +49,7 @@ export interface JudgeStationView extends JudgeStation {
  *
  * Format:
  * - Qualification: `qualification_${categoryId}_${detailIndex}_${routeId}`
+ * - Semifinal: `semifinal_${categoryId}_semifinal_${routeId}`
  * - Final: `final_${categoryId}_final_${routeId}`
  *
  * The key uniquely identifies a station so multiple judges can confirm
@@ -56,8 +58,8 @@ export interface JudgeStationView extends JudgeStation {
 export function generateStationKey(config: StationConfig): string {
   const { round, categoryId, detailIndex, routeId } = config;
 
-  // Use "final" as the detailIndex placeholder for finals
-  const detailPart = round === "final" ? "final" : String(detailIndex ?? "0");
+  // Rounds after qualification have no details; the round id stands in
+  const detailPart = round === "qualification" ? String(detailIndex ?? "0") : round;
 
   return `${round}_${categoryId}_${detailPart}_${routeId}`;
 }
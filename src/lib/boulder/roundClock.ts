@@ -0,0 +1,92 @@
+// Rotation clock shared by every judge pad, the chief judge page and the public
+// clock display of a competition, stored at `boulderComps/{compId}/roundClock/current`.
+// The chief judge starts, pauses and resets it and sets the period length.
+// While running, `startedAtMs` is the server time the clock would have read
+// 0 had it never been paused; while paused or stopped, `elapsedMs` holds the
+// time already run. The countdown repeats every period, so each zero is a
+// rotation signal. Clients convert their local time to server time with the
+// offset measured against /api/time before reading the clock.
+
+export type RoundClockStatus = "stopped" | "running" | "paused";
+
+export const ROUND_CLOCK_STATUS_LABELS: Record<RoundClockStatus, string> = {
+  stopped: "Stopped",
+  running: "Running",
+  paused: "Paused",
+};
+
+export const DEFAULT_ROUND_CLOCK_PERIOD_SECONDS = 4 * 60;
+
+export interface RoundClockDoc {
+  status: RoundClockStatus;
+  periodSeconds: number;
+  startedAtMs: number | null;
+  elapsedMs: number;
+}
+
+export interface RoundClockReading {
+  status: RoundClockStatus;
+  // 1-based rotation number; 0 before the clock has ever been started
+  rotation: number;
+  remainingSeconds: number;
+}
+
+export function roundClockPath(compId: string) {
+  return `boulderComps/${compId}/roundClock/current`;
+}
+
+export function parseRoundClock(data: unknown): RoundClockDoc {
+  const raw = (data || {}) as Partial<RoundClockDoc>;
+  const status: RoundClockStatus =
+    raw.status === "running" || raw.status === "paused" ? raw.status : "stopped";
+  const periodSeconds =
+    typeof raw.periodSeconds === "number" && raw.periodSeconds > 0
+      ? Math.round(raw.periodSeconds)
+      : DEFAULT_ROUND_CLOCK_PERIOD_SECONDS;
+  const startedAtMs = typeof raw.startedAtMs === "number" ? raw.startedAtMs : null;
+  const elapsedMs = typeof raw.elapsedMs === "number" && raw.elapsedMs > 0 ? raw.elapsedMs : 0;
+  if (status === "running" && startedAtMs == null) {
+    return { status: "stopped", periodSeconds, startedAtMs: null, elapsedMs: 0 };
+  }
+  return { status, periodSeconds, startedAtMs, elapsedMs };
+}
+
+export function roundClockElapsedMs(clock: RoundClockDoc, serverNowMs: number) {
+  if (clock.status === "running" && clock.startedAtMs != null) {
+    return Math.max(0, serverNowMs - clock.startedAtMs);
+  }
+  return clock.elapsedMs;
+}
+
+export function readRoundClock(clock: RoundClockDoc, serverNowMs: number): RoundClockReading {
+  const elapsedSeconds = Math.floor(roundClockElapsedMs(clock, serverNowMs) / 1000);
+  if (clock.status === "stopped" && elapsedSeconds === 0) {
+    return { status: clock.status, rotation: 0, remainingSeconds: clock.periodSeconds };
+  }
+  return {
+    status: clock.status,
+    rotation: Math.floor(elapsedSeconds / clock.periodSeconds) + 1,
+    remainingSeconds: clock.periodSeconds - (elapsedSeconds % clock.periodSeconds),
+  };
+}
+
+// Field updates for the chief judge's controls, to merge into the clock doc.
+export function startRoundClock(clock: RoundClockDoc, serverNowMs: number): RoundClockDoc {
+  if (clock.status === "running") return clock;
+  return { ...clock, status: "running", startedAtMs: serverNowMs - clock.elapsedMs, elapsedMs: 0 };
+}
+
+export function pauseRoundClock(clock: RoundClockDoc, serverNowMs: number): RoundClockDoc {
+  if (clock.status !== "running") return clock;
+  return { ...clock, status: "paused", startedAtMs: null, elapsedMs: roundClockElapsedMs(clock, serverNowMs) };
+}
+
+export function resetRoundClock(clock: RoundClockDoc): RoundClockDoc {
+  return { ...clock, status: "stopped", startedAtMs: null, elapsedMs: 0 };
+}
+
+export function formatClockSeconds(totalSeconds: number) {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+}
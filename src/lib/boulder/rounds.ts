@@ -0,0 +1,124 @@
+// Boulder rounds run in a fixed order: qualification → semifinal → final. A
+// category lists the rounds it runs on its doc as `rounds: [{ id, quota }]`,
+// where `quota` is how many athletes advance to the next round; categories
+// without `rounds` run qualification and final. Qualification is split into
+// details and scores every athlete in the category. Each later round has its
+// own route collection and a start list (`{startlistCollection}/startlist`)
+// built from the previous round's ranking by /boulder/finals.
+
+export type BoulderRoundId = "qualification" | "semifinal" | "final";
+
+export const BOULDER_ROUND_IDS: BoulderRoundId[] = ["qualification", "semifinal", "final"];
+
+export const BOULDER_ROUND_LABELS: Record<BoulderRoundId, string> = {
+  qualification: "Qualification",
+  semifinal: "Semifinal",
+  final: "Final",
+};
+
+export interface BoulderRoundDef {
+  routeCollection: string;
+  startlistCollection: string | null;
+  routeIdPrefix: string;
+  routeLabelPrefix: string;
+}
+
+export const BOULDER_ROUND_DEFS: Record<BoulderRoundId, BoulderRoundDef> = {
+  qualification: { routeCollection: "routes", startlistCollection: null, routeIdPrefix: "B", routeLabelPrefix: "Boulder" },
+  semifinal: {
+    routeCollection: "semifinalRoutes",
+    startlistCollection: "semifinals",
+    routeIdPrefix: "S",
+    routeLabelPrefix: "Semifinal Boulder",
+  },
+  final: { routeCollection: "finalRoutes", startlistCollection: "finals", routeIdPrefix: "F", routeLabelPrefix: "Final Boulder" },
+};
+
+export interface BoulderRoundConfig {
+  id: BoulderRoundId;
+  // Athletes advancing to the next round; null when unset or for the last round
+  quota: number | null;
+}
+
+export const DEFAULT_BOULDER_ROUNDS: BoulderRoundConfig[] = [
+  { id: "qualification", quota: null },
+  { id: "final", quota: null },
+];
+
+export function isBoulderRound(value: unknown): value is BoulderRoundId {
+  return BOULDER_ROUND_IDS.includes(value as BoulderRoundId);
+}
+
+export function parseBoulderRound(value: unknown, fallback: BoulderRoundId = "qualification"): BoulderRoundId {
+  return isBoulderRound(value) ? value : fallback;
+}
+
+export function routeCollectionForRound(round: BoulderRoundId) {
+  return BOULDER_ROUND_DEFS[round].routeCollection;
+}
+
+// Rounds after qualification only score the athletes on their start list.
+export function usesStartlist(round: BoulderRoundId) {
+  return BOULDER_ROUND_DEFS[round].startlistCollection != null;
+}
+
+// Path of the round's start list doc below the category, or null for qualification.
+export function startlistPathForRound(round: BoulderRoundId) {
+  const collection = BOULDER_ROUND_DEFS[round].startlistCollection;
+  return collection ? `${collection}/startlist` : null;
+}
+
+const parseQuota = (value: unknown) =>
+  typeof value === "number" && Number.isInteger(value) && value > 0 ? value : null;
+
+// The category's rounds in running order. Unknown and repeated ids are
+// dropped, qualification always comes first, and the last round has no quota.
+export function getCategoryRounds(categoryData: { rounds?: unknown } | null | undefined): BoulderRoundConfig[] {
+  const raw = Array.isArray(categoryData?.rounds) ? categoryData.rounds : null;
+  if (!raw) return DEFAULT_BOULDER_ROUNDS.map((round) => ({ ...round }));
+
+  const quotas = new Map<BoulderRoundId, number | null>([["qualification", null]]);
+  raw.forEach((entry) => {
+    const id = (entry as { id?: unknown } | null)?.id;
+    if (isBoulderRound(id) && (!quotas.has(id) || id === "qualification")) {
+      quotas.set(id, parseQuota((entry as { quota?: unknown }).quota));
+    }
+  });
+  const rounds = BOULDER_ROUND_IDS.filter((id) => quotas.has(id)).map((id) => ({ id, quota: quotas.get(id) ?? null }));
+  rounds[rounds.length - 1].quota = null;
+  return rounds;
+}
+
+export function nextRoundOf(rounds: BoulderRoundConfig[], round: BoulderRoundId) {
+  const index = rounds.findIndex((r) => r.id === round);
+  return index >= 0 ? rounds[index + 1] ?? null : null;
+}
+
+export function previousRoundOf(rounds: BoulderRoundConfig[], round: BoulderRoundId) {
+  const index = rounds.findIndex((r) => r.id === round);
+  return index > 0 ? rounds[index - 1] : null;
+}
+
+export interface RoundStartlistEntry {
+  athleteId: string;
+  previousRank: number;
+}
+
+// Entries of a round's start list doc. Start lists written before rounds were
+// generic store the rank as `qualifierRank`.
+export function startlistEntries(data: { entries?: unknown } | null | undefined): RoundStartlistEntry[] {
+  if (!Array.isArray(data?.entries)) return [];
+  const entries: RoundStartlistEntry[] = [];
+  data.entries.forEach((entry: { athleteId?: unknown; previousRank?: unknown; qualifierRank?: unknown } | null) => {
+    const rank = entry?.previousRank ?? entry?.qualifierRank;
+    if (typeof entry?.athleteId === "string" && entry.athleteId && typeof rank === "number") {
+      entries.push({ athleteId: entry.athleteId, previousRank: rank });
+    }
+  });
+  return entries;
+}
+
+// athleteId -> previous-round rank, for countback between athletes who stay level.
+export function previousRanksFromStartlist(data: { entries?: unknown } | null | undefined) {
+  return new Map(startlistEntries(data).map((entry) => [entry.athleteId, entry.previousRank]));
+}
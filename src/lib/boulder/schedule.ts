@@ -0,0 +1,92 @@
+import { BOULDER_ROUND_DEFS, type BoulderRoundId, type RoundStartlistEntry } from "@/lib/boulder/rounds";
+
+// Running schedule for a round with a start list (semifinal or final), kept
+// next to it as `{startlistCollection}/schedule`. Athletes climb in reverse
+// previous-round order and rotate through the boulders: a climbing period on a
+// boulder, then a rest period of the same length before the next one. Athlete
+// N (0-based) therefore starts boulder B at `startAtMs + (N + B) * 2 periods`.
+// Times are derived from the stored order, routes, start and period, so the
+// schedule view, call-up list and judge pad always agree.
+
+export const DEFAULT_ROTATION_MINUTES = 4;
+export const ROTATION_MINUTE_OPTIONS = [4, 5];
+
+export interface RunningScheduleDoc {
+  order: string[];
+  routeIds: string[];
+  startAtMs: number;
+  periodMinutes: number;
+  generatedAt?: unknown;
+}
+
+export interface ScheduleSlot {
+  athleteId: string;
+  position: number;
+  routeId: string;
+  boulderIndex: number;
+  startMs: number;
+  endMs: number;
+}
+
+export interface IsolationCallUp {
+  athleteId: string;
+  position: number;
+  callUpMs: number;
+  firstStartMs: number;
+}
+
+// Path of the round's schedule doc below the category, or null for qualification.
+export function schedulePathForRound(round: BoulderRoundId) {
+  const collection = BOULDER_ROUND_DEFS[round].startlistCollection;
+  return collection ? `${collection}/schedule` : null;
+}
+
+// Worst previous-round rank climbs first; the best-ranked athlete goes last.
+export function runningOrderFromStartlist(entries: RoundStartlistEntry[]) {
+  return [...entries].sort((a, b) => b.previousRank - a.previousRank).map((entry) => entry.athleteId);
+}
+
+export function parseRunningSchedule(data: unknown): RunningScheduleDoc | null {
+  const raw = data as Partial<RunningScheduleDoc> | null | undefined;
+  if (!raw || !Array.isArray(raw.order) || !Array.isArray(raw.routeIds)) return null;
+  if (typeof raw.startAtMs !== "number" || typeof raw.periodMinutes !== "number" || raw.periodMinutes <= 0) {
+    return null;
+  }
+  return {
+    order: raw.order.filter((id): id is string => typeof id === "string"),
+    routeIds: raw.routeIds.filter((id): id is string => typeof id === "string"),
+    startAtMs: raw.startAtMs,
+    periodMinutes: raw.periodMinutes,
+  };
+}
+
+// Every climbing period of the round, ordered by start time then running order.
+export function buildScheduleSlots(schedule: RunningScheduleDoc): ScheduleSlot[] {
+  const periodMs = schedule.periodMinutes * 60 * 1000;
+  const slots: ScheduleSlot[] = [];
+  schedule.order.forEach((athleteId, position) => {
+    schedule.routeIds.forEach((routeId, boulderIndex) => {
+      const startMs = schedule.startAtMs + (position + boulderIndex) * 2 * periodMs;
+      slots.push({ athleteId, position, routeId, boulderIndex, startMs, endMs: startMs + periodMs });
+    });
+  });
+  return slots.sort((a, b) => a.startMs - b.startMs || a.position - b.position);
+}
+
+// Athletes leave isolation one rotation (climb and rest) before their first boulder.
+export function isolationCallUps(schedule: RunningScheduleDoc): IsolationCallUp[] {
+  const rotationMs = schedule.periodMinutes * 2 * 60 * 1000;
+  return schedule.order.map((athleteId, position) => {
+    const firstStartMs = schedule.startAtMs + position * rotationMs;
+    return { athleteId, position, callUpMs: firstStartMs - rotationMs, firstStartMs };
+  });
+}
+
+// The athlete climbing the boulder at `nowMs`, or the next one due on it.
+export function currentSlotForRoute(schedule: RunningScheduleDoc, routeId: string, nowMs: number) {
+  return (
+    buildScheduleSlots(schedule)
+      .filter((slot) => slot.routeId === routeId)
+      .find((slot) => slot.endMs > nowMs) || null
+  );
+}
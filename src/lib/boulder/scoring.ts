@@ -1,4 +1,14 @@
-const SYMBOL_ORDER: Record<string, number> = { "": 0, "1": 1, Z: 2, T: 3 };
+// "Z" is the (low) zone and "H" the high zone on two-zone boulders. A top
+// implies every zone below it, and a high zone implies the low zone.
+const SYMBOL_ORDER: Record<string, number> = { "": 0, "1": 1, Z: 2, H: 3, T: 4 };
+
+export type AttemptSymbol = "1" | "Z" | "H" | "T";
+
+export const TWO_ZONE_COUNT = 2;
+
+export function isTwoZoneComp(zoneCount?: number | null) {
+  return zoneCount === TWO_ZONE_COUNT;
+}
 
 export interface AttemptDoc {
   athleteId?: string;
@@ -9,9 +19,10 @@ export interface AttemptDoc {
   createdAt?: number;
 }
 
-interface DetailSummary {
+export interface DetailSummary {
   totalAttempts: number;
   zoneAttempt: number | null;
+  highZoneAttempt: number | null;
   topAttempt: number | null;
   bestSymbol: string;
 }
@@ -33,7 +44,9 @@ export interface DetailMeta {
 export interface LeaderboardRoute {
   key: string;
   pointValue: number;
+  totalAttempts: number;
   zoneAttempt: number | null;
+  highZoneAttempt: number | null;
   topAttempt: number | null;
   bestSymbol: string;
   detailIndex?: string;
@@ -48,15 +61,60 @@ export interface LeaderboardRow {
   team: string;
   points: number;
   tops: number;
+  highZones: number;
   zones: number;
+  topAttempts: number;
+  highZoneAttempts: number;
+  zoneAttempts: number;
+  totalAttempts: number;
   routes: LeaderboardRoute[];
 }
 
+// Why two rows that the scoring format considers equal were separated:
+// previous-round rank, fewest total attempts, or the best result on the last
+// route, then the one before it, and so on.
+export type RankTieBreak = "countback" | "attempts" | "reverseRoutes";
+
+export interface RankedRow {
+  row: LeaderboardRow;
+  rank: number;
+  tieBreak: RankTieBreak | null;
+}
+
+export type ScoringFormatId = "points" | "ifsc" | "redpoint" | "flash";
+
+export interface RouteScoreContext {
+  key: string;
+  meta?: DetailMeta;
+  toppers: number;
+}
+
+// A scoring format decides how many points a route is worth for an athlete and
+// how two leaderboard rows compare. `compareRows` returns 0 for a genuine tie.
+export interface ScoringFormat {
+  id: ScoringFormatId;
+  label: string;
+  description: string;
+  totalLabel: string;
+  usesPoints: boolean;
+  scoreRoute(detail: DetailSummary, context: RouteScoreContext): number;
+  compareRows(a: LeaderboardRow, b: LeaderboardRow): number;
+  formatTotal(row: LeaderboardRow): string;
+}
+
+export const DEFAULT_SCORING_FORMAT: ScoringFormatId = "points";
+export const REDPOINT_POOL = 1000;
+export const FLASH_BONUS = 5;
+
 export function computeDetailScore(detail: DetailSummary) {
   if (detail.topAttempt != null) {
     const pts = 25 - 0.1 * (detail.topAttempt - 1);
     return Number(Math.max(0, pts).toFixed(1));
   }
+  if (detail.highZoneAttempt != null) {
+    const pts = 15 - 0.1 * (detail.highZoneAttempt - 1);
+    return Number(Math.max(0, pts).toFixed(1));
+  }
   if (detail.zoneAttempt != null) {
     const pts = 10 - 0.1 * (detail.zoneAttempt - 1);
     return Number(Math.max(0, pts).toFixed(1));
@@ -64,6 +122,192 @@ export function computeDetailScore(detail: DetailSummary) {
   return 0;
 }
 
+const comparePointsTopsZones = (a: LeaderboardRow, b: LeaderboardRow) => {
+  if (b.points !== a.points) return b.points - a.points;
+  if (b.tops !== a.tops) return b.tops - a.tops;
+  if (b.highZones !== a.highZones) return b.highZones - a.highZones;
+  return b.zones - a.zones;
+};
+
+const pointsFormat: ScoringFormat = {
+  id: "points",
+  label: "Points (25 top / 10 zone)",
+  description: "25 points per top, 15 per high zone and 10 per zone, minus 0.1 for every extra attempt.",
+  totalLabel: "Points",
+  usesPoints: true,
+  scoreRoute: (detail) => computeDetailScore(detail),
+  compareRows: comparePointsTopsZones,
+  formatTotal: (row) => row.points.toFixed(1),
+};
+
+const ifscFormat: ScoringFormat = {
+  id: "ifsc",
+  label: "IFSC (tops, zones, attempts)",
+  description: "Most tops, then most high zones, then most zones, then fewest attempts to tops, high zones and zones.",
+  totalLabel: "Result",
+  usesPoints: false,
+  scoreRoute: () => 0,
+  compareRows: (a, b) => {
+    if (b.tops !== a.tops) return b.tops - a.tops;
+    if (b.highZones !== a.highZones) return b.highZones - a.highZones;
+    if (b.zones !== a.zones) return b.zones - a.zones;
+    if (a.topAttempts !== b.topAttempts) return a.topAttempts - b.topAttempts;
+    if (a.highZoneAttempts !== b.highZoneAttempts) return a.highZoneAttempts - b.highZoneAttempts;
+    return a.zoneAttempts - b.zoneAttempts;
+  },
+  formatTotal: (row) => `${row.tops}T${row.zones}Z ${row.topAttempts} ${row.zoneAttempts}`,
+};
+
+const redpointFormat: ScoringFormat = {
+  id: "redpoint",
+  label: "Redpoint (points shared by toppers)",
+  description: `Each boulder's ${REDPOINT_POOL} points are divided equally among everyone who tops it.`,
+  totalLabel: "Points",
+  usesPoints: true,
+  scoreRoute: (detail, { toppers }) => {
+    if (detail.topAttempt == null || toppers <= 0) return 0;
+    return Number((REDPOINT_POOL / toppers).toFixed(1));
+  },
+  compareRows: (a, b) => {
+    if (b.points !== a.points) return b.points - a.points;
+    return b.tops - a.tops;
+  },
+  formatTotal: (row) => row.points.toFixed(1),
+};
+
+const flashFormat: ScoringFormat = {
+  id: "flash",
+  label: `Flash bonus (25 top / 10 zone / +${FLASH_BONUS} flash)`,
+  description: `25 points per top, 15 per high zone and 10 per zone with no attempt penalty, plus ${FLASH_BONUS} bonus points for a flash.`,
+  totalLabel: "Points",
+  usesPoints: true,
+  scoreRoute: (detail) => {
+    if (detail.topAttempt != null) return detail.topAttempt === 1 ? 25 + FLASH_BONUS : 25;
+    if (detail.highZoneAttempt != null) return 15;
+    if (detail.zoneAttempt != null) return 10;
+    return 0;
+  },
+  compareRows: comparePointsTopsZones,
+  formatTotal: (row) => row.points.toFixed(1),
+};
+
+export const SCORING_FORMATS: Record<ScoringFormatId, ScoringFormat> = {
+  points: pointsFormat,
+  ifsc: ifscFormat,
+  redpoint: redpointFormat,
+  flash: flashFormat,
+};
+
+export function getScoringFormat(id?: string | null): ScoringFormat {
+  if (id && id in SCORING_FORMATS) {
+    return SCORING_FORMATS[id as ScoringFormatId];
+  }
+  return SCORING_FORMATS[DEFAULT_SCORING_FORMAT];
+}
+
+function resolveScoringFormat(format?: ScoringFormat | ScoringFormatId | null) {
+  return typeof format === "object" && format ? format : getScoringFormat(format);
+}
+
+function routeResult(route: LeaderboardRoute | undefined) {
+  if (route?.topAttempt != null) return { level: 3, attempt: route.topAttempt };
+  if (route?.highZoneAttempt != null) return { level: 2, attempt: route.highZoneAttempt };
+  if (route?.zoneAttempt != null) return { level: 1, attempt: route.zoneAttempt };
+  return { level: 0, attempt: 0 };
+}
+
+function compareCountback(
+  a: LeaderboardRow,
+  b: LeaderboardRow,
+  previousRanks: Map<string, number>
+) {
+  const av = previousRanks.get(a.athleteId) ?? Number.POSITIVE_INFINITY;
+  const bv = previousRanks.get(b.athleteId) ?? Number.POSITIVE_INFINITY;
+  if (av === bv) return 0;
+  return av < bv ? -1 : 1;
+}
+
+function compareTotalAttempts(a: LeaderboardRow, b: LeaderboardRow) {
+  return a.totalAttempts - b.totalAttempts;
+}
+
+function compareReverseRoutes(a: LeaderboardRow, b: LeaderboardRow) {
+  const keys = Array.from(new Set([...a.routes, ...b.routes].map((route) => route.key)));
+  for (let i = keys.length - 1; i >= 0; i -= 1) {
+    const ar = routeResult(a.routes.find((route) => route.key === keys[i]));
+    const br = routeResult(b.routes.find((route) => route.key === keys[i]));
+    if (ar.level !== br.level) return br.level - ar.level;
+    if (ar.attempt !== br.attempt) return ar.attempt - br.attempt;
+  }
+  return 0;
+}
+
+function tieBreakers(
+  previousRanks: Map<string, number>
+): [RankTieBreak, (a: LeaderboardRow, b: LeaderboardRow) => number][] {
+  return [
+    ["countback", (a, b) => compareCountback(a, b, previousRanks)],
+    ["attempts", compareTotalAttempts],
+    ["reverseRoutes", compareReverseRoutes],
+  ];
+}
+
+function compareWithTieBreaks(
+  a: LeaderboardRow,
+  b: LeaderboardRow,
+  scoring: ScoringFormat,
+  previousRanks: Map<string, number>
+) {
+  const primary = scoring.compareRows(a, b);
+  if (primary !== 0) return primary;
+  for (const [, compare] of tieBreakers(previousRanks)) {
+    const result = compare(a, b);
+    if (result !== 0) return result;
+  }
+  return 0;
+}
+
+// Orders rows by the scoring format and the standard tie-breaks and assigns
+// shared ranks to athletes that remain level. `previousRanks` (athleteId ->
+// rank in the previous round) enables countback, e.g. qualifier ranks in finals.
+export function rankRows(
+  rows: LeaderboardRow[],
+  {
+    format,
+    previousRanks = new Map<string, number>(),
+  }: {
+    format?: ScoringFormat | ScoringFormatId | null;
+    previousRanks?: Map<string, number>;
+  } = {}
+): RankedRow[] {
+  const scoring = resolveScoringFormat(format);
+  const sorted = [...rows].sort(
+    (a, b) =>
+      compareWithTieBreaks(a, b, scoring, previousRanks) ||
+      a.name.localeCompare(b.name)
+  );
+
+  const ranked: RankedRow[] = [];
+  sorted.forEach((row, index) => {
+    const prev = index > 0 ? sorted[index - 1] : null;
+    let rank = index + 1;
+    let tieBreak: RankTieBreak | null = null;
+
+    if (prev && scoring.compareRows(prev, row) === 0) {
+      const split = tieBreakers(previousRanks).find(([, compare]) => compare(prev, row) !== 0);
+      if (split) {
+        tieBreak = split[0];
+      } else {
+        rank = ranked[index - 1].rank;
+      }
+    }
+
+    ranked.push({ row, rank, tieBreak });
+  });
+
+  return ranked;
+}
+
 function bestSymbol(existing: string | undefined, next: string | undefined) {
   const currentRank = SYMBOL_ORDER[existing || ""] || 0;
   const nextRank = SYMBOL_ORDER[next || ""] || 0;
@@ -92,6 +336,7 @@ export function summarizeAttempts(attemptDocs: AttemptDoc[]) {
     const detail = athleteEntry.details.get(detailKey) || {
       totalAttempts: 0,
       zoneAttempt: null,
+      highZoneAttempt: null,
       topAttempt: null,
       bestSymbol: "",
     };
@@ -100,7 +345,11 @@ export function summarizeAttempts(attemptDocs: AttemptDoc[]) {
 
     if (symbol === "T") {
       if (detail.zoneAttempt == null) detail.zoneAttempt = detail.totalAttempts;
+      if (detail.highZoneAttempt == null) detail.highZoneAttempt = detail.totalAttempts;
       if (detail.topAttempt == null) detail.topAttempt = detail.totalAttempts;
+    } else if (symbol === "H") {
+      if (detail.zoneAttempt == null) detail.zoneAttempt = detail.totalAttempts;
+      if (detail.highZoneAttempt == null) detail.highZoneAttempt = detail.totalAttempts;
     } else if (symbol === "Z" && detail.zoneAttempt == null) {
       detail.zoneAttempt = detail.totalAttempts;
     }
@@ -118,14 +367,26 @@ export function buildLeaderboardRows({
   attemptDocs,
   athletesById = new Map<string, AthleteInfo>(),
   detailsMeta = new Map<string, DetailMeta>(),
+  format,
 }: {
   attemptDocs: AttemptDoc[];
   athletesById?: Map<string, AthleteInfo>;
   detailsMeta?: Map<string, DetailMeta>;
+  format?: ScoringFormat | ScoringFormatId | null;
 }): LeaderboardRow[] {
+  const scoring = resolveScoringFormat(format);
   const summary = summarizeAttempts(attemptDocs);
   const rows: LeaderboardRow[] = [];
 
+  const toppersByKey = new Map<string, number>();
+  summary.forEach((entry) => {
+    entry.details.forEach((detail, key) => {
+      if (detail.topAttempt != null) {
+        toppersByKey.set(key, (toppersByKey.get(key) || 0) + 1);
+      }
+    });
+  });
+
   const hasRouteMeta = Array.from(detailsMeta.values()).some(
     (meta) => meta?.type === "route"
   );
@@ -134,7 +395,12 @@ export function buildLeaderboardRows({
     const athlete = athletesById.get(athleteId) || {};
     let points = 0;
     let tops = 0;
+    let highZones = 0;
     let zones = 0;
+    let topAttempts = 0;
+    let highZoneAttempts = 0;
+    let zoneAttempts = 0;
+    let totalAttempts = 0;
 
     const detailKeySet = new Set([...entry.details.keys()]);
     const routeMetaKeys = new Set<string>();
@@ -177,20 +443,39 @@ export function buildLeaderboardRows({
       const [prefix, rawKey] = key.includes(":") ? key.split(":", 2) : ["detail", key];
       let detailPoints = 0;
       let topAttempt: number | null = null;
+      let highZoneAttempt: number | null = null;
       let zoneAttempt: number | null = null;
       let bestSymbol = "";
       if (detail) {
-        detailPoints = computeDetailScore(detail);
+        detailPoints = scoring.scoreRoute(detail, {
+          key,
+          meta: detailsMeta.get(key),
+          toppers: toppersByKey.get(key) || 0,
+        });
         if (detail.topAttempt != null) {
           tops += 1;
+          highZones += 1;
           zones += 1;
           topAttempt = detail.topAttempt;
+          highZoneAttempt = detail.highZoneAttempt;
+          zoneAttempt = detail.zoneAttempt;
+          topAttempts += detail.topAttempt;
+          highZoneAttempts += detail.highZoneAttempt ?? detail.topAttempt;
+          zoneAttempts += detail.zoneAttempt ?? detail.topAttempt;
+        } else if (detail.highZoneAttempt != null) {
+          highZones += 1;
+          zones += 1;
+          highZoneAttempt = detail.highZoneAttempt;
           zoneAttempt = detail.zoneAttempt;
+          highZoneAttempts += detail.highZoneAttempt;
+          zoneAttempts += detail.zoneAttempt ?? detail.highZoneAttempt;
         } else if (detail.zoneAttempt != null) {
           zones += 1;
           zoneAttempt = detail.zoneAttempt;
+          zoneAttempts += detail.zoneAttempt;
         }
         points += detailPoints;
+        totalAttempts += detail.totalAttempts;
         bestSymbol = detail.bestSymbol;
       }
       const detailIndex =
@@ -205,7 +490,9 @@ export function buildLeaderboardRows({
       return {
         key,
         pointValue: detailPoints,
+        totalAttempts: detail?.totalAttempts ?? 0,
         zoneAttempt,
+        highZoneAttempt,
         topAttempt,
         bestSymbol,
         detailIndex,
@@ -221,17 +508,20 @@ export function buildLeaderboardRows({
       team: athlete.team ?? "",
       points: Number(points.toFixed(1)),
       tops,
+      highZones,
       zones,
+      topAttempts,
+      highZoneAttempts,
+      zoneAttempts,
+      totalAttempts,
       routes,
     });
   });
 
-  rows.sort((a, b) => {
-    if (b.points !== a.points) return b.points - a.points;
-    if (b.tops !== a.tops) return b.tops - a.tops;
-    if (b.zones !== a.zones) return b.zones - a.zones;
-    return a.name.localeCompare(b.name);
-  });
+  rows.sort(
+    (a, b) =>
+      compareWithTieBreaks(a, b, scoring, new Map()) || a.name.localeCompare(b.name)
+  );
 
   return rows;
 }
@@ -0,0 +1,96 @@
+import { collection, getDocs, type Firestore } from "firebase/firestore";
+import { BOULDER_ROUND_IDS, routeCollectionForRound } from "@/lib/boulder/rounds";
+
+// Setup health of a boulder competition, shown on the admin dashboard and the
+// organiser dashboard: categories, routes (any round), athletes and whether
+// scorecards can be printed.
+
+export interface BoulderSetupCounts {
+  categoriesCount: number;
+  routesCount: number;
+  routesMissingCategories: number;
+  athletesCount: number;
+}
+
+export interface SetupItem {
+  id: string;
+  label: string;
+  ok: boolean;
+  actionLabel: string;
+  href: string;
+}
+
+export const EMPTY_SETUP_COUNTS: BoulderSetupCounts = {
+  categoriesCount: 0,
+  routesCount: 0,
+  routesMissingCategories: 0,
+  athletesCount: 0,
+};
+
+export async function loadBoulderSetupCounts(db: Firestore, compId: string): Promise<BoulderSetupCounts> {
+  const catsSnap = await getDocs(collection(db, `boulderComps/${compId}/categories`));
+
+  let routesCount = 0;
+  let routesMissingCategories = 0;
+  for (const cat of catsSnap.docs) {
+    let catRoutes = 0;
+    for (const roundId of BOULDER_ROUND_IDS) {
+      const roundSnap = await getDocs(
+        collection(db, `boulderComps/${compId}/categories/${cat.id}/${routeCollectionForRound(roundId)}`)
+      );
+      catRoutes += roundSnap.size;
+    }
+    if (catRoutes === 0) routesMissingCategories += 1;
+    routesCount += catRoutes;
+  }
+
+  const athletesSnap = await getDocs(collection(db, `boulderComps/${compId}/athletes`));
+
+  return {
+    categoriesCount: catsSnap.size,
+    routesCount,
+    routesMissingCategories,
+    athletesCount: athletesSnap.size,
+  };
+}
+
+export function boulderSetupChecklist(counts: BoulderSetupCounts): SetupItem[] {
+  const hasCategories = counts.categoriesCount > 0;
+  const hasRoutes = counts.routesCount > 0;
+  const hasAthletes = counts.athletesCount > 0;
+  const scorecardsReady = hasRoutes && hasAthletes;
+  return [
+    {
+      id: "categories",
+      label: hasCategories ? "Categories configured" : "No categories configured",
+      ok: hasCategories,
+      actionLabel: "View setup",
+      href: "/boulder/setup",
+    },
+    {
+      id: "routes",
+      label: hasRoutes
+        ? "Routes configured"
+        : counts.routesMissingCategories > 0
+          ? `Routes missing in ${counts.routesMissingCategories} categories`
+          : "No routes configured",
+      ok: hasRoutes,
+      actionLabel: "Go to setup",
+      href: "/boulder/setup",
+    },
+    {
+      id: "import",
+      label: hasAthletes ? "Athletes imported" : "No athletes imported",
+      ok: hasAthletes,
+      actionLabel: "Open import",
+      href: "/boulder/import",
+    },
+    {
+      id: "scorecards",
+      label: scorecardsReady ? "Scorecards ready" : "Scorecards not ready",
+      ok: scorecardsReady,
+      actionLabel: "Go to scorecards",
+      href: "/boulder/scorecards",
+    },
+  ];
+}
@@ -0,0 +1,116 @@
+import type { UserRole } from "@/lib/roles";
+
+// Per-competition membership, stored on the boulder or speed comp doc as
+// `members: { owners: [uid], staff: [uid], chiefJudges: [uid] }` with
+// `memberEmails: { [uid]: email }` for display. The global role says what a
+// user may do; membership says for which competitions:
+// - admins manage every competition;
+// - staff manage the competitions they own or staff (setup, import, advance
+//   round, export, admin dashboard), and owners also edit the membership;
+// - chief judges (staff or judge role) run the chief judge tools of their
+//   boulder competitions; speed competitions have owners and staff only.
+// Competitions created before membership existed have no `members` field;
+// only admins (and the owning organisation's staff) manage them until an admin
+// gives them a team, so no staff member can claim one by arriving first.
+// Staff of the organisation that owns a competition (`orgStaff`, see
+// src/lib/organisations.ts) manage it like competition staff.
+// firestore.rules and the API routes apply the same checks.
+
+export type CompMemberRole = "owner" | "staff" | "chiefJudge";
+
+export type MemberCompType = "boulder" | "speed";
+
+export const MEMBER_COMP_COLLECTIONS: Record<MemberCompType, string> = {
+  boulder: "boulderComps",
+  speed: "speedCompetitions",
+};
+
+export function isMemberCompType(value: unknown): value is MemberCompType {
+  return value === "boulder" || value === "speed";
+}
+
+export const COMP_MEMBER_ROLES: CompMemberRole[] = ["owner", "staff", "chiefJudge"];
+
+export const COMP_MEMBER_ROLE_LABELS: Record<CompMemberRole, string> = {
+  owner: "Owner",
+  staff: "Staff",
+  chiefJudge: "Chief judge",
+};
+
+export interface CompMembers {
+  owners: string[];
+  staff: string[];
+  chiefJudges: string[];
+}
+
+const MEMBER_LIST_KEYS: Record<CompMemberRole, keyof CompMembers> = {
+  owner: "owners",
+  staff: "staff",
+  chiefJudge: "chiefJudges",
+};
+
+export function memberListKey(role: CompMemberRole) {
+  return MEMBER_LIST_KEYS[role];
+}
+
+export function isCompMemberRole(value: unknown): value is CompMemberRole {
+  return COMP_MEMBER_ROLES.includes(value as CompMemberRole);
+}
+
+const uidList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((uid): uid is string => typeof uid === "string" && uid.length > 0) : [];
+
+// The comp's members, or null for a competition without membership (legacy).
+export function parseCompMembers(compData: { members?: unknown } | null | undefined): CompMembers | null {
+  const raw = compData?.members as Partial<Record<keyof CompMembers, unknown>> | null | undefined;
+  if (!raw || typeof raw !== "object") return null;
+  return {
+    owners: uidList(raw.owners),
+    staff: uidList(raw.staff),
+    chiefJudges: uidList(raw.chiefJudges),
+  };
+}
+
+export function emptyCompMembers(): CompMembers {
+  return { owners: [], staff: [], chiefJudges: [] };
+}
+
+// A new competition is owned by the staff member who creates it.
+export function initialCompMembers(ownerUid: string): CompMembers {
+  return { owners: [ownerUid], staff: [], chiefJudges: [] };
+}
+
+export function compMemberRoleOf(members: CompMembers, uid: string): CompMemberRole | null {
+  if (members.owners.includes(uid)) return "owner";
+  if (members.staff.includes(uid)) return "staff";
+  if (members.chiefJudges.includes(uid)) return "chiefJudge";
+  return null;
+}
+
+type CompData = { members?: unknown; orgStaff?: unknown } | null | undefined;
+
+// Setup, import, advance round, export and the admin dashboard.
+export function canManageComp(compData: CompData, uid: string | null | undefined, role: UserRole | null) {
+  if (role === "admin") return true;
+  if (role !== "staff" || !uid) return false;
+  const members = parseCompMembers(compData);
+  return (
+    (members?.owners.includes(uid) ?? false) ||
+    (members?.staff.includes(uid) ?? false) ||
+    uidList(compData?.orgStaff).includes(uid)
+  );
+}
+
+// Chief judge tools: round status, corrections, appeals and the round clock.
+export function canChiefJudgeComp(compData: CompData, uid: string | null | undefined, role: UserRole | null) {
+  if (canManageComp(compData, uid, role)) return true;
+  if ((role !== "staff" && role !== "judge") || !uid) return false;
+  return parseCompMembers(compData)?.chiefJudges.includes(uid) ?? false;
+}
+
+// Adding and removing members.
+export function canEditCompMembers(compData: CompData, uid: string | null | undefined, role: UserRole | null) {
+  if (role === "admin") return true;
+  if (role !== "staff" || !uid) return false;
+  return parseCompMembers(compData)?.owners.includes(uid) ?? false;
+}
@@ -0,0 +1,41 @@
+import { auth as firebaseAuth } from "@/lib/firebase/client";
+import type { CompMemberRole, CompMembers, MemberCompType } from "@/lib/compMembers";
+
+// Calls /api/boulder/members with the signed-in user's ID token. Throws with
+// the API's error message.
+async function callMembersApi<T>(method: "POST" | "DELETE", body: Record<string, unknown>): Promise<T> {
+  const user = firebaseAuth?.currentUser;
+  if (!user) throw new Error("Not signed in");
+  const idToken = await user.getIdToken();
+  const response = await fetch("/api/boulder/members", {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const data = (await response.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!response.ok || !data) {
+    throw new Error(data?.error || `Request failed (${response.status})`);
+  }
+  return data;
+}
+
+export function addCompMember(
+  compId: string,
+  email: string,
+  memberRole: CompMemberRole,
+  compType: MemberCompType = "boulder"
+) {
+  return callMembersApi<{ uid: string; email: string; memberRole: CompMemberRole; members: CompMembers }>("POST", {
+    compId,
+    compType,
+    email,
+    memberRole,
+  });
+}
+
+export function removeCompMember(compId: string, uid: string, compType: MemberCompType = "boulder") {
+  return callMembersApi<{ uid: string; members: CompMembers | null }>("DELETE", { compId, compType, uid });
+}
@@ -0,0 +1,31 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+
+/**
+ * Revokes passcode judge sessions of a boulder competition, recorded in
+ * `boulderComps/{compId}/judgeSessions/{uid}` by /api/judge-passcode.
+ *
+ * The rules refuse writes from a session once `revokedAtMs` is set; revoking
+ * the refresh tokens as well stops the judge pad from minting new ID tokens.
+ */
+export async function revokeJudgeSessions(compId: string, uids: string[], revokedBy: string): Promise<void> {
+  if (uids.length === 0) return;
+  const sessions = getAdminDb().collection('boulderComps').doc(compId).collection('judgeSessions');
+  const batch = getAdminDb().batch();
+  uids.forEach((uid) =>
+    batch.update(sessions.doc(uid), {
+      revokedAt: FieldValue.serverTimestamp(),
+      revokedAtMs: Date.now(),
+      revokedBy,
+    })
+  );
+  await batch.commit();
+
+  await Promise.all(
+    uids.map((uid) =>
+      getAdminAuth()
+        .revokeRefreshTokens(uid)
+        .catch((error) => console.warn(`[Judge Sessions] Could not revoke tokens of ${uid}:`, error))
+    )
+  );
+}
@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+
+/**
+ * Attempt throttling for /api/judge-passcode, stored in `passcodeThrottle/{key}`
+ * as { failures, windowStartMs, lockedUntilMs }.
+ *
+ * Every sign-in reserves an attempt against its client IP and competition in
+ * one transaction before the passcode is verified, so parallel requests cannot
+ * all slip past the limit; a successful sign-in gives the reservation back.
+ * An IP that reaches its limit is locked out. A competition that reaches its
+ * limit only slows down: while it is locked each IP gets a single attempt, so
+ * a guesser cannot keep the real judges out.
+ */
+
+interface ThrottlePolicy {
+  maxFailures: number;
+  windowMs: number;
+  lockoutMs: number;
+}
+
+const IP_POLICY: ThrottlePolicy = {
+  maxFailures: 5,
+  windowMs: 15 * 60 * 1000,
+  lockoutMs: 15 * 60 * 1000,
+};
+
+const COMP_POLICY: ThrottlePolicy = {
+  maxFailures: 25,
+  windowMs: 15 * 60 * 1000,
+  lockoutMs: 5 * 60 * 1000,
+};
+
+export interface ThrottleKey {
+  id: string;
+  policy: ThrottlePolicy;
+}
+
+type ThrottleDoc = {
+  failures?: number;
+  windowStartMs?: number;
+  lockedUntilMs?: number;
+};
+
+const throttleRef = (key: ThrottleKey) => getAdminDb().collection('passcodeThrottle').doc(key.id);
+
+export function ipThrottleKey(ip: string): ThrottleKey {
+  // Doc ids hold a digest rather than the raw address
+  const digest = crypto.createHash('sha256').update(ip).digest('hex').slice(0, 32);
+  return { id: `ip-${digest}`, policy: IP_POLICY };
+}
+
+export function compThrottleKey(collection: string, compId: string): ThrottleKey {
+  return { id: `comp-${collection}-${compId}`.slice(0, 200), policy: COMP_POLICY };
+}
+
+export type AttemptReservation =
+  | { allowed: false; lockedUntilMs: number }
+  // `lockedUntilMs` is the lockout the attempt leaves behind if it fails
+  | { allowed: true; lockedUntilMs: number };
+
+const windowFailures = (data: ThrottleDoc, policy: ThrottlePolicy, now: number) =>
+  typeof data.windowStartMs === 'number' && now - data.windowStartMs < policy.windowMs ? data.failures || 0 : 0;
+
+// The throttle doc after one more failure; reaching the limit locks the key
+// and starts a fresh window
+function countFailure(data: ThrottleDoc, policy: ThrottlePolicy, now: number) {
+  const previous = windowFailures(data, policy, now);
+  const failures = previous + 1;
+  const locks = failures >= policy.maxFailures;
+  return {
+    failures: locks ? 0 : failures,
+    windowStartMs: previous > 0 && !locks ? (data.windowStartMs as number) : now,
+    lockedUntilMs: locks ? now + policy.lockoutMs : data.lockedUntilMs || 0,
+  };
+}
+
+/**
+ * Checks the IP and competition keys and, when the attempt may go ahead,
+ * counts it as a failure up front. Call settlePasscodeSuccess() when the
+ * passcode turns out to be right.
+ */
+export async function reservePasscodeAttempt(ipKey: ThrottleKey, compKey: ThrottleKey): Promise<AttemptReservation> {
+  const adminDb = getAdminDb();
+  const ipRef = throttleRef(ipKey);
+  const compRef = throttleRef(compKey);
+  return adminDb.runTransaction(async (tx) => {
+    const [ipSnap, compSnap] = await Promise.all([tx.get(ipRef), tx.get(compRef)]);
+    const now = Date.now();
+    const ipData = (ipSnap.data() || {}) as ThrottleDoc;
+    const compData = (compSnap.data() || {}) as ThrottleDoc;
+
+    const ipLockedUntil = ipData.lockedUntilMs || 0;
+    if (ipLockedUntil > now) return { allowed: false, lockedUntilMs: ipLockedUntil };
+    const compLockedUntil = compData.lockedUntilMs || 0;
+    const compLocked = compLockedUntil > now;
+    if (compLocked && windowFailures(ipData, ipKey.policy, now) > 0) {
+      return { allowed: false, lockedUntilMs: compLockedUntil };
+    }
+
+    const ipUpdate = countFailure(ipData, ipKey.policy, now);
+    tx.set(ipRef, { ...ipUpdate, updatedAt: FieldValue.serverTimestamp() });
+    let lockedUntilMs = ipUpdate.lockedUntilMs > now ? ipUpdate.lockedUntilMs : 0;
+    // A locked competition keeps its lockout; attempts made meanwhile are
+    // limited by the one-per-IP rule above
+    if (!compLocked) {
+      const compUpdate = countFailure(compData, compKey.policy, now);
+      tx.set(compRef, { ...compUpdate, updatedAt: FieldValue.serverTimestamp() });
+      if (compUpdate.lockedUntilMs > now) lockedUntilMs = Math.max(lockedUntilMs, compUpdate.lockedUntilMs);
+    }
+    return { allowed: true, lockedUntilMs };
+  });
+}
+
+/** Gives back the attempt reserved for a sign-in that succeeded. */
+export async function settlePasscodeSuccess(ipKey: ThrottleKey, compKey: ThrottleKey): Promise<void> {
+  const adminDb = getAdminDb();
+  const compRef = throttleRef(compKey);
+  await adminDb.runTransaction(async (tx) => {
+    const compSnap = await tx.get(compRef);
+    const failures = (compSnap.data() as ThrottleDoc | undefined)?.failures || 0;
+    tx.delete(throttleRef(ipKey));
+    if (failures > 0) tx.update(compRef, { failures: failures - 1, updatedAt: FieldValue.serverTimestamp() });
+  });
+}
+
+/** Forgets the failures of a key, e.g. after a successful sign-in. */
+export async function clearPasscodeFailures(key: ThrottleKey): Promise<void> {
+  await throttleRef(key).delete();
+}
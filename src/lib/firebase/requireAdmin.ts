@@ -0,0 +1,28 @@
+import { getAdminAuth } from '@/lib/firebase/admin';
+
+/**
+ * Verifies the Bearer Firebase ID token of an admin-only API request.
+ *
+ * Revoked tokens are rejected, so an admin who was demoted loses access as soon
+ * as their role changes rather than when their ID token expires.
+ */
+export async function requireAdmin(
+  req: Request
+): Promise<{ uid: string } | { error: string; status: number }> {
+  const authHeader = req.headers.get('authorization') || '';
+  const idToken = authHeader.startsWith('Bearer ') ? authHeader.slice(7).trim() : '';
+  if (!idToken) {
+    return { error: 'Unauthorized', status: 401 };
+  }
+
+  try {
+    const decoded = await getAdminAuth().verifyIdToken(idToken, true);
+    if (decoded.role !== 'admin') {
+      return { error: 'Forbidden', status: 403 };
+    }
+    return { uid: decoded.uid };
+  } catch (error) {
+    console.warn('[Admin API] Invalid ID token:', error);
+    return { error: 'Unauthorized', status: 401 };
+  }
+}
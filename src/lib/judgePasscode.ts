@@ -0,0 +1,34 @@
+// Judge passcode policy shared by the staff forms and /api/judge-passcode.
+// Hashing and throttling are server-only (src/lib/passcodeHash.ts and
+// src/lib/firebase/passcodeThrottle.ts). Every failed sign-in is logged to
+// `{compCollection}/{compId}/passcodeFailures` for staff to review.
+
+export const JUDGE_PASSCODE_MIN_LENGTH = 6;
+
+// Returns the validation message for a new passcode, or null when it is fine.
+export function judgePasscodeError(passcode: string) {
+  if (passcode.trim().length < JUDGE_PASSCODE_MIN_LENGTH) {
+    return `Passcode must be at least ${JUDGE_PASSCODE_MIN_LENGTH} characters`;
+  }
+  return null;
+}
+
+export interface PasscodeFailureEntry {
+  id: string;
+  atMs: number;
+  ip: string;
+  userAgent: string;
+  lockedUntilMs: number | null;
+}
+
+export const PASSCODE_FAILURES_LIMIT = 20;
+
+export function parsePasscodeFailure(id: string, data: Record<string, unknown>): PasscodeFailureEntry {
+  return {
+    id,
+    atMs: typeof data.atMs === "number" ? data.atMs : 0,
+    ip: typeof data.ip === "string" ? data.ip : "unknown",
+    userAgent: typeof data.userAgent === "string" ? data.userAgent : "",
+    lockedUntilMs: typeof data.lockedUntilMs === "number" ? data.lockedUntilMs : null,
+  };
+}
@@ -0,0 +1,293 @@
+export interface LeadHeight {
+  holds: number;
+  plus: boolean;
+  top: boolean;
+}
+
+export interface LeadResultDoc {
+  athleteId?: string;
+  routeId?: string;
+  round?: string;
+  hold?: string;
+  timeMs?: number | null;
+  updatedAtMs?: number;
+}
+
+export interface LeadAthleteInfo {
+  bib?: string;
+  name?: string;
+  team?: string;
+}
+
+export interface LeadRouteMeta {
+  routeId: string;
+  label?: string;
+  order?: number;
+}
+
+export type LeadTieBreak = "countback" | "time";
+
+export interface LeadLeaderboardRoute {
+  routeId: string;
+  label: string;
+  hold: string;
+  height: LeadHeight | null;
+  timeMs: number | null;
+  routeRank: number | null;
+}
+
+export interface LeadLeaderboardRow {
+  athleteId: string;
+  bib: string;
+  name: string;
+  team: string;
+  routes: LeadLeaderboardRoute[];
+  score: number | null;
+  scoreLabel: string;
+  totalTimeMs: number | null;
+  previousRank: number | null;
+  rank: number;
+  tieBreak: LeadTieBreak | null;
+}
+
+const HOLD_PATTERN = /^(\d+)\s*(\+)?$/;
+
+// Accepts "TOP"/"T", a hold number ("24") or a hold number with a "+" for a
+// controlled move past it ("24+"). Returns null for anything unparseable.
+export function parseHold(input: string | null | undefined): LeadHeight | null {
+  const value = String(input ?? "").trim().toUpperCase();
+  if (!value) return null;
+  if (value === "TOP" || value === "T") {
+    return { holds: Number.POSITIVE_INFINITY, plus: false, top: true };
+  }
+  const match = value.match(HOLD_PATTERN);
+  if (!match) return null;
+  return { holds: Number(match[1]), plus: Boolean(match[2]), top: false };
+}
+
+export function formatHold(height: LeadHeight | null | undefined) {
+  if (!height) return "";
+  if (height.top) return "TOP";
+  return `${height.holds}${height.plus ? "+" : ""}`;
+}
+
+export function heightValue(height: LeadHeight | null | undefined) {
+  if (!height) return -1;
+  if (height.top) return Number.POSITIVE_INFINITY;
+  return height.holds + (height.plus ? 0.5 : 0);
+}
+
+// Higher heights sort first.
+export function compareHeights(a: LeadHeight | null | undefined, b: LeadHeight | null | undefined) {
+  const av = heightValue(a);
+  const bv = heightValue(b);
+  if (av === bv) return 0;
+  return av > bv ? -1 : 1;
+}
+
+// Accepts seconds ("154.2") or minutes and seconds ("2:34.2").
+export function parseAttemptTime(input: string | null | undefined) {
+  const value = String(input ?? "").trim().replace(",", ".");
+  if (!value) return null;
+  const parts = value.split(":");
+  if (parts.length > 2) return null;
+  const minutes = parts.length === 2 ? Number(parts[0]) : 0;
+  const seconds = Number(parts[parts.length - 1]);
+  if (!Number.isFinite(minutes) || !Number.isFinite(seconds) || minutes < 0 || seconds < 0) {
+    return null;
+  }
+  return Math.round((minutes * 60 + seconds) * 1000);
+}
+
+export function formatAttemptTime(ms: number | null | undefined) {
+  if (ms == null || Number.isNaN(ms)) return "";
+  const totalSeconds = ms / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds - minutes * 60;
+  return `${minutes}:${seconds.toFixed(1).padStart(4, "0")}`;
+}
+
+function latestResultsByAthlete(resultDocs: LeadResultDoc[], routeIds: Set<string>) {
+  const perAthlete = new Map<string, Map<string, LeadResultDoc>>();
+  const sorted = [...resultDocs].sort(
+    (a, b) => (a.updatedAtMs || 0) - (b.updatedAtMs || 0)
+  );
+  for (const result of sorted) {
+    if (!result.athleteId || !result.routeId) continue;
+    if (routeIds.size && !routeIds.has(result.routeId)) continue;
+    if (!parseHold(result.hold)) continue;
+    const entry = perAthlete.get(result.athleteId) || new Map<string, LeadResultDoc>();
+    entry.set(result.routeId, result);
+    perAthlete.set(result.athleteId, entry);
+  }
+  return perAthlete;
+}
+
+// Tied athletes on a route share the average of the positions they occupy.
+function computeRouteRanks(
+  routeId: string,
+  perAthlete: Map<string, Map<string, LeadResultDoc>>
+) {
+  const entries: { athleteId: string; height: LeadHeight }[] = [];
+  perAthlete.forEach((results, athleteId) => {
+    const height = parseHold(results.get(routeId)?.hold);
+    if (height) entries.push({ athleteId, height });
+  });
+  entries.sort((a, b) => compareHeights(a.height, b.height));
+
+  const ranks = new Map<string, number>();
+  let start = 0;
+  while (start < entries.length) {
+    let end = start;
+    while (end + 1 < entries.length && compareHeights(entries[start].height, entries[end + 1].height) === 0) {
+      end += 1;
+    }
+    const shared = (start + 1 + end + 1) / 2;
+    for (let i = start; i <= end; i += 1) {
+      ranks.set(entries[i].athleteId, shared);
+    }
+    start = end + 1;
+  }
+  return { ranks, rankedCount: entries.length };
+}
+
+function geometricMean(values: number[]) {
+  if (!values.length) return null;
+  const product = values.reduce((acc, value) => acc * value, 1);
+  return Number(Math.pow(product, 1 / values.length).toFixed(2));
+}
+
+type RankSource = {
+  row: Omit<LeadLeaderboardRow, "rank" | "tieBreak">;
+  primary: number;
+};
+
+function comparePrimary(a: RankSource, b: RankSource, singleRoute: boolean) {
+  // Single route: primary is height (higher first). Multi route: primary is the
+  // combined rank score (lower first).
+  if (a.primary === b.primary) return 0;
+  if (singleRoute) return a.primary > b.primary ? -1 : 1;
+  return a.primary < b.primary ? -1 : 1;
+}
+
+function compareCountback(a: RankSource, b: RankSource) {
+  const av = a.row.previousRank ?? Number.POSITIVE_INFINITY;
+  const bv = b.row.previousRank ?? Number.POSITIVE_INFINITY;
+  if (av === bv) return 0;
+  return av < bv ? -1 : 1;
+}
+
+function compareTime(a: RankSource, b: RankSource) {
+  const av = a.row.totalTimeMs ?? Number.POSITIVE_INFINITY;
+  const bv = b.row.totalTimeMs ?? Number.POSITIVE_INFINITY;
+  if (av === bv) return 0;
+  return av < bv ? -1 : 1;
+}
+
+export function buildLeadRows({
+  resultDocs,
+  athletesById = new Map<string, LeadAthleteInfo>(),
+  routes = [],
+  previousRanks = new Map<string, number>(),
+}: {
+  resultDocs: LeadResultDoc[];
+  athletesById?: Map<string, LeadAthleteInfo>;
+  routes?: LeadRouteMeta[];
+  previousRanks?: Map<string, number>;
+}): LeadLeaderboardRow[] {
+  const orderedRoutes = [...routes].sort((a, b) => {
+    if (a.order != null && b.order != null && a.order !== b.order) {
+      return a.order - b.order;
+    }
+    return a.routeId.localeCompare(b.routeId, undefined, { numeric: true, sensitivity: "base" });
+  });
+  const routeIds = new Set(orderedRoutes.map((route) => route.routeId));
+  const perAthlete = latestResultsByAthlete(resultDocs, routeIds);
+
+  if (!orderedRoutes.length) {
+    const seen = new Set<string>();
+    perAthlete.forEach((results) => results.forEach((_, routeId) => seen.add(routeId)));
+    Array.from(seen)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" }))
+      .forEach((routeId) => orderedRoutes.push({ routeId }));
+  }
+
+  const singleRoute = orderedRoutes.length <= 1;
+  const routeRanks = new Map(
+    orderedRoutes.map((route) => [route.routeId, computeRouteRanks(route.routeId, perAthlete)])
+  );
+
+  const sources: RankSource[] = [];
+  perAthlete.forEach((results, athleteId) => {
+    const athlete = athletesById.get(athleteId) || {};
+    let totalTimeMs: number | null = 0;
+    const rankValues: number[] = [];
+
+    const routeCells = orderedRoutes.map((route) => {
+      const result = results.get(route.routeId);
+      const height = parseHold(result?.hold);
+      const { ranks, rankedCount } = routeRanks.get(route.routeId)!;
+      const routeRank = height ? ranks.get(athleteId) ?? null : null;
+      rankValues.push(routeRank ?? rankedCount + 1);
+      const timeMs = typeof result?.timeMs === "number" ? result.timeMs : null;
+      totalTimeMs = totalTimeMs != null && timeMs != null ? totalTimeMs + timeMs : null;
+      return {
+        routeId: route.routeId,
+        label: route.label || `Route ${route.routeId}`,
+        hold: formatHold(height),
+        height,
+        timeMs,
+        routeRank,
+      };
+    });
+
+    const score = singleRoute ? null : geometricMean(rankValues);
+    const primary = singleRoute
+      ? heightValue(routeCells[0]?.height)
+      : score ?? Number.POSITIVE_INFINITY;
+
+    sources.push({
+      row: {
+        athleteId,
+        bib: athlete.bib ?? "",
+        name: athlete.name ?? athleteId,
+        team: athlete.team ?? "",
+        routes: routeCells,
+        score,
+        scoreLabel: singleRoute ? routeCells[0]?.hold || "" : score != null ? score.toFixed(2) : "",
+        totalTimeMs,
+        previousRank: previousRanks.get(athleteId) ?? null,
+      },
+      primary,
+    });
+  });
+
+  sources.sort(
+    (a, b) =>
+      comparePrimary(a, b, singleRoute) ||
+      compareCountback(a, b) ||
+      compareTime(a, b) ||
+      a.row.name.localeCompare(b.row.name)
+  );
+
+  const rows: LeadLeaderboardRow[] = [];
+  sources.forEach((source, index) => {
+    const prev = index > 0 ? sources[index - 1] : null;
+    let rank = index + 1;
+    let tieBreak: LeadTieBreak | null = null;
+
+    if (prev && comparePrimary(prev, source, singleRoute) === 0) {
+      if (compareCountback(prev, source) !== 0) {
+        tieBreak = "countback";
+      } else if (compareTime(prev, source) !== 0) {
+        tieBreak = "time";
+      } else {
+        rank = rows[index - 1].rank;
+      }
+    }
+
+    rows.push({ ...source.row, rank, tieBreak });
+  });
+
+  return rows;
+}
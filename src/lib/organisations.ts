@@ -0,0 +1,169 @@
+import type { UserRole } from "@/lib/roles";
+
+// Organisations, stored at `organisations/{orgId}` with the slug of the name as
+// the doc id:
+// `{ name, description, branding: { logoUrl, primaryColor, accentColor },
+//    members: { owners: [uid], staff: [uid] }, memberEmails: { [uid]: email } }`.
+// Competitions (boulder and speed) belong to an organisation through an `orgId`
+// field and carry `orgStaff: [uid]`, a copy of the org's owners and staff kept
+// in sync by /api/orgs/members and /api/orgs/comps, so org staff manage the
+// org's competitions without a per-comp team entry (see canManageComp in
+// src/lib/compMembers.ts and firestore.rules).
+
+export type OrgMemberRole = "owner" | "staff";
+
+export const ORG_MEMBER_ROLES: OrgMemberRole[] = ["owner", "staff"];
+
+export const ORG_MEMBER_ROLE_LABELS: Record<OrgMemberRole, string> = {
+  owner: "Owner",
+  staff: "Staff",
+};
+
+export interface OrgMembers {
+  owners: string[];
+  staff: string[];
+}
+
+export interface OrgBranding {
+  logoUrl: string;
+  primaryColor: string;
+  accentColor: string;
+}
+
+export interface Organisation {
+  id: string;
+  name: string;
+  description: string;
+  branding: OrgBranding;
+  members: OrgMembers;
+  memberEmails: Record<string, string>;
+}
+
+export const DEFAULT_ORG_BRANDING: OrgBranding = {
+  logoUrl: "",
+  primaryColor: "#27a9e1",
+  accentColor: "#0e1730",
+};
+
+export type OrgCompType = "boulder" | "speed";
+
+export const ORG_COMP_COLLECTIONS: Record<OrgCompType, string> = {
+  boulder: "boulderComps",
+  speed: "speedCompetitions",
+};
+
+export function isOrgCompType(value: unknown): value is OrgCompType {
+  return value === "boulder" || value === "speed";
+}
+
+export function isOrgMemberRole(value: unknown): value is OrgMemberRole {
+  return ORG_MEMBER_ROLES.includes(value as OrgMemberRole);
+}
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && HEX_COLOR.test(value);
+}
+
+// "Boulder Club Berlin" -> "boulder-club-berlin"
+export function orgIdFromName(name: string) {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+}
+
+const uidList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((uid): uid is string => typeof uid === "string" && uid.length > 0) : [];
+
+export function parseOrgMembers(orgData: { members?: unknown } | null | undefined): OrgMembers {
+  const raw = orgData?.members as Partial<Record<keyof OrgMembers, unknown>> | null | undefined;
+  return {
+    owners: uidList(raw?.owners),
+    staff: uidList(raw?.staff),
+  };
+}
+
+export function parseOrgBranding(value: unknown): OrgBranding {
+  const raw = (value && typeof value === "object" ? value : {}) as Partial<Record<keyof OrgBranding, unknown>>;
+  return {
+    logoUrl: typeof raw.logoUrl === "string" ? raw.logoUrl.trim() : "",
+    primaryColor: isHexColor(raw.primaryColor) ? raw.primaryColor : DEFAULT_ORG_BRANDING.primaryColor,
+    accentColor: isHexColor(raw.accentColor) ? raw.accentColor : DEFAULT_ORG_BRANDING.accentColor,
+  };
+}
+
+export function parseOrganisation(id: string, data: Record<string, unknown> | undefined): Organisation {
+  const memberEmails = (data?.memberEmails && typeof data.memberEmails === "object" ? data.memberEmails : {}) as Record<
+    string,
+    string
+  >;
+  return {
+    id,
+    name: typeof data?.name === "string" && data.name.trim() ? data.name.trim() : id,
+    description: typeof data?.description === "string" ? data.description : "",
+    branding: parseOrgBranding(data?.branding),
+    members: parseOrgMembers(data),
+    memberEmails,
+  };
+}
+
+export interface OrgOption {
+  id: string;
+  name: string;
+}
+
+// Organisations for a public competition picker: only those with at least one
+// of the listed competitions, by name.
+export function orgOptionsForComps(
+  orgDocs: { id: string; data(): Record<string, unknown> | undefined }[],
+  comps: { orgId?: string }[]
+): OrgOption[] {
+  const used = new Set(comps.map((comp) => comp.orgId).filter(Boolean));
+  return orgDocs
+    .filter((orgDoc) => used.has(orgDoc.id))
+    .map((orgDoc) => ({ id: orgDoc.id, name: parseOrganisation(orgDoc.id, orgDoc.data()).name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// A new organisation is owned by the staff member who creates it.
+export function initialOrgMembers(ownerUid: string): OrgMembers {
+  return { owners: [ownerUid], staff: [] };
+}
+
+export function orgMemberRoleOf(members: OrgMembers, uid: string): OrgMemberRole | null {
+  if (members.owners.includes(uid)) return "owner";
+  if (members.staff.includes(uid)) return "staff";
+  return null;
+}
+
+// The uids copied onto the org's boulder comps as `orgStaff`.
+export function orgStaffUids(members: OrgMembers) {
+  return Array.from(new Set([...members.owners, ...members.staff]));
+}
+
+// Only accept logo links that can be rendered directly.
+export function isLogoUrl(value: string) {
+  return value === "" || /^https:\/\/\S+$/.test(value);
+}
+
+type OrgData = { members?: unknown } | null | undefined;
+
+// Branding, competitions and the org dashboard.
+export function canManageOrg(orgData: OrgData, uid: string | null | undefined, role: UserRole | null) {
+  if (role === "admin") return true;
+  if (role !== "staff" || !uid) return false;
+  const members = parseOrgMembers(orgData);
+  return members.owners.includes(uid) || members.staff.includes(uid);
+}
+
+// Adding and removing org members.
+export function canEditOrgMembers(orgData: OrgData, uid: string | null | undefined, role: UserRole | null) {
+  if (role === "admin") return true;
+  if (role !== "staff" || !uid) return false;
+  return parseOrgMembers(orgData).owners.includes(uid);
+}
@@ -0,0 +1,50 @@
+import { auth as firebaseAuth } from "@/lib/firebase/client";
+import type { OrgCompType, OrgMemberRole, OrgMembers } from "@/lib/organisations";
+
+// Calls the /api/orgs routes with the signed-in user's ID token. Throws with
+// the API's error message.
+async function callOrgsApi<T>(path: string, method: "POST" | "DELETE", body: Record<string, unknown>): Promise<T> {
+  const user = firebaseAuth?.currentUser;
+  if (!user) throw new Error("Not signed in");
+  const idToken = await user.getIdToken();
+  const response = await fetch(path, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const data = (await response.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!response.ok || !data) {
+    throw new Error(data?.error || `Request failed (${response.status})`);
+  }
+  return data;
+}
+
+export function addOrgMember(orgId: string, email: string, memberRole: OrgMemberRole) {
+  return callOrgsApi<{ uid: string; email: string; memberRole: OrgMemberRole; members: OrgMembers }>(
+    "/api/orgs/members",
+    "POST",
+    { orgId, email, memberRole }
+  );
+}
+
+export function removeOrgMember(orgId: string, uid: string) {
+  return callOrgsApi<{ uid: string; members: OrgMembers }>("/api/orgs/members", "DELETE", { orgId, uid });
+}
+
+export function addOrgComp(orgId: string, compType: OrgCompType, compId: string) {
+  return callOrgsApi<{ compType: OrgCompType; compId: string; orgId: string }>("/api/orgs/comps", "POST", {
+    orgId,
+    compType,
+    compId,
+  });
+}
+
+export function removeOrgComp(compType: OrgCompType, compId: string) {
+  return callOrgsApi<{ compType: OrgCompType; compId: string; orgId: null }>("/api/orgs/comps", "DELETE", {
+    compType,
+    compId,
+  });
+}
@@ -0,0 +1,60 @@
+import crypto from "crypto";
+
+// Judge passcode hashes: scrypt with a random salt, stored as
+// `scrypt$N$r$p$<salt base64>$<hash base64>` so the parameters can be raised
+// later without breaking stored hashes. Passcodes saved before scrypt are
+// unsalted SHA-256 hex digests; they still verify and are flagged for rehashing
+// on the next successful sign-in.
+
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 32;
+const SALT_BYTES = 16;
+
+const LEGACY_SHA256 = /^[0-9a-f]{64}$/;
+
+// Station passcodes also store a lookup key, an HMAC of the passcode under
+// PASSCODE_LOOKUP_SECRET, so sign-in finds the one credential to scrypt-verify
+// instead of trying every hash. The competition id is mixed in so equal
+// passcodes in two competitions get different keys.
+const LOOKUP_SECRET = process.env.PASSCODE_LOOKUP_SECRET;
+
+function scrypt(passcode: string, salt: Buffer, n: number, r: number, p: number, keyLength: number) {
+  return new Promise<Buffer>((resolve, reject) => {
+    crypto.scrypt(passcode, salt, keyLength, { N: n, r, p, maxmem: 64 * 1024 * 1024 }, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+export async function hashPasscode(passcode: string) {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = await scrypt(passcode, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P, KEY_LENGTH);
+  return ["scrypt", SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString("base64"), hash.toString("base64")].join("$");
+}
+
+export async function verifyPasscode(passcode: string, storedHash: string) {
+  if (LEGACY_SHA256.test(storedHash)) {
+    const incoming = crypto.createHash("sha256").update(passcode).digest();
+    const valid = crypto.timingSafeEqual(incoming, Buffer.from(storedHash, "hex"));
+    return { valid, needsRehash: valid };
+  }
+
+  const [scheme, n, r, p, saltB64, hashB64] = storedHash.split("$");
+  if (scheme !== "scrypt" || !saltB64 || !hashB64) {
+    return { valid: false, needsRehash: false };
+  }
+  const expected = Buffer.from(hashB64, "base64");
+  const incoming = await scrypt(passcode, Buffer.from(saltB64, "base64"), Number(n), Number(r), Number(p), expected.length);
+  const valid = incoming.length === expected.length && crypto.timingSafeEqual(incoming, expected);
+  const outdated = Number(n) !== SCRYPT_N || Number(r) !== SCRYPT_R || Number(p) !== SCRYPT_P;
+  return { valid, needsRehash: valid && outdated };
+}
+
+// Null when no lookup secret is configured; callers then verify every hash.
+export function passcodeLookupKey(compId: string, passcode: string) {
+  if (!LOOKUP_SECRET) return null;
+  return crypto.createHmac("sha256", LOOKUP_SECRET).update(`${compId}:${passcode}`).digest("hex");
+}
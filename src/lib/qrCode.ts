@@ -0,0 +1,383 @@
+// Minimal QR Code encoder (ISO/IEC 18004) so scorecards and badges can be
+// printed without an external QR service. Byte mode only, versions 1-10,
+// which holds up to 213 bytes at level M - plenty for an athlete payload.
+
+export type QrErrorCorrection = "L" | "M" | "Q" | "H";
+
+const MAX_VERSION = 10;
+
+// Indexed by version - 1
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [7, 10, 15, 20, 26, 18, 20, 24, 30, 18],
+  M: [10, 16, 26, 18, 24, 16, 18, 22, 22, 26],
+  Q: [13, 22, 18, 26, 18, 24, 18, 22, 20, 24],
+  H: [17, 28, 22, 16, 22, 28, 26, 26, 24, 28],
+};
+
+const ECC_BLOCK_COUNT: Record<QrErrorCorrection, number[]> = {
+  L: [1, 1, 1, 1, 1, 2, 2, 2, 2, 4],
+  M: [1, 1, 1, 2, 2, 4, 4, 4, 5, 5],
+  Q: [1, 1, 2, 2, 4, 4, 6, 6, 8, 8],
+  H: [1, 1, 2, 4, 4, 4, 5, 6, 8, 8],
+};
+
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+function rawDataModules(version: number) {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewordCount(version: number, ecl: QrErrorCorrection) {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[ecl][version - 1] * ECC_BLOCK_COUNT[ecl][version - 1]
+  );
+}
+
+function alignmentPositions(version: number, size: number) {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+// GF(2^8) arithmetic with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function reedSolomonDivisor(degree: number) {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < result.length; j += 1) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]) {
+  const result = new Array<number>(divisor.length).fill(0);
+  data.forEach((byte) => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  });
+  return result;
+}
+
+function encodeDataCodewords(bytes: number[], version: number, ecl: QrErrorCorrection) {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4); // byte mode
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+
+  const capacityBits = dataCodewordCount(version, ecl) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+function addEccAndInterleave(data: number[], version: number, ecl: QrErrorCorrection) {
+  const numBlocks = ECC_BLOCK_COUNT[ecl][version - 1];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ecl][version - 1];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLen);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i += 1) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = reedSolomonRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i += 1) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+function maskApplies(mask: number, x: number, y: number) {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(readonly version: number, readonly ecl: QrErrorCorrection) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  drawFunctionPatterns() {
+    const { size } = this;
+    for (let i = 0; i < size; i += 1) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(size - 4, 3);
+    this.drawFinder(3, size - 4);
+
+    const positions = alignmentPositions(this.version, size);
+    const last = positions.length - 1;
+    positions.forEach((px, i) => {
+      positions.forEach((py, j) => {
+        // The three corners are already taken by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        this.drawAlignment(px, py);
+      });
+    });
+
+    // Reserve the format areas; real bits are drawn once the mask is known
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private drawFinder(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunction(xx, yy, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignment(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy += 1) {
+      for (let dx = -2; dx <= 2; dx += 1) {
+        this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (FORMAT_BITS[this.ecl] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i += 1) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const { size } = this;
+
+    for (let i = 0; i <= 5; i += 1) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i += 1) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i += 1) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i += 1) this.setFunction(8, size - 15 + i, getBit(bits, i));
+    this.setFunction(8, size - 8, true); // always-dark module
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i += 1) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+    for (let i = 0; i < 18; i += 1) {
+      const bit = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, bit);
+      this.setFunction(b, a, bit);
+    }
+  }
+
+  drawCodewords(data: number[]) {
+    const { size } = this;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // skip the vertical timing column
+      for (let vert = 0; vert < size; vert += 1) {
+        for (let j = 0; j < 2; j += 1) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vert : vert;
+          if (!this.reserved[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7));
+            i += 1;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y += 1) {
+      for (let x = 0; x < this.size; x += 1) {
+        if (!this.reserved[y][x] && maskApplies(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  penalty() {
+    const { size, modules } = this;
+    let result = 0;
+    const lines: boolean[][] = [
+      ...modules,
+      ...modules.map((_, x) => modules.map((row) => row[x])),
+    ];
+
+    const finderLike = [true, false, true, true, true, false, true];
+    lines.forEach((line) => {
+      let runColor = line[0];
+      let runLength = 0;
+      line.forEach((dark) => {
+        if (dark === runColor) {
+          runLength += 1;
+        } else {
+          if (runLength >= 5) result += PENALTY_N1 + runLength - 5;
+          runColor = dark;
+          runLength = 1;
+        }
+      });
+      if (runLength >= 5) result += PENALTY_N1 + runLength - 5;
+
+      // 1:1:3:1:1 finder-like pattern with four light modules on either side
+      for (let i = 0; i + 7 <= size; i += 1) {
+        if (!finderLike.every((dark, k) => line[i + k] === dark)) continue;
+        const lightBefore = i >= 4 && [1, 2, 3, 4].every((k) => !line[i - k]);
+        const lightAfter = i + 11 <= size && [7, 8, 9, 10].every((k) => !line[i + k]);
+        if (lightBefore || lightAfter) result += PENALTY_N3;
+      }
+    });
+
+    for (let y = 0; y < size - 1; y += 1) {
+      for (let x = 0; x < size - 1; x += 1) {
+        const dark = modules[y][x];
+        if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) {
+          result += PENALTY_N2;
+        }
+      }
+    }
+
+    const darkCount = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    const k = Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1;
+    result += Math.max(0, k) * PENALTY_N4;
+    return result;
+  }
+}
+
+// Returns the module grid (true = dark), without the quiet zone.
+export function encodeQr(text: string, ecl: QrErrorCorrection = "M"): boolean[][] {
+  const bytes = Array.from(new TextEncoder().encode(text));
+
+  let version = 1;
+  for (; version <= MAX_VERSION; version += 1) {
+    const countBits = version < 10 ? 8 : 16;
+    if (4 + countBits + bytes.length * 8 <= dataCodewordCount(version, ecl) * 8) break;
+  }
+  if (version > MAX_VERSION) {
+    throw new Error(`QR payload too long (${bytes.length} bytes)`);
+  }
+
+  const codewords = addEccAndInterleave(encodeDataCodewords(bytes, version, ecl), version, ecl);
+
+  let best: QrMatrix | null = null;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask += 1) {
+    const matrix = new QrMatrix(version, ecl);
+    matrix.drawFunctionPatterns();
+    matrix.drawCodewords(codewords);
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      best = matrix;
+      bestPenalty = penalty;
+    }
+  }
+  return (best as QrMatrix).modules;
+}
+
+// SVG path for the dark modules, offset by the quiet zone.
+export function qrSvgPath(modules: boolean[][], margin = 4) {
+  const parts: string[] = [];
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    });
+  });
+  return parts.join("");
+}
@@ -0,0 +1,23 @@
+// GripRank roles, stored as `roles/{uid}` ({ role, updatedAt, updatedBy }) and
+// copied into the Firebase token claims by /api/auth/firebase-token. Users
+// without a roles doc are viewers. Every change made from /admin/roles is also
+// logged to `roles/{uid}/history`.
+
+export type UserRole = "viewer" | "judge" | "staff" | "admin";
+
+export const USER_ROLES: UserRole[] = ["viewer", "judge", "staff", "admin"];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  viewer: "Viewer",
+  judge: "Judge",
+  staff: "Staff",
+  admin: "Admin",
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole);
+}
+
+export function parseUserRole(value: unknown): UserRole {
+  return isUserRole(value) ? value : "viewer";
+}
@@ -0,0 +1,63 @@
+import { auth as firebaseAuth } from "@/lib/firebase/client";
+import type { UserRole } from "@/lib/roles";
+
+export interface ManagedUser {
+  uid: string;
+  name: string | null;
+  email: string | null;
+  lastSignInAt: number | null;
+  role: UserRole;
+  updatedAtMs: number | null;
+  updatedBy: string | null;
+  updatedByEmail: string | null;
+}
+
+export interface RoleHistoryEntry {
+  id: string;
+  fromRole: UserRole;
+  toRole: UserRole;
+  changedAtMs: number | null;
+  changedBy: string | null;
+  changedByEmail: string | null;
+}
+
+// Calls an admin-only /api/admin/roles endpoint with the signed-in user's ID
+// token. Throws with the API's error message.
+async function callRolesApi<T>(path: string, init?: RequestInit): Promise<T> {
+  const user = firebaseAuth?.currentUser;
+  if (!user) throw new Error("Not signed in");
+  const idToken = await user.getIdToken();
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${idToken}`,
+    },
+  });
+  const data = (await response.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!response.ok || !data) {
+    throw new Error(data?.error || `Request failed (${response.status})`);
+  }
+  return data;
+}
+
+export function listManagedUsers(search: string, offset: number) {
+  const params = new URLSearchParams({ offset: String(offset) });
+  if (search.trim()) params.set("query", search.trim());
+  return callRolesApi<{ users: ManagedUser[]; totalCount: number; offset: number; pageSize: number }>(
+    `/api/admin/roles?${params.toString()}`
+  );
+}
+
+export function setUserRole(uid: string, role: UserRole) {
+  return callRolesApi<{ uid: string; role: UserRole; previousRole: UserRole; changed: boolean }>(
+    "/api/admin/roles",
+    { method: "POST", body: JSON.stringify({ uid, role }) }
+  );
+}
+
+export function loadRoleHistory(uid: string) {
+  return callRolesApi<{ uid: string; history: RoleHistoryEntry[] }>(
+    `/api/admin/roles/${encodeURIComponent(uid)}`
+  );
+}
@@ -0,0 +1,47 @@
+// Per-category, per-round results state, stored on the category doc as
+// `roundStatus: { [round]: status }`. A round is "open" until the chief judge
+// closes it. Judges can only write while it is open; staff can still correct
+// provisional results; official results are frozen until reopened. The time a
+// round last went official is stamped by the server in
+// `roundOfficialAt: { [round]: Timestamp }` (the rules refuse any other value);
+// rounds made official before that only have `roundOfficialAtMs: { [round]: ms }`.
+
+export type RoundStatus = "open" | "provisional" | "official";
+
+export const ROUND_STATUSES: RoundStatus[] = ["open", "provisional", "official"];
+
+export const ROUND_STATUS_LABELS: Record<RoundStatus, string> = {
+  open: "Open",
+  provisional: "Provisional",
+  official: "Official",
+};
+
+export function getRoundStatus(
+  categoryData: { roundStatus?: Record<string, unknown> } | null | undefined,
+  round: string
+): RoundStatus {
+  const value = categoryData?.roundStatus?.[round];
+  return ROUND_STATUSES.includes(value as RoundStatus) ? (value as RoundStatus) : "open";
+}
+
+export function isRoundOpen(status: RoundStatus) {
+  return status === "open";
+}
+
+export function getRoundOfficialAtMs(
+  categoryData:
+    | {
+        roundStatus?: Record<string, unknown>;
+        roundOfficialAt?: Record<string, unknown>;
+        roundOfficialAtMs?: Record<string, unknown>;
+      }
+    | null
+    | undefined,
+  round: string
+): number | null {
+  if (getRoundStatus(categoryData, round) !== "official") return null;
+  const stamp = categoryData?.roundOfficialAt?.[round] as { toMillis?: () => number } | null | undefined;
+  if (typeof stamp?.toMillis === "function") return stamp.toMillis();
+  const value = categoryData?.roundOfficialAtMs?.[round];
+  return typeof value === "number" ? value : null;
+}
@@ -0,0 +1,123 @@
+// Pure speed finals bracket generation: no Firestore, so it can be unit-tested.
+
+export type FinalsSize = 2 | 4 | 8 | 16 | 32;
+
+export const FINALS_SIZES: FinalsSize[] = [2, 4, 8, 16, 32];
+
+// First round to last; a bracket of size N starts at the round with N athletes.
+export const FINALS_ROUND_IDS = ["R32", "R16", "QF", "SF", "F"] as const;
+
+export type FinalsRoundId = (typeof FINALS_ROUND_IDS)[number];
+
+const ROUND_ID_BY_SIZE: Record<FinalsSize, FinalsRoundId> = {
+  32: "R32",
+  16: "R16",
+  8: "QF",
+  4: "SF",
+  2: "F",
+};
+
+// IFSC-style seeding: heats listed in bracket order so that seeds 1 and 2 can
+// only meet in the big final, 1-4 not before the semifinals, and so on. Each
+// table is the previous one with every seed s expanded into the heat (s, N+1-s).
+export const SEEDING_TABLES: Record<FinalsSize, [number, number][]> = {
+  2: [[1, 2]],
+  4: [[1, 4], [2, 3]],
+  8: [[1, 8], [4, 5], [2, 7], [3, 6]],
+  16: [[1, 16], [8, 9], [4, 13], [5, 12], [2, 15], [7, 10], [3, 14], [6, 11]],
+  32: [
+    [1, 32], [16, 17], [8, 25], [9, 24], [4, 29], [13, 20], [5, 28], [12, 21],
+    [2, 31], [15, 18], [7, 26], [10, 23], [3, 30], [14, 19], [6, 27], [11, 22],
+  ],
+};
+
+export interface BracketSeed {
+  seed: number;
+  aid: string;
+}
+
+export interface BracketMatch {
+  matchIndex: number;
+  athleteA: string | null;
+  athleteB: string | null;
+  seedA: number;
+  seedB: number;
+  // Set when one lane is empty: the seeded athlete advances without racing
+  winner: "A" | "B" | null;
+  bye: boolean;
+}
+
+export interface GeneratedBracket {
+  size: FinalsSize;
+  firstRoundId: FinalsRoundId;
+  seeds: BracketSeed[];
+  matches: BracketMatch[];
+}
+
+export function isFinalsSize(value: unknown): value is FinalsSize {
+  return FINALS_SIZES.includes(value as FinalsSize);
+}
+
+export function roundIdForSize(size?: number): FinalsRoundId {
+  return isFinalsSize(size) ? ROUND_ID_BY_SIZE[size] : "F";
+}
+
+export function nextRoundId(roundId: string): FinalsRoundId | null {
+  const index = FINALS_ROUND_IDS.indexOf(roundId as FinalsRoundId);
+  if (index < 0 || index === FINALS_ROUND_IDS.length - 1) return null;
+  return FINALS_ROUND_IDS[index + 1];
+}
+
+// The lane that advances when the other one is empty, if exactly one is filled.
+export function byeWinner(athleteA?: string | null, athleteB?: string | null): "A" | "B" | null {
+  if (athleteA && !athleteB) return "A";
+  if (athleteB && !athleteA) return "B";
+  return null;
+}
+
+// A heat is done once it has a winner; a heat with no athletes at all never runs.
+export function isMatchDecided(match: {
+  athleteA?: string | null;
+  athleteB?: string | null;
+  winner?: "A" | "B" | null;
+}) {
+  return match.winner === "A" || match.winner === "B" || (!match.athleteA && !match.athleteB);
+}
+
+// Largest bracket the valid qualifier times can fill, capped at `maxSize`.
+export function decideBracketSize(validCount: number, maxSize: FinalsSize = 32): FinalsSize {
+  const fitting = FINALS_SIZES.filter((size) => size <= maxSize && size <= validCount);
+  return fitting.length ? fitting[fitting.length - 1] : 2;
+}
+
+// Seeds the first finals round from athlete ids in qualifier order. With a
+// fixed `size` larger than the field, the missing seeds become byes for the
+// top-ranked athletes; with no size the bracket is sized to the field.
+export function generateBracket(rankedAthleteIds: string[], size?: FinalsSize): GeneratedBracket {
+  const bracketSize = size ?? decideBracketSize(rankedAthleteIds.length);
+  const seeds = rankedAthleteIds
+    .slice(0, bracketSize)
+    .map((aid, idx) => ({ seed: idx + 1, aid }));
+  const athleteForSeed = (seed: number) => seeds[seed - 1]?.aid ?? null;
+
+  const matches = SEEDING_TABLES[bracketSize].map(([seedA, seedB], idx) => {
+    const athleteA = athleteForSeed(seedA);
+    const athleteB = athleteForSeed(seedB);
+    return {
+      matchIndex: idx + 1,
+      athleteA,
+      athleteB,
+      seedA,
+      seedB,
+      winner: byeWinner(athleteA, athleteB),
+      bye: !athleteA || !athleteB,
+    } satisfies BracketMatch;
+  });
+
+  return {
+    size: bracketSize,
+    firstRoundId: roundIdForSize(bracketSize),
+    seeds,
+    matches,
+  };
+}
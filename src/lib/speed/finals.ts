@@ -0,0 +1,103 @@
+import { byeWinner, isMatchDecided, nextRoundId, type FinalsRoundId } from "@/lib/speed/bracket";
+import {
+  falseStartEliminates,
+  type FinalsMatch,
+  type SpeedFalseStartRule,
+  type SpeedRunResult,
+} from "@/lib/speed/scoring";
+
+// Pure finals match logic shared by /api/speed/finals and the admin/judge
+// editors: who wins a heat, and which heats the next round holds once every
+// heat of the current round is decided.
+
+export function decideWinner(
+  laneA: SpeedRunResult | null | undefined,
+  laneB: SpeedRunResult | null | undefined,
+  falseStartRule: SpeedFalseStartRule
+): "A" | "B" | null {
+  const isTimeA = laneA?.status === "TIME" && typeof laneA.ms === "number";
+  const isTimeB = laneB?.status === "TIME" && typeof laneB.ms === "number";
+
+  if (falseStartEliminates(falseStartRule)) {
+    if (laneA?.status === "FS" && laneB?.status !== "FS") return "B";
+    if (laneB?.status === "FS" && laneA?.status !== "FS") return "A";
+  }
+
+  if (isTimeA && !isTimeB) return "A";
+  if (isTimeB && !isTimeA) return "B";
+  if (isTimeA && isTimeB) return laneA!.ms! <= laneB!.ms! ? "A" : "B";
+
+  return null;
+}
+
+// Under IFSC_RERUN the first false start in a heat voids it and the heat is
+// run again; any later false start in the same heat is decided as under IFSC.
+export function isFalseStartRerun(
+  laneA: SpeedRunResult | null | undefined,
+  laneB: SpeedRunResult | null | undefined,
+  falseStartRule: SpeedFalseStartRule,
+  reruns: number
+) {
+  return falseStartRule === "IFSC_RERUN" && reruns < 1 && (laneA?.status === "FS" || laneB?.status === "FS");
+}
+
+export function winnerAthleteOf(match: FinalsMatch) {
+  return match.winner === "A" ? match.athleteA ?? null : match.winner === "B" ? match.athleteB ?? null : null;
+}
+
+export function loserAthleteOf(match: FinalsMatch) {
+  return match.winner === "A" ? match.athleteB ?? null : match.winner === "B" ? match.athleteA ?? null : null;
+}
+
+// True once either lane has a recorded run; a bye heat never does.
+export function hasLaneResults(match: FinalsMatch) {
+  return Boolean(match.laneA?.status || match.laneB?.status);
+}
+
+export interface NextRoundMatch {
+  matchIndex: number;
+  athleteA: string | null;
+  athleteB: string | null;
+  winner: "A" | "B" | null;
+  bye: boolean;
+}
+
+// Heats left with one athlete after a bye advance that athlete straight away.
+function nextMatch(matchIndex: number, athleteA: string | null, athleteB: string | null): NextRoundMatch {
+  return {
+    matchIndex,
+    athleteA,
+    athleteB,
+    winner: byeWinner(athleteA, athleteB),
+    bye: !athleteA || !athleteB,
+  };
+}
+
+// Null while the round is the final or still has undecided heats. Semifinal
+// losers meet in the small final (m1), winners in the big final (m2).
+export function buildNextRound(
+  roundId: string,
+  matches: FinalsMatch[]
+): { roundId: FinalsRoundId; matches: NextRoundMatch[] } | null {
+  const next = nextRoundId(roundId);
+  if (!next) return null;
+
+  const ordered = [...matches].sort((a, b) => (a.matchIndex || 0) - (b.matchIndex || 0));
+  if (!ordered.length || ordered.some((m) => !isMatchDecided(m))) return null;
+
+  if (roundId === "SF" && next === "F") {
+    return {
+      roundId: next,
+      matches: [
+        nextMatch(1, loserAthleteOf(ordered[0]), ordered[1] ? loserAthleteOf(ordered[1]) : null),
+        nextMatch(2, winnerAthleteOf(ordered[0]), ordered[1] ? winnerAthleteOf(ordered[1]) : null),
+      ],
+    };
+  }
+
+  const nextMatches: NextRoundMatch[] = [];
+  for (let i = 0, mi = 1; i + 1 < ordered.length; i += 2, mi += 1) {
+    nextMatches.push(nextMatch(mi, winnerAthleteOf(ordered[i]), winnerAthleteOf(ordered[i + 1])));
+  }
+  return { roundId: next, matches: nextMatches };
+}
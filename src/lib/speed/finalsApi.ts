@@ -0,0 +1,61 @@
+import { auth as firebaseAuth } from "@/lib/firebase/client";
+import type { FinalsSize } from "@/lib/speed/bracket";
+import type { SpeedRunResult } from "@/lib/speed/scoring";
+
+export interface FinalsMatchUpdate {
+  compId: string;
+  categoryId: string;
+  roundId: string;
+  matchId: string;
+  laneA: SpeedRunResult;
+  laneB: SpeedRunResult;
+  // Staff only; judges enter lane results for the athletes already drawn
+  athleteA?: string | null;
+  athleteB?: string | null;
+  allowWinnerRun?: boolean;
+}
+
+// Calls /api/speed/finals with the signed-in user's ID token. Throws with the
+// API's error message.
+async function callFinalsApi<T>(method: "POST" | "PUT", body: object): Promise<T | null> {
+  const user = firebaseAuth?.currentUser;
+  if (!user) throw new Error("Not signed in");
+  const idToken = await user.getIdToken();
+  const response = await fetch("/api/speed/finals", {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const data = (await response.json().catch(() => null)) as (T & { error?: string }) | null;
+  if (!response.ok) {
+    throw new Error(data?.error || `Request failed (${response.status})`);
+  }
+  return data;
+}
+
+// Saves a finals heat through /api/speed/finals, which decides the winner and
+// advances the bracket server-side; `rerun` is set when a false start voided the
+// heat under IFSC_RERUN.
+export async function saveFinalsMatch(update: FinalsMatchUpdate) {
+  const data = await callFinalsApi<{ winner?: "A" | "B" | null; rerun?: boolean; advancedTo?: string | null }>(
+    "POST",
+    update
+  );
+  return { winner: data?.winner ?? null, rerun: data?.rerun === true, advancedTo: data?.advancedTo ?? null };
+}
+
+// Draws the finals bracket from qualifier standings version `seedVersion`,
+// replacing the category's current bracket. Without a size the bracket is
+// sized to the field.
+export async function drawFinalsBracket(compId: string, categoryId: string, seedVersion: number, size?: FinalsSize) {
+  const data = await callFinalsApi<{ size?: FinalsSize; firstRoundId?: string }>("PUT", {
+    compId,
+    categoryId,
+    seedVersion,
+    size: size ?? null,
+  });
+  return { size: data?.size ?? size ?? null, firstRoundId: data?.firstRoundId ?? null };
+}
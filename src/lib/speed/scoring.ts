@@ -1,11 +1,65 @@
+import { FINALS_ROUND_IDS, roundIdForSize } from "@/lib/speed/bracket";
+
 export type SpeedTimingPrecision = "ms2" | "ms3";
-export type SpeedFalseStartRule = "IFSC" | "TOLERANT";
+// What a false start costs. IFSC: the heat is lost (finals) and the remaining
+// qualifier run is void. IFSC_RERUN: the first false start in a finals heat is
+// re-run and only a second one eliminates; qualifiers follow IFSC. TOLERANT:
+// false starts are recorded but times still decide.
+export type SpeedFalseStartRule = "IFSC" | "IFSC_RERUN" | "TOLERANT";
+
+export const SPEED_FALSE_START_RULES: SpeedFalseStartRule[] = ["IFSC", "IFSC_RERUN", "TOLERANT"];
+
+export const SPEED_FALSE_START_RULE_LABELS: Record<SpeedFalseStartRule, string> = {
+  IFSC: "IFSC (FS eliminates)",
+  IFSC_RERUN: "IFSC with finals re-run",
+  TOLERANT: "Tolerant",
+};
+
+// Reaction times below this many ms after the start signal are false starts.
+export const DEFAULT_FALSE_START_THRESHOLD_MS = 100;
+
+export function parseFalseStartRule(value: unknown): SpeedFalseStartRule {
+  return SPEED_FALSE_START_RULES.includes(value as SpeedFalseStartRule)
+    ? (value as SpeedFalseStartRule)
+    : "IFSC";
+}
+
+export function parseFalseStartThresholdMs(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1000
+    ? Math.round(value)
+    : DEFAULT_FALSE_START_THRESHOLD_MS;
+}
+
+export function isFalseStartReaction(reactionMs: number, thresholdMs: number) {
+  return reactionMs < thresholdMs;
+}
+
+// Whether a false start costs the athlete the run (or heat) outright.
+export function falseStartEliminates(rule: SpeedFalseStartRule) {
+  return rule !== "TOLERANT";
+}
+
+// A run whose reaction time is under the threshold is flagged as a false
+// start. Where false starts eliminate, it becomes "FS" whatever status or time
+// was entered; under TOLERANT the time stands.
+export function withReactionFalseStart(
+  run: SpeedRunResult,
+  thresholdMs: number,
+  rule: SpeedFalseStartRule
+): SpeedRunResult {
+  if (typeof run.reactionMs !== "number" || !isFalseStartReaction(run.reactionMs, thresholdMs)) return run;
+  return falseStartEliminates(rule) ? { ...run, status: "FS", ms: null, falseStart: true } : { ...run, falseStart: true };
+}
 
 export type SpeedRunStatus = "TIME" | "FS" | "DNS" | "DNF";
 
 export interface SpeedRunResult {
   status?: SpeedRunStatus | null;
   ms?: number | null;
+  // Start signal to leaving the start pad; negative when the athlete moved first
+  reactionMs?: number | null;
+  // A false start that did not cost the run its time (TOLERANT)
+  falseStart?: boolean | null;
 }
 
 export interface SpeedQualifierResult {
@@ -32,7 +86,7 @@ export interface QualifierStandingRow {
   rank: number;
 }
 
-export type RoundId = "R16" | "QF" | "SF" | "F" | string;
+export type RoundId = "R32" | "R16" | "QF" | "SF" | "F" | string;
 
 export interface FinalsMatch {
   id?: string;
@@ -43,6 +97,9 @@ export interface FinalsMatch {
   laneB?: SpeedRunResult | null;
   winner?: "A" | "B" | null;
   allowWinnerRun?: boolean | null;
+  // Heats voided for a re-run under IFSC_RERUN, with the lanes as they stood
+  falseStartReruns?: number | null;
+  rerunHistory?: { laneA?: SpeedRunResult | null; laneB?: SpeedRunResult | null; atMs?: number }[];
 }
 
 export type FinalsRounds = Record<RoundId, FinalsMatch[]>;
@@ -173,10 +230,7 @@ export function buildQualifierStandings({
 }
 
 export function bracketOrder(size?: number): RoundId[] {
-  if (size === 16) return ["R16", "QF", "SF", "F"];
-  if (size === 8) return ["QF", "SF", "F"];
-  if (size === 4) return ["SF", "F"];
-  return ["F"];
+  return FINALS_ROUND_IDS.slice(FINALS_ROUND_IDS.indexOf(roundIdForSize(size)));
 }
 
 function collectAllTimesMs(
@@ -261,8 +315,10 @@ function finalsOutcomeFor(aid: string, rounds: FinalsRounds) {
 
   const inQF = (rounds["QF"] || []).some((m) => m.athleteA === aid || m.athleteB === aid);
   const inR16 = (rounds["R16"] || []).some((m) => m.athleteA === aid || m.athleteB === aid);
+  const inR32 = (rounds["R32"] || []).some((m) => m.athleteA === aid || m.athleteB === aid);
   if (inQF && !inSF) return { stage: "QF" };
   if (inR16 && !inQF) return { stage: "R16" };
+  if (inR32 && !inR16) return { stage: "R32" };
 
   return { stage: "QUAL" };
 }
@@ -296,6 +352,7 @@ export function buildOverallRanking({
   const groupSF: OverallSourceRow[] = [];
   const groupQF: OverallSourceRow[] = [];
   const groupR16: OverallSourceRow[] = [];
+  const groupR32: OverallSourceRow[] = [];
   const groupQual: OverallSourceRow[] = [];
 
   const rows: OverallSourceRow[] = athletes.map((athlete) => {
@@ -330,6 +387,9 @@ export function buildOverallRanking({
       case "R16":
         groupR16.push(row);
         break;
+      case "R32":
+        groupR32.push(row);
+        break;
       default:
         groupQual.push(row);
     }
@@ -425,6 +485,7 @@ export function buildOverallRanking({
 
   appendGrouped(groupQF, "QF");
   appendGrouped(groupR16, "R16");
+  appendGrouped(groupR32, "R32");
   appendGrouped(groupQual, "QUAL");
 
   return rankEntries;
@@ -437,6 +498,7 @@ export function laneResultLabel({
   isBigFinal,
   allowWinnerRun,
   precision,
+  showReaction = false,
 }: {
   lane?: SpeedRunResult | null;
   opponent?: SpeedRunResult | null;
@@ -444,6 +506,7 @@ export function laneResultLabel({
   isBigFinal?: boolean;
   allowWinnerRun?: boolean | null;
   precision: SpeedTimingPrecision;
+  showReaction?: boolean;
 }) {
   if (!lane) return "—";
   const allow = Boolean(allowWinnerRun);
@@ -452,8 +515,16 @@ export function laneResultLabel({
       return "–";
     }
   }
+  const reaction =
+    showReaction && typeof lane.reactionMs === "number" ? ` (RT ${formatReactionMs(lane.reactionMs)})` : "";
   if (lane.status === "TIME" && typeof lane.ms === "number") {
-    return `${formatMs(lane.ms, precision)} s`;
+    return `${formatMs(lane.ms, precision)} s${lane.falseStart ? " FS" : ""}${reaction}`;
   }
-  return lane.status || "—";
+  return `${lane.status || "—"}${lane.status ? reaction : ""}`;
+}
+
+// Reaction times are always shown to the millisecond, e.g. "0.143" or "-0.012".
+export function formatReactionMs(ms: number | null | undefined) {
+  if (ms == null || Number.isNaN(ms)) return "";
+  return (ms / 1000).toFixed(3);
 }
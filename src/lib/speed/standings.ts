@@ -0,0 +1,84 @@
+import { formatMs, type QualifierStandingRow, type SpeedTimingPrecision } from "@/lib/speed/scoring";
+
+// Materialized qualifier standings, kept in `computed/qualifierStandings` by
+// /api/speed/standings. Each change bumps `version` and freezes a copy in
+// `computed/qualifierStandings/versions/{version}`; finals seed from one of
+// those frozen copies and record its number as `seedVersion`.
+
+export const QUALIFIER_STANDINGS_DOC = "qualifierStandings";
+
+export interface QualifierStandingsItem {
+  aid: string;
+  name: string;
+  team: string;
+  bestMs: number | null;
+  secondMs: number | null;
+  // Labels hold the FS/DNS/DNF summary when there is no time to format
+  bestLabel: string;
+  secondLabel: string;
+  rank: number;
+}
+
+export interface QualifierStandingsSnapshot {
+  items: QualifierStandingsItem[];
+  version: number;
+  updatedAt?: unknown;
+}
+
+export function standingsItemsFromRows(rows: QualifierStandingRow[]): QualifierStandingsItem[] {
+  return rows.map((row) => ({
+    aid: row.athleteId,
+    name: row.name,
+    team: row.team,
+    bestMs: row.bestMs,
+    secondMs: row.secondMs,
+    bestLabel: row.bestLabel,
+    secondLabel: row.secondLabel,
+    rank: row.rank,
+  }));
+}
+
+// True when two item lists would render the same standings; an unchanged
+// recompute keeps the current version.
+export function sameStandings(a: QualifierStandingsItem[], b: QualifierStandingsItem[]) {
+  if (a.length !== b.length) return false;
+  return a.every((item, idx) => {
+    const other = b[idx];
+    return (
+      item.aid === other.aid &&
+      item.name === other.name &&
+      item.team === other.team &&
+      item.bestMs === other.bestMs &&
+      item.secondMs === other.secondMs &&
+      item.bestLabel === other.bestLabel &&
+      item.secondLabel === other.secondLabel &&
+      item.rank === other.rank
+    );
+  });
+}
+
+// Times are re-formatted with the viewer's precision, so a precision change
+// does not need a recompute.
+export function rowsFromStandingsItems(
+  items: QualifierStandingsItem[],
+  precision: SpeedTimingPrecision = "ms3"
+): QualifierStandingRow[] {
+  return items.map((item) => ({
+    athleteId: item.aid,
+    name: item.name,
+    team: item.team,
+    bestMs: item.bestMs,
+    secondMs: item.secondMs,
+    bestLabel: item.bestMs != null ? formatMs(item.bestMs, precision) : item.bestLabel,
+    secondLabel: item.secondMs != null ? formatMs(item.secondMs, precision) : item.secondLabel,
+    rank: item.rank,
+  }));
+}
+
+// Athletes with a valid time, best first: the order finals are seeded in.
+export function seedOrderFromStandings(items: QualifierStandingsItem[]) {
+  return items
+    .filter((item) => item.bestMs != null)
+    .sort((a, b) => a.rank - b.rank)
+    .map((item) => item.aid);
+}
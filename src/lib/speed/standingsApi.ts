@@ -0,0 +1,25 @@
+import { auth as firebaseAuth } from "@/lib/firebase/client";
+
+// Recomputes a category's computed/qualifierStandings through
+// /api/speed/standings. `version` is the current standings version, bumped
+// only when the standings changed. Throws with the API's error message.
+export async function refreshQualifierStandings(compId: string, categoryId: string) {
+  const user = firebaseAuth?.currentUser;
+  if (!user) throw new Error("Not signed in");
+  const idToken = await user.getIdToken();
+  const response = await fetch("/api/speed/standings", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: JSON.stringify({ compId, categoryId }),
+  });
+  const data = (await response.json().catch(() => null)) as
+    | { error?: string; version?: number; changed?: boolean }
+    | null;
+  if (!response.ok) {
+    throw new Error(data?.error || `Request failed (${response.status})`);
+  }
+  return { version: data?.version ?? 0, changed: data?.changed === true };
+}
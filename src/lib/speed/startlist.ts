@@ -0,0 +1,68 @@
+// Pure speed qualification start list generation: no Firestore, so it can be
+// unit-tested. Heats are stored under categories/{cat}/startlist as
+// `{ heatIndex, laneA, laneB, run }`; the judge pad maps an athlete's first
+// appearance to run A and the second to run B.
+
+export type StartlistDraw = "order" | "random";
+
+export interface StartlistAthlete {
+  id: string;
+  name?: string;
+  order?: number;
+}
+
+export interface StartlistHeat {
+  heatIndex: number;
+  run: 1 | 2;
+  laneA: string | null;
+  laneB: string | null;
+}
+
+// Athletes with an `order` go first in that order, the rest alphabetically.
+export function sortByStartOrder<T extends StartlistAthlete>(athletes: T[]): T[] {
+  return [...athletes].sort((a, b) => {
+    const orderA = typeof a.order === "number" ? a.order : Number.POSITIVE_INFINITY;
+    const orderB = typeof b.order === "number" ? b.order : Number.POSITIVE_INFINITY;
+    if (orderA !== orderB) return orderA - orderB;
+    return (a.name || a.id).localeCompare(b.name || b.id);
+  });
+}
+
+// Fisher–Yates; `random` is injectable so a draw can be reproduced.
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Pairs athletes into heats for the first run, then repeats the same pairs with
+// lanes swapped for the second run so everyone climbs both lanes. With an odd
+// field the last athlete runs a solo heat, in lane A then lane B.
+export function generateQualifierHeats(
+  athletes: StartlistAthlete[],
+  draw: StartlistDraw = "order",
+  random?: () => number
+): StartlistHeat[] {
+  const ordered = draw === "random" ? shuffle(athletes, random) : sortByStartOrder(athletes);
+  const pairs: [string, string | null][] = [];
+  for (let i = 0; i < ordered.length; i += 2) {
+    pairs.push([ordered[i].id, ordered[i + 1]?.id ?? null]);
+  }
+
+  const firstRun = pairs.map(([a, b], idx) => ({
+    heatIndex: idx + 1,
+    run: 1 as const,
+    laneA: a,
+    laneB: b,
+  }));
+  const secondRun = pairs.map(([a, b], idx) => ({
+    heatIndex: pairs.length + idx + 1,
+    run: 2 as const,
+    laneA: b,
+    laneB: a,
+  }));
+  return [...firstRun, ...secondRun];
+}
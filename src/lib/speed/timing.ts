@@ -0,0 +1,147 @@
+import {
+  falseStartEliminates,
+  isFalseStartReaction,
+  type SpeedFalseStartRule,
+  type SpeedRunResult,
+} from "@/lib/speed/scoring";
+
+// Events from an electronic speed timing system, relayed to the judge pad by
+// the local bridge in `timing-bridge/` (protocol: docs/speed-timing-bridge.md).
+// Every message is one JSON object with `v: 1` and a `type`:
+//   start        start signal fired; `heat` is an optional label from the timer
+//   reaction     `lane` left the start pad `reactionMs` after the signal
+//   stop         `lane` hit the top pad `elapsedMs` after the signal
+//   false_start  the timer itself flagged `lane`
+//   reset        clear both lanes
+// Times are integers in milliseconds; a negative reaction means the athlete
+// moved before the signal.
+
+export const TIMING_PROTOCOL_VERSION = 1;
+
+export type TimingLane = "A" | "B";
+
+export type TimingEvent =
+  | { v: 1; type: "start"; heat?: string; atMs?: number }
+  | { v: 1; type: "reaction"; lane: TimingLane; reactionMs: number }
+  | { v: 1; type: "stop"; lane: TimingLane; elapsedMs: number }
+  | { v: 1; type: "false_start"; lane: TimingLane; reactionMs?: number }
+  | { v: 1; type: "reset" };
+
+export interface LaneReading {
+  reactionMs: number | null;
+  elapsedMs: number | null;
+  falseStart: boolean;
+}
+
+export interface TimingReadings {
+  heat: string | null;
+  startedAtMs: number | null;
+  A: LaneReading;
+  B: LaneReading;
+}
+
+const emptyLane = (): LaneReading => ({ reactionMs: null, elapsedMs: null, falseStart: false });
+
+export function emptyReadings(): TimingReadings {
+  return { heat: null, startedAtMs: null, A: emptyLane(), B: emptyLane() };
+}
+
+const isLane = (value: unknown): value is TimingLane => value === "A" || value === "B";
+const isMs = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+// Null for anything that is not a well-formed v1 event.
+export function parseTimingEvent(raw: unknown): TimingEvent | null {
+  let data = raw;
+  if (typeof raw === "string") {
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!data || typeof data !== "object") return null;
+  const event = data as Record<string, unknown>;
+  if (event.v !== TIMING_PROTOCOL_VERSION) return null;
+
+  switch (event.type) {
+    case "start":
+      return {
+        v: 1,
+        type: "start",
+        ...(typeof event.heat === "string" ? { heat: event.heat } : {}),
+        ...(isMs(event.atMs) ? { atMs: event.atMs } : {}),
+      };
+    case "reaction":
+      return isLane(event.lane) && isMs(event.reactionMs)
+        ? { v: 1, type: "reaction", lane: event.lane, reactionMs: Math.round(event.reactionMs) }
+        : null;
+    case "stop":
+      return isLane(event.lane) && isMs(event.elapsedMs) && event.elapsedMs > 0
+        ? { v: 1, type: "stop", lane: event.lane, elapsedMs: Math.round(event.elapsedMs) }
+        : null;
+    case "false_start":
+      return isLane(event.lane)
+        ? {
+            v: 1,
+            type: "false_start",
+            lane: event.lane,
+            ...(isMs(event.reactionMs) ? { reactionMs: Math.round(event.reactionMs) } : {}),
+          }
+        : null;
+    case "reset":
+      return { v: 1, type: "reset" };
+    default:
+      return null;
+  }
+}
+
+// Folds an event into the current readings. A start clears the previous heat.
+export function applyTimingEvent(
+  readings: TimingReadings,
+  event: TimingEvent,
+  falseStartThresholdMs: number
+): TimingReadings {
+  switch (event.type) {
+    case "start":
+      return { ...emptyReadings(), heat: event.heat ?? null, startedAtMs: event.atMs ?? Date.now() };
+    case "reset":
+      return emptyReadings();
+    case "reaction":
+      return {
+        ...readings,
+        [event.lane]: {
+          ...readings[event.lane],
+          reactionMs: event.reactionMs,
+          falseStart: readings[event.lane].falseStart || isFalseStartReaction(event.reactionMs, falseStartThresholdMs),
+        },
+      };
+    case "false_start":
+      return {
+        ...readings,
+        [event.lane]: {
+          ...readings[event.lane],
+          reactionMs: event.reactionMs ?? readings[event.lane].reactionMs,
+          falseStart: true,
+        },
+      };
+    case "stop":
+      return { ...readings, [event.lane]: { ...readings[event.lane], elapsedMs: event.elapsedMs } };
+  }
+}
+
+// The result a lane reading proposes, or null while the lane is still running.
+// Under TOLERANT a false start keeps the lane's time and is only flagged.
+export function laneResultFromReading(reading: LaneReading, rule: SpeedFalseStartRule): SpeedRunResult | null {
+  if (reading.falseStart && falseStartEliminates(rule)) {
+    return { status: "FS", ms: null, reactionMs: reading.reactionMs, falseStart: true };
+  }
+  if (reading.elapsedMs != null) {
+    return {
+      status: "TIME",
+      ms: reading.elapsedMs,
+      reactionMs: reading.reactionMs,
+      ...(reading.falseStart ? { falseStart: true } : {}),
+    };
+  }
+  return null;
+}
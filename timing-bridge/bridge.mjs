@@ -0,0 +1,130 @@
+// timing-bridge/bridge.mjs
+// Relays events from a speed timing system to judge pads on the same network.
+//
+//   node timing-bridge/bridge.mjs [--port 4555] [--stdin]
+//
+// The timer (or an adapter for it) POSTs v1 JSON events to /events, one object
+// per request or newline-delimited; with --stdin the bridge also reads
+// newline-delimited events from standard input, so a serial-port reader can be
+// piped in. Judge pads subscribe to GET /events as a server-sent event stream.
+// Protocol: docs/speed-timing-bridge.md
+import http from 'node:http';
+import readline from 'node:readline';
+
+const args = process.argv.slice(2);
+const argValue = (name, fallback) => {
+  const idx = args.indexOf(name);
+  return idx >= 0 && args[idx + 1] ? args[idx + 1] : fallback;
+};
+
+const PORT = Number(argValue('--port', process.env.TIMING_BRIDGE_PORT || 4555));
+const READ_STDIN = args.includes('--stdin');
+const EVENT_TYPES = ['start', 'reaction', 'stop', 'false_start', 'reset'];
+const HEARTBEAT_MS = 15000;
+
+const clients = new Set();
+
+function isEvent(event) {
+  return Boolean(event) && typeof event === 'object' && event.v === 1 && EVENT_TYPES.includes(event.type);
+}
+
+function broadcast(event) {
+  const frame = `data: ${JSON.stringify(event)}\n\n`;
+  for (const res of clients) res.write(frame);
+  console.log(`[bridge] ${event.type}${event.lane ? ` ${event.lane}` : ''} → ${clients.size} pad(s)`);
+}
+
+// Returns the number of events relayed; malformed lines are logged and skipped
+function relayLines(text) {
+  let count = 0;
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const event = JSON.parse(trimmed);
+      if (!isEvent(event)) throw new Error('not a v1 timing event');
+      broadcast(event);
+      count += 1;
+    } catch (err) {
+      console.warn(`[bridge] Skipped "${trimmed.slice(0, 80)}": ${err.message}`);
+    }
+  }
+  return count;
+}
+
+const server = http.createServer((req, res) => {
+  // Judge pads are served from another origin than the bridge
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (url.pathname === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: true, v: 1, pads: clients.size }));
+    return;
+  }
+
+  if (url.pathname === '/events' && req.method === 'GET') {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    clients.add(res);
+    console.log(`[bridge] Judge pad connected (${clients.size})`);
+    req.on('close', () => {
+      clients.delete(res);
+      console.log(`[bridge] Judge pad disconnected (${clients.size})`);
+    });
+    return;
+  }
+
+  if (url.pathname === '/events' && req.method === 'POST') {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > 64 * 1024) req.destroy();
+    });
+    req.on('end', () => {
+      const relayed = relayLines(body);
+      res.writeHead(relayed ? 202 : 400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(relayed ? { relayed } : { error: 'No valid v1 timing events' }));
+    });
+    return;
+  }
+
+  res.writeHead(404, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: 'Not found' }));
+});
+
+// Comments keep idle connections from being dropped by proxies and browsers
+const heartbeat = setInterval(() => {
+  for (const res of clients) res.write(': ping\n\n');
+}, HEARTBEAT_MS);
+
+server.listen(PORT, () => {
+  console.log(`[bridge] Listening on http://localhost:${PORT} (GET/POST /events)`);
+});
+
+if (READ_STDIN) {
+  const rl = readline.createInterface({ input: process.stdin });
+  rl.on('line', (line) => relayLines(line));
+  rl.on('close', () => console.log('[bridge] stdin closed; HTTP input still accepted'));
+}
+
+function shutdown() {
+  clearInterval(heartbeat);
+  for (const res of clients) res.end();
+  server.close(() => process.exit(0));
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
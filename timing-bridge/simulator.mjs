@@ -0,0 +1,72 @@
+// timing-bridge/simulator.mjs
+// Stands in for the timing hardware: runs heats and POSTs their events to the
+// bridge the way a real timer adapter would.
+//
+//   node timing-bridge/simulator.mjs [--bridge http://localhost:4555] [--heats 5] [--interval 8]
+//
+// Reaction times are mostly legal; roughly one lane in eight reacts early or
+// jumps the signal so false-start handling can be exercised.
+
+const args = process.argv.slice(2);
+const argValue = (name, fallback) => {
+  const idx = args.indexOf(name);
+  return idx >= 0 && args[idx + 1] ? args[idx + 1] : fallback;
+};
+
+const BRIDGE = argValue('--bridge', process.env.TIMING_BRIDGE_URL || 'http://localhost:4555');
+const HEATS = Number(argValue('--heats', 5));
+const INTERVAL_S = Number(argValue('--interval', 8));
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+const randomBetween = (min, max) => Math.round(min + Math.random() * (max - min));
+
+async function send(event) {
+  const res = await fetch(`${BRIDGE}/events`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ v: 1, ...event }),
+  });
+  if (!res.ok) throw new Error(`Bridge answered ${res.status}`);
+}
+
+function simulateLane() {
+  const early = Math.random() < 0.125;
+  return {
+    reactionMs: early ? randomBetween(-60, 95) : randomBetween(110, 320),
+    elapsedMs: randomBetween(5200, 9800),
+  };
+}
+
+async function runHeat(heat) {
+  const lanes = { A: simulateLane(), B: simulateLane() };
+  console.log(`[sim] Heat ${heat}: A ${lanes.A.reactionMs}/${lanes.A.elapsedMs} ms, B ${lanes.B.reactionMs}/${lanes.B.elapsedMs} ms`);
+  await send({ type: 'start', heat: String(heat), atMs: Date.now() });
+
+  // Events go out in the order they would happen on the wall
+  const timeline = ['A', 'B']
+    .flatMap((lane) => [
+      { at: Math.max(lanes[lane].reactionMs, 0), event: { type: 'reaction', lane, reactionMs: lanes[lane].reactionMs } },
+      { at: lanes[lane].elapsedMs, event: { type: 'stop', lane, elapsedMs: lanes[lane].elapsedMs } },
+    ])
+    .sort((a, b) => a.at - b.at);
+
+  let elapsed = 0;
+  for (const { at, event } of timeline) {
+    await sleep(at - elapsed);
+    elapsed = at;
+    await send(event);
+  }
+}
+
+async function main() {
+  for (let heat = 1; heat <= HEATS; heat += 1) {
+    await runHeat(heat);
+    if (heat < HEATS) await sleep(INTERVAL_S * 1000);
+  }
+  console.log('[sim] Done');
+}
+
+main().catch((err) => {
+  console.error('[sim] Failed:', err.message);
+  process.exit(1);
+});